@@ -1,24 +1,61 @@
 import db from "./db.server";
 import { randomBytes } from "node:crypto";
 import { sessionStorage } from "./shopify.server";
+import { convertedCheckoutsByEmail } from "./callRecovery.server";
 import { getShopPlan, hasSmsFeature } from "./lib/planFeatures.server";
-
-function requiredEnv(name: string) {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
-
-type Tone = "neutral" | "friendly" | "premium" | "urgent";
-type Goal = "complete_checkout" | "qualify_and_follow_up" | "support_only";
-type OfferRule = "ask_only" | "price_objection" | "after_first_objection" | "always";
-
-type PromptMode = "append" | "replace" | "default_only";
-function pickPromptMode(v: any): PromptMode {
-  const s = String(v ?? "").trim().toLowerCase();
-  if (s === "replace" || s === "default_only" || s === "append") return s as PromptMode;
-  return "replace";
-}
+import { callingCodeForCountry, normalizePhoneE164 } from "./lib/phone.shared";
+import { findActiveSuppression, suppressionOutcome } from "./lib/suppression.server";
+import { consentBlockReason, parseConsentCountries, parseConsentPolicy } from "./lib/consent.shared";
+import { FREQUENCY_CAPPED, parseContactCaps } from "./lib/contactCaps.shared";
+import { smsCapBlock } from "./lib/contactCaps.server";
+import {
+  RULE_DELAY,
+  RULE_SKIP,
+  RULE_SMS_ONLY,
+  buildRuleContext,
+  evaluateRules,
+  parseCallRules,
+  ruleDiscountCap,
+  ruleOutcome,
+  type RuleActionType,
+} from "./lib/rules.shared";
+import { getActivePromptTemplate } from "./lib/promptTemplates.server";
+import { shopLabelFromDomain } from "./lib/shopName.server";
+import {
+  DEFAULT_CALL_LANGUAGE,
+  callLanguageVoice,
+  detectCallLanguage,
+  makeSpeakableCode,
+  parseCallLanguages,
+  pickCallLanguage,
+  type CallLanguage,
+} from "./lib/callLanguage.shared";
+import { parsePersona, renderFirstMessage, type AgentPersona } from "./lib/persona.shared";
+import { checkOfferRequest, readOfferLimits, strictestOfferLimits } from "./lib/offerLimits.shared";
+import { cartProductRefs, lookupProduct, matchCartItem, productAnswer } from "./lib/productLookup.server";
+import { cleanUntrusted, looksLikeInjection } from "./lib/untrustedText.shared";
+import {
+  LOOKUP_PRODUCT_TOOL,
+  assembleCallPrompt,
+  pickGoal,
+  pickOfferRule,
+  pickPromptMode,
+  pickTone,
+  type CallPlaybook,
+  type CallPromptPreview,
+  type PromptMode,
+} from "./lib/callPrompt.shared";
+import { logEvent } from "./lib/eventLog.server";
+import { transitionCallJob } from "./lib/callJobState.server";
+import { getVoiceProvider, startCallWithFailover, voiceProvidersForShop } from "./lib/voiceProvider.server";
+import { readVapiToolCalls, vapiVoiceProvider } from "./lib/vapiVoice.server";
+import {
+  providerOutcome,
+  type StartCallRequest,
+  type VoiceProviderId,
+  type VoiceToolCall,
+  type VoiceToolResult,
+} from "./lib/voiceProvider.shared";
 
 type ExtrasRow = {
   tone: string | null;
@@ -45,6 +82,10 @@ type ExtrasRow = {
 
   vapi_assistant_id: string | null;
   vapi_phone_number_id: string | null;
+
+  consent_policy: string | null;
+  consent_countries: string | null;
+  contact_caps_json: string | null;
 };
 
 function clamp(n: number, min: number, max: number) {
@@ -53,26 +94,6 @@ function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, x));
 }
 
-function pickTone(v: any): Tone {
-  const s = String(v ?? "").trim().toLowerCase();
-  if (s === "friendly" || s === "premium" || s === "urgent" || s === "neutral") return s as Tone;
-  return "neutral";
-}
-
-function pickGoal(v: any): Goal {
-  const s = String(v ?? "").trim().toLowerCase();
-  if (s === "qualify_and_follow_up" || s === "support_only" || s === "complete_checkout") return s as Goal;
-  return "complete_checkout";
-}
-
-function pickOfferRule(v: any): OfferRule {
-  const s = String(v ?? "").trim().toLowerCase();
-  if (s === "price_objection" || s === "after_first_objection" || s === "always" || s === "ask_only") {
-    return s as OfferRule;
-  }
-  return "ask_only";
-}
-
 async function readSettingsExtras(shop: string): Promise<ExtrasRow | null> {
   const row: any = await db.settings.findUnique({ where: { shop } });
   if (!row) return null;
@@ -103,82 +124,11 @@ async function readSettingsExtras(shop: string): Promise<ExtrasRow | null> {
     vapi_phone_number_id: pick(row.vapi_phone_number_id, row.vapiPhoneNumberId) ?? null,
 
     brevoSmsSender: pick(row.brevoSmsSender, row.brevo_sms_sender) ?? null,
-  };
-}
-
-function toneGuidance(tone: Tone) {
-  if (tone === "friendly") return "Warm, helpful, human. Short sentences. Natural pacing.";
-  if (tone === "premium") return "Calm, confident, concierge-style. Precise language. No slang.";
-  if (tone === "urgent") return "Direct and efficient. Time-boxed. Clear next step. No rambling.";
-  return "Neutral, professional, helpful.";
-}
-
-function goalGuidance(goal: Goal) {
-  if (goal === "qualify_and_follow_up") {
-    return "Goal: qualify intent fast, then secure permission for follow-up if they will not complete now.";
-  }
-  if (goal === "support_only") {
-    return "Goal: support only. Do not offer discounts proactively unless asked.";
-  }
-  return "Goal: complete checkout on this call if possible.";
-}
 
-function offerGuidance(args: {
-  discountEnabled: boolean;
-  maxDiscountPercent: number;
-  offerRule: OfferRule;
-  minCartValueForDiscount: number | null;
-  couponPrefix: string | null;
-  couponValidityHours: number;
-  freeShippingEnabled: boolean;
-}) {
-  if (!args.discountEnabled && !args.freeShippingEnabled) return "Offers: no discounts and no free shipping offers allowed.";
-
-  const minCart =
-    args.minCartValueForDiscount == null
-      ? "No minimum cart value."
-      : `Only allow offers if cart total >= ${args.minCartValueForDiscount}.`;
-
-  const when =
-    args.offerRule === "always"
-      ? "Offer can be proactively mentioned once."
-      : args.offerRule === "after_first_objection"
-        ? "Offer only after the first objection."
-        : args.offerRule === "price_objection"
-          ? "Offer only if the objection is price/cost."
-          : "Offer only if the customer explicitly asks for a discount/coupon.";
-
-  const discount = args.discountEnabled
-    ? `Discount: allowed up to ${args.maxDiscountPercent}% max. Do NOT exceed. Coupon prefix: ${
-        args.couponPrefix ? args.couponPrefix : "none"
-      }. Coupon validity: ${args.couponValidityHours} hours.`
-    : "Discount: disabled.";
-
-  const ship = args.freeShippingEnabled
-    ? "Free shipping: allowed as alternative offer."
-    : "Free shipping: not allowed.";
-
-  return `Offers policy:
-- ${when}
-- ${minCart}
-- ${discount}
-- ${ship}`;
-}
-
-function followupGuidance(args: {
-  followupEmailEnabled: boolean;
-  followupSmsEnabled: boolean;
-  maxFollowupQuestions: number;
-}) {
-  const channels: string[] = [];
-  if (args.followupEmailEnabled) channels.push("email");
-  if (args.followupSmsEnabled) channels.push("sms");
-  const ch = channels.length ? channels.join(" + ") : "none";
-
-  return `Follow-up:
-- Allowed channels: ${ch}.
-- Ask at most ${args.maxFollowupQuestions} follow-up questions total.
-- If they decline, stop asking and end politely.`;
+    consent_policy: row.consentPolicy ?? null,
+    consent_countries: row.consentCountries ?? null,
+    contact_caps_json: row.contactCapsJson ?? null,
+  };
 }
 
 /* =========================
@@ -267,75 +217,12 @@ function isRecentIso(iso: any, maxAgeMs: number) {
   return Date.now() - ts <= maxAgeMs;
 }
 
-function digitWord(ch: string) {
-  switch (ch) {
-    case "0": return "Zero";
-    case "1": return "One";
-    case "2": return "Two";
-    case "3": return "Three";
-    case "4": return "Four";
-    case "5": return "Five";
-    case "6": return "Six";
-    case "7": return "Seven";
-    case "8": return "Eight";
-    case "9": return "Nine";
-    default: return ch;
-  }
-}
-
-function natoWord(ch: string) {
-  switch (String(ch).toUpperCase()) {
-    case "A": return "Alpha";
-    case "B": return "Bravo";
-    case "C": return "Charlie";
-    case "D": return "Delta";
-    case "E": return "Echo";
-    case "F": return "Foxtrot";
-    case "G": return "Golf";
-    case "H": return "Hotel";
-    case "I": return "India";
-    case "J": return "Juliett";
-    case "K": return "Kilo";
-    case "L": return "Lima";
-    case "M": return "Mike";
-    case "N": return "November";
-    case "O": return "Oscar";
-    case "P": return "Papa";
-    case "Q": return "Quebec";
-    case "R": return "Romeo";
-    case "S": return "Sierra";
-    case "T": return "Tango";
-    case "U": return "Uniform";
-    case "V": return "Victor";
-    case "W": return "Whiskey";
-    case "X": return "X-ray";
-    case "Y": return "Yankee";
-    case "Z": return "Zulu";
-    default: return ch;
-  }
-}
-
-function makeSpeakableCouponCode(code: string | null | undefined) {
-  const raw = String(code ?? "").trim().toUpperCase();
-  if (!raw) return null;
-
-  const parts = raw
-    .split("")
-    .filter(Boolean)
-    .map((ch) => {
-      if (/[A-Z]/.test(ch)) return natoWord(ch);
-      if (/[0-9]/.test(ch)) return digitWord(ch);
-      return ch;
-    });
-
-  return parts.length ? parts.join(" ... ") : null;
-}
-
 function buildToolSuccessResult(args: {
   messageId: string | null;
   offerType: "link_only" | "discount" | "free_shipping";
   code: string | null;
   discountPercent: number | null;
+  language: CallLanguage;
 }) {
   return JSON.stringify({
     ok: true,
@@ -343,7 +230,7 @@ function buildToolSuccessResult(args: {
     sms_message_id: args.messageId,
     offer_type: args.offerType,
     code: args.code,
-    code_speakable: makeSpeakableCouponCode(args.code),
+    code_speakable: makeSpeakableCode(args.code, args.language),
     discount_percent: args.discountPercent,
   });
 }
@@ -351,91 +238,6 @@ function buildToolSuccessResult(args: {
 /* =========================
    Country inference (from checkout.raw)
    ========================= */
-const ISO2_TO_CALLING_CODE: Record<string, string> = {
-  US: "1",
-  CA: "1",
-  GR: "30",
-  GB: "44",
-  IE: "353",
-  FR: "33",
-  DE: "49",
-  IT: "39",
-  ES: "34",
-  PT: "351",
-  NL: "31",
-  BE: "32",
-  LU: "352",
-  CH: "41",
-  AT: "43",
-  SE: "46",
-  NO: "47",
-  DK: "45",
-  FI: "358",
-  PL: "48",
-  CZ: "420",
-  SK: "421",
-  HU: "36",
-  RO: "40",
-  BG: "359",
-  HR: "385",
-  SI: "386",
-  RS: "381",
-  BA: "387",
-  ME: "382",
-  MK: "389",
-  AL: "355",
-  TR: "90",
-  CY: "357",
-  MT: "356",
-  IS: "354",
-  EE: "372",
-  LV: "371",
-  LT: "370",
-  UA: "380",
-  MD: "373",
-  IL: "972",
-  AE: "971",
-  SA: "966",
-  QA: "974",
-  KW: "965",
-  BH: "973",
-  OM: "968",
-  JO: "962",
-  LB: "961",
-  IQ: "964",
-  IR: "98",
-  ZA: "27",
-  EG: "20",
-  MA: "212",
-  TN: "216",
-  DZ: "213",
-  NG: "234",
-  KE: "254",
-  GH: "233",
-  AU: "61",
-  NZ: "64",
-  JP: "81",
-  KR: "82",
-  CN: "86",
-  IN: "91",
-  PK: "92",
-  BD: "880",
-  SG: "65",
-  MY: "60",
-  TH: "66",
-  VN: "84",
-  ID: "62",
-  PH: "63",
-  HK: "852",
-  TW: "886",
-  MX: "52",
-  BR: "55",
-  AR: "54",
-  CL: "56",
-  CO: "57",
-  PE: "51",
-};
-
 function inferIso2FromCheckoutRaw(checkoutRaw: string | null): string | null {
   const j = safeJsonParse(checkoutRaw);
   if (!j) return null;
@@ -471,47 +273,54 @@ function inferIso2FromCheckoutRaw(checkoutRaw: string | null): string | null {
 function inferCallingCodeFromCheckoutRaw(checkoutRaw: string | null): string | null {
   const iso2 = inferIso2FromCheckoutRaw(checkoutRaw);
   if (!iso2) return null;
-  return ISO2_TO_CALLING_CODE[iso2] ?? null;
+  return callingCodeForCountry(iso2);
 }
 
-/* =========================
-   Phone normalization (E.164)
-   ========================= */
-function normalizePhoneE164(raw: any, defaultCallingCode?: string | null): string | null {
-  const input = String(raw ?? "").trim();
-  if (!input) return null;
-
-  let s = input.replace(/^tel:/i, "").trim();
-
-  if (s.startsWith("00")) s = "+" + s.slice(2);
-  if (s.startsWith("011")) s = "+" + s.slice(3);
-
-  const hasPlus = s.startsWith("+");
-  const digits = s.replace(/\D/g, "");
-  if (!digits) return null;
-
-  if (hasPlus) {
-    if (digits.length < 8 || digits.length > 15) return null;
-    return "+" + digits;
-  }
-
-  if (digits.length >= 8 && digits.length <= 15) {
-    if (defaultCallingCode && digits.startsWith(defaultCallingCode)) return "+" + digits;
-    if (digits.length >= 11) return "+" + digits;
-  }
-
-  if (!defaultCallingCode) return null;
+/** NO_SMS_CONSENT when the shop's consent policy blocks SMS to this checkout, otherwise null. */
+function smsConsentBlock(extras: ExtrasRow | null, checkout: any) {
+  return consentBlockReason({
+    policy: parseConsentPolicy(extras?.consent_policy),
+    countries: parseConsentCountries(extras?.consent_countries),
+    iso2: inferIso2FromCheckoutRaw(checkout?.raw ?? null),
+    consent: { marketingConsent: checkout?.marketingConsent ?? null, smsConsent: checkout?.smsConsent ?? null },
+    channel: "sms",
+  });
+}
 
-  let national = digits;
-  const keepLeadingZeroCallingCodes = new Set(["39"]);
-  if (national.startsWith("0") && !keepLeadingZeroCallingCodes.has(defaultCallingCode)) {
-    national = national.replace(/^0+/, "");
-    if (!national) return null;
-  }
+/**
+ * Consent policy, then SMS frequency cap, for a text sent outside the offer tool (/api/sms).
+ * Returns why the SMS may not go out, or null.
+ */
+export async function smsSendBlock(params: { shop: string; checkout: any; phone: string | null }) {
+  const extras = await readSettingsExtras(params.shop);
+  return (
+    smsConsentBlock(extras, params.checkout) ||
+    (await smsCapBlock({
+      shop: params.shop,
+      cap: parseContactCaps(extras?.contact_caps_json).sms,
+      checkout: params.checkout,
+      jobPhone: params.phone,
+    }))
+  );
+}
 
-  const full = defaultCallingCode + national;
-  if (full.length < 8 || full.length > 15) return null;
-  return "+" + full;
+/** Stamps offer.smsSentAt on the call job so later cap checks count this SMS. */
+export async function recordSmsSent(params: { callJobId: string; messageId: string | null }) {
+  const job = await db.callJob.findUnique({ where: { id: params.callJobId }, select: { analysisJson: true } });
+  if (!job) return;
+  const prevOffer = safeJsonParse(job.analysisJson ?? null)?.offer;
+  await db.callJob.update({
+    where: { id: params.callJobId },
+    data: {
+      analysisJson: mergeAnalysisJson(job.analysisJson ?? null, {
+        offer: {
+          ...(prevOffer && typeof prevOffer === "object" ? prevOffer : {}),
+          smsSentAt: new Date().toISOString(),
+          smsMessageSid: params.messageId,
+        },
+      }),
+    },
+  });
 }
 
 /* =========================
@@ -904,8 +713,8 @@ async function fetchAbandonedCheckoutByGid(shop: string, accessToken: string, gi
           billingAddress { countryCodeV2 country }
           customer { firstName lastName email phone defaultAddress { countryCodeV2 country } }
           lineItems(first: 10) {
-            edges { node { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } } }
-            nodes { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } }
+            edges { node { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } product { id } variant { id } } }
+            nodes { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } product { id } variant { id } }
           }
         }
       }
@@ -933,8 +742,8 @@ async function fetchAbandonedCheckoutByGid(shop: string, accessToken: string, gi
             billingAddress { countryCodeV2 country }
             customer { firstName lastName email phone defaultAddress { countryCodeV2 country } }
             lineItems(first: 10) {
-              edges { node { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } } }
-              nodes { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } }
+              edges { node { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } product { id } variant { id } } }
+              nodes { title quantity variantTitle originalUnitPriceSet { shopMoney { amount currencyCode } } product { id } variant { id } }
             }
           }
         }
@@ -1046,265 +855,6 @@ async function backfillCheckoutFromShopify(shop: string, checkoutIdKey: string):
   return false;
 }
 
-/* =========================
-   Prompt builder
-   ========================= */
-function buildFactsBlock(args: {
-  attemptNumber: number;
-  previousMemory?: string | null;
-  checkout: {
-    checkoutId: string;
-    customerName?: string | null;
-    email?: string | null;
-    phone?: string | null;
-    value: number;
-    currency: string;
-    itemsJson?: string | null;
-  };
-  playbook: {
-    tone: Tone;
-    goal: Goal;
-    maxCallSeconds: number;
-    maxFollowupQuestions: number;
-    discountEnabled: boolean;
-    maxDiscountPercent: number;
-    offerRule: OfferRule;
-    minCartValueForDiscount: number | null;
-    couponPrefix: string | null;
-    couponValidityHours: number;
-    freeShippingEnabled: boolean;
-    followupEmailEnabled: boolean;
-    followupSmsEnabled: boolean;
-  };
-}) {
-  const { checkout, playbook } = args;
-
-  const items = (() => {
-    try {
-      const arr = checkout.itemsJson ? JSON.parse(checkout.itemsJson) : [];
-      if (!Array.isArray(arr)) return [];
-      return arr.slice(0, 10);
-    } catch {
-      return [];
-    }
-  })();
-
-  const cartText =
-    items.length === 0
-      ? "No cart items available."
-      : items.map((it: any) => `- ${it?.title ?? "Item"} x${Number(it?.quantity ?? 1)}`).join("\n");
-
-  const memory = String(args.previousMemory ?? "").trim();
-
-  const lines: string[] = [];
-  lines.push(`CALL FACTS`);
-  lines.push(`attempt_number: ${Number(args.attemptNumber ?? 1)}`);
-  lines.push(`checkout_id: ${checkout.checkoutId}`);
-  lines.push(`customer_name: ${checkout.customerName ?? "-"}`);
-  lines.push(`email: ${checkout.email ?? "-"}`);
-  lines.push(`phone_e164: ${checkout.phone ?? "-"}`);
-  lines.push(`cart_total: ${checkout.value} ${checkout.currency}`);
-  lines.push(`cart_items:\n${cartText}`);
-
-  lines.push(`\nCONFIGURED SETTINGS`);
-  lines.push(`tone: ${playbook.tone}`);
-  lines.push(`goal: ${playbook.goal}`);
-  lines.push(`max_call_seconds: ${playbook.maxCallSeconds}`);
-  lines.push(`max_followup_questions: ${playbook.maxFollowupQuestions}`);
-  lines.push(`discount_enabled: ${playbook.discountEnabled}`);
-  lines.push(`max_discount_percent: ${playbook.maxDiscountPercent}`);
-  lines.push(`offer_rule: ${playbook.offerRule}`);
-  lines.push(`min_cart_value_for_discount: ${playbook.minCartValueForDiscount ?? "none"}`);
-  lines.push(`coupon_prefix: ${playbook.couponPrefix ?? "none"}`);
-  lines.push(`coupon_validity_hours: ${playbook.couponValidityHours}`);
-  lines.push(`free_shipping_enabled: ${playbook.freeShippingEnabled}`);
-  lines.push(`followup_email_enabled: ${playbook.followupEmailEnabled}`);
-  lines.push(`followup_sms_enabled: ${playbook.followupSmsEnabled}`);
-
-  if (memory) {
-    lines.push(`\nPREVIOUS CALL MEMORY`);
-    lines.push(memory);
-  }
-
-  return trunc(lines.join("\n"), 1800);
-}
-
-function buildSystemPrompt(args: {
-  merchantPrompt?: string | null;
-  promptMode?: PromptMode;
-  attemptNumber?: number;
-  previousMemory?: string | null;
-  smsEnabled?: boolean;
-  offer?: {
-    checkoutLink: string | null;
-    offerCode: string | null;
-    discountPercent: number | null;
-    couponValidityHours: number;
-  };
-  checkout: {
-    checkoutId: string;
-    customerName?: string | null;
-    email?: string | null;
-    phone?: string | null;
-    value: number;
-    currency: string;
-    itemsJson?: string | null;
-  };
-  playbook: {
-    tone: Tone;
-    goal: Goal;
-    maxCallSeconds: number;
-    maxFollowupQuestions: number;
-    discountEnabled: boolean;
-    maxDiscountPercent: number;
-    offerRule: OfferRule;
-    minCartValueForDiscount: number | null;
-    couponPrefix: string | null;
-    couponValidityHours: number;
-    freeShippingEnabled: boolean;
-    followupEmailEnabled: boolean;
-    followupSmsEnabled: boolean;
-  };
-}) {
-  const { merchantPrompt, checkout, playbook } = args;
-
-  const mode = pickPromptMode(args.promptMode ?? "replace");
-  const merchant = mode === "default_only" ? "" : String(merchantPrompt ?? "").trim();
-
-  const items = (() => {
-    try {
-      const arr = checkout.itemsJson ? JSON.parse(checkout.itemsJson) : [];
-      if (!Array.isArray(arr)) return [];
-      return arr.slice(0, 10);
-    } catch {
-      return [];
-    }
-  })();
-
-  const cartText =
-    items.length === 0
-      ? "No cart items available."
-      : items.map((it: any) => `- ${it?.title ?? "Item"} x${Number(it?.quantity ?? 1)}`).join("\n");
-
-  const attemptN = Number(args.attemptNumber ?? 1);
-  const memory = (args.previousMemory ?? "").trim();
-
-  const memoryBlock = memory
-    ? `
-Previous call memory (ground truth, do not contradict):
-${memory}
-
-Memory rules:
-- Continue from the customer's last intent or objection.
-- If memory is unclear, ask one confirmation question max, then proceed.
-`.trim()
-    : "";
-
-  const offer = args.offer;
-  const checkoutLink = offer?.checkoutLink ? offer.checkoutLink : null;
-  const offerCode = offer?.offerCode ? offer.offerCode : null;
-  const discountPercent = offer?.discountPercent ?? null;
-  const validityHours = offer?.couponValidityHours ?? playbook.couponValidityHours;
-
-  const merchantBlock =
-    mode === "append" && merchant
-      ? `
-MERCHANT INSTRUCTIONS (HIGH PRIORITY)
-You MUST follow these instructions exactly.
-- If they conflict with the "Hard rules" section, follow Hard rules.
-- Otherwise, these instructions override tone and playbook defaults.
-
-${merchant}
-`.trim()
-      : "";
-
-  const smsBlock =
-    args.smsEnabled && checkout.phone
-      ? `
-SMS / OFFER TOOL (tool use):
-- Tool name: send_checkout_offer
-- Call it exactly ONCE only after the customer accepts the next step.
-- Immediately before the tool call, say exactly: "I'll send that by text right now."
-- Do not mention SMS, text message, or sending anything by phone unless SMS is actually enabled in this prompt.
-- Do not promise that any code or message was sent until the tool succeeds.
-- After a successful tool result, confirm briefly that the text was sent.
-- If the tool result includes code, speak the coupon code slowly and clearly.
-- Always spell the coupon code character by character using the provided speakable form when available.
-- For letters, use NATO-style words. For digits, say each digit separately.
-- Never rush the code. Pause slightly between characters.
-- Never read CHECKOUT_LINK aloud.
-- Never spell domains, query parameters, or URL characters aloud.
-- You may choose the final offer during the conversation, but you must stay within the configured limits.
-- If you choose a discount, pass the exact discountPercent you decided on. Do not exceed the configured maximum.
-`.trim()
-      : "";
-
-  const base = `
-You are the merchant's AI phone agent. Your job: recover an abandoned checkout politely and efficiently.
-${attemptN > 1 ? `This is a follow-up attempt (#${attemptN}).` : "This is the first attempt."}
-
-Hard rules:
-- Confirm identity and ask if it's a good time.
-- Keep it short. Target a maximum call length of ~${playbook.maxCallSeconds} seconds.
-- Do not be pushy. If not interested, end politely.
-- Never invent policies, discounts, coupon codes, or links. Use only what is provided below.
-- Never read, spell, or repeat the checkout URL aloud.
-- Never spell domains, query strings, or recovery-link characters aloud.
-- Do not restate the cart total unless the customer directly asks.
-- When a discount is allowed, propose one specific percentage. Do not ask the customer to choose a percentage.
-- Only mention SMS/text if SMS is enabled in this prompt.
-- If you are about to send the SMS, say exactly: "I'll send that by text right now."
-- After the tool succeeds, confirm briefly that the text was sent.
-- If a coupon code exists, say it slowly and clearly, character by character.
-- Prefer the tool-provided speakable code format when available.
-- Once the customer confirms the SMS arrived or says they will use it, close the call politely in one short sentence.
-
-${memoryBlock ? `\n\n${memoryBlock}\n` : ""}
-
-${merchantBlock ? `\n\n${merchantBlock}\n` : ""}
-
-Playbook:
-- Tone: ${playbook.tone}. ${toneGuidance(playbook.tone)}
-- ${goalGuidance(playbook.goal)}
-- ${offerGuidance({
-    discountEnabled: playbook.discountEnabled,
-    maxDiscountPercent: playbook.maxDiscountPercent,
-    offerRule: playbook.offerRule,
-    minCartValueForDiscount: playbook.minCartValueForDiscount,
-    couponPrefix: playbook.couponPrefix,
-    couponValidityHours: playbook.couponValidityHours,
-    freeShippingEnabled: playbook.freeShippingEnabled,
-  })}
-- ${followupGuidance({
-    followupEmailEnabled: playbook.followupEmailEnabled,
-    followupSmsEnabled: playbook.followupSmsEnabled,
-    maxFollowupQuestions: playbook.maxFollowupQuestions,
-  })}
-${smsBlock ? `\n\n${smsBlock}\n` : ""}
-
-Context:
-- checkoutId: ${checkout.checkoutId}
-- customerName: ${checkout.customerName ?? "-"}
-- email: ${checkout.email ?? "-"}
-- phone_e164: ${checkout.phone ?? "-"}
-- cartTotal: ${checkout.value} ${checkout.currency}
-- cartItems:
-${cartText}
-
-Offer context (use these exact fields):
-- CHECKOUT_LINK: ${checkoutLink ?? "-"}
-- OFFER_CODE: ${offerCode ?? "-"}
-- PERCENT: ${discountPercent == null ? "-" : String(Math.floor(Number(discountPercent) || 0))}
-- VALIDITY_HOURS: ${String(Math.floor(Number(validityHours) || 24))}
-`.trim();
-
-  if (mode === "replace" && merchant) {
-    return `${merchant}\n\n${base}`.trim();
-  }
-
-  return base;
-}
-
 /* =========================
    Brevo Transactional SMS
    ========================= */
@@ -1464,57 +1014,127 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
     });
   }
 
-  const msg = payload?.message ?? payload ?? {};
-  const messageType = String(msg?.type ?? msg?.messageType ?? msg?.event ?? "").trim();
+  const { messageType, ref, toolCalls } = readVapiToolCalls(payload);
 
-  const toolCalls: Array<{ id: string; name: string; arguments: any }> = [];
-
-  for (const tc of Array.isArray(msg?.toolCallList) ? msg.toolCallList : []) {
-    toolCalls.push({
-      id: String(tc?.id ?? "").trim(),
-      name: String(tc?.name ?? "").trim(),
-      arguments: tc?.arguments ?? tc?.parameters ?? {},
+  if (messageType && messageType !== "tool-calls") {
+    return new Response(JSON.stringify({ ok: true, ignored: messageType }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
     });
   }
 
-  for (const tc of Array.isArray(msg?.toolCalls) ? msg.toolCalls : []) {
-    const fn = tc?.function ?? {};
-    toolCalls.push({
-      id: String(tc?.id ?? "").trim(),
-      name: String(tc?.name ?? fn?.name ?? "").trim(),
-      arguments: tc?.arguments ?? fn?.arguments ?? tc?.parameters ?? {},
+  const results = await runCallTools({ shop: ref.shop, callJobId: ref.callJobId, toolCalls });
+  return vapiVoiceProvider.toolCallsResponse(results);
+}
+
+/* =========================
+   lookup_product tool
+   ========================= */
+const MAX_RECORDED_PRODUCT_LOOKUPS = 20;
+// What the model hears when the lookup itself fails; the real error only goes to the event log.
+const PRODUCT_LOOKUP_UNAVAILABLE = "Product details are unavailable right now. Answer from the cart contents only.";
+
+/** Product facts for a cart item; every lookup is recorded on the job (analysisJson.productLookups). */
+async function runLookupProductTool(params: {
+  shop: string;
+  callJobId: string;
+  toolCall: VoiceToolCall;
+}): Promise<VoiceToolResult> {
+  const { shop, callJobId, toolCall: tc } = params;
+  const args: any = (() => {
+    const raw = tc.arguments;
+    if (typeof raw !== "string") return raw && typeof raw === "object" ? raw : {};
+    return safeJsonParse(raw) ?? {};
+  })();
+  const item = String(args?.item ?? "").trim().slice(0, 200);
+  const variant = String(args?.variant ?? "").trim().slice(0, 80) || null;
+
+  const fail = async (message: string, error: string) => {
+    await logEvent({
+      shop,
+      callJobId: callJobId || null,
+      level: "warn",
+      code: "TOOL_CALL",
+      message: `lookup_product failed: ${message}`,
+      details: { toolCallId: tc.id, arguments: tc.arguments ?? null },
     });
-  }
+    return { name: tc.name, toolCallId: tc.id, error };
+  };
 
-  for (const x of Array.isArray(msg?.toolWithToolCallList) ? msg.toolWithToolCallList : []) {
-    const tc = x?.toolCall ?? {};
-    const fn = tc?.function ?? {};
-    toolCalls.push({
-      id: String(tc?.id ?? "").trim(),
-      name: String(x?.name ?? tc?.name ?? fn?.name ?? "").trim(),
-      arguments: tc?.arguments ?? fn?.arguments ?? tc?.parameters ?? {},
+  try {
+    if (!shop) throw new Error("Missing shop in metadata.");
+    if (!callJobId) throw new Error("Missing callJobId in metadata.");
+
+    const job = await db.callJob.findFirst({ where: { id: callJobId, shop } });
+    if (!job) throw new Error("CallJob not found.");
+    const checkout = await db.checkout.findFirst({ where: { shop, checkoutId: job.checkoutId } });
+    if (!checkout) throw new Error("Checkout not found.");
+
+    const refs = cartProductRefs(checkout.raw, checkout.itemsJson);
+    const ref = matchCartItem(refs, item);
+    if (!ref) {
+      const titles = refs.map((r) => r.title).join(", ") || "none";
+      const error = `No cart item matches "${cleanUntrusted(item, 80)}". Cart items: ${cleanUntrusted(titles, 400)}.`;
+      return fail(error, error);
+    }
+
+    const accessToken = await getOfflineAccessToken(shop);
+    const { facts, cached } = await lookupProduct({
+      shop,
+      ref,
+      query: (query, variables) => shopifyGraphql(shop, accessToken, query, variables),
     });
-  }
+    if (!facts) {
+      const error = `"${cleanUntrusted(ref.title, 120)}" is no longer in the store's catalog.`;
+      return fail(error, error);
+    }
 
-  if (messageType && messageType !== "tool-calls") {
-    return new Response(JSON.stringify({ ok: true, ignored: messageType }), {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
+    const answer = productAnswer({ facts, ref, variant, currency: checkout.currency });
+
+    // Re-read: an offer tool call may have updated analysisJson since the job was loaded.
+    const latest = await db.callJob.findUnique({ where: { id: job.id }, select: { analysisJson: true } });
+    const prev = readAnalysisJsonObject(latest?.analysisJson ?? null).productLookups;
+    const lookups = [
+      ...(Array.isArray(prev) ? prev : []),
+      {
+        toolCallId: tc.id,
+        item,
+        variant,
+        productId: facts.productId,
+        product: facts.title,
+        summary: answer.summary.slice(0, 500),
+        cached,
+        at: new Date().toISOString(),
+      },
+    ].slice(-MAX_RECORDED_PRODUCT_LOOKUPS);
+    await db.callJob.update({
+      where: { id: job.id },
+      data: { analysisJson: mergeAnalysisJson(latest?.analysisJson ?? null, { productLookups: lookups }) },
     });
-  }
 
-  const call = msg?.call ?? payload?.call ?? null;
-  const meta =
-    call?.assistant?.metadata ||
-    call?.assistant?.assistant?.metadata ||
-    call?.metadata ||
-    payload?.assistant?.metadata ||
-    null;
+    await logEvent({
+      shop,
+      checkoutId: job.checkoutId,
+      callJobId: job.id,
+      code: "TOOL_CALL",
+      message: `lookup_product: ${facts.title}${variant ? ` (${variant})` : ""}`,
+      details: { toolCallId: tc.id, productId: facts.productId, cached },
+    });
 
-  const shop = String(meta?.shop ?? payload?.shop ?? "").trim();
-  const callJobId = String(meta?.callJobId ?? payload?.callJobId ?? "").trim();
+    return { name: tc.name, toolCallId: tc.id, result: JSON.stringify(answer) };
+  } catch (e: any) {
+    return fail(String(e?.message ?? e), PRODUCT_LOOKUP_UNAVAILABLE);
+  }
+}
 
-  const results: Array<{ name: string; toolCallId: string; result?: string; error?: string }> = [];
+/** Run the agent's tool calls for a job (provider-agnostic; each adapter formats the results). */
+export async function runCallTools(params: {
+  shop: string;
+  callJobId: string;
+  toolCalls: VoiceToolCall[];
+}): Promise<VoiceToolResult[]> {
+  const { shop, callJobId, toolCalls } = params;
+  const results: VoiceToolResult[] = [];
 
   function parseArgs(raw: any) {
     if (!raw) return {};
@@ -1532,6 +1152,11 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
   for (const tc of toolCalls.filter((x) => x.id && x.name)) {
     const toolName = String(tc.name).trim();
 
+    if (toolName === LOOKUP_PRODUCT_TOOL.name) {
+      results.push(await runLookupProductTool({ shop, callJobId, toolCall: tc }));
+      continue;
+    }
+
     if (toolName !== "send_checkout_offer" && toolName !== "send_checkout_sms") {
       results.push({
         name: toolName,
@@ -1583,6 +1208,8 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
       }
 
       const existingAnalysis = readAnalysisJsonObject(job.analysisJson ?? null);
+      // Set when the call started; codes are spoken in the call's language.
+      const callLanguage = pickCallLanguage(existingAnalysis?.language?.code) ?? DEFAULT_CALL_LANGUAGE;
       const existingOffer =
         existingAnalysis?.offer && typeof existingAnalysis.offer === "object"
           ? existingAnalysis.offer
@@ -1614,6 +1241,7 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
           code: String(existingOffer.offerCode ?? "").trim() || null,
           discountPercent:
             existingOffer.discountPercent == null ? null : Number(existingOffer.discountPercent),
+          language: callLanguage,
         });
 
         setRecentToolResult(cacheKey, reused);
@@ -1634,10 +1262,12 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
       if (!checkout) throw new Error("Checkout not found.");
 
       const extras = await readSettingsExtras(shop);
+      // Cap from the rule matched when the call started (snapshot, so mid-call rule edits don't apply).
+      const ruleCap = ruleDiscountCap(existingAnalysis);
 
       const playbook = {
         discountEnabled: Boolean(extras?.discount_enabled ?? false),
-        maxDiscountPercent: clamp(Number(extras?.max_discount_percent ?? 10), 0, 50),
+        maxDiscountPercent: Math.min(clamp(Number(extras?.max_discount_percent ?? 10), 0, 50), ruleCap ?? 50),
         minCartValueForDiscount:
           extras?.min_cart_value_for_discount == null ? null : Number(extras.min_cart_value_for_discount),
         couponPrefix: (extras?.coupon_prefix ?? "").trim() ? String(extras?.coupon_prefix).trim() : null,
@@ -1648,6 +1278,52 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
 
       if (!playbook.followupSmsEnabled) throw new Error("SMS follow-up is disabled for this shop.");
 
+      // Every limit is enforced here, whatever the model asked for or the prompt was talked into.
+      const limits = strictestOfferLimits(
+        {
+          smsTool: true,
+          discountEnabled: playbook.discountEnabled,
+          maxDiscountPercent: playbook.maxDiscountPercent,
+          freeShippingEnabled: playbook.freeShippingEnabled,
+          minCartValueForDiscount: playbook.minCartValueForDiscount,
+        },
+        readOfferLimits(existingOffer?.limits)
+      );
+      const decision = checkOfferRequest({
+        offerType: requestedType,
+        discountPercent: args?.discountPercent,
+        limits,
+        cartValue: Number(checkout.value),
+        issued: existingOffer
+          ? {
+              offerType: existingOffer.offerType ?? null,
+              offerCode: String(existingOffer.offerCode ?? "").trim() || null,
+            }
+          : null,
+      });
+      if (!decision.ok) throw new Error(decision.error);
+
+      const noSmsConsent = smsConsentBlock(extras, checkout);
+      if (noSmsConsent) throw new Error(`${noSmsConsent}: customer has not consented to SMS marketing.`);
+
+      const smsCapped = await smsCapBlock({
+        shop,
+        cap: parseContactCaps(extras?.contact_caps_json).sms,
+        checkout,
+        jobPhone: job.phone,
+      });
+      if (smsCapped) {
+        await db.callJob.update({
+          where: { id: job.id },
+          data: {
+            analysisJson: mergeAnalysisJson(job.analysisJson ?? null, {
+              smsSkipped: { reason: FREQUENCY_CAPPED, detail: smsCapped, at: new Date().toISOString() },
+            }),
+          },
+        });
+        throw new Error(`${smsCapped}. No SMS was sent.`);
+      }
+
       const recoveryUrl = extractRecoveryUrlFromCheckoutRaw(checkout.raw);
       if (!recoveryUrl) throw new Error("Missing recovery checkout URL.");
 
@@ -1656,10 +1332,13 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
       const to = String(job.phone ?? "").trim();
       if (!to || !to.startsWith("+")) throw new Error("Missing/invalid E.164 recipient on CallJob.");
 
+      // Simulated calls go through every check above but create no Shopify code and send no text.
+      const simulated = job.provider === "sim";
+
       const brevoKey = pickBrevoApiKey();
       const smsSender = resolveBrevoSender(extras);
       const hasSmsTransport = Boolean(brevoKey && smsSender);
-      if (!hasSmsTransport) throw new Error("SMS transport is not configured (Brevo).");
+      if (!hasSmsTransport && !simulated) throw new Error("SMS transport is not configured (Brevo).");
 
       let finalType: "link_only" | "discount" | "free_shipping" = "link_only";
       let finalDiscountPercent: number | null = null;
@@ -1668,24 +1347,12 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
       let offerCreateError: string | null = null;
       let discountLink: string = compactLink;
 
-      if (requestedType === "discount") {
-        if (!playbook.discountEnabled) throw new Error("Discounts are disabled for this shop.");
-
-        if (
-          playbook.minCartValueForDiscount != null &&
-          Number(checkout.value) < Number(playbook.minCartValueForDiscount)
-        ) {
-          throw new Error("Cart total does not meet the minimum value for discount.");
-        }
-
-        if (!Number.isFinite(requestedDiscountPercent) || requestedDiscountPercent <= 0) {
-          throw new Error("A positive discountPercent is required.");
-        }
-
-        if (requestedDiscountPercent > playbook.maxDiscountPercent) {
-          throw new Error(`Requested discountPercent exceeds the max of ${playbook.maxDiscountPercent}.`);
-        }
-
+      if (simulated && decision.offerType !== "link_only") {
+        offerCode = makeUniqueCode({ prefix: "SIM" });
+        finalType = decision.offerType;
+        finalDiscountPercent = decision.discountPercent;
+      } else if (decision.offerType === "discount" && decision.discountPercent != null) {
+        const percent = decision.discountPercent;
         try {
           const accessToken = await getOfflineAccessToken(shop);
           const customerGid = await findCustomerGidByEmail(shop, accessToken, checkout.email);
@@ -1701,11 +1368,11 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
                 shop,
                 accessToken,
                 code: candidate,
-                percent: requestedDiscountPercent,
+                percent,
                 startsAt: new Date().toISOString(),
                 endsAt: hoursFromNowIso(playbook.couponValidityHours),
                 customerGid,
-                minSubtotal: playbook.minCartValueForDiscount,
+                minSubtotal: limits.minCartValueForDiscount,
               });
               break;
             } catch (e: any) {
@@ -1720,23 +1387,14 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
 
           offerCode = created.createdCode ?? candidate;
           discountNodeId = created.nodeId;
-          finalDiscountPercent = requestedDiscountPercent;
+          finalDiscountPercent = percent;
           finalType = "discount";
           discountLink = compactLink;
         } catch (e: any) {
           offerCreateError = String(e?.message ?? e);
           throw new Error(`Could not create Shopify discount code: ${offerCreateError}`);
         }
-      } else if (requestedType === "free_shipping") {
-        if (!playbook.freeShippingEnabled) throw new Error("Free shipping offers are disabled for this shop.");
-
-        if (
-          playbook.minCartValueForDiscount != null &&
-          Number(checkout.value) < Number(playbook.minCartValueForDiscount)
-        ) {
-          throw new Error("Cart total does not meet the minimum value for offer.");
-        }
-
+      } else if (decision.offerType === "free_shipping") {
         try {
           const accessToken = await getOfflineAccessToken(shop);
           const customerGid = await findCustomerGidByEmail(shop, accessToken, checkout.email);
@@ -1755,7 +1413,7 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
                 startsAt: new Date().toISOString(),
                 endsAt: hoursFromNowIso(playbook.couponValidityHours),
                 customerGid,
-                minSubtotal: playbook.minCartValueForDiscount,
+                minSubtotal: limits.minCartValueForDiscount,
               });
               break;
             } catch (e: any) {
@@ -1802,14 +1460,16 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
         hasOffer: Boolean(offerCode),
       });
 
-      const br = await brevoSendSms({
-        toE164: to,
-        body: smsText,
-        sender: smsSender,
-        type: process.env.BREVO_SMS_TYPE ?? "transactional",
-        tag: process.env.BREVO_SMS_TAG ?? "checkout-recovery",
-        organisationPrefix: process.env.BREVO_SMS_ORGANISATION_PREFIX ?? null,
-      });
+      const br = simulated
+        ? { messageId: `sim_${tc.id}` }
+        : await brevoSendSms({
+            toE164: to,
+            body: smsText,
+            sender: smsSender,
+            type: process.env.BREVO_SMS_TYPE ?? "transactional",
+            tag: process.env.BREVO_SMS_TAG ?? "checkout-recovery",
+            organisationPrefix: process.env.BREVO_SMS_ORGANISATION_PREFIX ?? null,
+          });
 
       const messageId = String(br?.messageId ?? "").trim() || null;
 
@@ -1818,6 +1478,7 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
         offerType: finalType,
         code: offerCode ?? null,
         discountPercent: finalDiscountPercent,
+        language: callLanguage,
       });
 
       await db.callJob.update({
@@ -1830,7 +1491,7 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
               discountLink,
               offerType: finalType,
               offerCode,
-              offerCodeSpeakable: makeSpeakableCouponCode(offerCode),
+              offerCodeSpeakable: makeSpeakableCode(offerCode, callLanguage),
               discountPercent: finalDiscountPercent,
               couponValidityHours: playbook.couponValidityHours,
               shopifyDiscountNodeId: discountNodeId,
@@ -1845,6 +1506,7 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
               lastToolCallId: tc.id,
               lastRequestedType: requestedType,
               lastResult: safeJsonParse(successResult) ?? null,
+              simulated,
             },
           }),
         },
@@ -1852,12 +1514,34 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
 
       setRecentToolResult(cacheKey, successResult);
 
+      const event = { shop, checkoutId: job.checkoutId, callJobId: job.id };
+      await logEvent({
+        ...event,
+        code: "TOOL_CALL",
+        message: `${toolName}: ${finalType}`,
+        details: { toolCallId: tc.id, requestedType, offerCode, discountPercent: finalDiscountPercent },
+      });
+      await logEvent({
+        ...event,
+        code: "SMS_SENT",
+        message: simulated ? "Checkout link (simulated call, not sent)" : "Checkout link sent during call",
+        details: { messageId, offerCode, simulated },
+      });
+
       results.push({
         name: toolName,
         toolCallId: tc.id,
         result: successResult,
       });
     } catch (e: any) {
+      await logEvent({
+        shop,
+        callJobId: callJobId || null,
+        level: "warn",
+        code: "TOOL_CALL",
+        message: `${toolName} failed: ${String(e?.message ?? e)}`,
+        details: { toolCallId: tc.id, arguments: tc.arguments ?? null },
+      });
       results.push({
         name: toolName,
         toolCallId: tc.id,
@@ -1866,64 +1550,64 @@ export async function handleVapiToolsWebhook(request: Request): Promise<Response
     }
   }
 
-  return new Response(JSON.stringify({ results }), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
-  });
+  return results;
 }
 
 /* =========================
-   Vapi call
+   Call start (provider-agnostic up to provider.startCall)
    ========================= */
-export async function startVapiCallForJob(params: { shop: string; callJobId: string }) {
-  const VAPI_API_KEY = requiredEnv("VAPI_API_KEY");
-  const VAPI_SERVER_URL = requiredEnv("VAPI_SERVER_URL");
-
-  const job = await db.callJob.findFirst({ where: { id: params.callJobId, shop: params.shop } });
-  if (!job) throw new Error("CallJob not found");
-
-  let checkout = await db.checkout.findFirst({ where: { shop: params.shop, checkoutId: job.checkoutId } });
-  if (!checkout) {
-    await backfillCheckoutFromShopify(params.shop, String(job.checkoutId));
-    checkout = await db.checkout.findFirst({ where: { shop: params.shop, checkoutId: job.checkoutId } });
-  }
-  if (!checkout) throw new Error("Checkout not found");
-
-  const checkoutPhoneRaw = (checkout as any).phone ?? null;
-  const jobPhoneRaw = (job as any).phone ?? null;
-  const inferredIso2 = inferIso2FromCheckoutRaw((checkout as any).raw ?? null);
-  const inferredCallingCode = inferCallingCodeFromCheckoutRaw((checkout as any).raw ?? null);
+/** Language voice, or the merchant's persona voice when set; speed only when not normal. */
+function voiceForCall(language: CallLanguage, persona: AgentPersona): StartCallRequest["language"] {
+  const base = callLanguageVoice(language);
+  const voice = persona.voiceId
+    ? { provider: persona.voiceProvider, voiceId: persona.voiceId }
+    : { provider: base.voice.provider, voiceId: base.voice.voiceId };
+  return { ...base, voice: persona.speed !== 1 ? { ...voice, speed: persona.speed } : voice };
+}
 
-  const rawPhone = checkoutPhoneRaw ?? jobPhoneRaw;
-  const customerNumber = normalizePhoneE164(rawPhone, inferredCallingCode);
+/** Shopper-written checkout fields that read like instructions to the agent (they are cleaned before use). */
+function untrustedFieldsWithInstructions(checkout: any): string[] {
+  const items: any[] = (() => {
+    const arr = safeJsonParse(checkout.itemsJson);
+    return Array.isArray(arr) ? arr : [];
+  })();
+  const out: string[] = [];
+  if (looksLikeInjection(checkout.customerName)) out.push("customer name");
+  if (looksLikeInjection(checkout.email)) out.push("email");
+  if (items.some((it) => looksLikeInjection(it?.title) || looksLikeInjection(it?.variantTitle))) out.push("item titles");
+  return out;
+}
 
-  if (!customerNumber) {
-    await db.callJob.update({
-      where: { id: job.id },
-      data: {
-        status: "FAILED",
-        outcome: `INVALID_PHONE_E164: raw=${String(rawPhone ?? "")} inferredIso2=${String(inferredIso2 ?? "")}`,
-        analysisJson: mergeAnalysisJson(job.analysisJson ?? null, {
-          phone_validation: {
-            rawPhone,
-            checkoutPhoneRaw,
-            jobPhoneRaw,
-            inferredIso2,
-            inferredCallingCode,
-            at: new Date().toISOString(),
-          },
-        }),
-      },
-    });
-    throw new Error("Invalid customer phone (E.164 required).");
-  }
+/**
+ * Everything a call is built from, read without side effects: settings, the matching rule, the playbook,
+ * SMS eligibility, language, persona and the assembled prompt. Shared by startCallForJob and previewCallPrompt.
+ */
+async function planCall(params: { shop: string; checkout: any; callJobId: string | null; customerNumber: string | null }) {
+  const { shop, checkout, customerNumber } = params;
 
-  const settings = await db.settings.findUnique({ where: { shop: params.shop } });
-  const extras = await readSettingsExtras(params.shop);
-  const billingPlan = await getShopPlan(params.shop);
+  const settings = await db.settings.findUnique({ where: { shop } });
+  const extras = await readSettingsExtras(shop);
+  const billingPlan = await getShopPlan(shop);
   const smsFeatureAllowedByPlan = hasSmsFeature(billingPlan);
 
-  const playbook = {
+  // Call rules are evaluated again here: time since abandonment (and the rules) may have changed since enqueue.
+  // Same customer history as enqueue, so "returning customer" rules match the same way.
+  const email = String(checkout.email ?? "").trim();
+  const priorOrders = email ? ((await convertedCheckoutsByEmail(shop, [email])).get(email) ?? 0) : 0;
+  const rule = evaluateRules(
+    parseCallRules((settings as any)?.rulesJson ?? null),
+    buildRuleContext({
+      raw: checkout.raw,
+      itemsJson: checkout.itemsJson,
+      value: checkout.value,
+      currency: checkout.currency,
+      abandonedAt: checkout.abandonedAt ?? null,
+      productTagsJson: checkout.productTagsJson ?? null,
+      priorOrders,
+    })
+  );
+
+  const playbook: CallPlaybook = {
     tone: pickTone(extras?.tone ?? "neutral"),
     goal: pickGoal(extras?.goal ?? "complete_checkout"),
     maxCallSeconds: clamp(Number(extras?.max_call_seconds ?? 120), 45, 300),
@@ -1942,17 +1626,31 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
     followupSmsEnabled: smsFeatureAllowedByPlan && Boolean(extras?.followup_sms_enabled ?? false),
   };
 
+  if (rule?.action.type === "playbook") {
+    if (rule.action.tone) playbook.tone = pickTone(rule.action.tone);
+    if (rule.action.goal) playbook.goal = pickGoal(rule.action.goal);
+    if (rule.action.offerRule) playbook.offerRule = pickOfferRule(rule.action.offerRule);
+  }
+  if (rule?.action.type === "cap_discount") {
+    playbook.maxDiscountPercent = Math.min(playbook.maxDiscountPercent, Number(rule.action.maxDiscountPercent ?? 0));
+    if (playbook.maxDiscountPercent <= 0) playbook.discountEnabled = false;
+  }
+
   const priorCallsCount = await db.callJob.count({
-    where: { shop: params.shop, checkoutId: job.checkoutId, id: { not: job.id } },
+    where: {
+      shop,
+      checkoutId: checkout.checkoutId,
+      ...(params.callJobId ? { id: { not: params.callJobId } } : {}),
+    },
   });
   const attemptNumber = priorCallsCount + 1;
 
   const previousMemory =
     attemptNumber >= 2
       ? await readPreviousCallMemory({
-          shop: params.shop,
-          checkoutId: job.checkoutId,
-          currentCallJobId: job.id,
+          shop,
+          checkoutId: checkout.checkoutId,
+          currentCallJobId: params.callJobId ?? "",
         })
       : null;
 
@@ -1963,25 +1661,58 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
   const smsSender = resolveBrevoSender(extras);
   const hasSmsTransport = Boolean(brevoKey && smsSender);
 
-  const smsEnabled =
-    smsFeatureAllowedByPlan &&
-    Boolean(playbook.followupSmsEnabled) &&
-    hasSmsTransport &&
-    Boolean(compactRecoveryUrl) &&
-    Boolean(customerNumber);
+  const smsCapped = await smsCapBlock({
+    shop,
+    cap: parseContactCaps(extras?.contact_caps_json).sms,
+    checkout,
+    jobPhone: customerNumber,
+  });
+
+  // Why no SMS could go out for this checkout, if any; the playbook's SMS toggle is checked separately.
+  const smsBlocked =
+    (!smsFeatureAllowedByPlan && "SMS not included in plan") ||
+    (!hasSmsTransport && "SMS transport not configured") ||
+    (!compactRecoveryUrl && "no recovery link") ||
+    smsConsentBlock(extras, checkout) ||
+    smsCapped ||
+    null;
+
+  const smsEnabled = Boolean(playbook.followupSmsEnabled) && Boolean(customerNumber) && !smsBlocked;
 
   const merchantPrompt = String((settings as any)?.merchantPrompt ?? (settings as any)?.userPrompt ?? "");
+  const activeTemplate = await getActivePromptTemplate(shop);
+  const hasCustomPrompt = Boolean(activeTemplate?.body.trim() || merchantPrompt.trim());
   const configuredPromptMode = pickPromptMode((settings as any)?.promptMode ?? "replace");
-  const promptMode: PromptMode = merchantPrompt.trim() ? configuredPromptMode : "replace";
+  const promptMode: PromptMode = hasCustomPrompt ? configuredPromptMode : "replace";
 
-  const speakableName = firstNameOnly(checkout.customerName) ?? checkout.customerName ?? null;
+  // Spoken, sent to the provider and used in the first message: cleaned like every shopper-written field.
+  const speakableName = cleanUntrusted(firstNameOnly(checkout.customerName) ?? checkout.customerName, 40) || null;
+  const suspiciousFields = untrustedFieldsWithInstructions(checkout);
 
-  const systemPrompt = buildSystemPrompt({
+  const detectedLanguage = detectCallLanguage(checkout.raw, {
+    enabled: parseCallLanguages((settings as any)?.callLanguages),
+    fallback: pickCallLanguage((settings as any)?.fallbackLanguage) ?? DEFAULT_CALL_LANGUAGE,
+  });
+  const persona = parsePersona((settings as any)?.personaJson);
+
+  const prompt = assembleCallPrompt({
     merchantPrompt,
+    template: activeTemplate
+      ? {
+          name: activeTemplate.name,
+          version: activeTemplate.version,
+          body: activeTemplate.body,
+          shopName: shopLabelFromDomain(shop),
+          customerFullName: checkout.customerName,
+        }
+      : null,
     promptMode,
     attemptNumber,
     previousMemory,
     smsEnabled,
+    language: detectedLanguage,
+    persona,
+    rule: rule ? { name: rule.name, action: rule.action.type } : null,
     offer: {
       checkoutLink: compactRecoveryUrl ?? null,
       offerCode: null,
@@ -2000,64 +1731,237 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
     playbook,
   });
 
-  const factsBlock =
-    promptMode === "replace" && merchantPrompt.trim()
-      ? buildFactsBlock({
-          attemptNumber,
-          previousMemory,
-          checkout: {
-            checkoutId: String(checkout.checkoutId),
-            customerName: speakableName,
-            email: checkout.email,
-            phone: customerNumber,
-            value: checkout.value,
-            currency: checkout.currency,
-            itemsJson: checkout.itemsJson,
+  return {
+    settings,
+    extras,
+    billingPlan,
+    smsFeatureAllowedByPlan,
+    rule,
+    playbook,
+    attemptNumber,
+    compactRecoveryUrl,
+    smsSender,
+    smsBlocked,
+    smsEnabled,
+    promptMode,
+    activeTemplate,
+    speakableName,
+    detectedLanguage,
+    persona,
+    suspiciousFields,
+    prompt,
+  };
+}
+
+export async function startCallForJob(params: {
+  shop: string;
+  callJobId: string;
+  // Forces a provider (e.g. the simulator); otherwise the shop's provider with its failover setting.
+  providerId?: string | null;
+}): Promise<{
+  ok: boolean;
+  suppressed: boolean;
+  ruleAction: RuleActionType | null; // set when a call rule handled the job instead of dialing
+  provider: VoiceProviderId | null; // the provider that placed the call
+  providerCallId: string | null;
+  raw: any;
+  startUnknown?: boolean; // the request may have reached the provider; no call id and no failover
+}> {
+  const job = await db.callJob.findFirst({ where: { id: params.callJobId, shop: params.shop } });
+  if (!job) throw new Error("CallJob not found");
+
+  let checkout = await db.checkout.findFirst({ where: { shop: params.shop, checkoutId: job.checkoutId } });
+  if (!checkout) {
+    await backfillCheckoutFromShopify(params.shop, String(job.checkoutId));
+    checkout = await db.checkout.findFirst({ where: { shop: params.shop, checkoutId: job.checkoutId } });
+  }
+  if (!checkout) throw new Error("Checkout not found");
+
+  const checkoutPhoneRaw = (checkout as any).phone ?? null;
+  const jobPhoneRaw = (job as any).phone ?? null;
+  const inferredIso2 = inferIso2FromCheckoutRaw((checkout as any).raw ?? null);
+  const inferredCallingCode = inferCallingCodeFromCheckoutRaw((checkout as any).raw ?? null);
+
+  const rawPhone = checkoutPhoneRaw ?? jobPhoneRaw;
+  const customerNumber = normalizePhoneE164(rawPhone, inferredCallingCode);
+
+  if (!customerNumber) {
+    await transitionCallJob({
+      id: job.id,
+      to: "FAILED",
+      source: "provider",
+      payload: { reason: "INVALID_PHONE_E164" },
+      data: {
+        outcome: `INVALID_PHONE_E164: raw=${String(rawPhone ?? "")} inferredIso2=${String(inferredIso2 ?? "")}`,
+        analysisJson: mergeAnalysisJson(job.analysisJson ?? null, {
+          phone_validation: {
+            rawPhone,
+            checkoutPhoneRaw,
+            jobPhoneRaw,
+            inferredIso2,
+            inferredCallingCode,
+            at: new Date().toISOString(),
           },
-          playbook,
-        })
-      : null;
+        }),
+      },
+    });
+    throw new Error("Invalid customer phone (E.164 required).");
+  }
+
+  // Do-not-call list: never dial, and don't let callers requeue the job.
+  const suppressed = await findActiveSuppression({
+    shop: params.shop,
+    phone: customerNumber,
+    email: (checkout as any).email ?? null,
+  });
+  if (suppressed) {
+    await transitionCallJob({
+      id: job.id,
+      to: "CANCELED",
+      source: "suppression",
+      data: { outcome: suppressionOutcome(suppressed) },
+      payload: { kind: suppressed.kind },
+    });
+    return { ok: false, suppressed: true, ruleAction: null, provider: null, providerCallId: null, raw: null };
+  }
 
-  const messages: Array<{ role: "system" | "user"; content: string }> = [{ role: "system", content: systemPrompt }];
+  const plan = await planCall({ shop: params.shop, checkout, callJobId: job.id, customerNumber });
+  const { settings, extras, billingPlan, smsFeatureAllowedByPlan, rule, playbook, compactRecoveryUrl, smsSender, smsEnabled } =
+    plan;
+  const providers = params.providerId ? [getVoiceProvider(params.providerId)] : voiceProvidersForShop(settings);
 
-  if (factsBlock) messages.push({ role: "user", content: factsBlock });
+  const ruleRef = rule ? { ruleId: rule.id, ruleName: rule.name } : {};
+  const ruleAnalysis = {
+    rule: rule ? { id: rule.id, name: rule.name, action: rule.action, at: new Date().toISOString() } : null,
+  };
 
-  if (smsEnabled) {
-    messages.push({
-      role: "user",
-      content:
-        `There is no pre-created code yet. If you decide to offer a discount, you must choose the exact percentage during the call and then use the tool to create the real Shopify code after the customer agrees.`,
+  if (rule?.action.type === "skip") {
+    await transitionCallJob({
+      id: job.id,
+      to: "CANCELED",
+      source: "provider",
+      payload: { ruleId: rule.id, action: "skip" },
+      data: {
+        outcome: ruleOutcome(RULE_SKIP, rule),
+        ...ruleRef,
+        analysisJson: mergeAnalysisJson(job.analysisJson ?? null, ruleAnalysis),
+      },
     });
+    return { ok: false, suppressed: false, ruleAction: "skip", provider: null, providerCallId: null, raw: null };
+  }
 
-    messages.push({
-      role: "user",
-      content:
-        `If the customer wants the link or code by SMS, or accepts your proposed next step, call tool send_checkout_offer exactly once. ` +
-        `Choose offerType as one of: link_only, discount, free_shipping. ` +
-        `If you choose discount, choose the exact discountPercent yourself based on the conversation, but never exceed ${playbook.maxDiscountPercent}% and only use a positive integer. ` +
-        `Do not promise that a code exists until the tool succeeds.`,
+  // A delay rule holds a job back once; a job already scheduled by that rule at enqueue goes ahead.
+  if (rule?.action.type === "delay" && job.ruleId !== rule.id) {
+    await transitionCallJob({
+      id: job.id,
+      to: "QUEUED",
+      source: "provider",
+      payload: { ruleId: rule.id, action: "delay" },
+      data: {
+        attempts: { decrement: 1 },
+        scheduledFor: new Date(Date.now() + Number(rule.action.delayMinutes ?? 0) * 60 * 1000),
+        outcome: ruleOutcome(RULE_DELAY, rule),
+        ...ruleRef,
+      },
     });
+    return { ok: false, suppressed: false, ruleAction: "delay", provider: null, providerCallId: null, raw: null };
+  }
+
+  // SMS-only rule: send the recovery link instead of calling. Plan, transport, consent and caps still apply.
+  if (rule?.action.type === "sms_only") {
+    const blocked = plan.smsBlocked;
 
-    messages.push({
-      role: "user",
-      content:
-        `If you need to send the SMS, first say exactly "I'll send that by text right now." and then call the tool. ` +
-        `After the tool succeeds, say that the text was sent. ` +
-        `If the tool result contains code_speakable, read that form exactly, slowly, with short pauses between parts. ` +
-        `If there is only code, spell it character by character, slowly and clearly. ` +
-        `Never read the checkout URL aloud. Never spell the domain. Never read query parameters aloud.`,
+    let smsText: string | null = null;
+    let messageId: string | null = null;
+    let sendError: string | null = null;
+    if (!blocked && compactRecoveryUrl && smsSender) {
+      try {
+        smsText = buildSmsText({
+          templateOffer: extras?.sms_template_offer ?? null,
+          templateNoOffer: extras?.sms_template_no_offer ?? null,
+          vars: {
+            shop: params.shop,
+            shop_name: params.shop,
+            customer_name: String(checkout.customerName ?? "").trim() || "Customer",
+            checkout_id: String(checkout.checkoutId),
+            checkout_link: compactRecoveryUrl,
+            discount_link: compactRecoveryUrl,
+            offer_code: "",
+            percent: "",
+            validity_hours: String(Math.floor(Number(playbook.couponValidityHours || 24))),
+          },
+          hasOffer: false,
+        });
+        const br = await brevoSendSms({
+          toE164: customerNumber,
+          body: smsText,
+          sender: smsSender,
+          type: process.env.BREVO_SMS_TYPE ?? "transactional",
+          tag: process.env.BREVO_SMS_TAG ?? "checkout-recovery",
+          organisationPrefix: process.env.BREVO_SMS_ORGANISATION_PREFIX ?? null,
+        });
+        messageId = String(br?.messageId ?? "").trim() || null;
+      } catch (e: any) {
+        sendError = String(e?.message ?? e);
+      }
+    }
+
+    const sent = !blocked && !sendError && Boolean(smsText);
+    const detail = sent ? "SMS sent" : `no SMS: ${blocked ?? sendError ?? "not sent"}`;
+    await transitionCallJob({
+      id: job.id,
+      to: sent ? "COMPLETED" : "CANCELED",
+      source: "provider",
+      payload: { ruleId: rule.id, action: "sms_only", messageId },
+      data: {
+        phone: customerNumber,
+        outcome: `${ruleOutcome(RULE_SMS_ONLY, rule)} (${detail})`.slice(0, 2000),
+        ...ruleRef,
+        analysisJson: mergeAnalysisJson(job.analysisJson ?? null, {
+          ...ruleAnalysis,
+          offer: {
+            checkoutLink: compactRecoveryUrl,
+            offerType: "link_only",
+            smsEnabled: sent,
+            smsFrom: sent ? smsSender : null,
+            smsText,
+            smsSentAt: sent ? new Date().toISOString() : null,
+            smsMessageSid: messageId,
+            generatedAt: new Date().toISOString(),
+          },
+        }),
+      },
+    });
+    await logEvent({
+      shop: params.shop,
+      checkoutId: job.checkoutId,
+      callJobId: job.id,
+      level: sent ? "info" : "warn",
+      code: sent ? "SMS_SENT" : "SMS_FAILED",
+      message: sent ? `Sent instead of a call (rule "${rule.name}")` : detail,
+      details: { ruleId: rule.id, messageId },
     });
+    return { ok: sent, suppressed: false, ruleAction: "sms_only", provider: null, providerCallId: null, raw: null };
   }
 
-  messages.push({
-    role: "user",
-    content:
-      attemptNumber >= 2
-        ? "Follow-up call. Reference previous context if relevant. Keep it short and move to a concrete next step."
-        : "Start the call now. Greet the customer, mention they almost completed checkout, and ask if they want help finishing the order.",
-  });
+  const { prompt, promptMode, activeTemplate, speakableName, detectedLanguage, persona } = plan;
+  const language = detectedLanguage.language;
+
+  if (plan.suspiciousFields.length) {
+    await logEvent({
+      shop: params.shop,
+      checkoutId: job.checkoutId,
+      callJobId: job.id,
+      level: "warn",
+      code: "PROMPT_INJECTION",
+      message: `Instruction-like text in ${plan.suspiciousFields.join(", ")}; removed from the prompt`,
+      details: { fields: plan.suspiciousFields },
+    });
+  }
 
   const nextAnalysisJson = mergeAnalysisJson(job.analysisJson ?? null, {
+    ...ruleAnalysis,
+    language: { code: language, source: detectedLanguage.source, hint: detectedLanguage.hint },
     offer: {
       checkoutLink: compactRecoveryUrl,
       discountLink: compactRecoveryUrl,
@@ -2066,6 +1970,14 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
       offerCodeSpeakable: null,
       discountPercent: null,
       couponValidityHours: playbook.couponValidityHours,
+      // What the prompt allowed; the tool handler never goes beyond it (offerLimits.shared).
+      limits: {
+        smsTool: smsEnabled,
+        discountEnabled: playbook.discountEnabled,
+        maxDiscountPercent: playbook.maxDiscountPercent,
+        freeShippingEnabled: playbook.freeShippingEnabled,
+        minCartValueForDiscount: playbook.minCartValueForDiscount,
+      },
       shopifyDiscountNodeId: null,
       offerCreateError: null,
       generatedAt: new Date().toISOString(),
@@ -2093,133 +2005,143 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
     },
   });
 
-  await db.callJob.update({
-    where: { id: job.id },
+  // Callers move the job to CALLING first; if it was settled meanwhile (order placed, canceled), don't dial.
+  const dialing = await transitionCallJob({
+    id: job.id,
+    to: "CALLING",
+    source: "provider",
     data: {
-      status: "CALLING",
-      provider: "vapi",
+      provider: providers[0].id,
       outcome: null,
       analysisJson: nextAnalysisJson,
       phone: customerNumber,
+      templateVersionId: activeTemplate?.versionId ?? null,
+      ...ruleRef,
     },
   });
+  if (!dialing.ok) throw new Error(`CallJob is ${dialing.from ?? "missing"}; not dialing.`);
 
-  const webhookSecret = String(process.env.VAPI_WEBHOOK_SECRET ?? "").trim();
-  const webhookBaseUrl = VAPI_SERVER_URL.replace(/\/$/, "");
-  const webhookUrl = webhookSecret
-    ? `${webhookBaseUrl}${webhookBaseUrl.includes("?") ? "&" : "?"}secret=${encodeURIComponent(webhookSecret)}`
-    : webhookBaseUrl;
-
-  const assistantId =
-    String((extras as any)?.vapi_assistant_id ?? (extras as any)?.vapiAssistantId ?? "").trim() ||
-    process.env.VAPI_ASSISTANT_ID ||
-    requiredEnv("VAPI_ASSISTANT_ID");
-
-  const phoneNumberId =
-    String((extras as any)?.vapi_phone_number_id ?? (extras as any)?.vapiPhoneNumberId ?? "").trim() ||
-    process.env.VAPI_PHONE_NUMBER_ID ||
-    requiredEnv("VAPI_PHONE_NUMBER_ID");
+  const metadata = {
+    shop: params.shop,
+    callJobId: job.id,
+    checkoutId: job.checkoutId,
+    promptMode,
+  };
 
-  const res = await fetch("https://api.vapi.ai/call/phone", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${VAPI_API_KEY}`,
-      Accept: "application/json",
+  const request: StartCallRequest = {
+    ref: { shop: params.shop, callJobId: job.id, checkoutId: job.checkoutId },
+    customer: { number: customerNumber, name: speakableName ?? null },
+    messages: prompt.messages,
+    tools: prompt.tools,
+    language: voiceForCall(language, persona),
+    persona: {
+      agentName: persona.agentName || null,
+      firstMessage:
+        persona.firstMessageLanguage === language
+          ? renderFirstMessage(persona, { storeName: shopLabelFromDomain(params.shop), firstName: speakableName })
+          : null,
+      endCallPhrases: persona.endCallPhrases,
     },
-    body: JSON.stringify({
-      phoneNumberId,
-      assistantId,
+    assistantId: String((extras as any)?.vapi_assistant_id ?? (extras as any)?.vapiAssistantId ?? "").trim() || null,
+    phoneNumberId: String((extras as any)?.vapi_phone_number_id ?? (extras as any)?.vapiPhoneNumberId ?? "").trim() || null,
+    metadata,
+  };
 
-      customer: {
-        number: customerNumber,
-        name: speakableName ?? undefined,
-      },
+  // Failover: only a definite rejection moves on to the next provider; a rejection by all goes to the caller.
+  const attempt = await startCallWithFailover(providers, request, (from, to, err) =>
+    logEvent({
+      shop: params.shop,
+      checkoutId: job.checkoutId,
+      callJobId: job.id,
+      level: "warn",
+      code: "CALL_FAILOVER",
+      message: `${from.label} failed, trying ${to.label}`,
+      details: { error: err.slice(0, 500) },
+    })
+  );
+  const provider = attempt.provider;
 
-      assistant: {
-        model: {
-          provider: "openai",
-          model: "gpt-4o-mini",
-          temperature: 0.2,
-          messages,
-          ...(smsEnabled
-            ? {
-                tools: [
-                  {
-                    type: "function",
-                    function: {
-                      name: "send_checkout_offer",
-                      description:
-                        "Send the checkout link by SMS. Optionally create a real Shopify discount or free-shipping code and send it by SMS.",
-                      parameters: {
-                        type: "object",
-                        properties: {
-                          offerType: {
-                            type: "string",
-                            enum: ["link_only", "discount", "free_shipping"],
-                            description: "The final offer you decided to send.",
-                          },
-                          discountPercent: {
-                            type: "integer",
-                            description:
-                              "Required only when offerType=discount. Must be a positive integer within the configured limit.",
-                          },
-                          sendSms: {
-                            type: "boolean",
-                            description: "Set true when the customer accepted receiving the SMS.",
-                          },
-                        },
-                        required: ["offerType", "sendSms"],
-                      },
-                    },
-                  },
-                ],
-              }
-            : {}),
-        },
+  if (attempt.kind === "rejected") {
+    // Status is left to the caller, which retries or fails the job per its attempt policy.
+    await db.callJob.update({ where: { id: job.id }, data: { outcome: attempt.errors.join(" | ").slice(0, 2000) } });
+    throw attempt.error ?? new Error("Call start failed");
+  }
 
-        serverUrl: webhookUrl,
-        serverMessages: ["status-update", "end-of-call-report", 'transcript[transcriptType="final"]', "tool-calls"],
+  if (attempt.kind === "unknown") {
+    // The provider may be ringing the customer: stay CALLING without a call id. Its webhooks settle the job
+    // if the call exists, otherwise the stale-call expiry fails it and the attempt policy takes over.
+    const err = String(attempt.error?.message ?? attempt.error);
+    await db.callJob.updateMany({
+      where: { id: job.id, status: "CALLING" },
+      data: { provider: provider.id, outcome: attempt.errors.join(" | ").slice(0, 2000) },
+    });
+    await logEvent({
+      shop: params.shop,
+      checkoutId: job.checkoutId,
+      callJobId: job.id,
+      level: "warn",
+      code: "CALL_START_UNKNOWN",
+      message: `${provider.label} may have placed the call; not trying another provider`,
+      details: { error: err.slice(0, 500) },
+    });
+    return { ok: true, suppressed: false, ruleAction: null, provider: provider.id, providerCallId: null, raw: null, startUnknown: true };
+  }
 
-        metadata: {
-          shop: params.shop,
-          callJobId: job.id,
-          checkoutId: job.checkoutId,
-          promptMode,
-        },
-      },
+  const started = attempt.started;
+  const providerCallId = started.providerCallId ?? "";
 
-      metadata: {
-        shop: params.shop,
-        callJobId: job.id,
-        checkoutId: job.checkoutId,
-        promptMode,
-      },
-    }),
+  // An early end-of-call report may already have completed the job; only the id is recorded then.
+  await db.callJob.update({ where: { id: job.id }, data: { provider: provider.id, providerCallId: providerCallId || null } });
+  await db.callJob.updateMany({
+    where: { id: job.id, status: "CALLING" },
+    data: { outcome: providerOutcome(provider.id, "CALL_CREATED") },
   });
 
-  const json = await res.json().catch(() => null);
+  return { ok: true, suppressed: false, ruleAction: null, provider: provider.id, providerCallId, raw: started.raw };
+}
 
-  if (!res.ok) {
-    await db.callJob.update({
-      where: { id: job.id },
-      data: { status: "FAILED", outcome: `VAPI_ERROR: ${JSON.stringify(json)}` },
-    });
-    throw new Error(`Vapi create call failed: ${JSON.stringify(json)}`);
-  }
+/* =========================
+   Prompt preview (dry run)
+   ========================= */
+/** What a call for this checkout would receive right now. Nothing is written, sent or dialed. */
+export async function previewCallPrompt(params: { shop: string; checkoutId: string }): Promise<CallPromptPreview> {
+  const checkout = await db.checkout.findFirst({ where: { shop: params.shop, checkoutId: params.checkoutId } });
+  if (!checkout) return { ok: false, error: "Checkout not found." };
 
-  const providerCallId = String(json?.id ?? json?.call?.id ?? "");
+  const customerNumber = normalizePhoneE164(checkout.phone ?? null, inferCallingCodeFromCheckoutRaw(checkout.raw ?? null));
+  const plan = await planCall({ shop: params.shop, checkout, callJobId: null, customerNumber });
 
-  await db.callJob.update({
-    where: { id: job.id },
-    data: { providerCallId: providerCallId || null, outcome: "VAPI_CALL_CREATED", status: "CALLING" },
-  });
+  const notes: string[] = [];
+  if (!customerNumber) notes.push("No valid phone number: the call would fail before dialing.");
 
-  return { ok: true, providerCallId, raw: json };
-}
+  const suppressed = await findActiveSuppression({
+    shop: params.shop,
+    phone: customerNumber,
+    email: checkout.email ?? null,
+  });
+  if (suppressed) notes.push(`On the do-not-contact list (${suppressed.kind}): no call would be placed.`);
+
+  const rule = plan.rule;
+  if (rule?.action.type === "skip") notes.push(`Rule "${rule.name}" skips this checkout: no call would be placed.`);
+  if (rule?.action.type === "delay") notes.push(`Rule "${rule.name}" delays the call by ${rule.action.delayMinutes ?? 0} minutes.`);
+  if (rule?.action.type === "sms_only") notes.push(`Rule "${rule.name}" sends an SMS instead of calling.`);
+  if (plan.suspiciousFields.length) {
+    notes.push(`Instruction-like text in ${plan.suspiciousFields.join(", ")} was removed from the prompt.`);
+  }
+  if (plan.playbook.followupSmsEnabled && !plan.smsEnabled) {
+    notes.push(`SMS follow-up is on but unavailable for this call: ${plan.smsBlocked ?? "no valid phone number"}.`);
+  }
 
-export async function createVapiCallForJob(params: { shop: string; callJobId: string }) {
-  return startVapiCallForJob(params);
+  return {
+    ok: true,
+    checkoutId: String(checkout.checkoutId),
+    attemptNumber: plan.attemptNumber,
+    language: plan.detectedLanguage,
+    rule: rule ? { name: rule.name, action: rule.action.type } : null,
+    smsEnabled: plan.smsEnabled,
+    prompt: plan.prompt,
+    notes,
+  };
 }
 
 export async function placeCall(_params: {
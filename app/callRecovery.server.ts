@@ -1,20 +1,40 @@
 // app/callRecovery.server.ts
 import db from "./db.server";
+import { defaultCallSchedule, nextAllowedSlot, type CallSchedule } from "./lib/callWindow.shared";
+import { extractCheckoutLocation, isValidTimeZone, resolveCustomerTimezone } from "./lib/timezones.shared";
+import { ladderStepFor, ladderTarget, type LadderStep } from "./lib/attemptLadder.shared";
+import { callingCodeForCountry, normalizePhoneE164 } from "./lib/phone.shared";
+import { loadActiveSuppressions, normalizeSuppressionEmail, suppressionOutcome } from "./lib/suppression.server";
+import { consentBlockReason, extractCheckoutConsent, type ConsentPolicy } from "./lib/consent.shared";
+import { FREQUENCY_CAPPED, frequencyCapOutcome, isCapReached, type ContactCaps } from "./lib/contactCaps.shared";
+import { loadCallEvents } from "./lib/contactCaps.server";
+import { classifyRetryOutcome, defaultRetryPolicy, retryDelayMinutes, type RetryPolicy } from "./lib/retryPolicy.shared";
+import {
+  DEFAULT_PRIORITY_WEIGHTS,
+  buyProbabilityFromAnalysis,
+  cartValueInShopCurrency,
+  computePriority,
+  customerOrdersCount,
+  type PriorityWeights,
+} from "./lib/priority.shared";
+import { lowRecoveryOutcome, type RecoveryModel } from "./lib/recoveryModel.shared";
+import { scoreRecoveryCandidates } from "./lib/recoveryModel.server";
+import { logEvent } from "./lib/eventLog.server";
+import { createCallJob, transitionCallJob, transitionCallJobs } from "./lib/callJobState.server";
+import {
+  RULE_SKIP,
+  RULE_SMS_ONLY,
+  buildRuleContext,
+  evaluateRules,
+  mergeProductTags,
+  ruleOutcome,
+  type CallRule,
+} from "./lib/rules.shared";
 
 type AdminClient = {
   graphql: (query: string, options?: any) => Promise<any>;
 };
 
-function parseHHMM(hhmm: string): number | null {
-  const m = /^(\d{2}):(\d{2})$/.exec((hhmm || "").trim());
-  if (!m) return null;
-  const hh = Number(m[1]);
-  const mm = Number(m[2]);
-  if (!Number.isFinite(hh) || !Number.isFinite(mm)) return null;
-  if (hh < 0 || hh > 23 || mm < 0 || mm > 59) return null;
-  return hh * 60 + mm;
-}
-
 function clamp(n: number, min: number, max: number) {
   const x = Number(n);
   if (!Number.isFinite(x)) return min;
@@ -44,163 +64,379 @@ function normalizePhoneForStorage(raw: any): string | null {
   return hasPlus ? `+${digits}` : digits;
 }
 
-/**
- * If target is inside window -> keep.
- * Else move to next window start (same day or next day).
- */
-function adjustToWindow(target: Date, startHHMM: string, endHHMM: string) {
-  const start = parseHHMM(startHHMM) ?? 9 * 60;
-  const end = parseHHMM(endHHMM) ?? 19 * 60;
+/* =========================
+   Shopify abandonedCheckouts sync
+   - Incremental: updated_at >= highWaterMark (minus overlap), paged with `after` cursors.
+   - Backfill: same paging without the updated_at filter. Only started by the merchant (Sync page).
+   - First sync (no high-water mark) is incremental over the last FIRST_SYNC_LOOKBACK_MS, not full history.
+   - A run that doesn't finish in one call keeps its cursor in CheckoutSyncState and resumes next time.
+   - The high-water mark only moves when a run completes, to the time that run started.
+   ========================= */
+const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+const FIRST_SYNC_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
 
-  const windowStart = Math.min(start, end);
-  const windowEnd = Math.max(start, end);
+const ABANDONED_CHECKOUTS_QUERY = `
+  query AbandonedCheckouts($first: Int!, $after: String, $query: String) {
+    abandonedCheckouts(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
+      pageInfo { hasNextPage endCursor }
+      edges {
+        node {
+          id
+          abandonedCheckoutUrl
+          createdAt
+          updatedAt
+          completedAt
+          email
+          phone
+          totalPriceSet {
+            shopMoney { amount currencyCode }
+          }
+          shippingAddress {
+            firstName
+            lastName
+            countryCodeV2
+            country
+            provinceCode
+          }
+          billingAddress {
+            countryCodeV2
+            country
+            provinceCode
+          }
+          customer {
+            firstName
+            lastName
+            numberOfOrders
+            defaultAddress {
+              countryCodeV2
+              country
+              provinceCode
+            }
+            emailMarketingConsent { marketingState }
+            smsMarketingConsent { marketingState }
+          }
+          lineItems(first: 10) {
+            edges {
+              node {
+                title
+                quantity
+                variantTitle
+                originalUnitPriceSet { shopMoney { amount currencyCode } }
+                product { id vendor tags }
+                variant { id }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export type CheckoutSyncResult = {
+  ok: boolean;
+  mode: "incremental" | "backfill";
+  synced: number;
+  failed: number;
+  pages: number;
+  done: boolean; // run finished; false = more pages left for the next call
+  throttled: boolean;
+  errors: string[];
+  highWaterMark: string | null;
+  progress: { synced: number; total: number | null };
+};
 
-  const tMins = target.getHours() * 60 + target.getMinutes();
-  if (tMins >= windowStart && tMins <= windowEnd) return target;
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
 
-  const next = new Date(target);
-  next.setSeconds(0, 0);
-  next.setHours(Math.floor(windowStart / 60), windowStart % 60, 0, 0);
+function updatedAtFilter(since: Date | null) {
+  return since ? `updated_at:>='${since.toISOString()}'` : null;
+}
 
-  // If target is after today's end, schedule next day start
-  if (tMins > windowEnd) {
-    next.setDate(next.getDate() + 1);
+/** One GraphQL call with its cost extension. Thrown GraphQL errors (client default) are unpacked, not rethrown. */
+async function graphqlWithCost(admin: AdminClient, query: string, variables: any) {
+  let json: any;
+  try {
+    const res = await admin.graphql(query, { variables });
+    json = typeof (res as any)?.json === "function" ? await (res as any).json() : res;
+  } catch (e: any) {
+    json = e?.body ?? e?.response?.body ?? null;
+    if (!json?.errors) return { data: null, errors: [String(e?.message ?? e)], throttled: false, cost: null };
   }
 
-  return next;
+  const errs: any[] = Array.isArray(json?.errors)
+    ? json.errors
+    : Array.isArray(json?.errors?.graphQLErrors)
+      ? json.errors.graphQLErrors
+      : json?.errors
+        ? [json.errors]
+        : [];
+  const throttled = errs.some((x) => String(x?.extensions?.code ?? "") === "THROTTLED");
+  const cost = json?.extensions?.cost ?? null;
+
+  return {
+    data: json?.data ?? null,
+    errors: errs.map((x) => String(x?.message ?? x)),
+    throttled,
+    cost: cost
+      ? {
+          requested: Number(cost.requestedQueryCost ?? 0),
+          available: Number(cost.throttleStatus?.currentlyAvailable ?? 0),
+          restoreRate: Number(cost.throttleStatus?.restoreRate ?? 50),
+        }
+      : null,
+  };
+}
+
+/** Milliseconds to wait before `needed` points are available again. */
+function throttleWaitMs(cost: { available: number; restoreRate: number } | null, needed: number) {
+  if (!cost || cost.available >= needed) return 0;
+  return Math.ceil(((needed - cost.available) / Math.max(1, cost.restoreRate)) * 1000);
+}
+
+async function countAbandonedCheckouts(admin: AdminClient, since: Date | null): Promise<number | null> {
+  const r = await graphqlWithCost(
+    admin,
+    `query AbandonedCheckoutsCount($query: String) { abandonedCheckoutsCount(query: $query, limit: null) { count } }`,
+    { query: updatedAtFilter(since) }
+  );
+  const n = Number(r.data?.abandonedCheckoutsCount?.count);
+  return Number.isFinite(n) ? n : null;
+}
+
+async function upsertAbandonedCheckoutNode(shop: string, n: any) {
+  const checkoutId = String(n?.id ?? "").trim();
+  if (!checkoutId) return false;
+
+  const firstName = String(n?.shippingAddress?.firstName ?? n?.customer?.firstName ?? "").trim();
+  const lastName = String(n?.shippingAddress?.lastName ?? n?.customer?.lastName ?? "").trim();
+  const customerName = `${firstName} ${lastName}`.trim() || null;
+
+  const items = (n?.lineItems?.edges ?? [])
+    .map((x: any) => x?.node)
+    .filter(Boolean)
+    .map((it: any) => ({
+      title: it?.title ?? null,
+      quantity: Number(it?.quantity ?? 1),
+      variantTitle: it?.variantTitle ?? null,
+      price: it?.originalUnitPriceSet?.shopMoney?.amount ?? null,
+      currency: it?.originalUnitPriceSet?.shopMoney?.currencyCode ?? null,
+    }))
+    .filter((x: any) => x.title);
+
+  const itemsJson = items.length ? JSON.stringify(items) : null;
+
+  const amount = Number(n?.totalPriceSet?.shopMoney?.amount ?? 0);
+  const currency = String(n?.totalPriceSet?.shopMoney?.currencyCode ?? "USD");
+  const completedAt = n?.completedAt ? new Date(n.completedAt) : null;
+  const phoneStored = normalizePhoneForStorage(n?.phone);
+  const { marketingConsent, smsConsent } = extractCheckoutConsent(n);
+
+  const abandonedAt = completedAt ? null : new Date(n?.updatedAt ?? n?.createdAt ?? Date.now());
+
+  // Only this sync gets product tags; kept in their own column because webhooks replace `raw`.
+  const prev = await db.checkout.findUnique({
+    where: { shop_checkoutId: { shop, checkoutId } },
+    select: { productTagsJson: true },
+  });
+  const productTagsJson = mergeProductTags(prev?.productTagsJson ?? null, n);
+
+  await db.checkout.upsert({
+    where: { shop_checkoutId: { shop, checkoutId } },
+    create: {
+      shop,
+      checkoutId,
+      token: null,
+      email: n?.email ?? null,
+      phone: phoneStored,
+      value: Number.isFinite(amount) ? amount : 0,
+      currency,
+      status: completedAt ? "CONVERTED" : "ABANDONED",
+      abandonedAt,
+      raw: JSON.stringify(n ?? null),
+      customerName,
+      itemsJson,
+      productTagsJson,
+      marketingConsent,
+      smsConsent,
+    },
+    update: {
+      email: n?.email ?? null,
+      phone: phoneStored,
+      value: Number.isFinite(amount) ? amount : 0,
+      currency,
+      status: completedAt ? "CONVERTED" : "ABANDONED",
+      abandonedAt,
+      raw: JSON.stringify(n ?? null),
+      customerName,
+      itemsJson,
+      productTagsJson,
+      marketingConsent: marketingConsent ?? undefined,
+      smsConsent: smsConsent ?? undefined,
+    },
+  });
+  return true;
+}
+
+export async function getCheckoutSyncState(shop: string) {
+  return (
+    (await db.checkoutSyncState.findUnique({ where: { shop } })) ??
+    (await db.checkoutSyncState.create({ data: { shop } }))
+  );
+}
+
+/** Start (or restart) a full historical backfill. Pages are pulled by later sync calls. */
+export async function startCheckoutBackfill(params: { admin: AdminClient; shop: string }) {
+  await getCheckoutSyncState(params.shop);
+  const total = await countAbandonedCheckouts(params.admin, null);
+  return db.checkoutSyncState.update({
+    where: { shop: params.shop },
+    data: {
+      runMode: "backfill",
+      runSince: null,
+      runCursor: null,
+      runStartedAt: new Date(),
+      runSynced: 0,
+      runFailed: 0,
+      runTotal: total,
+      backfillDoneAt: null,
+      lastError: null,
+    },
+  });
 }
 
 export async function syncAbandonedCheckoutsFromShopify(params: {
   admin: AdminClient;
   shop: string;
-  limit?: number;
-}) {
+  limit?: number; // page size
+  maxPages?: number;
+  maxWaitMs?: number; // total time we're willing to sleep on the cost bucket
+}): Promise<CheckoutSyncResult> {
   const { admin, shop } = params;
   const limit = Math.min(Math.max(params.limit ?? 50, 1), 100);
+  const maxPages = Math.min(Math.max(params.maxPages ?? 3, 1), 50);
+  let waitBudget = Math.max(0, params.maxWaitMs ?? 5000);
 
-  const query = `
-    query AbandonedCheckouts($first: Int!) {
-      abandonedCheckouts(first: $first) {
-        edges {
-          node {
-            id
-            abandonedCheckoutUrl
-            createdAt
-            updatedAt
-            completedAt
-            email
-            phone
-            totalPriceSet {
-              shopMoney { amount currencyCode }
-            }
-            shippingAddress {
-              firstName
-              lastName
-              countryCodeV2
-              country
-            }
-            billingAddress {
-              countryCodeV2
-              country
-            }
-            customer {
-              firstName
-              lastName
-              defaultAddress {
-                countryCodeV2
-                country
-              }
-            }
-            lineItems(first: 10) {
-              edges {
-                node {
-                  title
-                  quantity
-                  variantTitle
-                  originalUnitPriceSet { shopMoney { amount currencyCode } }
-                }
-              }
-            }
-          }
-        }
+  let state = await getCheckoutSyncState(shop);
+
+  // No run in progress: pick up from the high-water mark, or the last week on first install.
+  // Older history is only imported by an explicit backfill (startCheckoutBackfill).
+  if (!state.runMode) {
+    const since = state.highWaterMark
+      ? new Date(state.highWaterMark.getTime() - SYNC_OVERLAP_MS)
+      : new Date(Date.now() - FIRST_SYNC_LOOKBACK_MS);
+    state = await db.checkoutSyncState.update({
+      where: { shop },
+      data: {
+        runMode: "incremental",
+        runSince: since,
+        runCursor: null,
+        runStartedAt: new Date(),
+        runSynced: 0,
+        runFailed: 0,
+        runTotal: null,
+      },
+    });
+  }
+
+  const mode = state.runMode === "backfill" ? "backfill" : "incremental";
+  const queryFilter = updatedAtFilter(state.runSince ?? null);
+
+  let cursor: string | null = state.runCursor ?? null;
+  let synced = 0;
+  let failed = 0;
+  let pages = 0;
+  let done = false;
+  let throttled = false;
+  const errors: string[] = [];
+
+  while (pages < maxPages) {
+    let r = await graphqlWithCost(admin, ABANDONED_CHECKOUTS_QUERY, { first: limit, after: cursor, query: queryFilter });
+
+    if (r.throttled) {
+      const wait = Math.max(1000, throttleWaitMs(r.cost, r.cost?.requested ?? limit * 12));
+      if (wait > waitBudget) {
+        throttled = true;
+        break;
       }
+      waitBudget -= wait;
+      await sleep(wait);
+      r = await graphqlWithCost(admin, ABANDONED_CHECKOUTS_QUERY, { first: limit, after: cursor, query: queryFilter });
     }
-  `;
-
-  try {
-    const res = await admin.graphql(query, { variables: { first: limit } });
-    const json = typeof (res as any)?.json === "function" ? await (res as any).json() : res;
-    const edges = json?.data?.abandonedCheckouts?.edges ?? [];
-    if (!Array.isArray(edges)) return { synced: 0 };
 
-    let synced = 0;
+    if (r.errors.length || !r.data?.abandonedCheckouts) {
+      throttled = throttled || r.throttled;
+      errors.push(...(r.errors.length ? r.errors : ["abandonedCheckouts: empty response"]));
+      break;
+    }
 
+    const conn = r.data.abandonedCheckouts;
+    const edges = Array.isArray(conn.edges) ? conn.edges : [];
     for (const e of edges) {
-      const n = e?.node;
-      const checkoutId = String(n?.id ?? "").trim();
-      if (!checkoutId) continue;
-
-      const firstName = String(n?.shippingAddress?.firstName ?? n?.customer?.firstName ?? "").trim();
-      const lastName = String(n?.shippingAddress?.lastName ?? n?.customer?.lastName ?? "").trim();
-      const customerName = `${firstName} ${lastName}`.trim() || null;
-
-      const items = (n?.lineItems?.edges ?? [])
-        .map((x: any) => x?.node)
-        .filter(Boolean)
-        .map((it: any) => ({
-          title: it?.title ?? null,
-          quantity: Number(it?.quantity ?? 1),
-          variantTitle: it?.variantTitle ?? null,
-          price: it?.originalUnitPriceSet?.shopMoney?.amount ?? null,
-          currency: it?.originalUnitPriceSet?.shopMoney?.currencyCode ?? null,
-        }))
-        .filter((x: any) => x.title);
-
-      const itemsJson = items.length ? JSON.stringify(items) : null;
-
-      const amount = Number(n?.totalPriceSet?.shopMoney?.amount ?? 0);
-      const currency = String(n?.totalPriceSet?.shopMoney?.currencyCode ?? "USD");
-      const completedAt = n?.completedAt ? new Date(n.completedAt) : null;
-      const phoneStored = normalizePhoneForStorage(n?.phone);
-
-      const abandonedAt = completedAt ? null : new Date(n?.updatedAt ?? n?.createdAt ?? Date.now());
-
-      await db.checkout.upsert({
-        where: { shop_checkoutId: { shop, checkoutId } },
-        create: {
-          shop,
-          checkoutId,
-          token: null,
-          email: n?.email ?? null,
-          phone: phoneStored,
-          value: Number.isFinite(amount) ? amount : 0,
-          currency,
-          status: completedAt ? "CONVERTED" : "ABANDONED",
-          abandonedAt,
-          raw: JSON.stringify(n ?? null),
-          customerName,
-          itemsJson,
-        },
-        update: {
-          email: n?.email ?? null,
-          phone: phoneStored,
-          value: Number.isFinite(amount) ? amount : 0,
-          currency,
-          status: completedAt ? "CONVERTED" : "ABANDONED",
-          abandonedAt,
-          raw: JSON.stringify(n ?? null),
-          customerName,
-          itemsJson,
-        },
-      });
+      try {
+        if (await upsertAbandonedCheckoutNode(shop, e?.node)) synced += 1;
+      } catch (err: any) {
+        failed += 1;
+        if (errors.length < 20) errors.push(`${String(e?.node?.id ?? "?")}: ${String(err?.message ?? err)}`);
+      }
+    }
+
+    pages += 1;
+    cursor = conn.pageInfo?.endCursor ?? cursor;
 
-      synced += 1;
+    if (!conn.pageInfo?.hasNextPage) {
+      done = true;
+      break;
     }
 
-    return { synced };
-  } catch {
-    return { synced: 0 };
+    // Stay under the cost bucket: wait for the next page's points, or stop and resume later.
+    const wait = throttleWaitMs(r.cost, r.cost?.requested ?? 0);
+    if (wait > 0) {
+      if (wait > waitBudget) {
+        throttled = true;
+        break;
+      }
+      waitBudget -= wait;
+      await sleep(wait);
+    }
   }
+
+  const now = new Date();
+  const runStartedAt = state.runStartedAt ?? now;
+  const highWaterMark = done
+    ? new Date(Math.max(runStartedAt.getTime(), state.highWaterMark?.getTime() ?? 0))
+    : (state.highWaterMark ?? null);
+
+  const saved = await db.checkoutSyncState.update({
+    where: { shop },
+    data: {
+      ...(done
+        ? { runMode: null, runSince: null, runCursor: null, runStartedAt: null, highWaterMark }
+        : { runCursor: cursor }),
+      ...(done && mode === "backfill" ? { backfillDoneAt: now } : {}),
+      runSynced: { increment: synced },
+      runFailed: { increment: failed },
+      lastRunAt: now,
+      lastSynced: synced,
+      lastError: errors.length ? errors.slice(0, 5).join(" | ").slice(0, 2000) : null,
+    },
+  });
+
+  console.log("[SYNC] abandoned_checkouts", { shop, mode, synced, failed, pages, done, throttled, errors: errors.length });
+
+  return {
+    ok: errors.length === 0,
+    mode,
+    synced,
+    failed,
+    pages,
+    done,
+    throttled,
+    errors,
+    highWaterMark: highWaterMark ? highWaterMark.toISOString() : null,
+    progress: { synced: saved.runSynced, total: saved.runTotal ?? null },
+  };
 }
 
 export async function ensureSettings(shop: string) {
@@ -227,6 +463,30 @@ export async function ensureSettings(shop: string) {
   );
 }
 
+/**
+ * Copy the shop's IANA timezone from Shopify into Settings.shopTimezone
+ * (only when missing, so a merchant override is kept).
+ */
+export async function syncShopTimezoneFromShopify(params: { admin: AdminClient; shop: string }) {
+  const { admin, shop } = params;
+
+  const current = await db.settings.findUnique({ where: { shop }, select: { shopTimezone: true } });
+  if (current?.shopTimezone && isValidTimeZone(current.shopTimezone)) return current.shopTimezone;
+
+  try {
+    const res = await admin.graphql(`query ShopTimezone { shop { ianaTimezone } }`);
+    const json = typeof (res as any)?.json === "function" ? await (res as any).json() : res;
+    const tz = String(json?.data?.shop?.ianaTimezone ?? "").trim();
+    if (!tz || !isValidTimeZone(tz)) return current?.shopTimezone ?? null;
+
+    await db.settings.updateMany({ where: { shop }, data: { shopTimezone: tz } });
+    return tz;
+  } catch (e: any) {
+    console.log("[SETTINGS] shop_timezone_sync_failed", { shop, err: String(e?.message ?? e) });
+    return current?.shopTimezone ?? null;
+  }
+}
+
 export async function markAbandonedByDelay(shop: string, delayMinutes: number) {
   const cutoff = new Date(Date.now() - delayMinutes * 60 * 1000);
 
@@ -244,6 +504,21 @@ export async function markAbandonedByDelay(shop: string, delayMinutes: number) {
   });
 }
 
+/** Earlier checkouts per email that ended in an order (the "returning customer" history for rules and priority). */
+export async function convertedCheckoutsByEmail(shop: string, emails: Array<string | null | undefined>) {
+  const unique = Array.from(new Set(emails.map((e) => String(e ?? "").trim()).filter(Boolean)));
+  const out = new Map<string, number>();
+  if (!unique.length) return out;
+
+  const converted = await db.checkout.groupBy({
+    by: ["email"],
+    where: { shop, email: { in: unique }, status: { in: ["CONVERTED", "RECOVERED"] } },
+    _count: { _all: true },
+  });
+  for (const g of converted) if (g.email) out.set(g.email, g._count._all);
+  return out;
+}
+
 /**
  * ENQUEUE
  *
@@ -251,6 +526,14 @@ export async function markAbandonedByDelay(shop: string, delayMinutes: number) {
  * - maxAttempts is enforced per current abandonment cycle.
  * - Abandonment cycle is driven by Checkout.abandonedAt (set by markAbandonedByDelay).
  * - When a checkout becomes active again, webhook should set status=OPEN + abandonedAt=null to start a new cycle.
+ * - The call window is evaluated in the customer's timezone (from Checkout.raw), falling back to shopTimezone.
+ * - callSchedule (weekly windows + blackout/holiday dates) wins over callWindowStart/End when given.
+ * - Retry delay comes from retryPolicy, keyed on the last attempt's disposition/endedReason.
+ *   "Never retry" outcomes stop the cycle and the reason is appended to that job's outcome.
+ * - Suppressed phones/emails are never queued: open jobs are canceled and one SUPPRESSED job is recorded per cycle.
+ * - attemptLadder (when non-empty) sets the timing per cycle attempt instead of delayMinutes / retry delays.
+ * - Call rules run after the consent/score gates: "skip" cancels the cycle's open jobs, "delay" pushes the
+ *   target back before the call window is applied. The matched rule is stored on the job.
  */
 export async function enqueueCallJobs(params: {
   shop: string;
@@ -258,15 +541,34 @@ export async function enqueueCallJobs(params: {
   minOrderValue: number;
   callWindowStart: string;
   callWindowEnd: string;
+  callSchedule?: CallSchedule | null;
+  retryPolicy?: RetryPolicy | null;
+  attemptLadder?: LadderStep[] | null;
+  shopTimezone?: string | null;
+  consentPolicy?: ConsentPolicy | null;
+  consentCountries?: string[] | null;
+  contactCaps?: ContactCaps | null;
+  priorityWeights?: PriorityWeights | null;
+  recoveryModel?: RecoveryModel | null;
+  minRecoveryScore?: number | null; // 0..1
+  rules?: CallRule[] | null;
   delayMinutes: number;
   maxAttempts: number;
   retryMinutes: number;
 }) {
   const { shop, enabled, minOrderValue, callWindowStart, callWindowEnd, delayMinutes, maxAttempts, retryMinutes } =
     params;
+  const shopTimezone = params.shopTimezone ?? null;
+  const schedule = params.callSchedule ?? defaultCallSchedule(callWindowStart, callWindowEnd);
+
+  // Skips also go to the event log (deduped per hour) so merchants can see why a checkout wasn't called.
+  const skip = async (checkoutId: string | null, reason: string, details: Record<string, any> = {}) => {
+    console.log("[ENQUEUE] skip", { shop, checkoutId, reason, ...details });
+    await logEvent({ shop, checkoutId, code: "ENQUEUE_SKIPPED", message: reason, details, dedupeMinutes: 60 });
+  };
 
   if (!enabled) {
-    console.log("[ENQUEUE] disabled", { shop });
+    await skip(null, "CALLS_DISABLED");
     return { enqueued: 0 };
   }
 
@@ -277,10 +579,21 @@ export async function enqueueCallJobs(params: {
   const delayM = Math.max(0, Number(delayMinutes ?? 30));
   const retryM = Math.max(0, Number(retryMinutes ?? 180));
   const maxA = clamp(Number(maxAttempts ?? 2), 1, 10);
+  const policy = params.retryPolicy ?? defaultRetryPolicy(retryM);
+  const ladder = params.attemptLadder ?? [];
+  const consentPolicy = params.consentPolicy ?? "ignore";
+  const consentCountries = params.consentCountries ?? [];
+  const callCap = params.contactCaps?.call ?? null;
+  const priorityWeights = params.priorityWeights ?? DEFAULT_PRIORITY_WEIGHTS;
+  const recoveryModel = params.recoveryModel ?? null;
+  const minRecoveryScore = params.minRecoveryScore ?? null;
+  const rules = params.rules ?? [];
 
   // Stale protection to avoid permanent IN_FLIGHT_EXISTS
   const CALLING_STALE_MINUTES = clamp(Number(process.env.CALLING_STALE_MINUTES ?? 30), 5, 240);
   const QUEUED_STALE_HOURS = clamp(Number(process.env.QUEUED_STALE_HOURS ?? 24), 1, 168);
+  // Carts abandoned longer ago than this are history (e.g. from a backfill), never dialed.
+  const MAX_CHECKOUT_AGE_DAYS = clamp(Number(process.env.MAX_CHECKOUT_AGE_DAYS ?? 14), 1, 90);
 
   const candidates = await db.checkout.findMany({
     where: {
@@ -288,9 +601,23 @@ export async function enqueueCallJobs(params: {
       status: "ABANDONED",
       phone: { not: null },
       value: { gte: minValue },
-      abandonedAt: { not: null },
+      abandonedAt: { not: null, gte: new Date(nowMs - MAX_CHECKOUT_AGE_DAYS * 24 * 60 * 60 * 1000) },
+    },
+    select: {
+      checkoutId: true,
+      phone: true,
+      email: true,
+      abandonedAt: true,
+      updatedAt: true,
+      value: true,
+      currency: true,
+      raw: true,
+      itemsJson: true,
+      productTagsJson: true,
+      marketingConsent: true,
+      smsConsent: true,
     },
-    select: { checkoutId: true, phone: true, abandonedAt: true, updatedAt: true, value: true },
+    orderBy: { abandonedAt: "desc" },
     take: 200,
   });
 
@@ -301,6 +628,38 @@ export async function enqueueCallJobs(params: {
 
   const checkoutIds = candidates.map((c) => c.checkoutId);
 
+  const contactKeys = new Map(
+    candidates.map((c) => {
+      const location = extractCheckoutLocation(c.raw);
+      return [
+        c.checkoutId,
+        {
+          country: location.iso2,
+          phone: normalizePhoneE164(c.phone, callingCodeForCountry(location.iso2)),
+          email: normalizeSuppressionEmail(c.email),
+        },
+      ];
+    })
+  );
+  const suppressions = await loadActiveSuppressions({
+    shop,
+    phones: Array.from(contactKeys.values()).map((k) => k.phone ?? ""),
+    emails: Array.from(contactKeys.values()).map((k) => k.email ?? ""),
+  });
+
+  // Recovery likelihood (also stored on the checkout for display); gating only with a threshold.
+  const recoveryScores = recoveryModel
+    ? await scoreRecoveryCandidates({ shop, shopTimezone, model: recoveryModel, candidates })
+    : new Map<string, number>();
+
+  // Customer history for priority and rules.
+  const convertedByEmail = await convertedCheckoutsByEmail(shop, candidates.map((c) => c.email));
+
+  // Calls to the same phone/email from any checkout; grows as this run enqueues.
+  const callEvents = callCap
+    ? await loadCallEvents({ shop, since: new Date(nowMs - callCap.hours * 60 * 60 * 1000) })
+    : [];
+
   const existingJobs = await db.callJob.findMany({
     where: {
       shop,
@@ -314,6 +673,9 @@ export async function enqueueCallJobs(params: {
       updatedAt: true,
       scheduledFor: true,
       providerCallId: true,
+      endedReason: true,
+      analysisJson: true,
+      outcome: true,
     },
     orderBy: { createdAt: "desc" },
     take: 5000,
@@ -328,6 +690,9 @@ export async function enqueueCallJobs(params: {
       updatedAt: Date;
       scheduledFor: Date | null;
       providerCallId: string | null;
+      endedReason: string | null;
+      analysisJson: string | null;
+      outcome: string | null;
     }>
   >();
 
@@ -340,6 +705,9 @@ export async function enqueueCallJobs(params: {
       updatedAt: new Date((j as any).updatedAt ?? j.createdAt),
       scheduledFor: (j as any).scheduledFor ? new Date((j as any).scheduledFor) : null,
       providerCallId: (j as any).providerCallId ? String((j as any).providerCallId) : null,
+      endedReason: j.endedReason ?? null,
+      analysisJson: j.analysisJson ?? null,
+      outcome: j.outcome ?? null,
     });
     jobsByCheckout.set(j.checkoutId, arr);
   }
@@ -363,28 +731,148 @@ export async function enqueueCallJobs(params: {
     const cycleStart = new Date((c.abandonedAt as any) ?? (c.updatedAt as any) ?? Date.now());
 
     if (!phone) {
-      console.log("[ENQUEUE] skip", { shop, checkoutId: c.checkoutId, reason: "NO_PHONE" });
+      await skip(c.checkoutId, "NO_PHONE");
       continue;
     }
 
     const allJobs = jobsByCheckout.get(c.checkoutId) ?? [];
-    const cycleJobs = allJobs.filter((j) => new Date(j.createdAt).getTime() >= cycleStart.getTime());
+    const inCycle = allJobs.filter((j) => new Date(j.createdAt).getTime() >= cycleStart.getTime());
+    // Frequency-cap and suppression skip records are bookkeeping only; they don't use up attempts,
+    // so lifting a cap or removing a suppression leaves the cycle's attempts intact.
+    const isCapRecord = (j: { status: string; outcome: string | null }) =>
+      j.status === "CANCELED" && String(j.outcome ?? "").startsWith(FREQUENCY_CAPPED);
+    const isSuppressedRecord = (j: { status: string; outcome: string | null }) =>
+      j.status === "CANCELED" && String(j.outcome ?? "").startsWith("SUPPRESSED");
+    const cycleJobs = inCycle.filter((j) => !isCapRecord(j) && !isSuppressedRecord(j));
+
+    const keys = contactKeys.get(c.checkoutId);
+    const suppressed =
+      (keys?.phone ? suppressions.get(`PHONE:${keys.phone}`) : null) ??
+      (keys?.email ? suppressions.get(`EMAIL:${keys.email}`) : null) ??
+      null;
+
+    if (suppressed) {
+      const outcome = suppressionOutcome(suppressed);
+      await skip(c.checkoutId, "SUPPRESSED", { kind: suppressed.kind });
+
+      const open = cycleJobs.filter((j) => j.status === "QUEUED").map((j) => j.id);
+      if (open.length) {
+        await transitionCallJobs({
+          where: { id: { in: open }, status: "QUEUED" },
+          to: "CANCELED",
+          source: "enqueue",
+          data: { outcome },
+        });
+      }
+
+      if (!open.length && !inCycle.some(isSuppressedRecord)) {
+        try {
+          await createCallJob(
+            { shop, checkoutId: c.checkoutId, phone, scheduledFor: now, status: "CANCELED", attempts: 0, outcome },
+            "enqueue"
+          );
+        } catch (e: any) {
+          console.log("[ENQUEUE] suppressed_record_failed", { shop, checkoutId: c.checkoutId, err: String(e?.message ?? e) });
+        }
+      }
+      continue;
+    }
+
+    const noConsent = consentBlockReason({
+      policy: consentPolicy,
+      countries: consentCountries,
+      iso2: keys?.country ?? null,
+      consent: { marketingConsent: c.marketingConsent ?? null, smsConsent: c.smsConsent ?? null },
+      channel: "call",
+    });
+
+    if (noConsent) {
+      await skip(c.checkoutId, noConsent, { country: keys?.country ?? null });
+
+      // Policy may have been tightened after these were queued.
+      const open = cycleJobs.filter((j) => j.status === "QUEUED").map((j) => j.id);
+      if (open.length) {
+        await transitionCallJobs({
+          where: { id: { in: open }, status: "QUEUED" },
+          to: "CANCELED",
+          source: "enqueue",
+          data: { outcome: noConsent },
+        });
+      }
+      continue;
+    }
+
+    const recoveryScore = recoveryScores.get(c.checkoutId);
+    if (minRecoveryScore != null && recoveryScore != null && recoveryScore < minRecoveryScore) {
+      const outcome = lowRecoveryOutcome(recoveryScore, minRecoveryScore);
+      await skip(c.checkoutId, outcome);
+
+      // Threshold may have been raised after these were queued.
+      const open = cycleJobs.filter((j) => j.status === "QUEUED").map((j) => j.id);
+      if (open.length) {
+        await transitionCallJobs({
+          where: { id: { in: open }, status: "QUEUED" },
+          to: "CANCELED",
+          source: "enqueue",
+          data: { outcome },
+        });
+      }
+      continue;
+    }
+
+    const priorOrders = convertedByEmail.get(String(c.email ?? "").trim()) ?? 0;
+    const rule = evaluateRules(
+      rules,
+      buildRuleContext({
+        raw: c.raw,
+        itemsJson: c.itemsJson,
+        value: c.value,
+        currency: c.currency ?? null,
+        abandonedAt: c.abandonedAt,
+        productTagsJson: c.productTagsJson,
+        priorOrders,
+        now,
+      })
+    );
+    const ruleRef = rule ? { ruleId: rule.id, ruleName: rule.name } : {};
+
+    if (rule?.action.type === "skip") {
+      const outcome = ruleOutcome(RULE_SKIP, rule);
+      await skip(c.checkoutId, RULE_SKIP, { ruleId: rule.id });
+
+      const open = cycleJobs.filter((j) => j.status === "QUEUED").map((j) => j.id);
+      if (open.length) {
+        await transitionCallJobs({
+          where: { id: { in: open }, status: "QUEUED" },
+          to: "CANCELED",
+          source: "enqueue",
+          data: { outcome, ...ruleRef },
+        });
+      }
+      continue;
+    }
+
+    // SMS-only rules text once per cycle; don't queue more attempts just to send it again.
+    if (rule?.action.type === "sms_only" && cycleJobs.some((j) => String(j.outcome ?? "").startsWith(RULE_SMS_ONLY))) {
+      await skip(c.checkoutId, RULE_SMS_ONLY, { ruleId: rule.id });
+      continue;
+    }
 
     // Auto-expire stale CALLING/QUEUED so they don't block forever.
+    // CALLING jobs with a provider call id are left to the reconciler, which asks the provider how the call ended.
     for (const j of cycleJobs) {
       const ageMs = nowMs - j.createdAt.getTime();
 
-      if (j.status === "CALLING" && ageMs > CALLING_STALE_MINUTES * 60 * 1000) {
+      if (j.status === "CALLING" && !j.providerCallId && ageMs > CALLING_STALE_MINUTES * 60 * 1000) {
         try {
-          await db.callJob.update({
-            where: { id: j.id },
-            data: {
-              status: "FAILED",
-              outcome: `STALE_CALLING_TIMEOUT_${CALLING_STALE_MINUTES}M`,
-              updatedAt: new Date(),
-            } as any,
+          const r = await transitionCallJob({
+            id: j.id,
+            to: "FAILED",
+            source: "stale_expiry",
+            data: { outcome: `STALE_CALLING_TIMEOUT_${CALLING_STALE_MINUTES}M` },
+            payload: { ageMinutes: Math.round(ageMs / 60000) },
           });
-          j.status = "FAILED";
+          if (r.ok) j.status = "FAILED";
         } catch (e: any) {
           console.log("[ENQUEUE] stale_calling_update_failed", { shop, checkoutId: c.checkoutId, id: j.id, err: String(e?.message ?? e) });
         }
@@ -395,15 +883,14 @@ export async function enqueueCallJobs(params: {
         const overdueMs = nowMs - dueAt;
         if (overdueMs > QUEUED_STALE_HOURS * 60 * 60 * 1000) {
           try {
-            await db.callJob.update({
-              where: { id: j.id },
-              data: {
-                status: "FAILED",
-                outcome: `STALE_QUEUED_TIMEOUT_${QUEUED_STALE_HOURS}H`,
-                updatedAt: new Date(),
-              } as any,
+            const r = await transitionCallJob({
+              id: j.id,
+              to: "FAILED",
+              source: "stale_expiry",
+              data: { outcome: `STALE_QUEUED_TIMEOUT_${QUEUED_STALE_HOURS}H` },
+              payload: { overdueMinutes: Math.round(overdueMs / 60000) },
             });
-            j.status = "FAILED";
+            if (r.ok) j.status = "FAILED";
           } catch (e: any) {
             console.log("[ENQUEUE] stale_queued_update_failed", { shop, checkoutId: c.checkoutId, id: j.id, err: String(e?.message ?? e) });
           }
@@ -413,16 +900,13 @@ export async function enqueueCallJobs(params: {
 
     const inFlight = cycleJobs.some((j) => j.status === "QUEUED" || j.status === "CALLING");
     if (inFlight) {
-      console.log("[ENQUEUE] skip", { shop, checkoutId: c.checkoutId, reason: "IN_FLIGHT_EXISTS" });
+      await skip(c.checkoutId, "IN_FLIGHT_EXISTS");
       continue;
     }
 
     const cycleAttempts = cycleJobs.length;
     if (cycleAttempts >= maxA) {
-      console.log("[ENQUEUE] skip", {
-        shop,
-        checkoutId: c.checkoutId,
-        reason: "MAX_ATTEMPTS_REACHED_FOR_CURRENT_CYCLE",
+      await skip(c.checkoutId, "MAX_ATTEMPTS_REACHED_FOR_CURRENT_CYCLE", {
         cycleAttempts,
         maxA,
         cycleStart: cycleStart.toISOString(),
@@ -430,39 +914,115 @@ export async function enqueueCallJobs(params: {
       continue;
     }
 
+    const timezone = resolveCustomerTimezone(c.raw, shopTimezone);
+    const country = keys?.country ?? null;
+    const step = ladderStepFor(ladder, cycleAttempts);
+
     const lastCycleJob = cycleJobs[0] ?? null;
     let target: Date;
 
     if (!lastCycleJob) {
-      target = new Date(cycleStart.getTime() + delayM * 60 * 1000);
+      target = step ? ladderTarget(step, cycleStart, timezone) : new Date(cycleStart.getTime() + delayM * 60 * 1000);
     } else {
       if (lastCycleJob.status !== "FAILED" && lastCycleJob.status !== "COMPLETED" && lastCycleJob.status !== "CANCELED") {
-        console.log("[ENQUEUE] skip", {
-          shop,
-          checkoutId: c.checkoutId,
-          reason: "LAST_JOB_NOT_TERMINAL",
-          lastStatus: lastCycleJob.status,
-        });
+        await skip(c.checkoutId, "LAST_JOB_NOT_TERMINAL", { lastStatus: lastCycleJob.status });
+        continue;
+      }
+
+      const outcomeKey = classifyRetryOutcome(lastCycleJob);
+      const delay = retryDelayMinutes(policy[outcomeKey], cycleAttempts - 1);
+
+      if (delay == null) {
+        const reason = `NO_RETRY:${outcomeKey}`;
+        await skip(c.checkoutId, reason, { lastJobId: lastCycleJob.id });
+
+        if (!String(lastCycleJob.outcome ?? "").includes(reason)) {
+          const outcome = [lastCycleJob.outcome, reason].filter(Boolean).join(" | ").slice(0, 2000);
+          try {
+            await db.callJob.update({ where: { id: lastCycleJob.id }, data: { outcome } });
+            lastCycleJob.outcome = outcome;
+          } catch (e: any) {
+            console.log("[ENQUEUE] skip_reason_update_failed", { shop, id: lastCycleJob.id, err: String(e?.message ?? e) });
+          }
+        }
         continue;
       }
 
       const anchor = new Date((lastCycleJob.scheduledFor ?? lastCycleJob.createdAt) as any);
-      target = new Date(anchor.getTime() + retryM * 60 * 1000);
+      target = step ? ladderTarget(step, anchor, timezone) : new Date(anchor.getTime() + delay * 60 * 1000);
+    }
+
+    if (rule?.action.type === "delay" && rule.action.delayMinutes) {
+      target = new Date(target.getTime() + rule.action.delayMinutes * 60 * 1000);
+    }
+
+    const scheduledFor = nextAllowedSlot(target, schedule, timezone, country);
+    if (!scheduledFor) {
+      await skip(c.checkoutId, "NO_ALLOWED_SLOT", { timezone, country });
+      continue;
+    }
+
+    const capKeys = [keys?.phone ? `PHONE:${keys.phone}` : "", keys?.email ? `EMAIL:${keys.email}` : ""].filter(Boolean);
+    if (callCap && isCapReached(callEvents, capKeys, scheduledFor, callCap)) {
+      const outcome = frequencyCapOutcome("call", callCap);
+      await skip(c.checkoutId, FREQUENCY_CAPPED, { cap: callCap });
+
+      // One record per cycle so the dashboard can count capped volume.
+      if (!inCycle.some(isCapRecord)) {
+        try {
+          const rec = await createCallJob(
+            { shop, checkoutId: c.checkoutId, phone, scheduledFor: now, timezone, status: "CANCELED", attempts: 0, outcome },
+            "enqueue"
+          );
+          allJobs.unshift({
+            id: rec.id,
+            status: "CANCELED",
+            createdAt: now,
+            updatedAt: now,
+            scheduledFor: now,
+            providerCallId: null,
+            endedReason: null,
+            analysisJson: null,
+            outcome,
+          });
+          jobsByCheckout.set(c.checkoutId, allJobs);
+        } catch (e: any) {
+          console.log("[ENQUEUE] capped_record_failed", { shop, checkoutId: c.checkoutId, err: String(e?.message ?? e) });
+        }
+      }
+      continue;
     }
 
-    const scheduledFor = adjustToWindow(target, callWindowStart, callWindowEnd);
+    const cart = cartValueInShopCurrency(c.raw, { value: Number(c.value ?? 0), currency: c.currency ?? null });
+    const lastIntent = allJobs.map((j) => buyProbabilityFromAnalysis(j.analysisJson)).find((p) => p != null) ?? null;
+    const priority = computePriority(
+      {
+        cartValue: cart.value,
+        currency: cart.currency,
+        ordersCount: Math.max(customerOrdersCount(c.raw), priorOrders),
+        buyProbability: lastIntent,
+        hoursSinceAbandoned: Math.max(0, (nowMs - cycleStart.getTime()) / (60 * 60 * 1000)),
+      },
+      priorityWeights
+    );
 
     try {
-      const created = await db.callJob.create({
-        data: {
+      const created = await createCallJob(
+        {
           shop,
           checkoutId: c.checkoutId,
           phone,
           scheduledFor,
+          timezone,
           status: "QUEUED",
           attempts: 0,
+          priorityScore: priority.score,
+          priorityJson: JSON.stringify(priority),
+          ...ruleRef,
         },
-      });
+        "enqueue",
+        { attempt: cycleAttempts + 1, ruleId: rule?.id ?? null }
+      );
 
       const arr = jobsByCheckout.get(c.checkoutId) ?? [];
       arr.unshift({
@@ -472,8 +1032,12 @@ export async function enqueueCallJobs(params: {
         updatedAt: new Date(),
         scheduledFor,
         providerCallId: null,
+        endedReason: null,
+        analysisJson: null,
+        outcome: null,
       });
       jobsByCheckout.set(c.checkoutId, arr);
+      if (callCap) callEvents.push({ at: scheduledFor, keys: capKeys });
 
       enqueued += 1;
 
@@ -482,12 +1046,23 @@ export async function enqueueCallJobs(params: {
         shop,
         checkoutId: c.checkoutId,
         scheduledFor: scheduledFor.toISOString(),
+        timezone,
+        priority: priority.score,
+        ruleId: rule?.id ?? null,
         cycleStart: cycleStart.toISOString(),
       });
+      await logEvent({
+        shop,
+        checkoutId: c.checkoutId,
+        callJobId: created.id,
+        code: "ENQUEUE_CREATED",
+        message: `Scheduled for ${scheduledFor.toISOString()} (${timezone ?? "shop timezone"})`,
+        details: { attempt: cycleAttempts + 1, priority: priority.score, ruleId: rule?.id ?? null, ruleName: rule?.name ?? null },
+      });
     } catch (e: any) {
       const msg = String(e?.message ?? "").toLowerCase();
       if (msg.includes("unique")) {
-        console.log("[ENQUEUE] skip", { shop, checkoutId: c.checkoutId, reason: "UNIQUE_CONSTRAINT" });
+        await skip(c.checkoutId, "UNIQUE_CONSTRAINT");
         continue;
       }
       console.log("[ENQUEUE] error", {
@@ -495,6 +1070,13 @@ export async function enqueueCallJobs(params: {
         checkoutId: c.checkoutId,
         error: String(e?.message ?? e),
       });
+      await logEvent({
+        shop,
+        checkoutId: c.checkoutId,
+        level: "error",
+        code: "ENQUEUE_FAILED",
+        message: String(e?.message ?? e),
+      });
       throw e;
     }
   }
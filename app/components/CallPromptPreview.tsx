@@ -0,0 +1,87 @@
+import * as React from "react";
+import { callLanguageLabel } from "../lib/callLanguage.shared";
+import type { CallPromptPreview as CallPromptPreviewResult, PromptSection } from "../lib/callPrompt.shared";
+
+const monoStyle: React.CSSProperties = {
+  margin: 0,
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,0.12)",
+  background: "rgba(0,0,0,0.03)",
+  fontSize: 12,
+  overflow: "auto",
+  maxHeight: 260,
+  whiteSpace: "pre-wrap",
+  wordBreak: "break-word",
+};
+
+const chipStyle: React.CSSProperties = {
+  padding: "2px 8px",
+  borderRadius: 999,
+  border: "1px solid rgba(0,0,0,0.14)",
+  background: "white",
+  fontSize: 11,
+  fontWeight: 800,
+};
+
+function Section({ section }: { section: PromptSection }) {
+  return (
+    <div style={{ display: "grid", gap: 6, minWidth: 0 }}>
+      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+        <span style={{ fontWeight: 950, fontSize: 13 }}>{section.title}</span>
+        <span style={{ ...chipStyle, background: section.role === "system" ? "rgba(0,0,0,0.06)" : "rgba(0,91,211,0.08)" }}>
+          {section.role}
+        </span>
+        {section.sources.map((src) => (
+          <span key={src} style={{ ...chipStyle, opacity: 0.8 }}>
+            {src}
+          </span>
+        ))}
+      </div>
+      <pre style={monoStyle}>{section.text}</pre>
+    </div>
+  );
+}
+
+/** Dry-run result of previewCallPrompt: each prompt section with where it came from, the raw messages and the tools. */
+export function CallPromptPreview({ preview }: { preview: CallPromptPreviewResult }) {
+  if (!preview.ok) {
+    return <div style={{ fontSize: 12, fontWeight: 800, color: "#8e1f0b" }}>Preview failed: {preview.error}</div>;
+  }
+
+  const { language, rule, prompt } = preview;
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ opacity: 0.8, fontWeight: 800, fontSize: 12 }}>
+        Checkout {preview.checkoutId} · Attempt #{preview.attemptNumber} · {callLanguageLabel(language.language)} (
+        {language.source}
+        {language.hint ? `: ${language.hint}` : ""}) · Rule: {rule ? `${rule.name} (${rule.action})` : "none"} · SMS tool:{" "}
+        {preview.smsEnabled ? "on" : "off"}
+      </div>
+
+      {preview.notes.length ? (
+        <ul style={{ margin: 0, paddingLeft: 18, fontSize: 12, fontWeight: 800, color: "#7a4b00" }}>
+          {preview.notes.map((n) => (
+            <li key={n}>{n}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      {prompt.sections.map((s) => (
+        <Section key={`${s.role}-${s.key}`} section={s} />
+      ))}
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <span style={{ fontWeight: 950, fontSize: 13 }}>Tools</span>
+        <pre style={monoStyle}>
+          {prompt.tools.length ? JSON.stringify(prompt.tools, null, 2) : "No tools for this call."}
+        </pre>
+      </div>
+
+      <details>
+        <summary style={{ cursor: "pointer", fontWeight: 950, fontSize: 12 }}>Messages as sent</summary>
+        <pre style={monoStyle}>{JSON.stringify(prompt.messages, null, 2)}</pre>
+      </details>
+    </div>
+  );
+}
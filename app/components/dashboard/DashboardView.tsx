@@ -65,7 +65,8 @@ export type DashboardViewProps = {
       | "abandoned_eligible_count"
       | "calls_completed"
       | "followups_needed"
-      | "discount_requests";
+      | "discount_requests"
+      | "suppressed_volume";
     label: string;
     valueText: string;
     tone: BadgeTone;
@@ -122,6 +123,16 @@ export type DashboardViewProps = {
     }>;
   };
 
+  recoveryModel: {
+    status: "ready" | "untrained";
+    message: string;
+    lastError: string | null; // last retrain failed but an older model is still in use
+    thresholdText: string;
+    scoredOpen: number;
+    belowThreshold: number;
+    weights: Array<{ label: string; weightText: string; tone: BadgeTone }>;
+  };
+
   settings: {
     enabled: boolean;
 
@@ -285,6 +296,7 @@ export function DashboardView(props: DashboardViewProps) {
               <s-chip>Eligible = contactable + meets min order value</s-chip>
               <s-chip>Follow-ups = needs_followup outcomes</s-chip>
               <s-chip>Discounts = suggested or percent &gt; 0</s-chip>
+              <s-chip>Suppressed = do-not-call, consent and frequency-cap skips</s-chip>
             </s-stack>
           </s-stack>
         </s-section>
@@ -469,6 +481,66 @@ export function DashboardView(props: DashboardViewProps) {
           </s-box>
         </s-section>
 
+        {/* Recovery-likelihood model */}
+        <s-section heading="Recovery model">
+          <s-box border="base" borderRadius="base" padding="base" background="base">
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" align="space-between" gap="base">
+                <s-stack direction="block" gap="tight">
+                  <s-stack direction="inline" gap="tight">
+                    <s-badge tone={props.recoveryModel.status === "ready" ? "success" : "new"}>
+                      {props.recoveryModel.status === "ready" ? "TRAINED" : "NOT TRAINED"}
+                    </s-badge>
+                    <s-badge tone="info">Min score {props.recoveryModel.thresholdText}</s-badge>
+                  </s-stack>
+                  <s-text tone="subdued">{props.recoveryModel.message}</s-text>
+                </s-stack>
+
+                <Form method="post">
+                  <input type="hidden" name="intent" value="retrain_recovery_model" />
+                  <s-button type="submit" variant="secondary">
+                    Retrain now
+                  </s-button>
+                </Form>
+              </s-stack>
+
+              {props.recoveryModel.lastError ? (
+                <s-banner tone="warning" heading="Last retrain failed; using the previous model">
+                  <s-text>{props.recoveryModel.lastError}</s-text>
+                </s-banner>
+              ) : null}
+
+              {props.recoveryModel.status === "ready" ? (
+                <>
+                  <s-text tone="subdued">
+                    {props.recoveryModel.scoredOpen} open checkouts scored
+                    {props.recoveryModel.thresholdText !== "Off"
+                      ? ` · ${props.recoveryModel.belowThreshold} below the minimum (not called)`
+                      : ""}
+                  </s-text>
+
+                  <s-table>
+                    <s-table-header-row>
+                      <s-table-header>Signal</s-table-header>
+                      <s-table-header>Effect (log-odds per std. dev.)</s-table-header>
+                    </s-table-header-row>
+                    <s-table-body>
+                      {props.recoveryModel.weights.map((w) => (
+                        <s-table-row key={w.label}>
+                          <s-table-cell>{w.label}</s-table-cell>
+                          <s-table-cell>
+                            <s-badge tone={toneBadge(w.tone)}>{w.weightText}</s-badge>
+                          </s-table-cell>
+                        </s-table-row>
+                      ))}
+                    </s-table-body>
+                  </s-table>
+                </>
+              ) : null}
+            </s-stack>
+          </s-box>
+        </s-section>
+
         {/* System status / Settings snapshot */}
         <s-section heading="System status / Settings snapshot">
           <s-box border="base" borderRadius="base" padding="base" background="base">
@@ -5,9 +5,13 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startCallWorker } from "./lib/callWorker.server";
 
 export const streamTimeout = 5000;
 
+// Background call worker (no-op when CALL_WORKER_ENABLED=false or already running).
+startCallWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -0,0 +1,117 @@
+// app/lib/attemptLadder.shared.ts
+import { parseHHMM, nextAllowedSlot, type CallSchedule } from "./callWindow.shared";
+import { addCalendarDays, isValidTimeZone, zonedParts, zonedTimeToUtc } from "./timezones.shared";
+
+/* =========================
+   Attempt ladder
+   - Step N decides when attempt N+1 is due.
+   - Step 0 is anchored on abandonment, later steps on the previous attempt's scheduled time.
+   - Attempts beyond the ladder reuse the last step.
+   ========================= */
+export type LadderStep =
+  | { kind: "delay"; minutes: number }
+  | { kind: "at"; dayOffset: number; time: string }; // customer-local HH:MM, dayOffset days after the anchor
+
+const MAX_STEPS = 10;
+const MAX_DELAY_MINUTES = 14 * 24 * 60;
+
+function normalizeStep(s: any): LadderStep | null {
+  if (!s || typeof s !== "object") return null;
+
+  if (s.kind === "at") {
+    const time = String(s.time ?? "").trim();
+    if (parseHHMM(time) == null) return null;
+    const dayOffset = Math.max(0, Math.min(14, Math.round(Number(s.dayOffset ?? 0)) || 0));
+    return { kind: "at", dayOffset, time };
+  }
+
+  const minutes = Math.round(Number(s.minutes));
+  if (!Number.isFinite(minutes) || minutes < 0) return null;
+  return { kind: "delay", minutes: Math.min(minutes, MAX_DELAY_MINUTES) };
+}
+
+export function parseAttemptLadder(json: string | null | undefined): LadderStep[] {
+  let j: any = null;
+  try {
+    j = json ? JSON.parse(json) : null;
+  } catch {
+    j = null;
+  }
+  if (!Array.isArray(j)) return [];
+  return j.map(normalizeStep).filter((x): x is LadderStep => Boolean(x)).slice(0, MAX_STEPS);
+}
+
+/** null when the ladder is empty (= use delayMinutes / retry policy delays). */
+export function serializeAttemptLadder(steps: any[]): string | null {
+  const clean = (Array.isArray(steps) ? steps : [])
+    .map(normalizeStep)
+    .filter((x): x is LadderStep => Boolean(x))
+    .slice(0, MAX_STEPS);
+  return clean.length ? JSON.stringify(clean) : null;
+}
+
+export function formatLadderStep(step: LadderStep, index: number): string {
+  const from = index === 0 ? "after abandonment" : "after previous call";
+  if (step.kind === "delay") {
+    const m = step.minutes;
+    const human = m % 1440 === 0 && m > 0 ? `${m / 1440}d` : m % 60 === 0 && m > 0 ? `${m / 60}h` : `${m}m`;
+    return `${human} ${from}`;
+  }
+  const day = step.dayOffset === 0 ? "same day" : step.dayOffset === 1 ? "next day" : `${step.dayOffset} days later`;
+  return `${day} at ${step.time}`;
+}
+
+export function ladderStepFor(steps: LadderStep[], attemptIndex: number): LadderStep | null {
+  if (!steps.length) return null;
+  return steps[Math.max(0, Math.min(steps.length - 1, Math.floor(attemptIndex)))];
+}
+
+/** Due time for a step relative to its anchor. "at" steps that land before the anchor roll one day forward. */
+export function ladderTarget(step: LadderStep, anchor: Date, timeZone = "UTC"): Date {
+  if (step.kind === "delay") return new Date(anchor.getTime() + step.minutes * 60 * 1000);
+
+  const tz = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const mins = parseHHMM(step.time) ?? 0;
+  const local = zonedParts(anchor, tz);
+
+  const at = (offset: number) => {
+    const d = addCalendarDays(local, offset);
+    return zonedTimeToUtc({ year: d.year, month: d.month, day: d.day, hour: Math.floor(mins / 60), minute: mins % 60 }, tz);
+  };
+
+  const first = at(step.dayOffset);
+  return first.getTime() > anchor.getTime() ? first : at(step.dayOffset + 1);
+}
+
+export type LadderPreviewRow = {
+  attempt: number;
+  step: string;
+  target: Date;
+  scheduledFor: Date | null; // after the call schedule; null = no allowed slot
+};
+
+/** Timeline for a sample abandonment, assuming every attempt runs at its scheduled time. */
+export function previewAttemptLadder(params: {
+  steps: LadderStep[];
+  abandonedAt: Date;
+  maxAttempts: number;
+  schedule: CallSchedule;
+  timeZone: string;
+}): LadderPreviewRow[] {
+  const out: LadderPreviewRow[] = [];
+  let anchor = params.abandonedAt;
+
+  for (let i = 0; i < Math.max(1, Math.min(10, params.maxAttempts)); i++) {
+    const step = ladderStepFor(params.steps, i);
+    if (!step) break;
+
+    const target = ladderTarget(step, anchor, params.timeZone);
+    const scheduledFor = nextAllowedSlot(target, params.schedule, params.timeZone);
+    out.push({ attempt: i + 1, step: formatLadderStep(step, i), target, scheduledFor });
+
+    if (!scheduledFor) break;
+    anchor = scheduledFor;
+  }
+
+  return out;
+}
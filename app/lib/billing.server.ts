@@ -2,6 +2,7 @@
 import db from "../db.server";
 import { sessionStorage } from "../shopify.server";
 import { BILLING_CURRENCY, PLANS, type PlanKey, isPlanKey } from "./billingPlans.server";
+import { logEvent } from "./eventLog.server";
 
 type AdminLike = {
   graphql: (query: string, options?: any) => Promise<any>;
@@ -566,8 +567,11 @@ export async function applyBillingForCall(args: {
   const rawSeconds = Math.max(0, Math.floor(Number(args.connectedSeconds) || 0));
   const wasAnswered = !!args.answered;
   const wasVoicemail = !!args.voicemail;
+  // Simulator calls never reach anyone: recorded like an unanswered call so they can't be charged later.
+  const job = await db.callJob.findUnique({ where: { id: callJobId }, select: { provider: true } });
+  const simulated = job?.provider === "sim";
 
-  if (!wasAnswered || wasVoicemail || rawSeconds < 15) {
+  if (simulated || !wasAnswered || wasVoicemail || rawSeconds < 15) {
     await db.callCharge.upsert({
       where: { callJobId },
       update: {},
@@ -581,229 +585,255 @@ export async function applyBillingForCall(args: {
         idempotencyKey: idempotencyKeyForCall(callJobId),
       },
     });
+    await logEvent({
+      shop,
+      callJobId,
+      code: "BILLING",
+      message: simulated ? "Simulated call, not billed" : "Not billable",
+      details: { connectedSeconds: rawSeconds, answered: wasAnswered, voicemail: wasVoicemail, simulated },
+    });
     return;
   }
 
   const billableMinutes = Math.max(1, ceilMinutesFromSeconds(rawSeconds));
   const billableSeconds = billableMinutes * 60;
 
-  await db.$transaction(async (tx) => {
-    const exists = await tx.callCharge.findUnique({ where: { callJobId } });
-    if (exists) return;
-
-    let billing = await tx.shopBilling.upsert({
-      where: { shop },
-      update: {},
-      create: { shop },
-    });
-
-    const chargeAsFree = async (currentBilling: any) => {
-      const freeTotal = 10 * 60;
-      const freeUsed = Number(currentBilling?.freeSecondsUsed || 0);
-      const freeRemaining = Math.max(0, freeTotal - freeUsed);
-      const consumeFree = Math.min(billableSeconds, freeRemaining);
+  let charged: boolean;
+  try {
+    charged = await db.$transaction(async (tx) => {
+      const exists = await tx.callCharge.findUnique({ where: { callJobId } });
+      if (exists) return false;
 
-      await tx.shopBilling.update({
+      let billing = await tx.shopBilling.upsert({
         where: { shop },
-        data: { freeSecondsUsed: freeUsed + consumeFree },
+        update: {},
+        create: { shop },
       });
 
-      await tx.callCharge.create({
-        data: {
-          shop,
-          callJobId,
-          connectedSeconds: rawSeconds,
-          minutesBilled: billableMinutes,
-          amountCents: 0,
-          currencyCode: BILLING_CURRENCY,
-          idempotencyKey: idempotencyKeyForCall(callJobId),
-        },
-      });
-    };
+      const chargeAsFree = async (currentBilling: any) => {
+        const freeTotal = 10 * 60;
+        const freeUsed = Number(currentBilling?.freeSecondsUsed || 0);
+        const freeRemaining = Math.max(0, freeTotal - freeUsed);
+        const consumeFree = Math.min(billableSeconds, freeRemaining);
 
-    let planKey: PlanKey = isPlanKey(billing.plan) ? (billing.plan as PlanKey) : "FREE";
-    if (planKey === "FREE") {
-      await chargeAsFree(billing);
-      return;
-    }
+        await tx.shopBilling.update({
+          where: { shop },
+          data: { freeSecondsUsed: freeUsed + consumeFree },
+        });
 
-    if (!billing.usageLineItemId) {
-      try {
-        if (admin) {
-          await syncBillingFromShopify({ shop, admin });
-        } else {
-          const q = `#graphql
-query BillingState {
-  currentAppInstallation {
-    activeSubscriptions {
-      id
-      name
-      status
-      lineItems {
+        await tx.callCharge.create({
+          data: {
+            shop,
+            callJobId,
+            connectedSeconds: rawSeconds,
+            minutesBilled: billableMinutes,
+            amountCents: 0,
+            currencyCode: BILLING_CURRENCY,
+            idempotencyKey: idempotencyKeyForCall(callJobId),
+          },
+        });
+      };
+
+      let planKey: PlanKey = isPlanKey(billing.plan) ? (billing.plan as PlanKey) : "FREE";
+      if (planKey === "FREE") {
+        await chargeAsFree(billing);
+        return true;
+      }
+
+      if (!billing.usageLineItemId) {
+        try {
+          if (admin) {
+            await syncBillingFromShopify({ shop, admin });
+          } else {
+            const q = `#graphql
+  query BillingState {
+    currentAppInstallation {
+      activeSubscriptions {
         id
-        plan {
-          pricingDetails {
-            __typename
-            ... on AppUsagePricing {
-              cappedAmount { amount currencyCode }
-              balanceUsed { amount currencyCode }
-            }
-            ... on AppRecurringPricing {
-              interval
-              price { amount currencyCode }
+        name
+        status
+        lineItems {
+          id
+          plan {
+            pricingDetails {
+              __typename
+              ... on AppUsagePricing {
+                cappedAmount { amount currencyCode }
+                balanceUsed { amount currencyCode }
+              }
+              ... on AppRecurringPricing {
+                interval
+                price { amount currencyCode }
+              }
             }
           }
         }
       }
     }
-  }
-}`;
+  }`;
 
-          const j = await graphqlShop(shop, q, {}, undefined);
-          if (j?.errors?.length) {
-            throw new Error(j.errors.map((e: any) => e.message).join(" | "));
-          }
+            const j = await graphqlShop(shop, q, {}, undefined);
+            if (j?.errors?.length) {
+              throw new Error(j.errors.map((e: any) => e.message).join(" | "));
+            }
 
-          const subs = j?.data?.currentAppInstallation?.activeSubscriptions ?? [];
-          const ours = pickCurrentSubscription(subs);
-
-          if (ours) {
-            const { usageLine, recurringLine } = getSubscriptionLineItems(ours);
-            const existingRow = await tx.shopBilling.findUnique({ where: { shop } });
-
-            const detectedPlan = extractPlanFromSubscriptionName(ours.name);
-            const existingPlan = isPlanKey(existingRow?.plan) ? (existingRow?.plan as PlanKey) : "FREE";
-            const normalizedPlan: PlanKey =
-              detectedPlan ??
-              (existingPlan !== "FREE"
-                ? existingPlan
-                : recurringLine
-                  ? "STARTER"
-                  : usageLine
-                    ? "PAYG"
-                    : "FREE");
-
-            await tx.shopBilling.update({
-              where: { shop },
-              data: {
-                plan: normalizedPlan as any,
-                status: String(ours.status ?? "ACTIVE").toUpperCase() as any,
-                subscriptionId: ours.id,
-                usageLineItemId: usageLine?.id ?? null,
-                recurringLineItemId: recurringLine?.id ?? null,
-              },
-            });
-          } else {
-            await tx.shopBilling.update({
-              where: { shop },
-              data: {
-                plan: "FREE",
-                status: "NONE",
-                subscriptionId: null,
-                usageLineItemId: null,
-                recurringLineItemId: null,
-              },
-            });
+            const subs = j?.data?.currentAppInstallation?.activeSubscriptions ?? [];
+            const ours = pickCurrentSubscription(subs);
+
+            if (ours) {
+              const { usageLine, recurringLine } = getSubscriptionLineItems(ours);
+              const existingRow = await tx.shopBilling.findUnique({ where: { shop } });
+
+              const detectedPlan = extractPlanFromSubscriptionName(ours.name);
+              const existingPlan = isPlanKey(existingRow?.plan) ? (existingRow?.plan as PlanKey) : "FREE";
+              const normalizedPlan: PlanKey =
+                detectedPlan ??
+                (existingPlan !== "FREE"
+                  ? existingPlan
+                  : recurringLine
+                    ? "STARTER"
+                    : usageLine
+                      ? "PAYG"
+                      : "FREE");
+
+              await tx.shopBilling.update({
+                where: { shop },
+                data: {
+                  plan: normalizedPlan as any,
+                  status: String(ours.status ?? "ACTIVE").toUpperCase() as any,
+                  subscriptionId: ours.id,
+                  usageLineItemId: usageLine?.id ?? null,
+                  recurringLineItemId: recurringLine?.id ?? null,
+                },
+              });
+            } else {
+              await tx.shopBilling.update({
+                where: { shop },
+                data: {
+                  plan: "FREE",
+                  status: "NONE",
+                  subscriptionId: null,
+                  usageLineItemId: null,
+                  recurringLineItemId: null,
+                },
+              });
+            }
           }
+        } catch (e) {
+          throw new Error(`Billing sync failed: ${asErrorMessage(e)}`);
         }
-      } catch (e) {
-        throw new Error(`Billing sync failed: ${asErrorMessage(e)}`);
-      }
 
-      billing = await tx.shopBilling.findUniqueOrThrow({ where: { shop } });
-      planKey = isPlanKey(billing.plan) ? (billing.plan as PlanKey) : "FREE";
+        billing = await tx.shopBilling.findUniqueOrThrow({ where: { shop } });
+        planKey = isPlanKey(billing.plan) ? (billing.plan as PlanKey) : "FREE";
 
-      if (planKey === "FREE") {
-        await chargeAsFree(billing);
-        return;
-      }
+        if (planKey === "FREE") {
+          await chargeAsFree(billing);
+          return true;
+        }
 
-      if (!billing.usageLineItemId) {
-        throw new Error("No usage line item after sync");
+        if (!billing.usageLineItemId) {
+          throw new Error("No usage line item after sync");
+        }
       }
-    }
 
-    const p = PLANS[planKey];
-    if (!p) {
-      throw new Error(`Unknown billing plan: ${String(planKey)}`);
-    }
+      const p = PLANS[planKey];
+      if (!p) {
+        throw new Error(`Unknown billing plan: ${String(planKey)}`);
+      }
 
-    const includedTotal = (p.includedMinutes || 0) * 60;
-    const includedUsed = Number(billing.includedSecondsUsed || 0);
-    const includedRemaining = Math.max(0, includedTotal - includedUsed);
+      const includedTotal = (p.includedMinutes || 0) * 60;
+      const includedUsed = Number(billing.includedSecondsUsed || 0);
+      const includedRemaining = Math.max(0, includedTotal - includedUsed);
 
-    const consumeIncluded = Math.min(billableSeconds, includedRemaining);
-    const chargeableSeconds = Math.max(0, billableSeconds - consumeIncluded);
-    const chargeableMinutes = Math.floor(chargeableSeconds / 60);
+      const consumeIncluded = Math.min(billableSeconds, includedRemaining);
+      const chargeableSeconds = Math.max(0, billableSeconds - consumeIncluded);
+      const chargeableMinutes = Math.floor(chargeableSeconds / 60);
 
-    await tx.shopBilling.update({
-      where: { shop },
-      data: { includedSecondsUsed: includedUsed + consumeIncluded },
-    });
+      await tx.shopBilling.update({
+        where: { shop },
+        data: { includedSecondsUsed: includedUsed + consumeIncluded },
+      });
 
-    const rateCents = eurToCents(p.overageEURPerMin);
-    const amountCents = chargeableMinutes * rateCents;
+      const rateCents = eurToCents(p.overageEURPerMin);
+      const amountCents = chargeableMinutes * rateCents;
 
-    let usageRecordId: string | null = null;
+      let usageRecordId: string | null = null;
 
-    if (amountCents > 0) {
-      const m = `#graphql
-mutation UsageCharge(
-  $description: String!
-  $price: MoneyInput!
-  $subscriptionLineItemId: ID!
-  $idempotencyKey: String
-) {
-  appUsageRecordCreate(
-    description: $description
-    price: $price
-    subscriptionLineItemId: $subscriptionLineItemId
-    idempotencyKey: $idempotencyKey
+      if (amountCents > 0) {
+        const m = `#graphql
+  mutation UsageCharge(
+    $description: String!
+    $price: MoneyInput!
+    $subscriptionLineItemId: ID!
+    $idempotencyKey: String
   ) {
-    userErrors { field message }
-    appUsageRecord { id }
-  }
-}`;
+    appUsageRecordCreate(
+      description: $description
+      price: $price
+      subscriptionLineItemId: $subscriptionLineItemId
+      idempotencyKey: $idempotencyKey
+    ) {
+      userErrors { field message }
+      appUsageRecord { id }
+    }
+  }`;
 
-      const idempotencyKey = idempotencyKeyForCall(callJobId);
+        const idempotencyKey = idempotencyKeyForCall(callJobId);
 
-      const json = await graphqlShop(
-        shop,
-        m,
-        {
-          description: `${p.title}: ${chargeableMinutes} min overage (call ${callJobId})`,
-          price: { amount: (amountCents / 100).toFixed(2), currencyCode: BILLING_CURRENCY },
-          subscriptionLineItemId: billing.usageLineItemId,
-          idempotencyKey,
-        },
-        admin
-      );
+        const json = await graphqlShop(
+          shop,
+          m,
+          {
+            description: `${p.title}: ${chargeableMinutes} min overage (call ${callJobId})`,
+            price: { amount: (amountCents / 100).toFixed(2), currencyCode: BILLING_CURRENCY },
+            subscriptionLineItemId: billing.usageLineItemId,
+            idempotencyKey,
+          },
+          admin
+        );
 
-      if (json?.errors?.length) {
-        throw new Error(json.errors.map((e: any) => e.message).join(" | "));
-      }
+        if (json?.errors?.length) {
+          throw new Error(json.errors.map((e: any) => e.message).join(" | "));
+        }
 
-      const payload = json?.data?.appUsageRecordCreate;
-      const errs = payload?.userErrors ?? [];
-      if (errs.length) {
-        throw new Error(errs.map((e: any) => e.message).join(" | "));
-      }
+        const payload = json?.data?.appUsageRecordCreate;
+        const errs = payload?.userErrors ?? [];
+        if (errs.length) {
+          throw new Error(errs.map((e: any) => e.message).join(" | "));
+        }
 
-      usageRecordId = payload?.appUsageRecord?.id ?? null;
-    }
+        usageRecordId = payload?.appUsageRecord?.id ?? null;
+      }
 
-    await tx.callCharge.create({
-      data: {
-        shop,
-        callJobId,
-        connectedSeconds: rawSeconds,
-        minutesBilled: billableMinutes,
-        amountCents,
-        currencyCode: BILLING_CURRENCY,
-        usageRecordId,
-        idempotencyKey: idempotencyKeyForCall(callJobId),
-      },
+      await tx.callCharge.create({
+        data: {
+          shop,
+          callJobId,
+          connectedSeconds: rawSeconds,
+          minutesBilled: billableMinutes,
+          amountCents,
+          currencyCode: BILLING_CURRENCY,
+          usageRecordId,
+          idempotencyKey: idempotencyKeyForCall(callJobId),
+        },
+      });
+      return true;
     });
+  } catch (e) {
+    await logEvent({ shop, callJobId, level: "error", code: "BILLING", message: `Billing failed: ${asErrorMessage(e)}` });
+    throw e;
+  }
+  if (!charged) return;
+
+  const charge = await db.callCharge.findUnique({ where: { callJobId } });
+  await logEvent({
+    shop,
+    callJobId,
+    code: "BILLING",
+    message: charge?.amountCents
+      ? `Charged ${(charge.amountCents / 100).toFixed(2)} ${charge.currencyCode} (${charge.minutesBilled} min)`
+      : `${charge?.minutesBilled ?? billableMinutes} min from included/free minutes`,
+    details: { connectedSeconds: rawSeconds, minutesBilled: charge?.minutesBilled ?? null, usageRecordId: charge?.usageRecordId ?? null },
   });
 }
 
@@ -0,0 +1,71 @@
+// app/lib/callConcurrency.shared.ts
+
+/* =========================
+   Concurrency limits for active (CALLING) jobs
+   - global: whole app / provider account
+   - shop: per merchant (Settings.maxConcurrentCalls)
+   - callerId: per outbound phone number
+   - null = no limit at that level.
+   ========================= */
+export type ConcurrencyLimits = {
+  global: number | null;
+  shop: number | null;
+  callerId: number | null;
+};
+
+export type ActiveCallCounts = {
+  global: number;
+  shop: number;
+  callerId: number;
+};
+
+export const THROTTLED = "THROTTLED";
+
+/** Positive integer or null (empty, 0 and junk all mean "no limit"). */
+export function parseConcurrencyLimit(v: any): number | null {
+  const n = Math.floor(Number(String(v ?? "").trim() || NaN));
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.min(n, 1000);
+}
+
+export function formatConcurrencyLimit(n: number | null) {
+  return n == null ? "No limit" : `${n} at a time`;
+}
+
+/** "THROTTLED: shop limit (3 active)" when starting one more call would exceed a limit, otherwise null. */
+export function throttleReason(limits: ConcurrencyLimits, active: ActiveCallCounts): string | null {
+  if (limits.global != null && active.global >= limits.global) {
+    return `${THROTTLED}: global limit (${active.global} active)`;
+  }
+  if (limits.shop != null && active.shop >= limits.shop) {
+    return `${THROTTLED}: shop limit (${active.shop} active)`;
+  }
+  if (limits.callerId != null && active.callerId >= limits.callerId) {
+    return `${THROTTLED}: caller ID limit (${active.callerId} active)`;
+  }
+  return null;
+}
+
+export function isThrottledOutcome(outcome: string | null | undefined) {
+  return String(outcome ?? "").startsWith(THROTTLED);
+}
+
+/**
+ * Interleave rows so each shop gets one turn per round.
+ * Order inside a shop is kept; shops take turns in order of their first row.
+ */
+export function roundRobinByShop<T extends { shop: string }>(rows: T[]): T[] {
+  const byShop = new Map<string, T[]>();
+  for (const r of rows) {
+    const list = byShop.get(r.shop);
+    if (list) list.push(r);
+    else byShop.set(r.shop, [r]);
+  }
+
+  const queues = Array.from(byShop.values());
+  const out: T[] = [];
+  for (let round = 0; out.length < rows.length; round++) {
+    for (const q of queues) if (round < q.length) out.push(q[round]);
+  }
+  return out;
+}
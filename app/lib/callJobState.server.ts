@@ -0,0 +1,130 @@
+// app/lib/callJobState.server.ts
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { canTransition, type CallJobStatus } from "./callJobState.shared";
+
+/* =========================
+   CallJob status writes
+   - Every status change goes through transitionCallJob: it checks the transition table,
+     writes with a compare-and-set on the current status and appends a CallJobEvent.
+   - Writes that don't touch status (outcome, transcript, analysis, …) stay plain updates.
+   ========================= */
+type Tx = Prisma.TransactionClient;
+
+export type TransitionResult =
+  | { ok: true; from: CallJobStatus; to: CallJobStatus; changed: boolean }
+  | { ok: false; from: CallJobStatus | null; to: CallJobStatus; reason: "NOT_FOUND" | "ILLEGAL" | "CONFLICT" };
+
+export type TransitionParams = {
+  id: string;
+  to: CallJobStatus;
+  source: string; // key of CALL_JOB_SOURCES
+  // Other columns written in the same update as the status.
+  data?: Prisma.CallJobUncheckedUpdateManyInput;
+  // Stored on the CallJobEvent (reason, rule, provider ids, …).
+  payload?: Record<string, any> | null;
+  // Extra guard (e.g. { shop } or { status: "QUEUED", leaseOwner }); a job not matching it is NOT_FOUND.
+  where?: Prisma.CallJobWhereInput;
+  // Run inside the caller's transaction.
+  tx?: Tx;
+};
+
+const MAX_PAYLOAD = 4000;
+
+function payloadJson(payload: Record<string, any> | null | undefined) {
+  if (!payload) return null;
+  try {
+    return JSON.stringify(payload).slice(0, MAX_PAYLOAD);
+  } catch {
+    return null;
+  }
+}
+
+async function applyTransition(tx: Tx, p: TransitionParams): Promise<TransitionResult> {
+  const job = await tx.callJob.findFirst({ where: { ...p.where, id: p.id }, select: { shop: true, status: true } });
+  if (!job) return { ok: false, from: null, to: p.to, reason: "NOT_FOUND" };
+
+  const from = job.status as CallJobStatus;
+  if (!canTransition(from, p.to)) {
+    console.log("[CALL_JOB] illegal_transition", { id: p.id, from, to: p.to, source: p.source });
+    return { ok: false, from, to: p.to, reason: "ILLEGAL" };
+  }
+
+  const res = await tx.callJob.updateMany({
+    where: { ...p.where, id: p.id, status: from },
+    data: { ...p.data, status: p.to },
+  });
+  if (!res.count) return { ok: false, from, to: p.to, reason: "CONFLICT" };
+
+  if (from !== p.to) {
+    await tx.callJobEvent.create({
+      data: {
+        callJobId: p.id,
+        shop: job.shop,
+        fromStatus: from,
+        toStatus: p.to,
+        source: p.source,
+        payloadJson: payloadJson(p.payload),
+      },
+    });
+  }
+  return { ok: true, from, to: p.to, changed: from !== p.to };
+}
+
+export async function transitionCallJob(p: TransitionParams): Promise<TransitionResult> {
+  if (p.tx) return applyTransition(p.tx, p);
+  return db.$transaction((tx) => applyTransition(tx, p));
+}
+
+/** Transition every job matching `where`, one by one. Returns how many changed status. */
+export async function transitionCallJobs(params: Omit<TransitionParams, "id" | "tx"> & { where: Prisma.CallJobWhereInput }) {
+  const jobs = await db.callJob.findMany({ where: params.where, select: { id: true } });
+  let changed = 0;
+  for (const j of jobs) {
+    const r = await transitionCallJob({ ...params, id: j.id });
+    if (r.ok && r.changed) changed += 1;
+  }
+  return changed;
+}
+
+/** Create a job and record its initial status as the first event. */
+export async function createCallJob(data: Prisma.CallJobUncheckedCreateInput, source: string, payload?: Record<string, any> | null) {
+  return db.$transaction(async (tx) => {
+    const job = await tx.callJob.create({ data });
+    await tx.callJobEvent.create({
+      data: {
+        callJobId: job.id,
+        shop: job.shop,
+        fromStatus: null,
+        toStatus: job.status,
+        source,
+        payloadJson: payloadJson(payload),
+      },
+    });
+    return job;
+  });
+}
+
+/** Status history per job, oldest first. */
+export async function callJobHistory(callJobIds: string[]) {
+  const ids = Array.from(new Set(callJobIds.filter(Boolean)));
+  const out = new Map<string, Array<{ from: string | null; to: string; source: string; payload: string | null; at: string }>>();
+  if (!ids.length) return out;
+
+  const rows = await db.callJobEvent.findMany({
+    where: { callJobId: { in: ids } },
+    orderBy: { createdAt: "asc" },
+  });
+  for (const r of rows) {
+    const arr = out.get(r.callJobId) ?? [];
+    arr.push({
+      from: r.fromStatus ?? null,
+      to: r.toStatus,
+      source: r.source,
+      payload: r.payloadJson ?? null,
+      at: r.createdAt.toISOString(),
+    });
+    out.set(r.callJobId, arr);
+  }
+  return out;
+}
@@ -0,0 +1,54 @@
+// app/lib/callJobState.shared.ts
+
+/* =========================
+   CallJob state machine
+   - QUEUED -> CALLING when a worker (or a manual call) starts dialing.
+   - CALLING -> QUEUED when the start is postponed (schedule, delay rule, retry after a provider error).
+   - COMPLETED and CANCELED are final. FAILED is final too, except that a late end-of-call report
+     may still mark the call COMPLETED (e.g. after a stale-call timeout).
+   - Writing the current status again is not a transition (it only updates the other columns).
+   ========================= */
+export type CallJobStatus = "QUEUED" | "CALLING" | "COMPLETED" | "FAILED" | "CANCELED";
+
+export const CALL_JOB_STATUSES: CallJobStatus[] = ["QUEUED", "CALLING", "COMPLETED", "FAILED", "CANCELED"];
+
+export const CALL_JOB_TRANSITIONS: Record<CallJobStatus, CallJobStatus[]> = {
+  QUEUED: ["CALLING", "CANCELED", "FAILED"],
+  CALLING: ["COMPLETED", "FAILED", "CANCELED", "QUEUED"],
+  COMPLETED: [],
+  FAILED: ["COMPLETED"],
+  CANCELED: [],
+};
+
+export function isCallJobStatus(v: any): v is CallJobStatus {
+  return (CALL_JOB_STATUSES as string[]).includes(String(v));
+}
+
+export function canTransition(from: CallJobStatus, to: CallJobStatus) {
+  return from === to || CALL_JOB_TRANSITIONS[from].includes(to);
+}
+
+/* =========================
+   Sources (who asked for the transition)
+   ========================= */
+export const CALL_JOB_SOURCES: Record<string, string> = {
+  enqueue: "Scheduler",
+  stale_expiry: "Stale-job expiry",
+  worker: "Call worker",
+  provider: "Call start",
+  manual: "Manual call",
+  simulator: "Simulator",
+  vapi_status: "Vapi status update",
+  vapi_report: "Vapi end-of-call report",
+  retell_status: "Retell status update",
+  retell_report: "Retell end-of-call report",
+  sim_status: "Simulator status update",
+  sim_report: "Simulator end-of-call report",
+  reconcile: "Provider reconciliation",
+  order_webhook: "Order placed",
+  suppression: "Do-not-call list",
+};
+
+export function callJobSourceLabel(source: string) {
+  return CALL_JOB_SOURCES[source] ?? source;
+}
@@ -0,0 +1,396 @@
+// app/lib/callLanguage.shared.ts
+
+/* =========================
+   Call language
+   - Picked per checkout from Checkout.raw: customer_locale (REST webhook), the locale on the
+     abandoned checkout URL (GraphQL backfill), then the shipping / billing country.
+   - Each language brings its voice, transcriber language and the localized prompt parts the agent
+     repeats or follows literally (hard rules, SMS instructions, spoken coupon codes).
+   - Settings.callLanguages limits what we detect (null = all); anything else gets the fallback language.
+   ========================= */
+export type CallLanguage = "en" | "el" | "de" | "es";
+
+export type CallLanguageSource = "customer_locale" | "checkout_url" | "country" | "fallback";
+
+type LanguageText = {
+  speakOnly: string;
+  firstAttempt: string;
+  followupAttempt: (attempt: number) => string;
+  hardRules: (maxCallSeconds: number) => string[];
+  sendLine: string; // said right before send_checkout_offer
+  smsRules: string[];
+  startCall: string;
+  followupCall: string;
+};
+
+type LanguageProfile = {
+  code: CallLanguage;
+  label: string;
+  countries: string[]; // ISO2, used when the checkout has no locale
+  voice: { provider: string; voiceId: string };
+  transcriber: { provider: string; model: string; language: string };
+  digits: string[]; // 0..9
+  letters: string[]; // A..Z
+  text: LanguageText;
+};
+
+const EN: LanguageProfile = {
+  code: "en",
+  label: "English",
+  countries: ["US", "GB", "IE", "CA", "AU", "NZ", "ZA"],
+  voice: { provider: "azure", voiceId: "en-US-JennyNeural" },
+  transcriber: { provider: "deepgram", model: "nova-2", language: "en" },
+  digits: ["Zero", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine"],
+  letters: [
+    "Alpha", "Bravo", "Charlie", "Delta", "Echo", "Foxtrot", "Golf", "Hotel", "India", "Juliett", "Kilo", "Lima", "Mike",
+    "November", "Oscar", "Papa", "Quebec", "Romeo", "Sierra", "Tango", "Uniform", "Victor", "Whiskey", "X-ray", "Yankee", "Zulu",
+  ],
+  text: {
+    speakOnly: "Speak English for the whole call.",
+    firstAttempt: "This is the first attempt.",
+    followupAttempt: (n) => `This is a follow-up attempt (#${n}).`,
+    hardRules: (maxCallSeconds) => [
+      "Confirm identity and ask if it's a good time.",
+      `Keep it short. Target a maximum call length of ~${maxCallSeconds} seconds.`,
+      "Do not be pushy. If not interested, end politely.",
+      "Never invent policies, discounts, coupon codes, or links. Use only what is provided below.",
+      "Never read, spell, or repeat the checkout URL aloud.",
+      "Never spell domains, query strings, or recovery-link characters aloud.",
+      "Do not restate the cart total unless the customer directly asks.",
+      "When a discount is allowed, propose one specific percentage. Do not ask the customer to choose a percentage.",
+      "Only mention SMS/text if SMS is enabled in this prompt.",
+      `If you are about to send the SMS, say exactly: "I'll send that by text right now."`,
+      "After the tool succeeds, confirm briefly that the text was sent.",
+      "If a coupon code exists, say it slowly and clearly, character by character.",
+      "Prefer the tool-provided speakable code format when available.",
+      "Once the customer confirms the SMS arrived or says they will use it, close the call politely in one short sentence.",
+    ],
+    sendLine: "I'll send that by text right now.",
+    smsRules: [
+      "Call it exactly ONCE only after the customer accepts the next step.",
+      "Do not mention SMS, text message, or sending anything by phone unless SMS is actually enabled in this prompt.",
+      "Do not promise that any code or message was sent until the tool succeeds.",
+      "After a successful tool result, confirm briefly that the text was sent.",
+      "If the tool result includes code, speak the coupon code slowly and clearly.",
+      "Always spell the coupon code character by character using the provided speakable form when available.",
+      "For letters, use NATO-style words. For digits, say each digit separately.",
+      "Never rush the code. Pause slightly between characters.",
+      "Never read CHECKOUT_LINK aloud.",
+      "Never spell domains, query parameters, or URL characters aloud.",
+      "You may choose the final offer during the conversation, but you must stay within the configured limits.",
+      "If you choose a discount, pass the exact discountPercent you decided on. Do not exceed the configured maximum.",
+    ],
+    startCall:
+      "Start the call now. Greet the customer, mention they almost completed checkout, and ask if they want help finishing the order.",
+    followupCall: "Follow-up call. Reference previous context if relevant. Keep it short and move to a concrete next step.",
+  },
+};
+
+const EL: LanguageProfile = {
+  code: "el",
+  label: "Greek",
+  countries: ["GR", "CY"],
+  voice: { provider: "azure", voiceId: "el-GR-AthinaNeural" },
+  transcriber: { provider: "deepgram", model: "nova-2", language: "el" },
+  digits: ["μηδέν", "ένα", "δύο", "τρία", "τέσσερα", "πέντε", "έξι", "επτά", "οκτώ", "εννέα"],
+  // Latin letters as Greek speakers say them.
+  letters: [
+    "έι", "μπι", "σι", "ντι", "ι", "εφ", "τζι", "έιτς", "άι", "τζέι", "κέι", "ελ", "εμ",
+    "εν", "όου", "πι", "κιου", "αρ", "ες", "τι", "γιου", "βι", "ντάμπλιου", "εξ", "γουάι", "ζεντ",
+  ],
+  text: {
+    speakOnly: "Μίλα μόνο ελληνικά σε όλη τη διάρκεια της κλήσης.",
+    firstAttempt: "Αυτή είναι η πρώτη προσπάθεια.",
+    followupAttempt: (n) => `Αυτή είναι επαναληπτική προσπάθεια (#${n}).`,
+    hardRules: (maxCallSeconds) => [
+      "Επιβεβαίωσε ότι μιλάς με τον σωστό πελάτη και ρώτα αν είναι καλή στιγμή.",
+      `Κράτα την κλήση σύντομη. Στόχος: έως ~${maxCallSeconds} δευτερόλεπτα.`,
+      "Μην πιέζεις. Αν δεν ενδιαφέρεται, κλείσε ευγενικά.",
+      "Μην επινοείς πολιτικές, εκπτώσεις, κωδικούς κουπονιών ή συνδέσμους. Χρησιμοποίησε μόνο όσα δίνονται παρακάτω.",
+      "Μη διαβάζεις, μη συλλαβίζεις και μην επαναλαμβάνεις ποτέ τον σύνδεσμο ολοκλήρωσης αγοράς.",
+      "Μη συλλαβίζεις ποτέ domains, παραμέτρους ή χαρακτήρες του συνδέσμου.",
+      "Μην αναφέρεις ξανά το σύνολο του καλαθιού εκτός αν το ρωτήσει ο πελάτης.",
+      "Όταν επιτρέπεται έκπτωση, πρότεινε ένα συγκεκριμένο ποσοστό. Μη ζητάς από τον πελάτη να διαλέξει ποσοστό.",
+      "Ανέφερε SMS μόνο αν τα SMS είναι ενεργά σε αυτές τις οδηγίες.",
+      `Πριν στείλεις το SMS, πες ακριβώς: "Σας το στέλνω τώρα με μήνυμα."`,
+      "Όταν το εργαλείο πετύχει, επιβεβαίωσε σύντομα ότι το μήνυμα στάλθηκε.",
+      "Αν υπάρχει κωδικός κουπονιού, πες τον αργά και καθαρά, χαρακτήρα προς χαρακτήρα.",
+      "Προτίμησε την εκφωνήσιμη μορφή του κωδικού που δίνει το εργαλείο, όταν υπάρχει.",
+      "Μόλις ο πελάτης επιβεβαιώσει ότι έλαβε το SMS ή ότι θα το χρησιμοποιήσει, κλείσε ευγενικά με μία σύντομη πρόταση.",
+    ],
+    sendLine: "Σας το στέλνω τώρα με μήνυμα.",
+    smsRules: [
+      "Κάλεσέ το ακριβώς ΜΙΑ φορά και μόνο αφού ο πελάτης δεχτεί το επόμενο βήμα.",
+      "Μην αναφέρεις SMS, μήνυμα ή αποστολή στο κινητό αν τα SMS δεν είναι ενεργά σε αυτές τις οδηγίες.",
+      "Μην υπόσχεσαι ότι στάλθηκε κωδικός ή μήνυμα πριν πετύχει το εργαλείο.",
+      "Μετά από επιτυχημένο αποτέλεσμα, επιβεβαίωσε σύντομα ότι το μήνυμα στάλθηκε.",
+      "Αν το αποτέλεσμα περιέχει κωδικό, πες τον αργά και καθαρά.",
+      "Συλλάβιζε πάντα τον κωδικό χαρακτήρα προς χαρακτήρα, με την εκφωνήσιμη μορφή όταν υπάρχει.",
+      "Τα γράμματα λέγονται όπως στην εκφωνήσιμη μορφή. Τα ψηφία λέγονται ένα-ένα.",
+      "Μη βιάζεσαι με τον κωδικό. Κάνε μικρή παύση ανάμεσα στους χαρακτήρες.",
+      "Μη διαβάζεις ποτέ το CHECKOUT_LINK.",
+      "Μη συλλαβίζεις ποτέ domains, παραμέτρους ή χαρακτήρες συνδέσμου.",
+      "Μπορείς να διαλέξεις την τελική προσφορά στη συζήτηση, αλλά πάντα μέσα στα ρυθμισμένα όρια.",
+      "Αν διαλέξεις έκπτωση, στείλε ακριβώς το discountPercent που αποφάσισες. Μην ξεπερνάς το ρυθμισμένο μέγιστο.",
+    ],
+    startCall:
+      "Ξεκίνα την κλήση τώρα. Χαιρέτησε τον πελάτη, ανέφερε ότι σχεδόν ολοκλήρωσε την αγορά του και ρώτα αν θέλει βοήθεια να την ολοκληρώσει.",
+    followupCall:
+      "Επαναληπτική κλήση. Αναφέρσου στην προηγούμενη επικοινωνία αν χρειάζεται. Σύντομα, με ένα συγκεκριμένο επόμενο βήμα.",
+  },
+};
+
+const DE: LanguageProfile = {
+  code: "de",
+  label: "German",
+  countries: ["DE", "AT", "LI"],
+  voice: { provider: "azure", voiceId: "de-DE-KatjaNeural" },
+  transcriber: { provider: "deepgram", model: "nova-2", language: "de" },
+  digits: ["Null", "Eins", "Zwei", "Drei", "Vier", "Fünf", "Sechs", "Sieben", "Acht", "Neun"],
+  // DIN 5009 spelling alphabet.
+  letters: [
+    "Anton", "Berta", "Cäsar", "Dora", "Emil", "Friedrich", "Gustav", "Heinrich", "Ida", "Julius", "Kaufmann", "Ludwig",
+    "Martha", "Nordpol", "Otto", "Paula", "Quelle", "Richard", "Samuel", "Theodor", "Ulrich", "Viktor", "Wilhelm",
+    "Xanthippe", "Ypsilon", "Zacharias",
+  ],
+  text: {
+    speakOnly: "Sprich während des gesamten Anrufs nur Deutsch. Sieze den Kunden.",
+    firstAttempt: "Dies ist der erste Versuch.",
+    followupAttempt: (n) => `Dies ist ein Folgeversuch (#${n}).`,
+    hardRules: (maxCallSeconds) => [
+      "Bestätige die Identität und frage, ob es gerade passt.",
+      `Halte es kurz. Ziel: höchstens ~${maxCallSeconds} Sekunden Gesprächsdauer.`,
+      "Sei nicht aufdringlich. Bei fehlendem Interesse höflich beenden.",
+      "Erfinde niemals Richtlinien, Rabatte, Gutscheincodes oder Links. Nutze nur, was unten steht.",
+      "Lies, buchstabiere oder wiederhole niemals die Checkout-URL.",
+      "Buchstabiere niemals Domains, Query-Parameter oder Zeichen des Wiederherstellungslinks.",
+      "Nenne den Warenkorbwert nicht erneut, außer der Kunde fragt direkt danach.",
+      "Wenn ein Rabatt erlaubt ist, schlage einen konkreten Prozentsatz vor. Lass den Kunden keinen Prozentsatz wählen.",
+      "Erwähne SMS nur, wenn SMS in diesen Anweisungen aktiviert ist.",
+      `Bevor du die SMS sendest, sage genau: "Ich schicke Ihnen das jetzt per SMS."`,
+      "Wenn das Tool erfolgreich war, bestätige kurz, dass die SMS verschickt wurde.",
+      "Wenn es einen Gutscheincode gibt, sprich ihn langsam und deutlich, Zeichen für Zeichen.",
+      "Nutze bevorzugt die sprechbare Form des Codes aus dem Tool-Ergebnis.",
+      "Sobald der Kunde bestätigt, dass die SMS angekommen ist oder er sie nutzen wird, beende den Anruf höflich mit einem kurzen Satz.",
+    ],
+    sendLine: "Ich schicke Ihnen das jetzt per SMS.",
+    smsRules: [
+      "Rufe es genau EINMAL auf und erst, nachdem der Kunde dem nächsten Schritt zugestimmt hat.",
+      "Erwähne SMS, Textnachricht oder Versand aufs Handy nur, wenn SMS in diesen Anweisungen aktiviert ist.",
+      "Versprich nicht, dass ein Code oder eine Nachricht verschickt wurde, bevor das Tool erfolgreich war.",
+      "Bestätige nach einem erfolgreichen Tool-Ergebnis kurz, dass die SMS verschickt wurde.",
+      "Wenn das Tool-Ergebnis einen Code enthält, sprich ihn langsam und deutlich.",
+      "Buchstabiere den Gutscheincode immer Zeichen für Zeichen, mit der sprechbaren Form, wenn vorhanden.",
+      "Buchstaben nach der deutschen Buchstabiertafel (Anton, Berta, ...). Ziffern einzeln nennen.",
+      "Sprich den Code nicht zu schnell. Kurze Pause zwischen den Zeichen.",
+      "Lies CHECKOUT_LINK niemals vor.",
+      "Buchstabiere niemals Domains, Query-Parameter oder URL-Zeichen.",
+      "Du darfst das endgültige Angebot im Gespräch wählen, musst aber innerhalb der eingestellten Grenzen bleiben.",
+      "Wenn du einen Rabatt wählst, übergib genau den beschlossenen discountPercent. Überschreite nie das eingestellte Maximum.",
+    ],
+    startCall:
+      "Beginne jetzt den Anruf. Begrüße den Kunden, erwähne, dass er seinen Einkauf fast abgeschlossen hat, und frage, ob er Hilfe beim Abschluss der Bestellung möchte.",
+    followupCall:
+      "Folgeanruf. Beziehe dich bei Bedarf auf das vorherige Gespräch. Halte es kurz und komme zu einem konkreten nächsten Schritt.",
+  },
+};
+
+const ES: LanguageProfile = {
+  code: "es",
+  label: "Spanish",
+  countries: ["ES", "MX", "AR", "CO", "CL", "PE", "VE", "EC", "GT", "CU", "BO", "DO", "HN", "PY", "SV", "NI", "CR", "PA", "UY"],
+  voice: { provider: "azure", voiceId: "es-ES-ElviraNeural" },
+  transcriber: { provider: "deepgram", model: "nova-2", language: "es" },
+  digits: ["cero", "uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve"],
+  // Spanish spelling alphabet (place and first names).
+  letters: [
+    "Antonio", "Barcelona", "Carmen", "Dolores", "Enrique", "Francia", "Gerona", "Historia", "Inés", "José", "Kilo",
+    "Lorenzo", "Madrid", "Navarra", "Oviedo", "París", "Querido", "Ramón", "Sábado", "Tarragona", "Ulises", "Valencia",
+    "Washington", "Xilófono", "Yegua", "Zaragoza",
+  ],
+  text: {
+    speakOnly: "Habla solo en español durante toda la llamada. Trata al cliente de usted.",
+    firstAttempt: "Este es el primer intento.",
+    followupAttempt: (n) => `Este es un intento de seguimiento (#${n}).`,
+    hardRules: (maxCallSeconds) => [
+      "Confirma la identidad y pregunta si es buen momento.",
+      `Sé breve. Duración máxima objetivo: ~${maxCallSeconds} segundos.`,
+      "No insistas. Si no le interesa, despídete con amabilidad.",
+      "Nunca inventes políticas, descuentos, códigos de cupón ni enlaces. Usa solo lo que se indica abajo.",
+      "Nunca leas, deletrees ni repitas la URL del checkout.",
+      "Nunca deletrees dominios, parámetros ni caracteres del enlace de recuperación.",
+      "No repitas el total del carrito salvo que el cliente lo pregunte directamente.",
+      "Si se permite un descuento, propón un porcentaje concreto. No pidas al cliente que elija el porcentaje.",
+      "Menciona SMS solo si los SMS están activados en estas instrucciones.",
+      `Antes de enviar el SMS, di exactamente: "Se lo envío ahora mismo por mensaje."`,
+      "Cuando la herramienta funcione, confirma brevemente que el mensaje se envió.",
+      "Si hay un código de cupón, dilo despacio y con claridad, carácter por carácter.",
+      "Usa preferentemente la forma pronunciable del código que devuelve la herramienta.",
+      "Cuando el cliente confirme que recibió el SMS o que lo usará, cierra la llamada con amabilidad en una frase corta.",
+    ],
+    sendLine: "Se lo envío ahora mismo por mensaje.",
+    smsRules: [
+      "Llámala exactamente UNA vez y solo cuando el cliente acepte el siguiente paso.",
+      "No menciones SMS, mensajes de texto ni envíos al móvil salvo que los SMS estén activados en estas instrucciones.",
+      "No prometas que se envió un código o mensaje hasta que la herramienta funcione.",
+      "Tras un resultado correcto, confirma brevemente que el mensaje se envió.",
+      "Si el resultado incluye un código, dilo despacio y con claridad.",
+      "Deletrea siempre el código carácter por carácter, con la forma pronunciable cuando exista.",
+      "Letras con el alfabeto de deletreo español (Antonio, Barcelona, ...). Los dígitos, uno por uno.",
+      "No te apresures con el código. Haz una pausa breve entre caracteres.",
+      "Nunca leas CHECKOUT_LINK en voz alta.",
+      "Nunca deletrees dominios, parámetros ni caracteres de una URL.",
+      "Puedes elegir la oferta final durante la conversación, pero siempre dentro de los límites configurados.",
+      "Si eliges un descuento, envía exactamente el discountPercent decidido. No superes el máximo configurado.",
+    ],
+    startCall:
+      "Empieza la llamada ahora. Saluda al cliente, menciona que casi completó su compra y pregunta si quiere ayuda para terminar el pedido.",
+    followupCall:
+      "Llamada de seguimiento. Haz referencia al contexto anterior si es relevante. Sé breve y llega a un siguiente paso concreto.",
+  },
+};
+
+const PROFILES: Record<CallLanguage, LanguageProfile> = { en: EN, el: EL, de: DE, es: ES };
+
+export const CALL_LANGUAGES: Array<{ code: CallLanguage; label: string }> = Object.values(PROFILES).map((p) => ({
+  code: p.code,
+  label: p.label,
+}));
+
+export const DEFAULT_CALL_LANGUAGE: CallLanguage = "en";
+
+export function pickCallLanguage(v: any): CallLanguage | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return s in PROFILES ? (s as CallLanguage) : null;
+}
+
+export function callLanguageLabel(code: string | null | undefined) {
+  return PROFILES[pickCallLanguage(code) ?? DEFAULT_CALL_LANGUAGE].label;
+}
+
+export function callLanguageText(code: CallLanguage): LanguageText {
+  return PROFILES[code].text;
+}
+
+/** Voice and transcriber for the provider; provider-specific ids, currently Vapi's (Azure voices, Deepgram). */
+export function callLanguageVoice(code: CallLanguage) {
+  const p = PROFILES[code];
+  return { language: p.code, voice: p.voice, transcriber: p.transcriber };
+}
+
+/* =========================
+   Settings
+   ========================= */
+/** Enabled languages from Settings.callLanguages (comma separated); empty / null = all. */
+export function parseCallLanguages(v: any): CallLanguage[] {
+  const picked = String(v ?? "")
+    .split(",")
+    .map(pickCallLanguage)
+    .filter((c): c is CallLanguage => Boolean(c));
+  const out = CALL_LANGUAGES.map((l) => l.code).filter((c) => picked.includes(c));
+  return out.length ? out : CALL_LANGUAGES.map((l) => l.code);
+}
+
+export function serializeCallLanguages(codes: CallLanguage[]): string | null {
+  const all = CALL_LANGUAGES.map((l) => l.code);
+  const out = all.filter((c) => codes.includes(c));
+  return out.length && out.length < all.length ? out.join(",") : null;
+}
+
+/* =========================
+   Detection
+   ========================= */
+function parseRaw(raw: any): any | null {
+  if (raw && typeof raw === "object") return raw;
+  try {
+    const j = JSON.parse(String(raw ?? ""));
+    return j && typeof j === "object" ? j : null;
+  } catch {
+    return null;
+  }
+}
+
+// "de-AT", "el_GR", "es" -> language code
+function languageFromLocale(v: any): CallLanguage | null {
+  const m = /^([A-Za-z]{2})(?:[-_][A-Za-z]{2,4})?$/.exec(String(v ?? "").trim());
+  return m ? pickCallLanguage(m[1]) : null;
+}
+
+function localeFromUrl(v: any): string | null {
+  const s = String(v ?? "").trim();
+  if (!s) return null;
+  try {
+    return new URL(s).searchParams.get("locale");
+  } catch {
+    return null;
+  }
+}
+
+function languageForCountry(iso2: string): CallLanguage | null {
+  const c = iso2.trim().toUpperCase();
+  return Object.values(PROFILES).find((p) => p.countries.includes(c))?.code ?? null;
+}
+
+export type DetectedCallLanguage = { language: CallLanguage; source: CallLanguageSource; hint: string | null };
+
+/**
+ * Language for a checkout. Each hint is tried in order and used only if that language is enabled;
+ * with no usable hint the shop's fallback applies.
+ */
+export function detectCallLanguage(
+  raw: any,
+  opts: { enabled: CallLanguage[]; fallback: CallLanguage }
+): DetectedCallLanguage {
+  const j = parseRaw(raw);
+  const usable = (c: CallLanguage | null) => (c && opts.enabled.includes(c) ? c : null);
+
+  const locales = [j?.customer_locale, j?.customerLocale, j?.buyerIdentity?.customerLocale]
+    .map((x) => String(x ?? "").trim())
+    .filter(Boolean);
+  for (const loc of locales) {
+    const c = usable(languageFromLocale(loc));
+    if (c) return { language: c, source: "customer_locale", hint: loc };
+  }
+
+  const urlLocale = localeFromUrl(j?.abandoned_checkout_url ?? j?.abandonedCheckoutUrl);
+  const fromUrl = usable(languageFromLocale(urlLocale));
+  if (fromUrl) return { language: fromUrl, source: "checkout_url", hint: urlLocale };
+
+  const countries = [
+    j?.shipping_address?.country_code,
+    j?.shippingAddress?.countryCodeV2,
+    j?.shippingAddress?.countryCode,
+    j?.billing_address?.country_code,
+    j?.billingAddress?.countryCodeV2,
+    j?.billingAddress?.countryCode,
+  ]
+    .map((x) => String(x ?? "").trim())
+    .filter(Boolean);
+  for (const iso2 of countries) {
+    const c = usable(languageForCountry(iso2));
+    if (c) return { language: c, source: "country", hint: iso2.toUpperCase() };
+  }
+
+  return { language: opts.fallback, source: "fallback", hint: null };
+}
+
+/* =========================
+   Spoken codes
+   ========================= */
+/** Coupon code as words in the call language, e.g. "Alpha ... Seven" / "Anton ... Sieben". */
+export function makeSpeakableCode(code: string | null | undefined, language: CallLanguage = DEFAULT_CALL_LANGUAGE) {
+  const raw = String(code ?? "").trim().toUpperCase();
+  if (!raw) return null;
+
+  const p = PROFILES[language];
+  const parts = raw
+    .split("")
+    .filter(Boolean)
+    .map((ch) => {
+      if (/[A-Z]/.test(ch)) return p.letters[ch.charCodeAt(0) - 65];
+      if (/[0-9]/.test(ch)) return p.digits[Number(ch)];
+      return ch;
+    });
+
+  return parts.length ? parts.join(" ... ") : null;
+}
@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, type StubServer } from "../test/stubServer";
+
+const mocks = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  transitionCallJob: vi.fn(),
+  processEndOfCall: vi.fn(),
+  logEvent: vi.fn(),
+}));
+
+vi.mock("../db.server", () => ({ default: { callJob: { findMany: mocks.findMany } } }));
+vi.mock("./callJobState.server", () => ({ transitionCallJob: mocks.transitionCallJob }));
+vi.mock("./endOfCall.server", () => ({ processEndOfCall: mocks.processEndOfCall }));
+vi.mock("./eventLog.server", () => ({ logEvent: mocks.logEvent }));
+
+import { reconcileStaleCalls } from "./callReconcile.server";
+
+// Vapi GET /call/:id as seen for each branch.
+const ENDED_CALL = {
+  id: "call_ended",
+  status: "ended",
+  endedReason: "customer-ended-call",
+  startedAt: "2026-10-18T10:00:00.000Z",
+  endedAt: "2026-10-18T10:01:30.000Z",
+  customer: { number: "+15550001111" },
+  artifact: { transcript: "AI: Hi there.\nUser: Hello.", recordingUrl: "https://recordings.example/call_ended.wav" },
+};
+
+function job(id: string, providerCallId: string, provider = "vapi") {
+  return { id, shop: "demo.myshopify.com", checkoutId: `co_${id}`, provider, providerCallId };
+}
+
+let stub: StubServer;
+
+beforeAll(async () => {
+  stub = await startStubServer((req) => {
+    const id = req.path.replace(/^\/call\//, "");
+    if (id === "call_ended") return { json: ENDED_CALL };
+    if (id === "call_live") return { json: { id, status: "in-progress" } };
+    if (id === "call_error") return { status: 502, json: { message: "upstream" } };
+    return { status: 404, json: { message: "Not Found" } };
+  });
+  vi.stubEnv("VAPI_API_BASE_URL", stub.url);
+  vi.stubEnv("VAPI_API_KEY", "test-key");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await stub.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  stub.requests.length = 0;
+  mocks.transitionCallJob.mockResolvedValue({ ok: true, changed: true });
+  mocks.processEndOfCall.mockResolvedValue(true);
+});
+
+describe("reconcileStaleCalls", () => {
+  it("handles ended, missing, live and error lookups", async () => {
+    mocks.findMany.mockResolvedValue([
+      job("j_ended", "call_ended"),
+      job("j_missing", "call_gone"),
+      job("j_live", "call_live"),
+      job("j_error", "call_error"),
+    ]);
+
+    const out = await reconcileStaleCalls({ olderThanMinutes: 15 });
+
+    expect(out).toEqual({ checked: 4, completed: 1, failed: 1, live: 1, errors: 1 });
+    expect(stub.requests.map((r) => r.path)).toEqual(["/call/call_ended", "/call/call_gone", "/call/call_live", "/call/call_error"]);
+    expect(stub.requests[0].headers.authorization).toBe("Bearer test-key");
+
+    expect(mocks.processEndOfCall).toHaveBeenCalledTimes(1);
+    const [report, opts] = mocks.processEndOfCall.mock.calls[0];
+    expect(report).toMatchObject({
+      shop: "demo.myshopify.com",
+      callJobId: "j_ended",
+      checkoutId: "co_j_ended",
+      endedReason: "customer-ended-call",
+      transcript: "AI: Hi there.\nUser: Hello.",
+      recordingUrl: "https://recordings.example/call_ended.wav",
+      customerNumber: "+15550001111",
+      voicemail: false,
+    });
+    expect(opts).toMatchObject({ source: "reconcile", outcome: "VAPI_CALL_RECONCILED", requireTransition: true });
+  });
+
+  it("fails a job only when the provider no longer knows the call", async () => {
+    mocks.findMany.mockResolvedValue([
+      job("j_missing", "call_gone"),
+      job("j_live", "call_live"),
+      job("j_error", "call_error"),
+      job("j_ended", "call_ended"),
+    ]);
+
+    await reconcileStaleCalls();
+
+    expect(mocks.transitionCallJob).toHaveBeenCalledTimes(1);
+    expect(mocks.transitionCallJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "j_missing",
+        to: "FAILED",
+        source: "reconcile",
+        where: { status: "CALLING" },
+        data: { outcome: "PROVIDER_CALL_NOT_FOUND" },
+      })
+    );
+    expect(mocks.logEvent).toHaveBeenCalledWith(expect.objectContaining({ callJobId: "j_missing", code: "CALL_FAILED" }));
+    expect(mocks.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ callJobId: "j_error", code: "CALL_RECONCILE_FAILED", message: "HTTP 502" })
+    );
+  });
+
+  it("doesn't count a job another writer already settled", async () => {
+    mocks.findMany.mockResolvedValue([job("j_missing", "call_gone")]);
+    mocks.transitionCallJob.mockResolvedValue({ ok: true, changed: false });
+
+    const out = await reconcileStaleCalls();
+
+    expect(out.failed).toBe(0);
+    expect(mocks.logEvent).not.toHaveBeenCalled();
+  });
+
+  it("leaves jobs alone when the provider API is unreachable", async () => {
+    vi.stubEnv("VAPI_API_BASE_URL", "http://127.0.0.1:9");
+    mocks.findMany.mockResolvedValue([job("j_a", "call_gone"), job("j_b", "call_ended")]);
+
+    const out = await reconcileStaleCalls();
+    vi.stubEnv("VAPI_API_BASE_URL", stub.url);
+
+    expect(out).toEqual({ checked: 2, completed: 0, failed: 0, live: 0, errors: 2 });
+    expect(mocks.transitionCallJob).not.toHaveBeenCalled();
+    expect(mocks.processEndOfCall).not.toHaveBeenCalled();
+  });
+
+  it("counts an ended call whose report lost the race as checked only", async () => {
+    mocks.findMany.mockResolvedValue([job("j_ended", "call_ended")]);
+    mocks.processEndOfCall.mockResolvedValue(false);
+
+    const out = await reconcileStaleCalls();
+
+    expect(out).toEqual({ checked: 1, completed: 0, failed: 0, live: 0, errors: 0 });
+  });
+});
@@ -0,0 +1,97 @@
+// app/lib/callReconcile.server.ts
+import db from "../db.server";
+import { logEvent } from "./eventLog.server";
+import { transitionCallJob } from "./callJobState.server";
+import { processEndOfCall } from "./endOfCall.server";
+import { getVoiceProvider } from "./voiceProvider.server";
+import { providerOutcome } from "./voiceProvider.shared";
+
+/* =========================
+   Stale call reconciliation
+   - A CALLING job with a providerCallId that hasn't been touched for CALL_RECONCILE_AFTER_MINUTES
+     has most likely lost its end-of-call webhook. We ask the job's provider (fetchCall):
+     - ended     -> same processing as the webhook (report, analysis, opt-outs, billing)
+     - 404       -> FAILED (PROVIDER_CALL_NOT_FOUND); the only case we fail a job here
+     - still live or lookup error -> leave it, try again next run
+   ========================= */
+function envInt(name: string, fallback: number, min: number, max: number) {
+  const n = Math.floor(Number(process.env[name] ?? fallback));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+const RECONCILE_AFTER_MINUTES = envInt("CALL_RECONCILE_AFTER_MINUTES", 15, 2, 240);
+const RECONCILE_BATCH = envInt("CALL_RECONCILE_BATCH", 50, 1, 500);
+
+export type ReconcileResult = {
+  checked: number;
+  completed: number;
+  failed: number;
+  live: number;
+  errors: number;
+};
+
+export async function reconcileStaleCalls(opts?: { olderThanMinutes?: number; limit?: number }): Promise<ReconcileResult> {
+  const out: ReconcileResult = { checked: 0, completed: 0, failed: 0, live: 0, errors: 0 };
+
+  const olderThanMinutes = opts?.olderThanMinutes ?? RECONCILE_AFTER_MINUTES;
+  const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+
+  const jobs = await db.callJob.findMany({
+    where: { status: "CALLING", providerCallId: { not: null }, updatedAt: { lt: cutoff } },
+    select: { id: true, shop: true, checkoutId: true, provider: true, providerCallId: true },
+    orderBy: { updatedAt: "asc" },
+    take: opts?.limit ?? RECONCILE_BATCH,
+  });
+
+  for (const job of jobs) {
+    const providerCallId = String(job.providerCallId ?? "");
+    const event = { shop: job.shop, checkoutId: job.checkoutId, callJobId: job.id };
+    out.checked += 1;
+
+    const provider = getVoiceProvider(job.provider);
+    const found = await provider.fetchCall(providerCallId);
+
+    if (found.kind === "error") {
+      out.errors += 1;
+      console.log("[RECONCILE] lookup_failed", { id: job.id, providerCallId, err: found.error });
+      await logEvent({ ...event, level: "warn", code: "CALL_RECONCILE_FAILED", message: found.error, dedupeMinutes: 60 });
+      continue;
+    }
+
+    if (found.kind === "missing") {
+      const r = await transitionCallJob({
+        id: job.id,
+        where: { status: "CALLING" },
+        to: "FAILED",
+        source: "reconcile",
+        data: { outcome: "PROVIDER_CALL_NOT_FOUND" },
+        payload: { providerCallId },
+      });
+      if (r.ok && r.changed) {
+        out.failed += 1;
+        await logEvent({ ...event, level: "error", code: "CALL_FAILED", message: "PROVIDER_CALL_NOT_FOUND" });
+      }
+      continue;
+    }
+
+    if (found.kind === "live") {
+      out.live += 1;
+      continue;
+    }
+
+    try {
+      const done = await processEndOfCall(
+        { shop: job.shop, callJobId: job.id, checkoutId: job.checkoutId, ...found.report },
+        { source: "reconcile", outcome: providerOutcome(provider.id, "CALL_RECONCILED"), requireTransition: true }
+      );
+      if (done) out.completed += 1;
+    } catch (e: any) {
+      out.errors += 1;
+      console.log("[RECONCILE] process_failed", { id: job.id, providerCallId, err: String(e?.message ?? e) });
+    }
+  }
+
+  if (out.checked) console.log("[RECONCILE] result", out);
+  return out;
+}
@@ -0,0 +1,237 @@
+// app/lib/callWindow.shared.ts
+import { addCalendarDays, isValidTimeZone, zonedParts, zonedTimeToUtc } from "./timezones.shared";
+import { holidayOn } from "./holidays.shared";
+
+export function parseHHMM(hhmm: string): number | null {
+  const m = /^(\d{2}):(\d{2})$/.exec((hhmm || "").trim());
+  if (!m) return null;
+  const hh = Number(m[1]);
+  const mm = Number(m[2]);
+  if (!Number.isFinite(hh) || !Number.isFinite(mm)) return null;
+  if (hh < 0 || hh > 23 || mm < 0 || mm > 59) return null;
+  return hh * 60 + mm;
+}
+
+/**
+ * If target is inside the window (wall clock in timeZone) -> keep.
+ * Else move to next window start (same day or next day) in that zone.
+ * Returns the resolved UTC instant.
+ */
+export function adjustToWindow(target: Date, startHHMM: string, endHHMM: string, timeZone = "UTC") {
+  const tz = isValidTimeZone(timeZone) ? timeZone : "UTC";
+
+  const start = parseHHMM(startHHMM) ?? 9 * 60;
+  const end = parseHHMM(endHHMM) ?? 19 * 60;
+
+  const windowStart = Math.min(start, end);
+  const windowEnd = Math.max(start, end);
+
+  const local = zonedParts(target, tz);
+  const tMins = local.hour * 60 + local.minute;
+  if (tMins >= windowStart && tMins <= windowEnd) return target;
+
+  // If target is after today's end, schedule next day start
+  const day = tMins > windowEnd ? addCalendarDays(local, 1) : local;
+
+  return zonedTimeToUtc(
+    {
+      year: day.year,
+      month: day.month,
+      day: day.day,
+      hour: Math.floor(windowStart / 60),
+      minute: windowStart % 60,
+    },
+    tz
+  );
+}
+
+/* =========================
+   Weekly schedule + blackout dates
+   ========================= */
+export type CallWindowRange = { start: string; end: string };
+
+export type CallSchedule = {
+  weekly: CallWindowRange[][]; // index 0 = Sunday; empty day = no calls
+  blackoutDates: string[]; // YYYY-MM-DD, customer-local
+  holidayCountries: string[]; // ISO2 calendars from holidays.shared
+};
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const SCHEDULE_LOOKAHEAD_DAYS = 60;
+
+function ymdOf(p: { year: number; month: number; day: number }) {
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+function normalizeRanges(list: any): CallWindowRange[] {
+  const arr = Array.isArray(list) ? list : [];
+  const out: CallWindowRange[] = [];
+  for (const r of arr) {
+    const s = parseHHMM(String(r?.start ?? ""));
+    const e = parseHHMM(String(r?.end ?? ""));
+    if (s == null || e == null) continue;
+    const a = String(r.start).trim();
+    const b = String(r.end).trim();
+    out.push(s <= e ? { start: a, end: b } : { start: b, end: a });
+  }
+  return out.sort((a, b) => (parseHHMM(a.start) ?? 0) - (parseHHMM(b.start) ?? 0));
+}
+
+function normalizeDates(list: any): string[] {
+  const arr = Array.isArray(list) ? list : [];
+  const set = new Set<string>();
+  for (const d of arr) {
+    const s = String(d ?? "").trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(s)) set.add(s);
+  }
+  return Array.from(set).sort();
+}
+
+function normalizeCountries(list: any): string[] {
+  const arr = Array.isArray(list) ? list : [];
+  const set = new Set<string>();
+  for (const c of arr) {
+    const s = String(c ?? "").trim().toUpperCase();
+    if (/^[A-Z]{2}$/.test(s)) set.add(s);
+  }
+  return Array.from(set).sort();
+}
+
+/** Same window every day, used when no weekly schedule was saved yet. */
+export function defaultCallSchedule(startHHMM: string, endHHMM: string): CallSchedule {
+  const range = normalizeRanges([{ start: startHHMM, end: endHHMM }]);
+  const day = range.length ? range : [{ start: "09:00", end: "19:00" }];
+  return {
+    weekly: Array.from({ length: 7 }, () => day.map((r) => ({ ...r }))),
+    blackoutDates: [],
+    holidayCountries: [],
+  };
+}
+
+export function parseCallSchedule(
+  json: string | null | undefined,
+  fallbackStart: string,
+  fallbackEnd: string
+): CallSchedule {
+  let j: any = null;
+  try {
+    j = json ? JSON.parse(json) : null;
+  } catch {
+    j = null;
+  }
+  if (!j || typeof j !== "object" || !Array.isArray(j.weekly)) return defaultCallSchedule(fallbackStart, fallbackEnd);
+
+  return {
+    weekly: Array.from({ length: 7 }, (_, i) => normalizeRanges(j.weekly[i])),
+    blackoutDates: normalizeDates(j.blackoutDates),
+    holidayCountries: normalizeCountries(j.holidayCountries),
+  };
+}
+
+export function serializeCallSchedule(s: CallSchedule): string {
+  return JSON.stringify({
+    weekly: Array.from({ length: 7 }, (_, i) => normalizeRanges(s.weekly?.[i])),
+    blackoutDates: normalizeDates(s.blackoutDates),
+    holidayCountries: normalizeCountries(s.holidayCountries),
+  });
+}
+
+export function callScheduleFromSettings(settings: {
+  callScheduleJson?: string | null;
+  callWindowStart: string;
+  callWindowEnd: string;
+}): CallSchedule {
+  return parseCallSchedule(settings.callScheduleJson ?? null, settings.callWindowStart, settings.callWindowEnd);
+}
+
+/** "09:00-12:00, 14:00-19:00" <-> ranges. Invalid pieces are dropped. */
+export function formatDayRanges(ranges: CallWindowRange[]): string {
+  return (ranges ?? []).map((r) => `${r.start}-${r.end}`).join(", ");
+}
+
+export function parseDayRanges(text: string): CallWindowRange[] {
+  const parts = String(text ?? "")
+    .split(/[,;]/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return normalizeRanges(
+    parts.map((p) => {
+      const [start, end] = p.split(/\s*[-–]\s*/).map((x) => String(x ?? "").replace(/^(\d):/, "0$1:"));
+      return { start, end };
+    })
+  );
+}
+
+/** Earliest start / latest end across the week, for compact display. */
+export function summarizeCallSchedule(s: CallSchedule): { start: string; end: string; activeDays: number } {
+  let min: number | null = null;
+  let max: number | null = null;
+  let activeDays = 0;
+  for (const day of s.weekly) {
+    if (day.length) activeDays++;
+    for (const r of day) {
+      const a = parseHHMM(r.start);
+      const b = parseHHMM(r.end);
+      if (a != null && (min == null || a < min)) min = a;
+      if (b != null && (max == null || b > max)) max = b;
+    }
+  }
+  const fmt = (m: number | null, d: string) =>
+    m == null ? d : `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+  return { start: fmt(min, "09:00"), end: fmt(max, "19:00"), activeDays };
+}
+
+/** Why a customer-local date is blocked (blackout / holiday), or null. */
+export function blockedDateReason(
+  date: string,
+  schedule: CallSchedule,
+  countryIso2: string | null | undefined
+): string | null {
+  if (schedule.blackoutDates.includes(date)) return "BLACKOUT_DATE";
+  const c = String(countryIso2 ?? "").trim().toUpperCase();
+  if (c && schedule.holidayCountries.includes(c)) {
+    const name = holidayOn(c, date);
+    if (name) return `HOLIDAY:${name}`;
+  }
+  return null;
+}
+
+/**
+ * Earliest instant >= target that falls inside the weekly schedule (wall clock in timeZone),
+ * skipping blackout dates and holidays of the customer's country when that calendar is enabled.
+ * Windows are inclusive. Returns null when nothing is allowed within the lookahead.
+ */
+export function nextAllowedSlot(
+  target: Date,
+  schedule: CallSchedule,
+  timeZone = "UTC",
+  countryIso2?: string | null
+): Date | null {
+  const tz = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const local = zonedParts(target, tz);
+  const tMins = local.hour * 60 + local.minute;
+
+  for (let i = 0; i <= SCHEDULE_LOOKAHEAD_DAYS; i++) {
+    const day = addCalendarDays(local, i);
+    if (blockedDateReason(ymdOf(day), schedule, countryIso2)) continue;
+
+    for (const r of schedule.weekly[day.weekday] ?? []) {
+      const s = parseHHMM(r.start);
+      const e = parseHHMM(r.end);
+      if (s == null || e == null) continue;
+
+      if (i === 0) {
+        if (tMins > e) continue;
+        if (tMins >= s) return target;
+      }
+
+      return zonedTimeToUtc(
+        { year: day.year, month: day.month, day: day.day, hour: Math.floor(s / 60), minute: s % 60 },
+        tz
+      );
+    }
+  }
+
+  return null;
+}
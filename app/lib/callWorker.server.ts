@@ -0,0 +1,422 @@
+// app/lib/callWorker.server.ts
+import os from "node:os";
+import { randomBytes } from "node:crypto";
+import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { startCallForJob } from "../callProvider.server";
+import { logEvent } from "./eventLog.server";
+import { transitionCallJob } from "./callJobState.server";
+import { providerOutcome, type VoiceProvider } from "./voiceProvider.shared";
+import { callScheduleFromSettings, nextAllowedSlot } from "./callWindow.shared";
+import { extractCheckoutLocation, resolveCustomerTimezone } from "./timezones.shared";
+import {
+  parseConcurrencyLimit,
+  roundRobinByShop,
+  throttleReason,
+  type ConcurrencyLimits,
+} from "./callConcurrency.shared";
+
+/* =========================
+   In-process call worker
+   - Claims due QUEUED jobs with FOR UPDATE SKIP LOCKED and a lease (leaseOwner + leaseExpiresAt),
+     so several app instances can poll the same table without double-dialling.
+   - The lease is extended by a heartbeat while a job is processed and released afterwards.
+     A crashed worker's lease simply expires and another instance picks the job up.
+   - The QUEUED -> CALLING compare-and-set is still the final guard, and it only runs while the
+     global / per-shop / per-caller-ID concurrency limits have room (otherwise the job stays QUEUED as THROTTLED).
+   ========================= */
+export const WORKER_ID = `${os.hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+
+function envInt(name: string, fallback: number, min: number, max: number) {
+  const n = Math.floor(Number(process.env[name] ?? fallback));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+const LEASE_SECONDS = envInt("CALL_JOB_LEASE_SECONDS", 120, 15, 3600);
+const HEARTBEAT_MS = Math.max(5000, Math.floor((LEASE_SECONDS * 1000) / 3));
+// Throttled jobs stay QUEUED but aren't re-claimed until this back-off passes.
+const THROTTLE_BACKOFF_SECONDS = envInt("CALL_THROTTLE_BACKOFF_SECONDS", 30, 5, 3600);
+// CALLING jobs untouched for longer than this no longer hold a concurrency slot (lost webhook).
+const ACTIVE_CALL_STALE_MINUTES = 30;
+// pg_advisory_xact_lock key serialising the "count active, then start" step across instances.
+const DISPATCH_LOCK_KEY = 720_331_001;
+
+export type CallWorkerTickResult = {
+  workerId: string;
+  claimed: number;
+  processed: number;
+  started: number;
+  failed: number;
+  canceled: number;
+  rescheduled: number;
+  throttled: number;
+};
+
+type ProcessOutcome = "started" | "failed" | "canceled" | "rescheduled" | "throttled" | "skipped";
+
+/* =========================
+   Concurrency limits
+   - Global and per-caller-ID limits come from env (CALL_MAX_CONCURRENT_GLOBAL, CALL_MAX_CONCURRENT_PER_NUMBER).
+   - Per-shop limit comes from Settings.maxConcurrentCalls.
+   ========================= */
+export function globalConcurrencyLimits() {
+  return {
+    global: parseConcurrencyLimit(process.env.CALL_MAX_CONCURRENT_GLOBAL ?? 10),
+    callerId: parseConcurrencyLimit(process.env.CALL_MAX_CONCURRENT_PER_NUMBER),
+  };
+}
+
+/** The outbound number a shop's calls go out on (same resolution as the provider call). */
+export function callerIdForSettings(settings: { vapiPhoneNumberId?: string | null } | null) {
+  return String(settings?.vapiPhoneNumberId ?? "").trim() || String(process.env.VAPI_PHONE_NUMBER_ID ?? "").trim() || null;
+}
+
+/**
+ * QUEUED -> CALLING under the dispatch lock, but only while every limit has room.
+ * Returns null when the job was started, the THROTTLED reason when held back, or "skipped" if it was no longer ours.
+ */
+async function startWithinLimits(params: {
+  jobId: string;
+  shop: string;
+  callerId: string | null;
+  limits: ConcurrencyLimits;
+}): Promise<string | "skipped" | null> {
+  const activeWhere = {
+    status: "CALLING" as const,
+    updatedAt: { gte: new Date(Date.now() - ACTIVE_CALL_STALE_MINUTES * 60 * 1000) },
+  };
+
+  return db.$transaction(async (tx) => {
+    await tx.$executeRaw`select pg_advisory_xact_lock(${DISPATCH_LOCK_KEY})`;
+
+    const [global, shop, callerId] = await Promise.all([
+      params.limits.global != null ? tx.callJob.count({ where: activeWhere }) : 0,
+      params.limits.shop != null ? tx.callJob.count({ where: { ...activeWhere, shop: params.shop } }) : 0,
+      params.limits.callerId != null && params.callerId
+        ? tx.callJob.count({ where: { ...activeWhere, callerId: params.callerId } })
+        : 0,
+    ]);
+
+    const reason = throttleReason(params.limits, { global, shop, callerId });
+    if (reason) return reason;
+
+    // Lock exactly once and increment attempts exactly once here.
+    const locked = await transitionCallJob({
+      id: params.jobId,
+      to: "CALLING",
+      source: "worker",
+      where: { status: "QUEUED", leaseOwner: WORKER_ID },
+      data: { attempts: { increment: 1 }, outcome: null, callerId: params.callerId },
+      payload: { workerId: WORKER_ID, callerId: params.callerId },
+      tx,
+    });
+    return locked.ok ? null : "skipped";
+  });
+}
+
+/**
+ * Lease up to `limit` due jobs for this worker.
+ * Jobs are ranked within their shop first (highest priorityScore, then oldest), so one shop's backlog
+ * can't fill the whole batch. Returns the claimed ids in round-robin order across shops.
+ */
+export async function claimDueCallJobs(params: { limit: number; shop?: string | null }): Promise<string[]> {
+  const limit = Math.max(1, Math.min(200, Math.floor(params.limit)));
+  const shop = params.shop ?? null;
+
+  const rows = await db.$queryRaw<Array<{ id: string; shop: string; scheduledFor: Date; priorityScore: number }>>`
+    update "CallJob"
+    set "leaseOwner" = ${WORKER_ID},
+        "leaseExpiresAt" = now() + make_interval(secs => ${LEASE_SECONDS}),
+        "heartbeatAt" = now()
+    where id in (
+      select c.id from "CallJob" c
+      join (
+        select id, row_number() over (partition by shop order by "priorityScore" desc, "scheduledFor" asc) as rn
+        from "CallJob"
+        where status = 'QUEUED'
+          and "scheduledFor" <= now()
+          and ("leaseExpiresAt" is null or "leaseExpiresAt" < now())
+          and (${shop}::text is null or shop = ${shop})
+      ) ranked on ranked.id = c.id
+      order by ranked.rn asc, c."priorityScore" desc, c."scheduledFor" asc
+      limit ${limit}
+      for update of c skip locked
+    )
+    returning id, shop, "scheduledFor", "priorityScore"
+  `;
+
+  const sorted: Array<{ id: string; shop: string; at: number; priority: number }> = rows
+    .map((r) => ({
+      id: String(r.id),
+      shop: String(r.shop),
+      at: new Date(r.scheduledFor).getTime(),
+      priority: Number(r.priorityScore ?? 0),
+    }))
+    .sort((a, b) => b.priority - a.priority || a.at - b.at);
+  return roundRobinByShop(sorted).map((r) => r.id);
+}
+
+async function heartbeat(jobIds: string[]) {
+  if (!jobIds.length) return;
+  await db.callJob.updateMany({
+    where: { id: { in: jobIds }, leaseOwner: WORKER_ID },
+    data: { heartbeatAt: new Date(), leaseExpiresAt: new Date(Date.now() + LEASE_SECONDS * 1000) },
+  });
+}
+
+/** Hand the job back without changing scheduledFor; other workers skip it until the back-off passes. */
+async function holdThrottled(jobId: string, reason: string) {
+  await db.callJob.updateMany({
+    where: { id: jobId, status: "QUEUED", leaseOwner: WORKER_ID },
+    data: {
+      outcome: reason,
+      leaseOwner: null,
+      leaseExpiresAt: new Date(Date.now() + THROTTLE_BACKOFF_SECONDS * 1000),
+    },
+  });
+}
+
+async function releaseLease(jobId: string) {
+  await db.callJob.updateMany({
+    where: { id: jobId, leaseOwner: WORKER_ID },
+    data: { leaseOwner: null, leaseExpiresAt: null },
+  });
+}
+
+/** Guards + provider start for one leased job (formerly the body of /api/run-calls). */
+async function processLeasedJob(jobId: string, provider: VoiceProvider | null): Promise<ProcessOutcome> {
+  const now = new Date();
+
+  const queued = await db.callJob.findUnique({ where: { id: jobId }, select: { shop: true, status: true, leaseOwner: true } });
+  if (!queued || queued.status !== "QUEUED" || queued.leaseOwner !== WORKER_ID) return "skipped";
+
+  const settings = await ensureSettings(queued.shop);
+  const gate = await startWithinLimits({
+    jobId,
+    shop: queued.shop,
+    callerId: callerIdForSettings(settings),
+    limits: { ...globalConcurrencyLimits(), shop: parseConcurrencyLimit(settings.maxConcurrentCalls) },
+  });
+  if (gate === "skipped") return "skipped";
+  if (gate) {
+    await holdThrottled(jobId, gate);
+    await logEvent({ shop: queued.shop, callJobId: jobId, level: "warn", code: "CALL_THROTTLED", message: gate, dedupeMinutes: 30 });
+    return "throttled";
+  }
+
+  const job = await db.callJob.findUnique({ where: { id: jobId } });
+  if (!job) return "skipped";
+
+  // Guard: if checkout is no longer ABANDONED, do not call.
+  const checkout = await db.checkout.findUnique({
+    where: { shop_checkoutId: { shop: job.shop, checkoutId: job.checkoutId } },
+    select: { status: true, raw: true },
+  });
+
+  const event = { shop: job.shop, checkoutId: job.checkoutId, callJobId: job.id };
+
+  if (!checkout || String(checkout.status) !== "ABANDONED") {
+    const outcome = checkout ? `CHECKOUT_NOT_ABANDONED:${String(checkout.status)}` : "CHECKOUT_NOT_FOUND";
+    await transitionCallJob({ id: job.id, to: "CANCELED", source: "worker", data: { outcome }, payload: { outcome } });
+    await logEvent({ ...event, code: "CALL_CANCELED", message: outcome });
+    return "canceled";
+  }
+
+  const maxAttempts = Number((settings as any).maxAttempts ?? 1);
+
+  // Guard: schedule may have changed (or today became a blackout/holiday) since enqueue.
+  const schedule = callScheduleFromSettings(settings as any);
+  const timezone = job.timezone ?? resolveCustomerTimezone(checkout.raw, settings.shopTimezone);
+  const country = extractCheckoutLocation(checkout.raw).iso2;
+  const slot = nextAllowedSlot(now, schedule, timezone, country);
+
+  if (!slot) {
+    await transitionCallJob({
+      id: job.id,
+      to: "CANCELED",
+      source: "worker",
+      data: { attempts: { decrement: 1 }, outcome: "NO_ALLOWED_SLOT" },
+      payload: { outcome: "NO_ALLOWED_SLOT", timezone, country },
+    });
+    await logEvent({ ...event, code: "CALL_CANCELED", message: "NO_ALLOWED_SLOT", details: { timezone, country } });
+    return "canceled";
+  }
+
+  if (slot.getTime() > now.getTime()) {
+    await transitionCallJob({
+      id: job.id,
+      to: "QUEUED",
+      source: "worker",
+      data: { attempts: { decrement: 1 }, scheduledFor: slot, timezone, outcome: "OUTSIDE_CALL_SCHEDULE" },
+      payload: { outcome: "OUTSIDE_CALL_SCHEDULE", scheduledFor: slot.toISOString() },
+    });
+    await logEvent({
+      ...event,
+      code: "CALL_RESCHEDULED",
+      message: "OUTSIDE_CALL_SCHEDULE",
+      details: { scheduledFor: slot.toISOString(), timezone },
+    });
+    return "rescheduled";
+  }
+
+  try {
+    const res = await startCallForJob({ shop: job.shop, callJobId: job.id, providerId: provider?.id ?? null });
+    if (res.suppressed || res.ruleAction) {
+      const after = await db.callJob.findUnique({ where: { id: job.id }, select: { outcome: true, scheduledFor: true } });
+      // A call rule handled the job (skipped, delayed or texted instead of dialing).
+      const delayed = !res.suppressed && res.ruleAction === "delay";
+      await logEvent({
+        ...event,
+        code: delayed ? "CALL_RESCHEDULED" : "CALL_CANCELED",
+        message: after?.outcome ?? null,
+        details: delayed ? { scheduledFor: after?.scheduledFor?.toISOString() ?? null } : { ruleAction: res.ruleAction },
+      });
+      return delayed ? "rescheduled" : "canceled";
+    }
+    // Logged as CALL_START_UNKNOWN; the call's webhooks or the stale-call expiry settle the job.
+    if (res.startUnknown) return "started";
+
+    // Keep status CALLING until webhook ends the call (a report that already arrived wins).
+    await db.callJob.updateMany({
+      where: { id: job.id, status: "CALLING" },
+      data: {
+        provider: res.provider,
+        providerCallId: res.providerCallId ?? null,
+        outcome: providerOutcome(String(res.provider), "CALL_STARTED"),
+      },
+    });
+    await logEvent({ ...event, code: "CALL_STARTED", details: { provider: res.provider, providerCallId: res.providerCallId ?? null } });
+    return "started";
+  } catch (e: any) {
+    const jobFresh = await db.callJob.findUnique({ where: { id: job.id }, select: { attempts: true } });
+    const attemptsAfter = Number(jobFresh?.attempts ?? 0);
+
+    if (attemptsAfter >= maxAttempts) {
+      const failed = await transitionCallJob({
+        id: job.id,
+        to: "FAILED",
+        source: "worker",
+        data: { outcome: `ERROR: ${String(e?.message ?? e)}` },
+        payload: { error: String(e?.message ?? e), attempts: attemptsAfter },
+      });
+      // The call start already settled the job (e.g. invalid phone -> FAILED).
+      if (!failed.ok && failed.reason === "ILLEGAL") return "failed";
+      await logEvent({ ...event, level: "error", code: "CALL_FAILED", message: String(e?.message ?? e), details: { attempts: attemptsAfter } });
+      return "failed";
+    }
+
+    const retryMinutes = Number((settings as any).retryMinutes ?? 180);
+    const next = nextAllowedSlot(new Date(Date.now() + retryMinutes * 60 * 1000), schedule, timezone, country);
+
+    const moved = await transitionCallJob({
+      id: job.id,
+      to: next ? "QUEUED" : "FAILED",
+      source: "worker",
+      data: next
+        ? { scheduledFor: next, timezone, outcome: `RETRY_SCHEDULED in ${retryMinutes}m` }
+        : { outcome: `ERROR: ${String(e?.message ?? e)} (NO_ALLOWED_SLOT for retry)` },
+      payload: { error: String(e?.message ?? e), attempts: attemptsAfter, retryAt: next?.toISOString() ?? null },
+    });
+    if (!moved.ok && moved.reason === "ILLEGAL") return "failed";
+    await logEvent({
+      ...event,
+      level: next ? "warn" : "error",
+      code: next ? "CALL_RESCHEDULED" : "CALL_FAILED",
+      message: String(e?.message ?? e),
+      details: { attempts: attemptsAfter, retryAt: next?.toISOString() ?? null },
+    });
+    return next ? "rescheduled" : "failed";
+  }
+}
+
+/** Claim and process one batch of due jobs. */
+export async function runCallWorkerTick(params?: {
+  limit?: number;
+  shop?: string | null;
+  // Forces a provider (the dashboard passes the simulator without credentials); otherwise each shop's own.
+  provider?: VoiceProvider;
+}): Promise<CallWorkerTickResult> {
+  const provider = params?.provider ?? null;
+  const limit = params?.limit ?? envInt("CALL_WORKER_BATCH", 25, 1, 200);
+  const ids = await claimDueCallJobs({ limit, shop: params?.shop ?? null });
+
+  const out: CallWorkerTickResult = {
+    workerId: WORKER_ID,
+    claimed: ids.length,
+    processed: 0,
+    started: 0,
+    failed: 0,
+    canceled: 0,
+    rescheduled: 0,
+    throttled: 0,
+  };
+
+  // One heartbeat for the whole batch: jobs still waiting their turn keep their lease too.
+  const pending = new Set(ids);
+  const beat = setInterval(() => {
+    heartbeat(Array.from(pending)).catch((e) =>
+      console.log("[WORKER] heartbeat_failed", { workerId: WORKER_ID, err: String(e?.message ?? e) })
+    );
+  }, HEARTBEAT_MS);
+
+  for (const id of ids) {
+    try {
+      const r = await processLeasedJob(id, provider);
+      if (r !== "skipped" && r !== "throttled") out.processed += 1;
+      if (r === "started") out.started += 1;
+      if (r === "failed") out.failed += 1;
+      if (r === "canceled") out.canceled += 1;
+      if (r === "rescheduled") out.rescheduled += 1;
+      if (r === "throttled") out.throttled += 1;
+    } catch (e: any) {
+      console.log("[WORKER] job_error", { id, err: String(e?.message ?? e) });
+    } finally {
+      pending.delete(id);
+      await releaseLease(id).catch(() => {});
+    }
+  }
+  clearInterval(beat);
+
+  if (ids.length) console.log("[WORKER] tick", out);
+  return out;
+}
+
+/* =========================
+   Poll loop (one per process)
+   - CALL_WORKER_ENABLED=false turns it off (e.g. web-only instances).
+   ========================= */
+type LoopState = { timer: ReturnType<typeof setTimeout> | null; running: boolean; stopped: boolean };
+// No signal handlers on purpose: leases held by a stopped process expire on their own.
+
+const globalForWorker = globalThis as unknown as { __callWorker?: LoopState };
+
+export function startCallWorker() {
+  if (String(process.env.CALL_WORKER_ENABLED ?? "true").trim().toLowerCase() === "false") return;
+  if (globalForWorker.__callWorker) return;
+
+  const intervalMs = envInt("CALL_WORKER_INTERVAL_MS", 15000, 1000, 10 * 60 * 1000);
+  const state: LoopState = { timer: null, running: false, stopped: false };
+  globalForWorker.__callWorker = state;
+
+  const loop = async () => {
+    if (state.stopped) return;
+    state.running = true;
+    try {
+      // Keep draining while full batches come back, then wait for the next interval.
+      const batch = envInt("CALL_WORKER_BATCH", 25, 1, 200);
+      for (let i = 0; i < 10 && !state.stopped; i++) {
+        const r = await runCallWorkerTick({ limit: batch });
+        if (r.claimed < batch || r.throttled === r.claimed) break;
+      }
+    } catch (e: any) {
+      console.log("[WORKER] loop_error", { workerId: WORKER_ID, err: String(e?.message ?? e) });
+    } finally {
+      state.running = false;
+      if (!state.stopped) state.timer = setTimeout(loop, intervalMs);
+    }
+  };
+
+  state.timer = setTimeout(loop, Math.min(intervalMs, 5000));
+  console.log("[WORKER] started", { workerId: WORKER_ID, intervalMs, leaseSeconds: LEASE_SECONDS });
+}
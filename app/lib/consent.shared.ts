@@ -0,0 +1,113 @@
+// app/lib/consent.shared.ts
+
+/* =========================
+   Marketing consent
+   - true = opted in, false = explicitly not / unsubscribed, null = unknown.
+   - Reads both the REST webhook payload (snake_case) and the GraphQL abandonedCheckouts node.
+   ========================= */
+export type CheckoutConsent = {
+  marketingConsent: boolean | null;
+  smsConsent: boolean | null;
+};
+
+export type ConsentPolicy = "ignore" | "require" | "require_in_countries";
+
+export type ConsentChannel = "call" | "sms";
+
+export const CONSENT_POLICY_OPTIONS: Array<{ label: string; value: ConsentPolicy }> = [
+  { label: "Ignore consent", value: "ignore" },
+  { label: "Require consent", value: "require" },
+  { label: "Require consent only in listed countries", value: "require_in_countries" },
+];
+
+function consentFromState(v: any): boolean | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (!s) return null;
+  if (s === "subscribed") return true;
+  if (s === "not_subscribed" || s === "unsubscribed" || s === "redacted" || s === "invalid") return false;
+  return null; // pending / unknown
+}
+
+function consentFromFlag(v: any): boolean | null {
+  return typeof v === "boolean" ? v : null;
+}
+
+// Any opt-in wins (the buyer may tick the box at checkout after an earlier unsubscribe).
+function combine(...values: Array<boolean | null>): boolean | null {
+  if (values.some((v) => v === true)) return true;
+  if (values.some((v) => v === false)) return false;
+  return null;
+}
+
+export function extractCheckoutConsent(raw: any): CheckoutConsent {
+  let r = raw;
+  if (typeof r === "string") {
+    try {
+      r = JSON.parse(r);
+    } catch {
+      r = null;
+    }
+  }
+  if (!r || typeof r !== "object") return { marketingConsent: null, smsConsent: null };
+
+  const cust = r.customer ?? null;
+
+  return {
+    marketingConsent: combine(
+      consentFromFlag(r.buyer_accepts_marketing),
+      consentFromState(cust?.email_marketing_consent?.state),
+      consentFromState(cust?.emailMarketingConsent?.marketingState),
+      consentFromFlag(cust?.accepts_marketing)
+    ),
+    smsConsent: combine(
+      consentFromFlag(r.buyer_accepts_sms_marketing),
+      consentFromState(cust?.sms_marketing_consent?.state),
+      consentFromState(cust?.smsMarketingConsent?.marketingState)
+    ),
+  };
+}
+
+export function parseConsentPolicy(v: any): ConsentPolicy {
+  const s = String(v ?? "").trim();
+  return s === "require" || s === "require_in_countries" ? s : "ignore";
+}
+
+export function parseConsentCountries(v: any): string[] {
+  return Array.from(
+    new Set(
+      String(v ?? "")
+        .split(/[\s,;]+/)
+        .map((x) => x.trim().toUpperCase())
+        .filter((x) => /^[A-Z]{2}$/.test(x))
+    )
+  );
+}
+
+/** Unknown country counts as listed, so "require_in_countries" fails closed. */
+export function consentRequired(policy: ConsentPolicy, countries: string[], iso2: string | null): boolean {
+  if (policy === "require") return true;
+  if (policy !== "require_in_countries") return false;
+  const c = String(iso2 ?? "").trim().toUpperCase();
+  return !c || countries.includes(c);
+}
+
+/**
+ * Skip reason when the policy blocks contact, otherwise null.
+ * Calls accept either email or SMS marketing consent; SMS needs SMS consent.
+ */
+export function consentBlockReason(params: {
+  policy: ConsentPolicy;
+  countries: string[];
+  iso2: string | null;
+  consent: CheckoutConsent;
+  channel: ConsentChannel;
+}): "NO_CALL_CONSENT" | "NO_SMS_CONSENT" | null {
+  if (!consentRequired(params.policy, params.countries, params.iso2)) return null;
+  const { marketingConsent, smsConsent } = params.consent;
+  if (params.channel === "sms") return smsConsent === true ? null : "NO_SMS_CONSENT";
+  return marketingConsent === true || smsConsent === true ? null : "NO_CALL_CONSENT";
+}
+
+export function consentLabel(v: boolean | null | undefined): string {
+  return v === true ? "Yes" : v === false ? "No" : "Unknown";
+}
@@ -0,0 +1,105 @@
+// app/lib/contactCaps.server.ts
+import db from "../db.server";
+import { callingCodeForCountry, normalizePhoneE164 } from "./phone.shared";
+import { extractCheckoutLocation } from "./timezones.shared";
+import { normalizeSuppressionEmail } from "./suppression.server";
+import {
+  frequencyCapOutcome,
+  isCapReached,
+  type ContactCap,
+  type ContactEvent,
+} from "./contactCaps.shared";
+
+/** "PHONE:<e164>" / "EMAIL:<email>" keys for a checkout (phone falls back to the job's number). */
+export function contactKeysFor(
+  checkout: { phone?: string | null; email?: string | null; raw?: string | null } | null,
+  jobPhone?: string | null
+) {
+  const iso2 = extractCheckoutLocation(checkout?.raw ?? null).iso2;
+  const phone = normalizePhoneE164(checkout?.phone || jobPhone, callingCodeForCountry(iso2));
+  const email = normalizeSuppressionEmail(checkout?.email);
+  return [phone ? `PHONE:${phone}` : "", email ? `EMAIL:${email}` : ""].filter(Boolean);
+}
+
+async function keysByCheckout(shop: string, checkoutIds: string[]) {
+  const ids = Array.from(new Set(checkoutIds));
+  const rows = ids.length
+    ? await db.checkout.findMany({
+        where: { shop, checkoutId: { in: ids } },
+        select: { checkoutId: true, phone: true, email: true, raw: true },
+      })
+    : [];
+  return new Map(rows.map((r) => [r.checkoutId, r]));
+}
+
+/**
+ * Calls that were placed or are still queued, scheduled at/after `since`.
+ * Failed jobs only count when the provider actually dialed.
+ */
+export async function loadCallEvents(params: { shop: string; since: Date }): Promise<ContactEvent[]> {
+  const jobs = await db.callJob.findMany({
+    where: {
+      shop: params.shop,
+      scheduledFor: { gte: params.since },
+      OR: [{ status: { in: ["QUEUED", "CALLING", "COMPLETED"] } }, { status: "FAILED", providerCallId: { not: null } }],
+    },
+    select: { checkoutId: true, phone: true, scheduledFor: true },
+    take: 5000,
+  });
+
+  const checkouts = await keysByCheckout(params.shop, jobs.map((j) => j.checkoutId));
+  return jobs.map((j) => ({
+    at: new Date(j.scheduledFor),
+    keys: contactKeysFor(checkouts.get(j.checkoutId) ?? null, j.phone),
+  }));
+}
+
+/** SMS sent by the offer tool (analysisJson.offer.smsSentAt) at/after `since`. */
+export async function loadSmsEvents(params: { shop: string; since: Date }): Promise<ContactEvent[]> {
+  const jobs = await db.callJob.findMany({
+    where: {
+      shop: params.shop,
+      updatedAt: { gte: params.since },
+      analysisJson: { contains: "smsSentAt" },
+    },
+    select: { checkoutId: true, phone: true, analysisJson: true },
+    take: 5000,
+  });
+
+  const sent = jobs
+    .map((j) => {
+      let at: Date | null = null;
+      try {
+        const a = JSON.parse(String(j.analysisJson ?? ""));
+        const d = new Date(a?.offer?.smsSentAt ?? "");
+        at = Number.isFinite(d.getTime()) && d >= params.since ? d : null;
+      } catch {
+        at = null;
+      }
+      return { job: j, at };
+    })
+    .filter((x) => x.at);
+
+  const checkouts = await keysByCheckout(params.shop, sent.map((x) => x.job.checkoutId));
+  return sent.map((x) => ({
+    at: x.at as Date,
+    keys: contactKeysFor(checkouts.get(x.job.checkoutId) ?? null, x.job.phone),
+  }));
+}
+
+/** FREQUENCY_CAPPED outcome when one more SMS to this checkout's contact would exceed the cap, otherwise null. */
+export async function smsCapBlock(params: {
+  shop: string;
+  cap: ContactCap | null;
+  checkout: { phone?: string | null; email?: string | null; raw?: string | null } | null;
+  jobPhone?: string | null;
+}): Promise<string | null> {
+  if (!params.cap) return null;
+  const now = new Date();
+  const events = await loadSmsEvents({
+    shop: params.shop,
+    since: new Date(now.getTime() - params.cap.hours * 60 * 60 * 1000),
+  });
+  const keys = contactKeysFor(params.checkout, params.jobPhone);
+  return isCapReached(events, keys, now, params.cap) ? frequencyCapOutcome("sms", params.cap) : null;
+}
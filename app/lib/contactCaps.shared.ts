@@ -0,0 +1,93 @@
+// app/lib/contactCaps.shared.ts
+
+/* =========================
+   Cross-checkout contact frequency caps
+   - Per phone number and per email, across every checkout of the shop.
+   - null = no cap for that channel.
+   ========================= */
+export type ContactChannel = "call" | "sms";
+
+export type ContactCap = {
+  max: number; // contacts allowed inside the window
+  hours: number; // rolling window length
+};
+
+export type ContactCaps = Record<ContactChannel, ContactCap | null>;
+
+export const FREQUENCY_CAPPED = "FREQUENCY_CAPPED";
+
+const MAX_WINDOW_HOURS = 90 * 24;
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function cleanCap(v: any): ContactCap | null {
+  if (!v || typeof v !== "object") return null;
+  const max = Math.floor(Number(v.max));
+  const hours = Math.floor(Number(v.hours));
+  if (!Number.isFinite(max) || max < 0 || !Number.isFinite(hours) || hours <= 0) return null;
+  return { max: Math.min(max, 100), hours: Math.min(hours, MAX_WINDOW_HOURS) };
+}
+
+export function defaultContactCaps(): ContactCaps {
+  return { call: null, sms: null };
+}
+
+export function parseContactCaps(json: string | null | undefined): ContactCaps {
+  const j = safeJsonParse(json);
+  if (!j || typeof j !== "object") return defaultContactCaps();
+  return { call: cleanCap(j.call), sms: cleanCap(j.sms) };
+}
+
+/** null when neither channel is capped. */
+export function serializeContactCaps(caps: ContactCaps): string | null {
+  const call = cleanCap(caps.call);
+  const sms = cleanCap(caps.sms);
+  return call || sms ? JSON.stringify({ call, sms }) : null;
+}
+
+function formatHours(hours: number) {
+  if (hours % 24 === 0) return hours === 24 ? "24h" : `${hours / 24} days`;
+  return `${hours}h`;
+}
+
+/** "max 2 calls per 7 days" */
+export function formatContactCap(channel: ContactChannel, cap: ContactCap | null): string {
+  if (!cap) return "No cap";
+  const noun = channel === "sms" ? "SMS" : cap.max === 1 ? "call" : "calls";
+  return `max ${cap.max} ${noun} per ${formatHours(cap.hours)}`;
+}
+
+export function frequencyCapOutcome(channel: ContactChannel, cap: ContactCap) {
+  return `${FREQUENCY_CAPPED}: ${formatContactCap(channel, cap)}`;
+}
+
+/* =========================
+   Counting
+   - An event is one placed (or queued) call / sent SMS with the contact keys it reached.
+   - Keys are "PHONE:<e164>" / "EMAIL:<lowercased>", same as the suppression list.
+   ========================= */
+export type ContactEvent = { at: Date; keys: string[] };
+
+/**
+ * Events within cap.hours of `at` that share any key.
+ * Looks both ways so a new contact can't squeeze between an earlier and an already-queued one.
+ */
+export function countContactEvents(events: ContactEvent[], keys: string[], at: Date, cap: ContactCap): number {
+  const wanted = new Set(keys.filter(Boolean));
+  if (!wanted.size) return 0;
+  const windowMs = cap.hours * 60 * 60 * 1000;
+  const t = at.getTime();
+  return events.filter((e) => Math.abs(e.at.getTime() - t) < windowMs && e.keys.some((k) => wanted.has(k))).length;
+}
+
+export function isCapReached(events: ContactEvent[], keys: string[], at: Date, cap: ContactCap | null): boolean {
+  if (!cap) return false;
+  return countContactEvents(events, keys, at, cap) >= cap.max;
+}
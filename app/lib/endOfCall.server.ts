@@ -0,0 +1,331 @@
+// app/lib/endOfCall.server.ts
+import db from "../db.server";
+import { applyBillingForCall } from "./billing.server";
+import { OPT_OUT_DISPOSITIONS, addSuppression } from "./suppression.server";
+import { logEvent } from "./eventLog.server";
+import { transitionCallJob } from "./callJobState.server";
+import type { VoiceCallRef, VoiceCallReport } from "./voiceProvider.shared";
+
+/* =========================
+   End of call
+   - Shared by the provider end-of-call webhooks and the stale-call reconciler,
+     which asks the provider for the same report when the webhook never arrived.
+   ========================= */
+
+function safeStr(v: any, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+function stripCodeFences(s: string) {
+  const t = safeStr(s, 20000).trim();
+  if (!t) return "";
+  if (t.startsWith("```")) {
+    return t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "").trim();
+  }
+  return t;
+}
+
+function tryParseJsonObject(text: string): any | null {
+  const raw = stripCodeFences(text);
+  if (!raw) return null;
+
+  // 1) direct parse
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object") return parsed;
+  } catch {
+    // fall through to block extraction
+  }
+
+  // 2) attempt extract first {...} block
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start >= 0 && end > start) {
+    const chunk = raw.slice(start, end + 1);
+    try {
+      const parsed = JSON.parse(chunk);
+      if (parsed && typeof parsed === "object") return parsed;
+    } catch {
+      // not JSON
+    }
+  }
+
+  return null;
+}
+
+function csvFromTags(tags: any): string | null {
+  if (!Array.isArray(tags)) return null;
+  const clean = tags
+    .map((t) => String(t ?? "").trim())
+    .filter(Boolean)
+    .slice(0, 30);
+  return clean.length ? clean.join(",") : null;
+}
+
+function clamp01(n: any) {
+  const x = typeof n === "number" ? n : Number(n);
+  if (!Number.isFinite(x)) return 0;
+  if (x < 0) return 0;
+  if (x > 1) return 1;
+  return x;
+}
+
+function normalizeDisposition(v: any) {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (
+    s === "interested" ||
+    s === "needs_support" ||
+    s === "call_back_later" ||
+    s === "not_interested" ||
+    s === "wrong_number" ||
+    s === "do_not_call" ||
+    s === "unknown"
+  )
+    return s;
+  return "unknown";
+}
+
+async function analyzeCallWithOpenAI(args: {
+  transcript: string;
+  endedReason?: string | null;
+  shop: string;
+  checkoutId: string;
+}) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) return null;
+
+  // UPGRADE: still JSON, same flow, just richer keys
+  const input = `
+You are analyzing a phone call between a merchant AI agent and a customer who abandoned checkout.
+
+Return STRICT JSON with exactly these keys:
+{
+  "answered": boolean,
+  "sentiment": "positive" | "neutral" | "negative",
+  "disposition": "interested" | "needs_support" | "call_back_later" | "not_interested" | "wrong_number" | "do_not_call" | "unknown",
+  "tags": string[],
+  "shortSummary": string,
+  "reason": string,
+  "nextAction": string,
+  "followUp": string,
+  "buyProbability": number,
+  "churnProbability": number,
+  "confidence": number
+}
+
+Rules:
+- answered: true only if there is real engagement (not voicemail/no-answer/busy).
+- disposition "do_not_call": the customer explicitly asked not to be called again or to be removed from the list.
+- tags must be short lowercase tokens (e.g. "price", "shipping", "payment", "timing", "trust", "not_interested", "wrong_number", "needs_support", "coupon_request", "call_back_later").
+- shortSummary: one sentence, plain English.
+- reason: 1-2 sentences, factual.
+- nextAction: ONE concrete step the merchant should do next.
+- followUp: text the merchant can send (SMS/email) in a friendly tone.
+- buyProbability, churnProbability, confidence: 0..1.
+
+Context:
+- shop: ${args.shop}
+- checkoutId: ${args.checkoutId}
+- endedReason: ${args.endedReason ?? "-"}
+Transcript:
+${args.transcript}
+`.trim();
+
+  // OpenAI Responses API (unchanged)
+  const r = await fetch("https://api.openai.com/v1/responses", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: "gpt-4o-mini",
+      input,
+      temperature: 0.15,
+      max_output_tokens: 550,
+    }),
+  });
+
+  if (!r.ok) return null;
+
+  const json = await r.json().catch(() => null);
+  if (!json) return null;
+
+  const text =
+    json?.output_text ??
+    json?.output?.[0]?.content?.[0]?.text ??
+    json?.output?.[0]?.content?.[0]?.value ??
+    "";
+
+  const raw = safeStr(text, 8000).trim();
+  if (!raw) return null;
+
+  // Robust parse
+  const parsed = tryParseJsonObject(raw);
+  if (!parsed) return { raw };
+
+  // Normalize + clamp without changing callers
+  const cleaned: any = {
+    answered: Boolean((parsed as any).answered),
+    sentiment: String((parsed as any).sentiment ?? "neutral").toLowerCase(),
+    disposition: normalizeDisposition((parsed as any).disposition),
+    tags: Array.isArray((parsed as any).tags) ? (parsed as any).tags : [],
+    shortSummary: safeStr((parsed as any).shortSummary ?? "", 400),
+    reason: safeStr((parsed as any).reason ?? "", 2000),
+    nextAction: safeStr((parsed as any).nextAction ?? "", 500),
+    followUp: safeStr((parsed as any).followUp ?? "", 1200),
+    buyProbability: clamp01((parsed as any).buyProbability),
+    churnProbability: clamp01((parsed as any).churnProbability),
+    confidence: clamp01((parsed as any).confidence),
+  };
+
+  // fallback sentiment to allowed set
+  if (cleaned.sentiment !== "positive" && cleaned.sentiment !== "neutral" && cleaned.sentiment !== "negative") {
+    cleaned.sentiment = "neutral";
+  }
+
+  return cleaned;
+}
+
+/* =========================
+   Processing
+   ========================= */
+export type EndOfCallReport = VoiceCallRef & VoiceCallReport;
+
+type ProcessOptions = {
+  source: string; // key of CALL_JOB_SOURCES
+  outcome: string; // e.g. VAPI_END_OF_CALL_REPORT
+  // Only analyze and bill when this call moved the job to COMPLETED (a webhook may have won the race).
+  requireTransition?: boolean;
+};
+
+/** Store the report, analyze the transcript, apply opt-outs and bill. Returns false when skipped. */
+export async function processEndOfCall(r: EndOfCallReport, opts: ProcessOptions): Promise<boolean> {
+  const { shop, callJobId, endedReason, transcript } = r;
+
+  const report = {
+    endedReason: endedReason || null,
+    transcript: transcript || null,
+    recordingUrl: r.recordingUrl,
+  };
+  const completed = await transitionCallJob({
+    id: callJobId,
+    where: { shop },
+    to: "COMPLETED",
+    source: opts.source,
+    data: { ...report, outcome: safeStr(opts.outcome, 2000) },
+    payload: { endedReason: endedReason || null },
+  });
+  if (opts.requireTransition && !(completed.ok && completed.changed)) return false;
+  // e.g. canceled because the order came in mid-call: keep the status, still store what was said.
+  if (!completed.ok) await db.callJob.updateMany({ where: { id: callJobId, shop }, data: report });
+
+  const analysis =
+    r.analysis ??
+    (transcript
+      ? await analyzeCallWithOpenAI({
+          transcript,
+          endedReason: endedReason || null,
+          shop,
+          checkoutId: r.checkoutId ?? "",
+        })
+      : null);
+
+  let answeredForBilling = false;
+
+  if (analysis) {
+    const sentiment = safeStr((analysis as any)?.sentiment ?? "", 30) || null;
+    const tagsCsv = csvFromTags((analysis as any)?.tags) ?? null;
+
+    // keep your old fields, plus richer JSON inside analysisJson
+    const reason = safeStr((analysis as any)?.reason ?? (analysis as any)?.raw ?? "", 2000) || null;
+    const nextAction = safeStr((analysis as any)?.nextAction ?? "", 500) || null;
+    const followUp = safeStr((analysis as any)?.followUp ?? "", 1200) || null;
+
+    const shortSummary = safeStr((analysis as any)?.shortSummary ?? "", 400);
+    const answered = (analysis as any)?.answered;
+    const disposition = safeStr((analysis as any)?.disposition ?? "unknown", 30);
+    const buyProbability = (analysis as any)?.buyProbability;
+
+    answeredForBilling = answered === true;
+
+    await db.callJob.updateMany({
+      where: { id: callJobId, shop },
+      data: {
+        sentiment,
+        tagsCsv,
+        reason,
+        nextAction,
+        followUp,
+        analysisJson: safeStr(JSON.stringify(analysis), 8000),
+        outcome: safeStr(
+          `${sentiment ?? "unknown"} | ${tagsCsv ?? "-"} | ${shortSummary || reason || "no-reason"} | ${
+            answered === true ? "answered" : answered === false ? "no_answer" : "unknown"
+          } | ${disposition} | buy=${Math.round(clamp01(buyProbability) * 100)}%`,
+          2000
+        ),
+      },
+    });
+
+    // Opt-out -> do-not-call list (wrong_number: only the phone; do_not_call: phone + email)
+    if ((OPT_OUT_DISPOSITIONS as readonly string[]).includes(disposition)) {
+      try {
+        const job = await db.callJob.findFirst({ where: { id: callJobId, shop }, select: { phone: true, checkoutId: true } });
+        const checkout = job
+          ? await db.checkout.findFirst({ where: { shop, checkoutId: job.checkoutId }, select: { email: true } })
+          : null;
+        const base = {
+          shop,
+          source: "DISPOSITION" as const,
+          reason: disposition,
+          checkoutId: job?.checkoutId ?? r.checkoutId,
+          callJobId,
+          actor: "system",
+        };
+
+        await addSuppression({ ...base, kind: "PHONE", value: r.customerNumber ?? job?.phone ?? null });
+        if (disposition === "do_not_call" && checkout?.email) {
+          await addSuppression({ ...base, kind: "EMAIL", value: checkout.email });
+        }
+      } catch (e: any) {
+        console.log("[END_OF_CALL] suppression_failed", { shop, callJobId, err: String(e?.message ?? e) });
+      }
+    }
+  }
+
+  await logEvent({
+    shop,
+    checkoutId: r.checkoutId,
+    callJobId,
+    code: "CALL_ENDED",
+    message: endedReason || null,
+    details: analysis
+      ? {
+          answered: (analysis as any)?.answered ?? null,
+          disposition: (analysis as any)?.disposition ?? null,
+          sentiment: (analysis as any)?.sentiment ?? null,
+          summary: safeStr((analysis as any)?.shortSummary ?? "", 400) || null,
+        }
+      : { transcript: Boolean(transcript) },
+  });
+
+  // BILLING (rounded minutes happens inside applyBillingForCall)
+  try {
+    await applyBillingForCall({
+      shop,
+      callJobId,
+      connectedSeconds: r.connectedSeconds,
+      answered: answeredForBilling,
+      voicemail: r.voicemail,
+    });
+  } catch (e: any) {
+    // swallow: never fail the webhook or the reconcile run
+    await db.callJob.updateMany({
+      where: { id: callJobId, shop },
+      data: { outcome: safeStr(`BILLING_ERROR: ${e?.message ?? String(e)}`, 2000) },
+    });
+  }
+
+  return true;
+}
@@ -0,0 +1,74 @@
+// app/lib/eventLog.server.ts
+import db from "../db.server";
+import type { EventLevel } from "./eventLog.shared";
+
+export type EventInput = {
+  shop: string;
+  code: string;
+  level?: EventLevel;
+  checkoutId?: string | null;
+  callJobId?: string | null;
+  message?: string | null;
+  details?: Record<string, any> | null;
+  // Skip identical events (same shop/checkout/job/code/message) seen within this many minutes.
+  // Used for checks that repeat every cron tick, like enqueue skips.
+  dedupeMinutes?: number;
+};
+
+const MAX_MESSAGE = 500;
+const MAX_DETAILS = 8000;
+const MAX_DEDUPE_KEYS = 20_000;
+
+// Per process; after a restart an event may be written once more, which is fine.
+const recent = new Map<string, number>();
+
+function isDuplicate(e: EventInput) {
+  if (!e.dedupeMinutes) return false;
+  const key = [e.shop, e.checkoutId ?? "", e.callJobId ?? "", e.code, e.message ?? ""].join("|");
+  const now = Date.now();
+  const last = recent.get(key);
+  if (last != null && now - last < e.dedupeMinutes * 60 * 1000) return true;
+
+  if (recent.size >= MAX_DEDUPE_KEYS) {
+    for (const [k, at] of recent) if (now - at > 24 * 60 * 60 * 1000) recent.delete(k);
+    if (recent.size >= MAX_DEDUPE_KEYS) recent.clear();
+  }
+  recent.set(key, now);
+  return false;
+}
+
+function detailsJson(details: Record<string, any> | null | undefined) {
+  if (!details) return null;
+  try {
+    const s = JSON.stringify(details);
+    return s.length > MAX_DETAILS ? JSON.stringify({ truncated: true, head: s.slice(0, MAX_DETAILS - 100) }) : s;
+  } catch {
+    return null;
+  }
+}
+
+/** Persist one event. Never throws: logging must not break the path that reports it. */
+export async function logEvent(e: EventInput): Promise<void> {
+  if (!e.shop || isDuplicate(e)) return;
+  try {
+    await db.eventLog.create({
+      data: {
+        shop: e.shop,
+        checkoutId: e.checkoutId ?? null,
+        callJobId: e.callJobId ?? null,
+        level: e.level ?? "info",
+        code: e.code,
+        message: e.message ? String(e.message).slice(0, MAX_MESSAGE) : null,
+        detailsJson: detailsJson(e.details),
+      },
+    });
+  } catch (err: any) {
+    console.log("[EVENT_LOG] write_failed", { shop: e.shop, code: e.code, err: String(err?.message ?? err) });
+  }
+}
+
+export async function purgeEventLogs(shop: string, retentionDays: number) {
+  const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const res = await db.eventLog.deleteMany({ where: { shop, createdAt: { lt: before } } });
+  return res.count;
+}
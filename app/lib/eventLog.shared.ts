@@ -0,0 +1,50 @@
+// app/lib/eventLog.shared.ts
+
+/* =========================
+   Event log (merchant-visible operational history)
+   - One row per event: shop, optional checkoutId / callJobId, level, code, short message, JSON details.
+   - Codes are stable identifiers for filtering; message carries the specific reason (e.g. SUPPRESSED).
+   ========================= */
+export type EventLevel = "debug" | "info" | "warn" | "error";
+
+export const EVENT_LEVELS: EventLevel[] = ["debug", "info", "warn", "error"];
+
+export const EVENT_CODES: Array<{ code: string; label: string }> = [
+  { code: "ENQUEUE_CREATED", label: "Call queued" },
+  { code: "ENQUEUE_SKIPPED", label: "Not queued" },
+  { code: "ENQUEUE_FAILED", label: "Queueing failed" },
+  { code: "CALL_STARTED", label: "Call started" },
+  { code: "CALL_FAILOVER", label: "Provider failover" },
+  { code: "CALL_START_UNKNOWN", label: "Call start unconfirmed" },
+  { code: "CALL_CANCELED", label: "Call canceled" },
+  { code: "CALL_RESCHEDULED", label: "Call rescheduled" },
+  { code: "CALL_THROTTLED", label: "Call held (concurrency)" },
+  { code: "CALL_FAILED", label: "Call failed" },
+  { code: "CALL_ENDED", label: "Call ended" },
+  { code: "CALL_RECONCILE_FAILED", label: "Call lookup failed" },
+  { code: "CHECKOUT_WEBHOOK", label: "Checkout webhook" },
+  { code: "ORDER_WEBHOOK", label: "Order webhook" },
+  { code: "TOOL_CALL", label: "Agent tool call" },
+  { code: "PROMPT_INJECTION", label: "Suspicious checkout text" },
+  { code: "SMS_SENT", label: "SMS sent" },
+  { code: "SMS_FAILED", label: "SMS failed" },
+  { code: "BILLING", label: "Billing" },
+  { code: "VAPI_PROVISION_FAILED", label: "Vapi setup failed" },
+];
+
+export function eventCodeLabel(code: string) {
+  return EVENT_CODES.find((c) => c.code === code)?.label ?? code;
+}
+
+export const DEFAULT_EVENT_RETENTION_DAYS = 30;
+export const EVENT_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+export function parseEventRetentionDays(v: any): number {
+  const n = Math.floor(Number(v));
+  return EVENT_RETENTION_OPTIONS.includes(n) ? n : DEFAULT_EVENT_RETENTION_DAYS;
+}
+
+export function pickEventLevel(v: any): EventLevel | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (EVENT_LEVELS as string[]).includes(s) ? (s as EventLevel) : null;
+}
@@ -0,0 +1,290 @@
+// app/lib/holidays.shared.ts
+
+/* =========================
+   Static public-holiday calendars
+   - Fixed dates, Easter-relative dates (Western / Orthodox) and nth-weekday rules.
+   - Weekend "observed" substitutes are not included.
+   ========================= */
+
+type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; easterOffset: number; orthodox?: boolean }
+  | { name: string; month: number; weekday: number; nth: number } // nth = -1 -> last
+  | { name: string; month: number; weekday: number; onOrBefore: number };
+
+type HolidayCalendar = { label: string; rules: HolidayRule[] };
+
+export const HOLIDAY_CALENDARS: Record<string, HolidayCalendar> = {
+  GR: {
+    label: "Greece",
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "Epiphany", month: 1, day: 6 },
+      { name: "Clean Monday", easterOffset: -48, orthodox: true },
+      { name: "Independence Day", month: 3, day: 25 },
+      { name: "Orthodox Good Friday", easterOffset: -2, orthodox: true },
+      { name: "Orthodox Easter Sunday", easterOffset: 0, orthodox: true },
+      { name: "Orthodox Easter Monday", easterOffset: 1, orthodox: true },
+      { name: "Labour Day", month: 5, day: 1 },
+      { name: "Whit Monday", easterOffset: 50, orthodox: true },
+      { name: "Assumption", month: 8, day: 15 },
+      { name: "Ochi Day", month: 10, day: 28 },
+      { name: "Christmas Day", month: 12, day: 25 },
+      { name: "Synaxis of the Theotokos", month: 12, day: 26 },
+    ],
+  },
+  CY: {
+    label: "Cyprus",
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "Epiphany", month: 1, day: 6 },
+      { name: "Clean Monday", easterOffset: -48, orthodox: true },
+      { name: "Greek Independence Day", month: 3, day: 25 },
+      { name: "Cyprus National Day", month: 4, day: 1 },
+      { name: "Orthodox Good Friday", easterOffset: -2, orthodox: true },
+      { name: "Orthodox Easter Sunday", easterOffset: 0, orthodox: true },
+      { name: "Orthodox Easter Monday", easterOffset: 1, orthodox: true },
+      { name: "Labour Day", month: 5, day: 1 },
+      { name: "Whit Monday", easterOffset: 50, orthodox: true },
+      { name: "Assumption", month: 8, day: 15 },
+      { name: "Independence Day", month: 10, day: 1 },
+      { name: "Ochi Day", month: 10, day: 28 },
+      { name: "Christmas Day", month: 12, day: 25 },
+      { name: "Boxing Day", month: 12, day: 26 },
+    ],
+  },
+  US: {
+    label: "United States",
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "Martin Luther King Jr. Day", month: 1, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { name: "Memorial Day", month: 5, weekday: 1, nth: -1 },
+      { name: "Juneteenth", month: 6, day: 19 },
+      { name: "Independence Day", month: 7, day: 4 },
+      { name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+      { name: "Columbus Day", month: 10, weekday: 1, nth: 2 },
+      { name: "Veterans Day", month: 11, day: 11 },
+      { name: "Thanksgiving", month: 11, weekday: 4, nth: 4 },
+      { name: "Christmas Day", month: 12, day: 25 },
+    ],
+  },
+  CA: {
+    label: "Canada",
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "Good Friday", easterOffset: -2 },
+      { name: "Victoria Day", month: 5, weekday: 1, onOrBefore: 24 },
+      { name: "Canada Day", month: 7, day: 1 },
+      { name: "Labour Day", month: 9, weekday: 1, nth: 1 },
+      { name: "Thanksgiving", month: 10, weekday: 1, nth: 2 },
+      { name: "Christmas Day", month: 12, day: 25 },
+      { name: "Boxing Day", month: 12, day: 26 },
+    ],
+  },
+  GB: {
+    label: "United Kingdom",
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "Good Friday", easterOffset: -2 },
+      { name: "Easter Monday", easterOffset: 1 },
+      { name: "Early May Bank Holiday", month: 5, weekday: 1, nth: 1 },
+      { name: "Spring Bank Holiday", month: 5, weekday: 1, nth: -1 },
+      { name: "Summer Bank Holiday", month: 8, weekday: 1, nth: -1 },
+      { name: "Christmas Day", month: 12, day: 25 },
+      { name: "Boxing Day", month: 12, day: 26 },
+    ],
+  },
+  IE: {
+    label: "Ireland",
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "St Brigid's Day", month: 2, weekday: 1, nth: 1 },
+      { name: "St Patrick's Day", month: 3, day: 17 },
+      { name: "Easter Monday", easterOffset: 1 },
+      { name: "May Bank Holiday", month: 5, weekday: 1, nth: 1 },
+      { name: "June Bank Holiday", month: 6, weekday: 1, nth: 1 },
+      { name: "August Bank Holiday", month: 8, weekday: 1, nth: 1 },
+      { name: "October Bank Holiday", month: 10, weekday: 1, nth: -1 },
+      { name: "Christmas Day", month: 12, day: 25 },
+      { name: "St Stephen's Day", month: 12, day: 26 },
+    ],
+  },
+  DE: {
+    label: "Germany",
+    rules: [
+      { name: "Neujahr", month: 1, day: 1 },
+      { name: "Karfreitag", easterOffset: -2 },
+      { name: "Ostermontag", easterOffset: 1 },
+      { name: "Tag der Arbeit", month: 5, day: 1 },
+      { name: "Christi Himmelfahrt", easterOffset: 39 },
+      { name: "Pfingstmontag", easterOffset: 50 },
+      { name: "Tag der Deutschen Einheit", month: 10, day: 3 },
+      { name: "1. Weihnachtstag", month: 12, day: 25 },
+      { name: "2. Weihnachtstag", month: 12, day: 26 },
+    ],
+  },
+  FR: {
+    label: "France",
+    rules: [
+      { name: "Jour de l'an", month: 1, day: 1 },
+      { name: "Lundi de Pâques", easterOffset: 1 },
+      { name: "Fête du Travail", month: 5, day: 1 },
+      { name: "Victoire 1945", month: 5, day: 8 },
+      { name: "Ascension", easterOffset: 39 },
+      { name: "Lundi de Pentecôte", easterOffset: 50 },
+      { name: "Fête nationale", month: 7, day: 14 },
+      { name: "Assomption", month: 8, day: 15 },
+      { name: "Toussaint", month: 11, day: 1 },
+      { name: "Armistice", month: 11, day: 11 },
+      { name: "Noël", month: 12, day: 25 },
+    ],
+  },
+  IT: {
+    label: "Italy",
+    rules: [
+      { name: "Capodanno", month: 1, day: 1 },
+      { name: "Epifania", month: 1, day: 6 },
+      { name: "Lunedì dell'Angelo", easterOffset: 1 },
+      { name: "Festa della Liberazione", month: 4, day: 25 },
+      { name: "Festa del Lavoro", month: 5, day: 1 },
+      { name: "Festa della Repubblica", month: 6, day: 2 },
+      { name: "Ferragosto", month: 8, day: 15 },
+      { name: "Ognissanti", month: 11, day: 1 },
+      { name: "Immacolata Concezione", month: 12, day: 8 },
+      { name: "Natale", month: 12, day: 25 },
+      { name: "Santo Stefano", month: 12, day: 26 },
+    ],
+  },
+  ES: {
+    label: "Spain",
+    rules: [
+      { name: "Año Nuevo", month: 1, day: 1 },
+      { name: "Epifanía del Señor", month: 1, day: 6 },
+      { name: "Viernes Santo", easterOffset: -2 },
+      { name: "Fiesta del Trabajo", month: 5, day: 1 },
+      { name: "Asunción de la Virgen", month: 8, day: 15 },
+      { name: "Fiesta Nacional", month: 10, day: 12 },
+      { name: "Todos los Santos", month: 11, day: 1 },
+      { name: "Día de la Constitución", month: 12, day: 6 },
+      { name: "Inmaculada Concepción", month: 12, day: 8 },
+      { name: "Navidad", month: 12, day: 25 },
+    ],
+  },
+  NL: {
+    label: "Netherlands",
+    rules: [
+      { name: "Nieuwjaarsdag", month: 1, day: 1 },
+      { name: "Tweede Paasdag", easterOffset: 1 },
+      { name: "Koningsdag", month: 4, day: 27 },
+      { name: "Hemelvaartsdag", easterOffset: 39 },
+      { name: "Tweede Pinksterdag", easterOffset: 50 },
+      { name: "Eerste Kerstdag", month: 12, day: 25 },
+      { name: "Tweede Kerstdag", month: 12, day: 26 },
+    ],
+  },
+};
+
+export const HOLIDAY_CALENDAR_OPTIONS = Object.entries(HOLIDAY_CALENDARS).map(([code, c]) => ({
+  code,
+  label: c.label,
+}));
+
+function ymd(year: number, month: number, day: number) {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function fromUtc(d: Date) {
+  return ymd(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+// Anonymous Gregorian algorithm
+function westernEaster(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Meeus Julian algorithm, shifted to the Gregorian calendar (valid 1900-2099)
+function orthodoxEaster(year: number) {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day + 13));
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number) {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  const last = new Date(Date.UTC(year, month, 0));
+  const back = (last.getUTCDay() - weekday + 7) % 7;
+  return new Date(Date.UTC(year, month - 1, last.getUTCDate() - back));
+}
+
+function weekdayOnOrBefore(year: number, month: number, weekday: number, day: number) {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  const back = (d.getUTCDay() - weekday + 7) % 7;
+  return new Date(Date.UTC(year, month - 1, day - back));
+}
+
+const yearCache = new Map<string, Map<string, string>>();
+
+/** YYYY-MM-DD -> holiday name, for one country and year. */
+export function holidaysForYear(country: string, year: number): Map<string, string> {
+  const code = String(country ?? "").trim().toUpperCase();
+  const key = `${code}:${year}`;
+  const hit = yearCache.get(key);
+  if (hit) return hit;
+
+  const out = new Map<string, string>();
+  const cal = HOLIDAY_CALENDARS[code];
+
+  for (const r of cal?.rules ?? []) {
+    let date: string;
+    if ("easterOffset" in r) {
+      const base = r.orthodox ? orthodoxEaster(year) : westernEaster(year);
+      date = fromUtc(new Date(base.getTime() + r.easterOffset * 24 * 60 * 60 * 1000));
+    } else if ("nth" in r) {
+      date = fromUtc(nthWeekday(year, r.month, r.weekday, r.nth));
+    } else if ("onOrBefore" in r) {
+      date = fromUtc(weekdayOnOrBefore(year, r.month, r.weekday, r.onOrBefore));
+    } else {
+      date = ymd(year, r.month, r.day);
+    }
+    if (!out.has(date)) out.set(date, r.name);
+  }
+
+  yearCache.set(key, out);
+  return out;
+}
+
+/** Holiday name if the calendar date (YYYY-MM-DD) is a public holiday in country, else null. */
+export function holidayOn(country: string | null | undefined, date: string): string | null {
+  const code = String(country ?? "").trim().toUpperCase();
+  if (!code || !HOLIDAY_CALENDARS[code]) return null;
+
+  const year = Number(date.slice(0, 4));
+  if (!Number.isFinite(year)) return null;
+
+  return holidaysForYear(code, year).get(date) ?? null;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  HARD_MAX_DISCOUNT_PERCENT,
+  checkOfferRequest,
+  readOfferLimits,
+  strictestOfferLimits,
+  type OfferLimits,
+} from "./offerLimits.shared";
+
+const LIMITS: OfferLimits = {
+  smsTool: true,
+  discountEnabled: true,
+  maxDiscountPercent: 15,
+  freeShippingEnabled: true,
+  minCartValueForDiscount: null,
+};
+
+function check(over: Partial<Parameters<typeof checkOfferRequest>[0]> = {}) {
+  return checkOfferRequest({
+    offerType: "discount",
+    discountPercent: 10,
+    limits: LIMITS,
+    cartValue: 100,
+    issued: null,
+    ...over,
+  });
+}
+
+describe("checkOfferRequest", () => {
+  it("accepts a discount within the max", () => {
+    expect(check({ discountPercent: 15 })).toEqual({ ok: true, offerType: "discount", discountPercent: 15 });
+  });
+
+  it("rejects a discount over the max", () => {
+    const d = check({ discountPercent: 20 });
+    expect(d.ok).toBe(false);
+    if (!d.ok) expect(d.error).toContain("max of 15");
+  });
+
+  it("never goes over the hard max, whatever the settings say", () => {
+    const limits = { ...LIMITS, maxDiscountPercent: 90 };
+    expect(check({ limits, discountPercent: 90 }).ok).toBe(false);
+    expect(check({ limits, discountPercent: HARD_MAX_DISCOUNT_PERCENT })).toMatchObject({ ok: true, discountPercent: 50 });
+  });
+
+  it("accepts whole-number strings and rejects floats and words", () => {
+    expect(check({ discountPercent: "10" })).toMatchObject({ ok: true, discountPercent: 10 });
+    expect(check({ discountPercent: " 12 " })).toMatchObject({ ok: true, discountPercent: 12 });
+    for (const discountPercent of [12.5, "12.5", "10%", "ten", "", null, 0, -5, "1e1"]) {
+      expect(check({ discountPercent }).ok).toBe(false);
+    }
+  });
+
+  it("rejects unknown offer types and allows link_only without a percent", () => {
+    expect(check({ offerType: "refund" }).ok).toBe(false);
+    expect(check({ offerType: " LINK_ONLY ", discountPercent: 99 })).toEqual({
+      ok: true,
+      offerType: "link_only",
+      discountPercent: null,
+    });
+  });
+
+  it("allows one code per call", () => {
+    const issued = { offerType: "discount", offerCode: "SAVE1234" };
+    expect(check({ issued }).ok).toBe(false);
+    expect(check({ issued, offerType: "free_shipping" }).ok).toBe(false);
+    expect(check({ issued, offerType: "link_only" }).ok).toBe(true);
+    // A link sent earlier doesn't use up the code.
+    expect(check({ issued: { offerType: "link_only", offerCode: null } }).ok).toBe(true);
+  });
+
+  it("enforces the minimum cart value for codes only", () => {
+    const limits = { ...LIMITS, minCartValueForDiscount: 80 };
+    expect(check({ limits, cartValue: 79.99 }).ok).toBe(false);
+    expect(check({ limits, cartValue: 79.99, offerType: "free_shipping" }).ok).toBe(false);
+    expect(check({ limits, cartValue: Number.NaN }).ok).toBe(false);
+    expect(check({ limits, cartValue: 80 }).ok).toBe(true);
+    expect(check({ limits, cartValue: 10, offerType: "link_only" }).ok).toBe(true);
+  });
+
+  it("respects disabled offers and a call without the tool", () => {
+    expect(check({ limits: { ...LIMITS, discountEnabled: false } }).ok).toBe(false);
+    expect(check({ limits: { ...LIMITS, maxDiscountPercent: 0 } }).ok).toBe(false);
+    expect(check({ limits: { ...LIMITS, freeShippingEnabled: false }, offerType: "free_shipping" }).ok).toBe(false);
+    expect(check({ limits: { ...LIMITS, smsTool: false }, offerType: "link_only" }).ok).toBe(false);
+  });
+});
+
+describe("strictestOfferLimits", () => {
+  const snapshot: OfferLimits = { ...LIMITS, maxDiscountPercent: 10, minCartValueForDiscount: 50 };
+
+  it("ignores a merchant loosening the limits mid-call", () => {
+    const current: OfferLimits = { ...LIMITS, maxDiscountPercent: 30, minCartValueForDiscount: null };
+    const limits = strictestOfferLimits(current, snapshot);
+    expect(limits).toMatchObject({ maxDiscountPercent: 10, minCartValueForDiscount: 50 });
+    expect(check({ limits, discountPercent: 30 }).ok).toBe(false);
+  });
+
+  it("applies a merchant tightening the limits mid-call", () => {
+    const current: OfferLimits = { ...LIMITS, maxDiscountPercent: 5, minCartValueForDiscount: 120, freeShippingEnabled: false };
+    expect(strictestOfferLimits(current, snapshot)).toEqual({
+      smsTool: true,
+      discountEnabled: true,
+      maxDiscountPercent: 5,
+      freeShippingEnabled: false,
+      minCartValueForDiscount: 120,
+    });
+  });
+
+  it("keeps offers disabled when either side disabled them", () => {
+    expect(strictestOfferLimits(LIMITS, { ...snapshot, discountEnabled: false }).discountEnabled).toBe(false);
+    expect(strictestOfferLimits({ ...LIMITS, smsTool: false }, snapshot).smsTool).toBe(false);
+  });
+
+  it("uses the current limits when the job has no snapshot", () => {
+    expect(strictestOfferLimits(LIMITS, null)).toBe(LIMITS);
+  });
+});
+
+describe("readOfferLimits", () => {
+  it("reads a stored snapshot defensively", () => {
+    expect(readOfferLimits(null)).toBeNull();
+    expect(readOfferLimits("x")).toBeNull();
+    expect(readOfferLimits({ maxDiscountPercent: "12.9", discountEnabled: true, minCartValueForDiscount: "abc" })).toEqual({
+      smsTool: true,
+      discountEnabled: true,
+      maxDiscountPercent: 12,
+      freeShippingEnabled: false,
+      minCartValueForDiscount: null,
+    });
+    expect(readOfferLimits({ discountEnabled: "true", maxDiscountPercent: -3 })).toMatchObject({
+      discountEnabled: false,
+      maxDiscountPercent: 0,
+    });
+  });
+});
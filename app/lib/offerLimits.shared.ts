@@ -0,0 +1,105 @@
+// app/lib/offerLimits.shared.ts
+
+/* =========================
+   Offer limits (send_checkout_offer)
+   - The agent picks the offer; this decides whether it may be sent. Whatever the model asks for, nothing
+     beyond these limits reaches Shopify.
+   - Limits = the stricter of the snapshot taken when the call started (what the prompt promised) and the
+     settings at tool time (a merchant tightening them mid-call wins, loosening does not).
+   - One code per call: once a discount / free-shipping code went out, no other code is created.
+   ========================= */
+export type OfferType = "link_only" | "discount" | "free_shipping";
+
+export type OfferLimits = {
+  smsTool: boolean; // the tool was offered on this call
+  discountEnabled: boolean;
+  maxDiscountPercent: number;
+  freeShippingEnabled: boolean;
+  minCartValueForDiscount: number | null;
+};
+
+// Never more, whatever the settings say.
+export const HARD_MAX_DISCOUNT_PERCENT = 50;
+
+const OFFER_TYPES: OfferType[] = ["link_only", "discount", "free_shipping"];
+
+export function pickOfferType(v: any): OfferType | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (OFFER_TYPES as string[]).includes(s) ? (s as OfferType) : null;
+}
+
+/** Snapshot stored on the job when the call starts (analysisJson.offer.limits); null for older jobs. */
+export function readOfferLimits(v: any): OfferLimits | null {
+  if (!v || typeof v !== "object") return null;
+  const max = Number(v.maxDiscountPercent);
+  const min = v.minCartValueForDiscount == null ? null : Number(v.minCartValueForDiscount);
+  return {
+    smsTool: v.smsTool !== false,
+    discountEnabled: v.discountEnabled === true,
+    maxDiscountPercent: Number.isFinite(max) ? Math.max(0, Math.floor(max)) : 0,
+    freeShippingEnabled: v.freeShippingEnabled === true,
+    minCartValueForDiscount: min == null || !Number.isFinite(min) ? null : min,
+  };
+}
+
+export function strictestOfferLimits(current: OfferLimits, snapshot: OfferLimits | null): OfferLimits {
+  if (!snapshot) return current;
+  const mins = [current.minCartValueForDiscount, snapshot.minCartValueForDiscount].filter((x): x is number => x != null);
+  return {
+    smsTool: current.smsTool && snapshot.smsTool,
+    discountEnabled: current.discountEnabled && snapshot.discountEnabled,
+    maxDiscountPercent: Math.min(current.maxDiscountPercent, snapshot.maxDiscountPercent),
+    freeShippingEnabled: current.freeShippingEnabled && snapshot.freeShippingEnabled,
+    minCartValueForDiscount: mins.length ? Math.max(...mins) : null,
+  };
+}
+
+export type OfferDecision = { ok: true; offerType: OfferType; discountPercent: number | null } | { ok: false; error: string };
+
+/**
+ * Checks one tool request against the limits. `issued` is the offer already sent on this call, if any.
+ * Errors are returned to the model as the tool result, so they say what is allowed instead.
+ */
+export function checkOfferRequest(args: {
+  offerType: any;
+  discountPercent: any;
+  limits: OfferLimits;
+  cartValue: number;
+  issued: { offerType: string | null; offerCode: string | null } | null;
+}): OfferDecision {
+  const { limits } = args;
+  if (!limits.smsTool) return { ok: false, error: "The SMS / offer tool is not enabled for this call." };
+
+  const offerType = pickOfferType(args.offerType);
+  if (!offerType) return { ok: false, error: "offerType must be one of: link_only, discount, free_shipping." };
+  if (offerType === "link_only") return { ok: true, offerType, discountPercent: null };
+
+  if (args.issued?.offerCode) {
+    return {
+      ok: false,
+      error: `An offer code was already sent on this call (${args.issued.offerType ?? "offer"}). No other code can be created; send link_only if needed.`,
+    };
+  }
+
+  const min = limits.minCartValueForDiscount;
+  if (min != null && !(Number(args.cartValue) >= min)) {
+    return { ok: false, error: `Cart total does not meet the minimum value for offers (${min}).` };
+  }
+
+  if (offerType === "free_shipping") {
+    if (!limits.freeShippingEnabled) return { ok: false, error: "Free shipping offers are disabled for this shop." };
+    return { ok: true, offerType, discountPercent: null };
+  }
+
+  const max = Math.min(limits.maxDiscountPercent, HARD_MAX_DISCOUNT_PERCENT);
+  if (!limits.discountEnabled || max <= 0) return { ok: false, error: "Discounts are disabled for this call." };
+
+  const raw = args.discountPercent;
+  const percent = typeof raw === "number" || (typeof raw === "string" && /^\s*\d+\s*$/.test(raw)) ? Number(raw) : NaN;
+  if (!Number.isInteger(percent) || percent <= 0) {
+    return { ok: false, error: `discountPercent must be a whole number between 1 and ${max}.` };
+  }
+  if (percent > max) return { ok: false, error: `Requested discountPercent exceeds the max of ${max}.` };
+
+  return { ok: true, offerType, discountPercent: percent };
+}
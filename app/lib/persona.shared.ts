@@ -0,0 +1,118 @@
+// app/lib/persona.shared.ts
+
+/* =========================
+   Agent persona
+   - Per shop (Settings.personaJson): how the agent is called, sounds, opens and ends the call.
+   - Empty fields keep the defaults: the call language's voice, the agent greeting by itself, no end phrases.
+   - The first message is written in one language (firstMessageLanguage); calls in other languages
+     let the agent greet in its own words.
+   ========================= */
+export type AgentPersona = {
+  agentName: string;
+  voiceProvider: string; // Vapi voice provider, with voiceId; empty voiceId = call language default
+  voiceId: string;
+  speed: number; // 0.5..2, 1 = normal
+  firstMessage: string; // {agent_name} {store_name} {first_name}
+  firstMessageLanguage: string;
+  endCallPhrases: string[];
+  storeIntro: string; // how the agent introduces the store
+};
+
+export const VOICE_VENDORS: Array<{ label: string; value: string }> = [
+  { label: "Azure", value: "azure" },
+  { label: "ElevenLabs", value: "11labs" },
+  { label: "Vapi", value: "vapi" },
+  { label: "OpenAI", value: "openai" },
+  { label: "Cartesia", value: "cartesia" },
+];
+
+export const DEFAULT_PERSONA: AgentPersona = {
+  agentName: "",
+  voiceProvider: "azure",
+  voiceId: "",
+  speed: 1,
+  firstMessage: "",
+  firstMessageLanguage: "en",
+  endCallPhrases: [],
+  storeIntro: "",
+};
+
+const MAX_END_PHRASES = 10;
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function cleanText(v: any, max: number) {
+  return String(v ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, max);
+}
+
+function cleanSpeed(v: any) {
+  const n = Math.round(Number(v) * 100) / 100;
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_PERSONA.speed;
+  return Math.max(0.5, Math.min(2, n));
+}
+
+/** One phrase per line (or an array), trimmed, at most MAX_END_PHRASES. */
+export function parseEndCallPhrases(v: any): string[] {
+  const list = Array.isArray(v) ? v : String(v ?? "").split("\n");
+  return list
+    .map((x) => cleanText(x, 120))
+    .filter(Boolean)
+    .slice(0, MAX_END_PHRASES);
+}
+
+export function parsePersona(json: string | null | undefined): AgentPersona {
+  const j = safeJsonParse(json);
+  if (!j || typeof j !== "object") return { ...DEFAULT_PERSONA };
+
+  const voiceProvider = cleanText(j.voiceProvider, 40).toLowerCase();
+  return {
+    agentName: cleanText(j.agentName, 40),
+    voiceProvider: VOICE_VENDORS.some((v) => v.value === voiceProvider) ? voiceProvider : DEFAULT_PERSONA.voiceProvider,
+    voiceId: cleanText(j.voiceId, 120),
+    speed: cleanSpeed(j.speed),
+    firstMessage: cleanText(j.firstMessage, 500),
+    firstMessageLanguage: cleanText(j.firstMessageLanguage, 5).toLowerCase() || DEFAULT_PERSONA.firstMessageLanguage,
+    endCallPhrases: parseEndCallPhrases(j.endCallPhrases),
+    storeIntro: cleanText(j.storeIntro, 300),
+  };
+}
+
+/** null when everything is default. */
+export function serializePersona(p: Partial<AgentPersona>): string | null {
+  const clean = parsePersona(JSON.stringify(p ?? {}));
+  const isDefault = JSON.stringify(clean) === JSON.stringify(DEFAULT_PERSONA);
+  return isDefault ? null : JSON.stringify(clean);
+}
+
+export function renderFirstMessage(
+  persona: AgentPersona,
+  vars: { storeName: string; firstName: string | null }
+): string | null {
+  if (!persona.firstMessage) return null;
+  const out = persona.firstMessage
+    .replaceAll("{agent_name}", persona.agentName || vars.storeName)
+    .replaceAll("{store_name}", vars.storeName)
+    .replaceAll("{first_name}", vars.firstName ?? "")
+    .replace(/\s+([,.!?])/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+  return out || null;
+}
+
+/** Prompt lines for the persona; empty when nothing is set. */
+export function personaPromptLines(persona: AgentPersona): string[] {
+  const lines: string[] = [];
+  if (persona.agentName) lines.push(`Your name is ${persona.agentName}. Use it when you introduce yourself.`);
+  if (persona.storeIntro) lines.push(`Introduce the store like this (in the call language): "${persona.storeIntro}"`);
+  return lines;
+}
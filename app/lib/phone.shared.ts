@@ -0,0 +1,135 @@
+// app/lib/phone.shared.ts
+
+/* =========================
+   ISO2 -> international calling code
+   ========================= */
+export const ISO2_TO_CALLING_CODE: Record<string, string> = {
+  US: "1",
+  CA: "1",
+  GR: "30",
+  GB: "44",
+  IE: "353",
+  FR: "33",
+  DE: "49",
+  IT: "39",
+  ES: "34",
+  PT: "351",
+  NL: "31",
+  BE: "32",
+  LU: "352",
+  CH: "41",
+  AT: "43",
+  SE: "46",
+  NO: "47",
+  DK: "45",
+  FI: "358",
+  PL: "48",
+  CZ: "420",
+  SK: "421",
+  HU: "36",
+  RO: "40",
+  BG: "359",
+  HR: "385",
+  SI: "386",
+  RS: "381",
+  BA: "387",
+  ME: "382",
+  MK: "389",
+  AL: "355",
+  TR: "90",
+  CY: "357",
+  MT: "356",
+  IS: "354",
+  EE: "372",
+  LV: "371",
+  LT: "370",
+  UA: "380",
+  MD: "373",
+  IL: "972",
+  AE: "971",
+  SA: "966",
+  QA: "974",
+  KW: "965",
+  BH: "973",
+  OM: "968",
+  JO: "962",
+  LB: "961",
+  IQ: "964",
+  IR: "98",
+  ZA: "27",
+  EG: "20",
+  MA: "212",
+  TN: "216",
+  DZ: "213",
+  NG: "234",
+  KE: "254",
+  GH: "233",
+  AU: "61",
+  NZ: "64",
+  JP: "81",
+  KR: "82",
+  CN: "86",
+  IN: "91",
+  PK: "92",
+  BD: "880",
+  SG: "65",
+  MY: "60",
+  TH: "66",
+  VN: "84",
+  ID: "62",
+  PH: "63",
+  HK: "852",
+  TW: "886",
+  MX: "52",
+  BR: "55",
+  AR: "54",
+  CL: "56",
+  CO: "57",
+  PE: "51",
+};
+
+export function callingCodeForCountry(iso2: string | null | undefined): string | null {
+  const c = String(iso2 ?? "").trim().toUpperCase();
+  if (!c) return null;
+  return ISO2_TO_CALLING_CODE[c] ?? null;
+}
+
+/* =========================
+   Phone normalization (E.164)
+   ========================= */
+export function normalizePhoneE164(raw: any, defaultCallingCode?: string | null): string | null {
+  const input = String(raw ?? "").trim();
+  if (!input) return null;
+
+  let s = input.replace(/^tel:/i, "").trim();
+
+  if (s.startsWith("00")) s = "+" + s.slice(2);
+  if (s.startsWith("011")) s = "+" + s.slice(3);
+
+  const hasPlus = s.startsWith("+");
+  const digits = s.replace(/\D/g, "");
+  if (!digits) return null;
+
+  if (hasPlus) {
+    if (digits.length < 8 || digits.length > 15) return null;
+    return "+" + digits;
+  }
+
+  if (digits.length >= 8 && digits.length <= 15) {
+    if (defaultCallingCode && digits.startsWith(defaultCallingCode)) return "+" + digits;
+    if (digits.length >= 11) return "+" + digits;
+  }
+
+  if (!defaultCallingCode) return null;
+
+  let national = digits;
+  const keepLeadingZeroCallingCodes = new Set(["39"]);
+  if (national.startsWith("0") && !keepLeadingZeroCallingCodes.has(defaultCallingCode)) {
+    national = national.replace(/^0+/, "");
+    if (!national) return null;
+  }
+
+  const full = defaultCallingCode + national;
+  if (full.length < 8 || full.length > 15) return null;
+  return "+" + full;
+}
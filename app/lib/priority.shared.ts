@@ -0,0 +1,161 @@
+// app/lib/priority.shared.ts
+
+/* =========================
+   Dial-queue priority
+   - Computed once per job at enqueue time (CallJob.priorityScore, breakdown in priorityJson).
+   - Each input is normalised to 0..1, the score is the weighted average scaled to 0..100.
+   - Weights are per shop (Settings.priorityWeightsJson), 0 turns an input off.
+   ========================= */
+export type PriorityFactor = "value" | "history" | "intent" | "recency";
+
+export type PriorityWeights = Record<PriorityFactor, number>;
+
+export const PRIORITY_FACTORS: Array<{ key: PriorityFactor; label: string; help: string }> = [
+  { key: "value", label: "Cart value", help: "Bigger carts first (log scale, in shop currency)." },
+  { key: "history", label: "Customer history", help: "Returning customers with past orders first." },
+  { key: "intent", label: "Previous call intent", help: "buyProbability from the last analysed call." },
+  { key: "recency", label: "Freshness", help: "Recently abandoned carts first (halves every 24h)." },
+];
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = { value: 5, history: 2, intent: 3, recency: 2 };
+
+const MAX_WEIGHT = 10;
+// Cart value that counts as "full marks" on the log scale.
+const VALUE_REFERENCE = 1000;
+const RECENCY_HALF_LIFE_HOURS = 24;
+// Neutral intent when no call has been analysed yet.
+const UNKNOWN_INTENT = 0.5;
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function cleanWeight(v: any, fallback: number) {
+  const n = Math.round(Number(v));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(MAX_WEIGHT, n));
+}
+
+export function parsePriorityWeights(json: string | null | undefined): PriorityWeights {
+  const j = safeJsonParse(json);
+  const out = { ...DEFAULT_PRIORITY_WEIGHTS };
+  if (!j || typeof j !== "object") return out;
+  for (const f of PRIORITY_FACTORS) out[f.key] = cleanWeight(j[f.key], out[f.key]);
+  return out;
+}
+
+/** null when the weights equal the defaults. */
+export function serializePriorityWeights(w: Partial<PriorityWeights>): string | null {
+  const clean = parsePriorityWeights(JSON.stringify(w ?? {}));
+  const isDefault = PRIORITY_FACTORS.every((f) => clean[f.key] === DEFAULT_PRIORITY_WEIGHTS[f.key]);
+  return isDefault ? null : JSON.stringify(clean);
+}
+
+/* =========================
+   Inputs
+   ========================= */
+export type PriorityInputs = {
+  cartValue: number; // shop currency
+  currency: string | null;
+  ordersCount: number;
+  buyProbability: number | null; // 0..1
+  hoursSinceAbandoned: number;
+};
+
+/** Cart total in shop currency (REST total_price_set / GraphQL totalPriceSet), falling back to the stored value. */
+export function cartValueInShopCurrency(raw: any, fallback: { value: number; currency: string | null }) {
+  const r = safeJsonParse(raw) ?? {};
+  const money = r?.total_price_set?.shop_money ?? r?.totalPriceSet?.shopMoney ?? null;
+  const amount = Number(money?.amount);
+  if (money && Number.isFinite(amount)) {
+    return { value: amount, currency: String(money.currency_code ?? money.currencyCode ?? fallback.currency ?? "") || null };
+  }
+  return { value: Number(fallback.value ?? 0) || 0, currency: fallback.currency ?? null };
+}
+
+/** Orders placed before this checkout, as Shopify reports them on the customer. */
+export function customerOrdersCount(raw: any): number {
+  const r = safeJsonParse(raw) ?? {};
+  const n = Number(r?.customer?.orders_count ?? r?.customer?.numberOfOrders ?? 0);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+/** buyProbability (0..1) from a CallJob.analysisJson, or null. */
+export function buyProbabilityFromAnalysis(analysisJson: string | null | undefined): number | null {
+  const a = safeJsonParse(analysisJson);
+  const n = Number(a?.buyProbability);
+  if (a?.buyProbability == null || !Number.isFinite(n)) return null;
+  return Math.max(0, Math.min(1, n));
+}
+
+/* =========================
+   Score
+   ========================= */
+export type PriorityPart = {
+  key: PriorityFactor;
+  input: string;
+  normalized: number; // 0..1
+  weight: number;
+  points: number; // contribution to the 0..100 score
+};
+
+export type PriorityBreakdown = { score: number; parts: PriorityPart[] };
+
+function round(n: number, digits = 1) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function normalize(key: PriorityFactor, x: PriorityInputs): { normalized: number; input: string } {
+  if (key === "value") {
+    const v = Math.max(0, x.cartValue);
+    return {
+      normalized: Math.min(1, Math.log1p(v) / Math.log1p(VALUE_REFERENCE)),
+      input: `${round(v, 2)}${x.currency ? ` ${x.currency}` : ""}`,
+    };
+  }
+  if (key === "history") {
+    const n = Math.max(0, x.ordersCount);
+    return { normalized: 1 - 0.5 ** n, input: `${n} order${n === 1 ? "" : "s"}` };
+  }
+  if (key === "intent") {
+    return x.buyProbability == null
+      ? { normalized: UNKNOWN_INTENT, input: "no call yet" }
+      : { normalized: x.buyProbability, input: `buy ${Math.round(x.buyProbability * 100)}%` };
+  }
+  const h = Math.max(0, x.hoursSinceAbandoned);
+  return { normalized: 0.5 ** (h / RECENCY_HALF_LIFE_HOURS), input: `${round(h)}h ago` };
+}
+
+export function computePriority(inputs: PriorityInputs, weights: PriorityWeights): PriorityBreakdown {
+  const total = PRIORITY_FACTORS.reduce((s, f) => s + weights[f.key], 0);
+
+  const parts = PRIORITY_FACTORS.map((f) => {
+    const { normalized, input } = normalize(f.key, inputs);
+    const weight = weights[f.key];
+    const points = total > 0 ? (100 * weight * normalized) / total : 0;
+    return { key: f.key, input, normalized: round(normalized, 3), weight, points: round(points) };
+  });
+
+  return { score: round(parts.reduce((s, p) => s + p.points, 0)), parts };
+}
+
+export function parsePriorityBreakdown(json: string | null | undefined): PriorityBreakdown | null {
+  const j = safeJsonParse(json);
+  if (!j || !Array.isArray(j.parts)) return null;
+  return { score: Number(j.score ?? 0), parts: j.parts };
+}
+
+/** "Cart value 120 EUR → 23.4 · Customer history 2 orders → 12.5 · …" */
+export function formatPriorityBreakdown(b: PriorityBreakdown | null): string {
+  if (!b) return "No priority breakdown";
+  const label = new Map(PRIORITY_FACTORS.map((f) => [f.key, f.label]));
+  return b.parts
+    .map((p) => `${label.get(p.key) ?? p.key} ${p.input} → ${p.points}${p.weight ? "" : " (off)"}`)
+    .join(" · ");
+}
@@ -0,0 +1,279 @@
+// app/lib/productLookup.server.ts
+import { cleanUntrusted } from "./untrustedText.shared";
+
+/* =========================
+   Product lookup (lookup_product tool)
+   - Answers cart questions during a call: variants / sizes, stock, price, a description snippet, images.
+   - Cart lines come from the checkout payload (REST line_items or GraphQL lineItems) with their product ids;
+     lines without an id (older rows) are found by title.
+   - Admin GraphQL goes through the caller's `query` (the call tools hold the offline token).
+   - Products are cached per shop for PRODUCT_CACHE_TTL_MS: a call lasts minutes and asks about the same items.
+   ========================= */
+export type CartProductRef = {
+  title: string;
+  variantTitle: string | null;
+  productId: string | null; // gid://shopify/Product/..
+  variantId: string | null; // gid://shopify/ProductVariant/..
+};
+
+export type ProductVariantFacts = {
+  id: string;
+  title: string;
+  price: string | null;
+  availableForSale: boolean;
+  options: string[];
+};
+
+export type ProductFacts = {
+  productId: string;
+  title: string;
+  vendor: string | null;
+  productType: string | null;
+  description: string;
+  url: string | null;
+  options: Array<{ name: string; values: string[] }>;
+  variants: ProductVariantFacts[];
+  images: string[];
+};
+
+type AdminQuery = (query: string, variables: any) => Promise<any>;
+
+const PRODUCT_CACHE_TTL_MS = 5 * 60 * 1000;
+const PRODUCT_CACHE_MAX = 500;
+const productCache = new Map<string, { at: number; facts: ProductFacts | null }>();
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function toGid(kind: "Product" | "ProductVariant", v: any): string | null {
+  const s = String(v ?? "").trim();
+  if (!s) return null;
+  if (s.startsWith("gid://")) return s;
+  return /^\d+$/.test(s) ? `gid://shopify/${kind}/${s}` : null;
+}
+
+function norm(s: any) {
+  return String(s ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/* =========================
+   Cart lines
+   ========================= */
+/** Cart lines with product ids from the checkout payload; itemsJson titles when the payload has none. */
+export function cartProductRefs(raw: any, itemsJson: any): CartProductRef[] {
+  const r = safeJsonParse(raw) ?? {};
+  const rest = Array.isArray(r?.line_items) ? r.line_items : null;
+  const gql = Array.isArray(r?.lineItems?.edges)
+    ? r.lineItems.edges.map((e: any) => e?.node)
+    : Array.isArray(r?.lineItems?.nodes)
+      ? r.lineItems.nodes
+      : null;
+
+  const lines: CartProductRef[] = (rest ?? gql ?? [])
+    .filter(Boolean)
+    .map((li: any) => ({
+      title: String(li?.title ?? li?.name ?? "").trim(),
+      variantTitle: String(li?.variant_title ?? li?.variantTitle ?? "").trim() || null,
+      productId: toGid("Product", li?.product_id ?? li?.product?.id),
+      variantId: toGid("ProductVariant", li?.variant_id ?? li?.variant?.id),
+    }))
+    .filter((x: CartProductRef) => x.title);
+  if (lines.length) return lines;
+
+  const items = safeJsonParse(itemsJson);
+  return (Array.isArray(items) ? items : [])
+    .map((it: any) => ({
+      title: String(it?.title ?? "").trim(),
+      variantTitle: String(it?.variantTitle ?? "").trim() || null,
+      productId: toGid("Product", it?.productId),
+      variantId: toGid("ProductVariant", it?.variantId),
+    }))
+    .filter((x: CartProductRef) => x.title);
+}
+
+/** The cart line the agent means: exact title, then containment, then the most shared words. */
+export function matchCartItem(refs: CartProductRef[], item: any): CartProductRef | null {
+  const q = norm(item);
+  if (!q) return refs.length === 1 ? refs[0] : null;
+
+  const exact = refs.find((r) => norm(r.title) === q);
+  if (exact) return exact;
+  const contains = refs.find((r) => norm(r.title).includes(q) || q.includes(norm(r.title)));
+  if (contains) return contains;
+
+  const words = new Set(q.split(" ").filter((w) => w.length > 1));
+  let best: CartProductRef | null = null;
+  let bestScore = 0;
+  for (const r of refs) {
+    const score = norm(r.title)
+      .split(" ")
+      .filter((w) => words.has(w)).length;
+    if (score > bestScore) {
+      best = r;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/* =========================
+   Shopify
+   ========================= */
+const PRODUCT_QUERY = `
+  query LookupProduct($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      vendor
+      productType
+      description(truncateAt: 600)
+      onlineStoreUrl
+      options { name values }
+      media(first: 3) { nodes { preview { image { url } } } }
+      variants(first: 50) {
+        nodes { id title price availableForSale selectedOptions { name value } }
+      }
+    }
+  }
+`;
+
+const FIND_PRODUCT_QUERY = `
+  query FindProduct($q: String!) {
+    products(first: 1, query: $q) { nodes { id } }
+  }
+`;
+
+function mapProduct(p: any): ProductFacts | null {
+  if (!p?.id) return null;
+  const variants = Array.isArray(p?.variants?.nodes) ? p.variants.nodes : [];
+  const media = Array.isArray(p?.media?.nodes) ? p.media.nodes : [];
+  return {
+    productId: String(p.id),
+    title: String(p.title ?? "").trim(),
+    vendor: String(p.vendor ?? "").trim() || null,
+    productType: String(p.productType ?? "").trim() || null,
+    description: String(p.description ?? "").replace(/\s+/g, " ").trim(),
+    url: p.onlineStoreUrl ? String(p.onlineStoreUrl) : null,
+    options: (Array.isArray(p.options) ? p.options : [])
+      .filter((o: any) => o?.name && o.name !== "Title")
+      .map((o: any) => ({ name: String(o.name), values: (o.values ?? []).map(String) })),
+    variants: variants.map((v: any) => ({
+      id: String(v?.id ?? ""),
+      title: String(v?.title ?? "").trim(),
+      price: v?.price == null ? null : String(v.price),
+      availableForSale: Boolean(v?.availableForSale),
+      options: (Array.isArray(v?.selectedOptions) ? v.selectedOptions : []).map((o: any) => String(o?.value ?? "")),
+    })),
+    images: media.map((m: any) => String(m?.preview?.image?.url ?? "")).filter(Boolean),
+  };
+}
+
+async function findProductIdByTitle(query: AdminQuery, title: string): Promise<string | null> {
+  const q = `title:"${title.replace(/["\\]/g, " ").slice(0, 120)}"`;
+  const out = await query(FIND_PRODUCT_QUERY, { q });
+  return out?.data?.products?.nodes?.[0]?.id ?? null;
+}
+
+export async function lookupProduct(args: {
+  shop: string;
+  ref: CartProductRef;
+  query: AdminQuery;
+}): Promise<{ facts: ProductFacts | null; cached: boolean }> {
+  const key = `${args.shop}|${args.ref.productId ?? `title:${norm(args.ref.title)}`}`;
+  const hit = productCache.get(key);
+  if (hit && Date.now() - hit.at < PRODUCT_CACHE_TTL_MS) return { facts: hit.facts, cached: true };
+
+  const productId = args.ref.productId ?? (await findProductIdByTitle(args.query, args.ref.title));
+  const facts = productId ? mapProduct((await args.query(PRODUCT_QUERY, { id: productId }))?.data?.product) : null;
+
+  if (productCache.size >= PRODUCT_CACHE_MAX) {
+    const oldest = productCache.keys().next().value;
+    if (oldest !== undefined) productCache.delete(oldest);
+  }
+  productCache.set(key, { at: Date.now(), facts });
+  return { facts, cached: false };
+}
+
+/* =========================
+   Answer
+   ========================= */
+// Availability only: quantities would need the read_inventory scope.
+function stockLabel(v: ProductVariantFacts) {
+  return v.availableForSale ? "in stock" : "out of stock";
+}
+
+/** Variants matching "M" / "blue m" / "Blue / M": every word of the question is one of the variant's values. */
+function matchVariants(variants: ProductVariantFacts[], variant: any) {
+  const words = norm(variant).split(" ").filter(Boolean);
+  if (!words.length) return [];
+  return variants.filter((v) => {
+    const values = new Set([...v.options, v.title].flatMap((x) => norm(x).split(" ")));
+    return words.every((w) => values.has(w));
+  });
+}
+
+/** Tool result: a short spoken-ready summary plus the facts behind it. */
+export function productAnswer(args: {
+  facts: ProductFacts;
+  ref: CartProductRef;
+  variant: string | null;
+  currency: string | null;
+}) {
+  const { facts } = args;
+  const money = (p: string | null) => (p == null ? null : `${p}${args.currency ? ` ${args.currency}` : ""}`);
+  const variants = facts.variants.slice(0, 50);
+  const asked = matchVariants(variants, args.variant);
+  const inCart = variants.find((v) => v.id === args.ref.variantId) ?? null;
+
+  const parts: string[] = [];
+  const prices = Array.from(new Set(variants.map((v) => v.price).filter((p): p is string => p != null)));
+  if (prices.length === 1) parts.push(`${facts.title}: ${money(prices[0])}.`);
+  else parts.push(`${facts.title}.`);
+
+  if (args.variant) {
+    if (!asked.length) parts.push(`There is no "${cleanUntrusted(args.variant, 40)}" option.`);
+    for (const v of asked.slice(0, 3)) parts.push(`${v.title}: ${stockLabel(v)}${prices.length > 1 ? `, ${money(v.price)}` : ""}.`);
+  } else if (inCart) {
+    parts.push(`The one in the cart (${inCart.title}) is ${stockLabel(inCart)}.`);
+  }
+
+  if (variants.length > 1) {
+    const available = variants.filter((v) => v.availableForSale).map((v) => v.title);
+    const soldOut = variants.filter((v) => !v.availableForSale).map((v) => v.title);
+    if (available.length) parts.push(`Available: ${available.slice(0, 12).join(", ")}.`);
+    if (soldOut.length) parts.push(`Sold out: ${soldOut.slice(0, 12).join(", ")}.`);
+  } else if (variants.length === 1 && !inCart) {
+    parts.push(`It is ${stockLabel(variants[0])}.`);
+  }
+
+  if (facts.description) parts.push(facts.description.slice(0, 300));
+
+  return {
+    ok: true,
+    product: facts.title,
+    summary: parts.join(" "),
+    vendor: facts.vendor,
+    productType: facts.productType,
+    options: facts.options,
+    variants: (asked.length ? asked : variants).slice(0, 10).map((v) => ({
+      title: v.title,
+      price: money(v.price),
+      available: v.availableForSale,
+      stock: stockLabel(v),
+    })),
+    description: facts.description,
+    images: facts.images,
+    url: facts.url,
+  };
+}
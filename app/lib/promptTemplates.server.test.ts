@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  findTemplate: vi.fn(),
+  findLatest: vi.fn(),
+  createVersion: vi.fn(),
+}));
+
+vi.mock("../db.server", () => {
+  const db = {
+    promptTemplate: { findFirst: mocks.findTemplate, update: vi.fn() },
+    promptTemplateVersion: { findFirst: mocks.findLatest, create: mocks.createVersion },
+    $transaction: async (fn: (tx: unknown) => unknown) => fn(db),
+  };
+  return { default: db };
+});
+
+import { savePromptTemplateVersion } from "./promptTemplates.server";
+
+const TEMPLATE = { id: "tpl_1", shop: "demo-store.myshopify.com", name: "Concierge", archivedAt: null };
+
+// What Prisma throws when another save already took the version number.
+function uniqueViolation() {
+  return Object.assign(new Error("Unique constraint failed on the fields: (`templateId`,`version`)"), { code: "P2002" });
+}
+
+function save(body: string) {
+  return savePromptTemplateVersion({ shop: TEMPLATE.shop, templateId: TEMPLATE.id, name: TEMPLATE.name, body, note: null, actor: null });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.findTemplate.mockResolvedValue(TEMPLATE);
+  mocks.createVersion.mockImplementation(async ({ data }) => ({ id: `v_${data.version}`, ...data }));
+});
+
+describe("savePromptTemplateVersion with a concurrent save", () => {
+  it("retries on the next version number", async () => {
+    mocks.findLatest
+      .mockResolvedValueOnce({ version: 2, body: "Old text" })
+      .mockResolvedValueOnce({ version: 3, body: "Saved in the other tab" });
+    mocks.createVersion.mockRejectedValueOnce(uniqueViolation());
+
+    const res = await save("New text");
+
+    expect(res).toEqual({ ok: true, version: 4, created: true });
+    expect(mocks.createVersion.mock.calls.map(([q]) => q.data.version)).toEqual([3, 4]);
+  });
+
+  it("doesn't add a version when the other save stored the same text", async () => {
+    mocks.findLatest
+      .mockResolvedValueOnce({ version: 2, body: "Old text" })
+      .mockResolvedValueOnce({ version: 3, body: "New text" });
+    mocks.createVersion.mockRejectedValueOnce(uniqueViolation());
+
+    expect(await save("New text")).toEqual({ ok: true, version: 3, created: false });
+  });
+
+  it("asks for a reload when it keeps losing the race", async () => {
+    mocks.findLatest.mockResolvedValue({ version: 2, body: "Old text" });
+    mocks.createVersion.mockRejectedValue(uniqueViolation());
+
+    const res = await save("New text");
+
+    expect(res).toEqual({ ok: false, error: expect.stringMatching(/saved elsewhere. Reload/) });
+  });
+
+  it("doesn't swallow other errors", async () => {
+    mocks.findLatest.mockResolvedValue(null);
+    mocks.createVersion.mockRejectedValue(new Error("connection lost"));
+
+    await expect(save("New text")).rejects.toThrow("connection lost");
+  });
+});
@@ -0,0 +1,202 @@
+// app/lib/promptTemplates.server.ts
+import db from "../db.server";
+import {
+  STARTER_TEMPLATES,
+  cleanTemplateBody,
+  cleanTemplateName,
+} from "./promptTemplates.shared";
+
+export type ActivePromptTemplate = {
+  templateId: string;
+  name: string;
+  versionId: string;
+  version: number;
+  body: string;
+};
+
+/* =========================
+   Library
+   ========================= */
+export async function listPromptTemplates(shop: string) {
+  const [settings, templates] = await Promise.all([
+    db.settings.findUnique({ where: { shop }, select: { activePromptTemplateId: true } }),
+    db.promptTemplate.findMany({
+      where: { shop, archivedAt: null },
+      orderBy: { createdAt: "asc" },
+      include: { versions: { orderBy: { version: "desc" }, take: 50 } },
+    }),
+  ]);
+  return { activeTemplateId: settings?.activePromptTemplateId ?? null, templates };
+}
+
+// Prisma's unique constraint violation.
+function isUniqueViolation(e: any) {
+  return e?.code === "P2002";
+}
+
+const ADD_VERSION_ATTEMPTS = 3;
+
+/**
+ * Add a version; a body identical to the latest version is not saved again.
+ * Two saves racing for the same version number hit the (templateId, version) constraint: the loser
+ * re-reads the latest version and tries again. null when it keeps losing.
+ */
+async function addVersion(params: { templateId: string; body: string; note: string | null; actor: string | null }) {
+  for (let attempt = 1; attempt <= ADD_VERSION_ATTEMPTS; attempt++) {
+    try {
+      return await db.$transaction(async (tx) => {
+        const latest = await tx.promptTemplateVersion.findFirst({
+          where: { templateId: params.templateId },
+          orderBy: { version: "desc" },
+        });
+        if (latest && latest.body === params.body) return { version: latest, created: false };
+
+        const version = await tx.promptTemplateVersion.create({
+          data: {
+            templateId: params.templateId,
+            version: (latest?.version ?? 0) + 1,
+            body: params.body,
+            note: params.note,
+            createdBy: params.actor,
+          },
+        });
+        await tx.promptTemplate.update({ where: { id: params.templateId }, data: { updatedAt: new Date() } });
+        return { version, created: true };
+      });
+    } catch (e: any) {
+      if (!isUniqueViolation(e)) throw e;
+      console.log("[PROMPT_TEMPLATES] version_conflict", { templateId: params.templateId, attempt });
+    }
+  }
+  return null;
+}
+
+const SAVED_ELSEWHERE = "This template was just saved elsewhere. Reload the page and try again.";
+
+export async function createPromptTemplate(params: {
+  shop: string;
+  name: any;
+  body: any;
+  starterKey?: string | null;
+  actor: string | null;
+}) {
+  const starter = params.starterKey ? STARTER_TEMPLATES.find((s) => s.key === params.starterKey) ?? null : null;
+  const name = cleanTemplateName(params.name) || starter?.name || "";
+  const body = cleanTemplateBody(params.body) || starter?.body || "";
+  if (!name) return { ok: false as const, error: "Name is required." };
+  if (!body) return { ok: false as const, error: "Template text is required." };
+
+  const template = await db.promptTemplate.create({
+    data: { shop: params.shop, name, starterKey: starter?.key ?? null, createdBy: params.actor },
+  });
+  await addVersion({
+    templateId: template.id,
+    body,
+    note: starter ? `From starter "${starter.name}"` : null,
+    actor: params.actor,
+  });
+  return { ok: true as const, template };
+}
+
+export async function savePromptTemplateVersion(params: {
+  shop: string;
+  templateId: string;
+  name: any;
+  body: any;
+  note: any;
+  actor: string | null;
+}) {
+  const template = await db.promptTemplate.findFirst({
+    where: { id: params.templateId, shop: params.shop, archivedAt: null },
+  });
+  if (!template) return { ok: false as const, error: "Template not found." };
+
+  const body = cleanTemplateBody(params.body);
+  if (!body) return { ok: false as const, error: "Template text is required." };
+
+  const name = cleanTemplateName(params.name) || template.name;
+  if (name !== template.name) await db.promptTemplate.update({ where: { id: template.id }, data: { name } });
+
+  const note = String(params.note ?? "").trim().slice(0, 200) || null;
+  const res = await addVersion({ templateId: template.id, body, note, actor: params.actor });
+  if (!res) return { ok: false as const, error: SAVED_ELSEWHERE };
+  return { ok: true as const, version: res.version.version, created: res.created };
+}
+
+/** Restoring copies the old body into a new version, so history stays append-only. */
+export async function restorePromptTemplateVersion(params: {
+  shop: string;
+  templateId: string;
+  versionId: string;
+  actor: string | null;
+}) {
+  const old = await db.promptTemplateVersion.findFirst({
+    where: { id: params.versionId, templateId: params.templateId, template: { shop: params.shop, archivedAt: null } },
+  });
+  if (!old) return { ok: false as const, error: "Version not found." };
+
+  const res = await addVersion({
+    templateId: params.templateId,
+    body: old.body,
+    note: `Restored v${old.version}`,
+    actor: params.actor,
+  });
+  if (!res) return { ok: false as const, error: SAVED_ELSEWHERE };
+  return { ok: true as const, version: res.version.version, created: res.created };
+}
+
+export async function setActivePromptTemplate(shop: string, templateId: string | null) {
+  if (templateId) {
+    const exists = await db.promptTemplate.count({ where: { id: templateId, shop, archivedAt: null } });
+    if (!exists) return false;
+  }
+  await db.settings.update({ where: { shop }, data: { activePromptTemplateId: templateId } });
+  return true;
+}
+
+/** Archived, not deleted: past calls keep pointing at their version. */
+export async function archivePromptTemplate(shop: string, templateId: string) {
+  const res = await db.promptTemplate.updateMany({
+    where: { id: templateId, shop, archivedAt: null },
+    data: { archivedAt: new Date() },
+  });
+  if (res.count) {
+    await db.settings.updateMany({
+      where: { shop, activePromptTemplateId: templateId },
+      data: { activePromptTemplateId: null },
+    });
+  }
+  return res.count > 0;
+}
+
+/* =========================
+   Call time
+   ========================= */
+export async function getActivePromptTemplate(shop: string): Promise<ActivePromptTemplate | null> {
+  const settings = await db.settings.findUnique({ where: { shop }, select: { activePromptTemplateId: true } });
+  const templateId = settings?.activePromptTemplateId ?? null;
+  if (!templateId) return null;
+
+  const template = await db.promptTemplate.findFirst({
+    where: { id: templateId, shop, archivedAt: null },
+    include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+  });
+  const latest = template?.versions[0];
+  if (!template || !latest) return null;
+
+  return { templateId: template.id, name: template.name, versionId: latest.id, version: latest.version, body: latest.body };
+}
+
+/** "Luxury concierge v3" per version id, for job lists. */
+export async function templateVersionLabels(versionIds: string[]) {
+  const ids = Array.from(new Set(versionIds.filter(Boolean)));
+  const out = new Map<string, string>();
+  if (!ids.length) return out;
+
+  const rows = await db.promptTemplateVersion.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, version: true, template: { select: { name: true } } },
+  });
+  for (const r of rows) out.set(r.id, `${r.template.name} v${r.version}`);
+  return out;
+}
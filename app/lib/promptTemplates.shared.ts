@@ -0,0 +1,148 @@
+// app/lib/promptTemplates.shared.ts
+import { cleanUntrusted } from "./untrustedText.shared";
+
+/* =========================
+   Call-script templates
+   - A shop keeps a library of named templates; every save adds a version, nothing is edited in place.
+   - The active template (Settings.activePromptTemplateId) takes the place of the merchant prompt,
+     in the same prompt mode (append / replace).
+   - {{variables}} are filled in at call time; unknown ones render empty.
+   ========================= */
+export const MAX_TEMPLATE_LENGTH = 8000;
+export const MAX_TEMPLATE_NAME_LENGTH = 80;
+
+export const PROMPT_VARIABLES: Array<{ key: string; help: string; example: string }> = [
+  { key: "first_name", help: "Customer's first name (empty when unknown).", example: "Anna" },
+  { key: "customer_name", help: "Customer's full name.", example: "Anna Schmidt" },
+  { key: "top_item", help: "Most expensive item in the cart.", example: "Leather weekender bag" },
+  { key: "item_count", help: "Number of items in the cart.", example: "2" },
+  { key: "cart_items", help: "Comma-separated item titles.", example: "Leather weekender bag, Travel wallet" },
+  { key: "cart_total", help: "Cart total with currency.", example: "389.00 EUR" },
+  { key: "shop_name", help: "Your store name.", example: "Northwind Goods" },
+  { key: "attempt_number", help: "1 for the first call, 2 for the first follow-up, …", example: "1" },
+  { key: "max_discount", help: "Highest discount the agent may offer (percent).", example: "10" },
+];
+
+export type PromptVariables = Record<string, string>;
+
+export type StarterTemplate = { key: string; name: string; description: string; body: string };
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  {
+    key: "luxury",
+    name: "Luxury concierge",
+    description: "Unhurried, discreet, service first. Discounts only as a last resort.",
+    body: `You are calling on behalf of {{shop_name}}, a luxury house. Speak like a personal concierge: calm, warm, never salesy.
+Greet {{first_name}} by name and mention that their {{top_item}} is still reserved in their basket.
+Offer help with sizing, materials, delivery times or gift wrapping before anything else.
+Do not talk about price unless the customer raises it. Avoid words like "deal", "cheap" or "sale".
+Only mention a discount (up to {{max_discount}}%) if the customer clearly hesitates because of price.`,
+  },
+  {
+    key: "fashion",
+    name: "Fashion & apparel",
+    description: "Friendly stylist tone, focuses on fit, sizing and returns.",
+    body: `You are a friendly stylist from {{shop_name}}. Keep it light and upbeat.
+Remind {{first_name}} they left {{item_count}} item(s) in their bag, starting with the {{top_item}}.
+Most fashion checkouts stall on fit: ask whether they were unsure about size or colour and help them choose.
+Mention easy returns if the customer worries about fit.
+If they hesitate on price, you may offer up to {{max_discount}}% off.`,
+  },
+  {
+    key: "electronics",
+    name: "Electronics",
+    description: "Knowledgeable and precise; answers spec, compatibility and warranty questions.",
+    body: `You are a product specialist from {{shop_name}}. Be precise and factual.
+{{first_name}}'s cart ({{cart_total}}) contains: {{cart_items}}.
+Ask whether they had open questions about specs, compatibility, warranty or delivery for the {{top_item}}.
+Never guess technical details that are not provided; offer to have the team follow up in writing instead.
+A discount of up to {{max_discount}}% is available only if price is the last blocker.`,
+  },
+  {
+    key: "subscription",
+    name: "Subscription",
+    description: "Explains how the subscription works and removes commitment worries.",
+    body: `You are calling from {{shop_name}} about a subscription {{first_name}} started but did not finish.
+Explain simply how it works: delivery frequency, that they can pause, skip or cancel any time.
+Most people hesitate because of commitment; address that directly and keep it short.
+Confirm which plan they picked ({{top_item}}) and help them complete sign-up.
+If cost is the concern, you may offer up to {{max_discount}}% off the first order.`,
+  },
+];
+
+const VAR_RE = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export function renderPromptTemplate(body: string, vars: PromptVariables): string {
+  return String(body ?? "").replace(VAR_RE, (_, key: string) => String(vars[key.toLowerCase()] ?? ""));
+}
+
+/** Variable names used in the body that aren't in PROMPT_VARIABLES. */
+export function unknownTemplateVariables(body: string): string[] {
+  const known = new Set(PROMPT_VARIABLES.map((v) => v.key));
+  const out = new Set<string>();
+  for (const m of String(body ?? "").matchAll(VAR_RE)) {
+    const key = m[1].toLowerCase();
+    if (!known.has(key)) out.add(key);
+  }
+  return Array.from(out);
+}
+
+export function exampleVariables(): PromptVariables {
+  return Object.fromEntries(PROMPT_VARIABLES.map((v) => [v.key, v.example]));
+}
+
+export function cleanTemplateBody(v: any) {
+  return String(v ?? "").replace(/\r\n/g, "\n").trim().slice(0, MAX_TEMPLATE_LENGTH);
+}
+
+export function cleanTemplateName(v: any) {
+  return String(v ?? "").replace(/\s+/g, " ").trim().slice(0, MAX_TEMPLATE_NAME_LENGTH);
+}
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+/** Variables for one call, from the same checkout fields the system prompt uses. */
+export function promptVariablesForCall(args: {
+  customerName: string | null;
+  firstName: string | null;
+  itemsJson: string | null;
+  value: number;
+  currency: string;
+  shopName: string;
+  attemptNumber: number;
+  maxDiscountPercent: number;
+}): PromptVariables {
+  const items: any[] = (() => {
+    const arr = safeJsonParse(args.itemsJson);
+    return Array.isArray(arr) ? arr : [];
+  })();
+
+  const lineTotal = (it: any) => (Number(it?.price ?? it?.unitPrice ?? 0) || 0) * (Number(it?.quantity ?? 1) || 1);
+  const top = items.length ? [...items].sort((a, b) => lineTotal(b) - lineTotal(a))[0] : null;
+  const count = items.reduce((s, it) => s + (Number(it?.quantity ?? 1) || 1), 0);
+
+  return {
+    // Shopper-written values are cleaned: templates put them straight into the system prompt.
+    first_name: cleanUntrusted(args.firstName, 40),
+    customer_name: cleanUntrusted(args.customerName, 80),
+    top_item: cleanUntrusted(top?.title, 80) || "your items",
+    item_count: String(count),
+    cart_items:
+      items
+        .slice(0, 10)
+        .map((it) => cleanUntrusted(it?.title, 80))
+        .filter(Boolean)
+        .join(", ") || "-",
+    cart_total: `${Number(args.value ?? 0).toFixed(2)} ${args.currency}`.trim(),
+    shop_name: args.shopName,
+    attempt_number: String(args.attemptNumber),
+    max_discount: String(args.maxDiscountPercent),
+  };
+}
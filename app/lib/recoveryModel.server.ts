@@ -0,0 +1,278 @@
+// app/lib/recoveryModel.server.ts
+import db from "../db.server";
+import { contactKeysFor } from "./contactCaps.server";
+import { cartValueInShopCurrency, customerOrdersCount } from "./priority.shared";
+import { extractCheckoutLocation, resolveCustomerTimezone, zonedParts } from "./timezones.shared";
+import {
+  insufficientDataReason,
+  isDeclinedDisposition,
+  parseRecoveryModel,
+  predictRecovery,
+  trainRecoveryModel,
+  type RecoveryExample,
+  type RecoveryFeatures,
+  type RecoveryModel,
+} from "./recoveryModel.shared";
+
+/* =========================
+   Training data
+   - Population: checkouts that were abandoned at some point (abandonedAt set, a call job exists,
+     or the order came in well after the checkout started).
+   - Label: an Order matches the checkout (Order stays the source of truth for recovered state).
+   - "Prior" features only look at this contact's earlier checkouts, so training doesn't peek ahead.
+   ========================= */
+const HISTORY_DAYS = 180;
+const HISTORY_LIMIT = 5000;
+// Still-open abandoned checkouts younger than this might yet convert; leave them out of training.
+const SETTLE_DAYS = 3;
+const LATE_ORDER_MINUTES = 60;
+const RETRAIN_EVERY_HOURS = 24;
+
+type HistoryRow = {
+  checkoutId: string;
+  at: Date;
+  features: RecoveryFeatures;
+  label: 0 | 1;
+  abandoned: boolean;
+};
+
+function itemCountOf(itemsJson: string | null, raw: string | null) {
+  try {
+    const items = itemsJson ? JSON.parse(itemsJson) : null;
+    if (Array.isArray(items)) return items.reduce((s: number, it: any) => s + (Number(it?.quantity) || 1), 0);
+  } catch {
+    // fall through to raw
+  }
+  try {
+    const r = raw ? JSON.parse(raw) : null;
+    const lines = r?.line_items ?? r?.lineItems?.edges ?? [];
+    return Array.isArray(lines) ? lines.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function analysisOf(analysisJson: string | null) {
+  try {
+    return analysisJson ? JSON.parse(analysisJson) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadHistory(params: { shop: string; shopTimezone: string | null; where: any }): Promise<HistoryRow[]> {
+  const { shop } = params;
+
+  const checkouts = await db.checkout.findMany({
+    where: { shop, ...params.where },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_LIMIT,
+    select: {
+      checkoutId: true,
+      token: true,
+      email: true,
+      phone: true,
+      value: true,
+      currency: true,
+      status: true,
+      raw: true,
+      itemsJson: true,
+      abandonedAt: true,
+      createdAt: true,
+      recoveredOrderId: true,
+    },
+  });
+  if (!checkouts.length) return [];
+
+  const ids = checkouts.map((c) => c.checkoutId);
+  const tokens = checkouts.map((c) => c.token).filter((t): t is string => Boolean(t));
+
+  const [jobs, orders] = await Promise.all([
+    db.callJob.findMany({
+      where: { shop, checkoutId: { in: ids } },
+      select: { checkoutId: true, analysisJson: true, attributedOrderId: true },
+    }),
+    db.order.findMany({
+      where: { shop, OR: [{ checkoutId: { in: ids } }, ...(tokens.length ? [{ checkoutToken: { in: tokens } }] : [])] },
+      select: { checkoutId: true, checkoutToken: true, createdAt: true },
+    }),
+  ]);
+
+  const jobsByCheckout = new Map<string, typeof jobs>();
+  for (const j of jobs) jobsByCheckout.set(j.checkoutId, [...(jobsByCheckout.get(j.checkoutId) ?? []), j]);
+
+  const orderAt = new Map<string, Date>();
+  for (const o of orders) {
+    if (o.checkoutId) orderAt.set(`id:${o.checkoutId}`, new Date(o.createdAt));
+    if (o.checkoutToken) orderAt.set(`token:${o.checkoutToken}`, new Date(o.createdAt));
+  }
+
+  // Oldest first so each contact's aggregates only contain earlier checkouts.
+  const sorted = [...checkouts].sort(
+    (a, b) => new Date(a.abandonedAt ?? a.createdAt).getTime() - new Date(b.abandonedAt ?? b.createdAt).getTime()
+  );
+
+  const contacts = new Map<string, { recovered: number; answered: boolean; declined: boolean }>();
+  const out: HistoryRow[] = [];
+
+  for (const c of sorted) {
+    const at = new Date(c.abandonedAt ?? c.createdAt);
+    const cJobs = jobsByCheckout.get(c.checkoutId) ?? [];
+    const ordered = orderAt.get(`id:${c.checkoutId}`) ?? (c.token ? orderAt.get(`token:${c.token}`) : undefined) ?? null;
+
+    const label: 0 | 1 =
+      ordered || c.recoveredOrderId || cJobs.some((j) => j.attributedOrderId) || c.status === "RECOVERED" ? 1 : 0;
+    const abandoned =
+      Boolean(c.abandonedAt) ||
+      cJobs.length > 0 ||
+      (ordered != null && ordered.getTime() - new Date(c.createdAt).getTime() >= LATE_ORDER_MINUTES * 60 * 1000);
+
+    const keys = contactKeysFor(c, null);
+    const prior = keys.map((k) => contacts.get(k)).filter(Boolean) as Array<{
+      recovered: number;
+      answered: boolean;
+      declined: boolean;
+    }>;
+
+    const cart = cartValueInShopCurrency(c.raw, { value: Number(c.value ?? 0), currency: c.currency ?? null });
+    const tz = resolveCustomerTimezone(c.raw, params.shopTimezone);
+    const priorRecovered = Math.max(0, ...prior.map((p) => p.recovered));
+
+    out.push({
+      checkoutId: c.checkoutId,
+      at,
+      label,
+      abandoned,
+      features: {
+        cartValue: cart.value,
+        itemCount: itemCountOf(c.itemsJson, c.raw),
+        country: extractCheckoutLocation(c.raw).iso2,
+        hour: zonedParts(at, tz).hour,
+        returning: customerOrdersCount(c.raw) > 0 || priorRecovered > 0,
+        priorRecovered,
+        priorAnswered: prior.some((p) => p.answered),
+        priorDeclined: prior.some((p) => p.declined),
+      },
+    });
+
+    const analyses = cJobs.map((j) => analysisOf(j.analysisJson)).filter(Boolean);
+    const answered = analyses.some((a: any) => a?.answered === true);
+    const declined = analyses.some((a: any) => isDeclinedDisposition(a?.disposition));
+    for (const k of keys) {
+      const agg = contacts.get(k) ?? { recovered: 0, answered: false, declined: false };
+      contacts.set(k, {
+        recovered: agg.recovered + label,
+        answered: agg.answered || answered,
+        declined: agg.declined || declined,
+      });
+    }
+  }
+
+  return out;
+}
+
+/* =========================
+   Model state
+   ========================= */
+export async function getRecoveryModelState(shop: string) {
+  const row = await db.recoveryModelState.findUnique({ where: { shop } });
+  return {
+    model: parseRecoveryModel(row?.modelJson ?? null),
+    trainedAt: row?.trainedAt ?? null,
+    lastAttemptAt: row?.lastAttemptAt ?? null,
+    lastError: row?.lastError ?? null,
+  };
+}
+
+/** Train on the last HISTORY_DAYS of settled checkouts. A failed attempt keeps the previous model. */
+export async function retrainRecoveryModel(params: { shop: string; shopTimezone: string | null }) {
+  const { shop } = params;
+  const now = new Date();
+  const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const settledBefore = now.getTime() - SETTLE_DAYS * 24 * 60 * 60 * 1000;
+
+  let model: RecoveryModel | null = null;
+  let error: string | null = null;
+  try {
+    const history = await loadHistory({ shop, shopTimezone: params.shopTimezone, where: { createdAt: { gte: since } } });
+    const examples: RecoveryExample[] = history
+      .filter((h) => h.abandoned && (h.label === 1 || h.at.getTime() < settledBefore))
+      .map((h) => ({ features: h.features, label: h.label }));
+
+    error = insufficientDataReason(examples);
+    model = error ? null : trainRecoveryModel(examples, now);
+  } catch (e: any) {
+    error = `Training failed: ${String(e?.message ?? e)}`;
+  }
+
+  const data = model
+    ? { modelJson: JSON.stringify(model), trainedAt: now, lastAttemptAt: now, lastError: null }
+    : { lastAttemptAt: now, lastError: error };
+  await db.recoveryModelState.upsert({ where: { shop }, create: { shop, ...data }, update: data });
+
+  console.log("[RECOVERY_MODEL] train", {
+    shop,
+    ok: Boolean(model),
+    n: model?.n ?? null,
+    positives: model?.positives ?? null,
+    auc: model?.metrics.auc ?? null,
+    error,
+  });
+  return { model, error };
+}
+
+/** Current model, retrained at most once per RETRAIN_EVERY_HOURS (successful or not). */
+export async function ensureFreshRecoveryModel(params: { shop: string; shopTimezone: string | null }) {
+  const state = await getRecoveryModelState(params.shop);
+  const last = state.lastAttemptAt ? new Date(state.lastAttemptAt).getTime() : 0;
+  if (Date.now() - last < RETRAIN_EVERY_HOURS * 60 * 60 * 1000) return state.model;
+  const res = await retrainRecoveryModel(params);
+  return res.model ?? state.model;
+}
+
+/**
+ * Recovery probability for each candidate, with priors from the same contacts' earlier checkouts.
+ * Also stores the score on Checkout.recoveryScore for display.
+ */
+export async function scoreRecoveryCandidates(params: {
+  shop: string;
+  shopTimezone: string | null;
+  model: RecoveryModel;
+  candidates: Array<{ checkoutId: string; email?: string | null; phone?: string | null }>;
+}): Promise<Map<string, number>> {
+  const { shop, model } = params;
+  const scores = new Map<string, number>();
+  if (!params.candidates.length) return scores;
+
+  const emails = params.candidates.map((c) => String(c.email ?? "").trim()).filter(Boolean);
+  const phones = params.candidates.map((c) => String(c.phone ?? "").trim()).filter(Boolean);
+  const history = await loadHistory({
+    shop,
+    shopTimezone: params.shopTimezone,
+    where: {
+      OR: [
+        { checkoutId: { in: params.candidates.map((c) => c.checkoutId) } },
+        ...(emails.length ? [{ email: { in: emails } }] : []),
+        ...(phones.length ? [{ phone: { in: phones } }] : []),
+      ],
+    },
+  });
+
+  const wanted = new Set(params.candidates.map((c) => c.checkoutId));
+  for (const h of history) if (wanted.has(h.checkoutId)) scores.set(h.checkoutId, predictRecovery(model, h.features));
+
+  const stored = await db.checkout.findMany({
+    where: { shop, checkoutId: { in: Array.from(scores.keys()) } },
+    select: { checkoutId: true, recoveryScore: true },
+  });
+  for (const s of stored) {
+    const next = scores.get(s.checkoutId);
+    if (next == null || (s.recoveryScore != null && Math.abs(s.recoveryScore - next) < 0.005)) continue;
+    await db.checkout.update({
+      where: { shop_checkoutId: { shop, checkoutId: s.checkoutId } },
+      data: { recoveryScore: next },
+    });
+  }
+
+  return scores;
+}
@@ -0,0 +1,243 @@
+// app/lib/recoveryModel.shared.ts
+
+/* =========================
+   Recovery-likelihood model
+   - Logistic regression on the shop's own abandoned checkouts (label = ended in an order).
+   - Features are standardised, so each weight reads as "log-odds per standard deviation".
+   - Trained in-process (batch gradient descent + L2), no external service.
+   ========================= */
+export type RecoveryFeatures = {
+  cartValue: number; // shop currency
+  itemCount: number;
+  country: string | null; // ISO2
+  hour: number | null; // customer-local hour the checkout was abandoned
+  returning: boolean; // customer had orders before
+  priorRecovered: number; // earlier checkouts of this contact that ended in an order
+  priorAnswered: boolean; // an earlier call to this contact was answered
+  priorDeclined: boolean; // an earlier call ended not_interested / do_not_call / wrong_number
+};
+
+export type RecoveryExample = { features: RecoveryFeatures; label: 0 | 1 };
+
+export type RecoveryModel = {
+  version: 1;
+  trainedAt: string;
+  n: number;
+  positives: number;
+  baseRate: number;
+  countries: string[]; // one-hot columns, everything else is the baseline
+  columns: string[];
+  means: number[];
+  stds: number[];
+  weights: number[];
+  bias: number;
+  metrics: { auc: number | null; logLoss: number; holdout: number };
+};
+
+export const LOW_RECOVERY_SCORE = "LOW_RECOVERY_SCORE";
+
+export const MIN_TRAINING_EXAMPLES = 50;
+export const MIN_CLASS_EXAMPLES = 5;
+
+const MAX_COUNTRY_COLUMNS = 6;
+const MIN_COUNTRY_EXAMPLES = 10;
+const ITERATIONS = 400;
+const LEARNING_RATE = 0.3;
+const L2 = 0.01;
+
+const DECLINED_DISPOSITIONS = ["not_interested", "do_not_call", "wrong_number"];
+
+export function isDeclinedDisposition(d: any) {
+  return DECLINED_DISPOSITIONS.includes(String(d ?? "").toLowerCase());
+}
+
+const BASE_COLUMNS: Array<{ key: string; label: string }> = [
+  { key: "log_cart_value", label: "Cart value" },
+  { key: "log_item_count", label: "Item count" },
+  { key: "hour_morning", label: "Abandoned 06–12h" },
+  { key: "hour_afternoon", label: "Abandoned 12–18h" },
+  { key: "hour_evening", label: "Abandoned 18–24h" },
+  { key: "returning_customer", label: "Returning customer" },
+  { key: "prior_recovered", label: "Earlier checkouts recovered" },
+  { key: "prior_answered", label: "Answered an earlier call" },
+  { key: "prior_declined", label: "Declined an earlier call" },
+];
+
+export function recoveryColumnLabel(column: string) {
+  if (column.startsWith("country_")) return `Country ${column.slice("country_".length)}`;
+  return BASE_COLUMNS.find((c) => c.key === column)?.label ?? column;
+}
+
+function hourBucket(hour: number | null) {
+  if (hour == null || !Number.isFinite(hour)) return null;
+  if (hour >= 6 && hour < 12) return "hour_morning";
+  if (hour >= 12 && hour < 18) return "hour_afternoon";
+  if (hour >= 18) return "hour_evening";
+  return null; // night is the baseline
+}
+
+function vectorize(f: RecoveryFeatures, countries: string[]): number[] {
+  const bucket = hourBucket(f.hour);
+  const base: Record<string, number> = {
+    log_cart_value: Math.log1p(Math.max(0, f.cartValue || 0)),
+    log_item_count: Math.log1p(Math.max(0, f.itemCount || 0)),
+    hour_morning: bucket === "hour_morning" ? 1 : 0,
+    hour_afternoon: bucket === "hour_afternoon" ? 1 : 0,
+    hour_evening: bucket === "hour_evening" ? 1 : 0,
+    returning_customer: f.returning ? 1 : 0,
+    prior_recovered: Math.min(3, Math.max(0, f.priorRecovered || 0)),
+    prior_answered: f.priorAnswered ? 1 : 0,
+    prior_declined: f.priorDeclined ? 1 : 0,
+  };
+  const iso2 = String(f.country ?? "").toUpperCase();
+  return [...BASE_COLUMNS.map((c) => base[c.key]), ...countries.map((c) => (iso2 === c ? 1 : 0))];
+}
+
+function sigmoid(z: number) {
+  if (z >= 0) return 1 / (1 + Math.exp(-z));
+  const e = Math.exp(z);
+  return e / (1 + e);
+}
+
+function pickCountries(examples: RecoveryExample[]) {
+  const counts = new Map<string, number>();
+  for (const e of examples) {
+    const c = String(e.features.country ?? "").toUpperCase();
+    if (c) counts.set(c, (counts.get(c) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .filter(([, n]) => n >= MIN_COUNTRY_EXAMPLES)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_COUNTRY_COLUMNS)
+    .map(([c]) => c);
+}
+
+function fit(rows: number[][], labels: number[]) {
+  const d = rows[0]?.length ?? 0;
+  const means = Array.from({ length: d }, (_, j) => rows.reduce((s, r) => s + r[j], 0) / rows.length);
+  const stds = Array.from({ length: d }, (_, j) => {
+    const v = rows.reduce((s, r) => s + (r[j] - means[j]) ** 2, 0) / rows.length;
+    return Math.sqrt(v) || 1;
+  });
+  const z = rows.map((r) => r.map((x, j) => (x - means[j]) / stds[j]));
+
+  const weights = new Array(d).fill(0);
+  const rate = labels.reduce((s, y) => s + y, 0) / labels.length;
+  let bias = Math.log(Math.max(1e-6, rate) / Math.max(1e-6, 1 - rate));
+
+  for (let it = 0; it < ITERATIONS; it++) {
+    const grad = new Array(d).fill(0);
+    let gradBias = 0;
+    for (let i = 0; i < z.length; i++) {
+      const p = sigmoid(bias + z[i].reduce((s, x, j) => s + x * weights[j], 0));
+      const err = p - labels[i];
+      gradBias += err;
+      for (let j = 0; j < d; j++) grad[j] += err * z[i][j];
+    }
+    for (let j = 0; j < d; j++) weights[j] -= LEARNING_RATE * (grad[j] / z.length + L2 * weights[j]);
+    bias -= LEARNING_RATE * (gradBias / z.length);
+  }
+
+  return { means, stds, weights, bias };
+}
+
+function scoreRow(m: { means: number[]; stds: number[]; weights: number[]; bias: number }, row: number[]) {
+  return sigmoid(m.bias + row.reduce((s, x, j) => s + ((x - m.means[j]) / m.stds[j]) * m.weights[j], 0));
+}
+
+/** Probability that a random positive outranks a random negative (ties count half). */
+function auc(scores: number[], labels: number[]): number | null {
+  const pos = scores.filter((_, i) => labels[i] === 1);
+  const neg = scores.filter((_, i) => labels[i] === 0);
+  if (!pos.length || !neg.length) return null;
+  let wins = 0;
+  for (const p of pos) for (const n of neg) wins += p > n ? 1 : p === n ? 0.5 : 0;
+  return wins / (pos.length * neg.length);
+}
+
+/** Why a model can't be trained from these examples, or null when it can. */
+export function insufficientDataReason(examples: RecoveryExample[]): string | null {
+  const positives = examples.filter((e) => e.label === 1).length;
+  const negatives = examples.length - positives;
+  if (examples.length < MIN_TRAINING_EXAMPLES) {
+    return `Not enough history yet (${examples.length} of ${MIN_TRAINING_EXAMPLES} settled checkouts).`;
+  }
+  if (positives < MIN_CLASS_EXAMPLES || negatives < MIN_CLASS_EXAMPLES) {
+    return `Need at least ${MIN_CLASS_EXAMPLES} recovered and ${MIN_CLASS_EXAMPLES} lost checkouts (have ${positives} / ${negatives}).`;
+  }
+  return null;
+}
+
+/**
+ * Train on all examples. Every 5th example is first held out to report AUC / log-loss,
+ * then the final weights are fitted on everything.
+ */
+export function trainRecoveryModel(examples: RecoveryExample[], now = new Date()): RecoveryModel | null {
+  if (insufficientDataReason(examples)) return null;
+
+  const countries = pickCountries(examples);
+  const rows = examples.map((e) => vectorize(e.features, countries));
+  const labels: number[] = examples.map((e) => e.label);
+
+  const trainIdx = rows.map((_, i) => i).filter((i) => i % 5 !== 0);
+  const testIdx = rows.map((_, i) => i).filter((i) => i % 5 === 0);
+  const evalFit = fit(
+    trainIdx.map((i) => rows[i]),
+    trainIdx.map((i) => labels[i])
+  );
+  const testScores = testIdx.map((i) => scoreRow(evalFit, rows[i]));
+  const testLabels = testIdx.map((i) => labels[i]);
+  const logLoss =
+    testScores.reduce((s, p, k) => {
+      const q = Math.min(1 - 1e-9, Math.max(1e-9, p));
+      return s - (testLabels[k] ? Math.log(q) : Math.log(1 - q));
+    }, 0) / Math.max(1, testScores.length);
+
+  const final = fit(rows, labels);
+  const positives = labels.reduce((s, y) => s + y, 0);
+
+  return {
+    version: 1,
+    trainedAt: now.toISOString(),
+    n: examples.length,
+    positives,
+    baseRate: positives / examples.length,
+    countries,
+    columns: [...BASE_COLUMNS.map((c) => c.key), ...countries.map((c) => `country_${c}`)],
+    ...final,
+    metrics: { auc: auc(testScores, testLabels), logLoss, holdout: testIdx.length },
+  };
+}
+
+export function predictRecovery(model: RecoveryModel, f: RecoveryFeatures): number {
+  return scoreRow(model, vectorize(f, model.countries));
+}
+
+/** Model-wide weights for display, largest effect first. */
+export function recoveryModelWeights(model: RecoveryModel) {
+  return model.columns
+    .map((col, j) => ({ column: col, label: recoveryColumnLabel(col), weight: model.weights[j] }))
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight));
+}
+
+export function parseRecoveryModel(json: string | null | undefined): RecoveryModel | null {
+  try {
+    const m = json ? JSON.parse(json) : null;
+    if (!m || m.version !== 1 || !Array.isArray(m.weights) || !Array.isArray(m.columns)) return null;
+    if (m.weights.length !== m.columns.length) return null;
+    return m as RecoveryModel;
+  } catch {
+    return null;
+  }
+}
+
+/** Settings value (0..100, percent) -> probability threshold, null when off. */
+export function parseMinRecoveryScore(v: any): number | null {
+  const n = Number(String(v ?? "").trim() || NaN);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.min(100, n) / 100;
+}
+
+export function lowRecoveryOutcome(score: number, threshold: number) {
+  return `${LOW_RECOVERY_SCORE}: ${Math.round(score * 100)}% < ${Math.round(threshold * 100)}%`;
+}
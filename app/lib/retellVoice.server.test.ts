@@ -0,0 +1,190 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, type StubServer } from "../test/stubServer";
+import createPhoneCall from "../test/fixtures/retell/create-phone-call.json";
+import functionLookupProduct from "../test/fixtures/retell/function-lookup-product.json";
+import functionSendCheckoutOffer from "../test/fixtures/retell/function-send-checkout-offer.json";
+import getCallEnded from "../test/fixtures/retell/get-call-ended.json";
+import getCallOngoing from "../test/fixtures/retell/get-call-ongoing.json";
+import webhookCallEnded from "../test/fixtures/retell/webhook-call-ended.json";
+import webhookCallEndedVoicemail from "../test/fixtures/retell/webhook-call-ended-voicemail.json";
+import webhookCallStarted from "../test/fixtures/retell/webhook-call-started.json";
+import { readRetellReport, retellVoiceProvider } from "./retellVoice.server";
+import type { StartCallRequest } from "./voiceProvider.shared";
+
+const REF = {
+  shop: "demo-store.myshopify.com",
+  callJobId: "cm2x9k1q70001abcd1234efgh",
+  checkoutId: "35816839823612",
+};
+
+const ENDED_REPORT = {
+  endedReason: "user_hangup",
+  transcript: getCallEnded.transcript,
+  recordingUrl: getCallEnded.recording_url,
+  connectedSeconds: 87,
+  voicemail: false,
+  customerNumber: "+14155550123",
+};
+
+function callRequest(customer: StartCallRequest["customer"]): StartCallRequest {
+  return {
+    ref: REF,
+    customer,
+    messages: [
+      { role: "system", content: "You are calling on behalf of Demo Store." },
+      { role: "user", content: "Customer data: ..." },
+    ],
+    tools: [
+      { name: "send_checkout_offer", description: "", parameters: {} },
+      { name: "lookup_product", description: "", parameters: {} },
+    ],
+    language: {
+      language: "en",
+      voice: { provider: "11labs", voiceId: "voice_1" },
+      transcriber: { provider: "deepgram", model: "nova-2", language: "en" },
+    },
+    persona: { agentName: "Mia", firstMessage: "Hi Anna, this is Mia from Demo Store.", endCallPhrases: [] },
+    assistantId: null,
+    phoneNumberId: null,
+    metadata: { ...REF, promptMode: "template" },
+  };
+}
+
+describe("parseWebhook", () => {
+  it("maps call_started to in-progress", () => {
+    expect(retellVoiceProvider.parseWebhook(webhookCallStarted)).toEqual({
+      ref: REF,
+      event: { type: "status", status: "in-progress" },
+    });
+  });
+
+  it("maps call_ended to an end-of-call report", () => {
+    expect(retellVoiceProvider.parseWebhook(webhookCallEnded)).toEqual({
+      ref: REF,
+      event: { type: "end_of_call", report: ENDED_REPORT },
+    });
+  });
+
+  it("detects voicemail and falls back to the timestamps for the duration", () => {
+    const ev = retellVoiceProvider.parseWebhook(webhookCallEndedVoicemail);
+    expect(ev?.ref).toEqual({ shop: REF.shop, callJobId: "cm2x9k1q70002abcd1234efgh", checkoutId: "35816839823699" });
+    expect(ev?.event).toMatchObject({
+      type: "end_of_call",
+      report: { endedReason: "voicemail_reached", voicemail: true, connectedSeconds: 21, customerNumber: "+14155550188" },
+    });
+  });
+
+  it("maps custom function requests to tool calls with a stable id", () => {
+    const call = getCallOngoing.call_id;
+    expect(retellVoiceProvider.parseWebhook(functionSendCheckoutOffer)).toEqual({
+      ref: REF,
+      event: {
+        type: "tool_calls",
+        toolCalls: [
+          {
+            id: `${call}:send_checkout_offer`,
+            name: "send_checkout_offer",
+            arguments: { offerType: "discount", discountPercent: 10, sendSms: true },
+          },
+        ],
+      },
+    });
+    expect(retellVoiceProvider.parseWebhook(functionLookupProduct)?.event).toEqual({
+      type: "tool_calls",
+      toolCalls: [{ id: `${call}:lookup_product`, name: "lookup_product", arguments: { item: "Rain Jacket", variant: "M" } }],
+    });
+  });
+
+  it("ignores events we don't use and calls without our metadata", () => {
+    expect(retellVoiceProvider.parseWebhook({ ...webhookCallEnded, event: "call_analyzed" })).toBeNull();
+    expect(retellVoiceProvider.parseWebhook({ ...webhookCallEnded, call: { ...getCallEnded, metadata: {} } })).toBeNull();
+    expect(retellVoiceProvider.parseWebhook({})).toBeNull();
+  });
+});
+
+describe("readRetellReport", () => {
+  it("reads a get-call response like the webhook", () => {
+    expect(readRetellReport(getCallEnded)).toEqual(ENDED_REPORT);
+  });
+
+  it("tolerates a call that never connected", () => {
+    expect(readRetellReport({ call_status: "ended", disconnection_reason: "dial_no_answer" })).toEqual({
+      endedReason: "dial_no_answer",
+      transcript: "",
+      recordingUrl: null,
+      connectedSeconds: 0,
+      voicemail: false,
+      customerNumber: null,
+    });
+  });
+});
+
+describe("toolCallsResponse", () => {
+  it("returns the tool result or the error as the function result", async () => {
+    const ok = retellVoiceProvider.toolCallsResponse([{ name: "lookup_product", toolCallId: "x", result: '{"ok":true}' }]);
+    expect(await ok.json()).toEqual({ ok: true });
+    const failed = retellVoiceProvider.toolCallsResponse([{ name: "lookup_product", toolCallId: "x", error: "Nope" }]);
+    expect(await failed.json()).toEqual({ ok: false, error: "Nope" });
+  });
+});
+
+describe("Retell API", () => {
+  let stub: StubServer;
+
+  beforeAll(async () => {
+    stub = await startStubServer((req) => {
+      if (req.method === "POST" && req.path === "/v2/create-phone-call") {
+        if (req.body?.to_number === "+10000000000") return { status: 422, json: { error_message: "Invalid to_number" } };
+        return { status: 201, json: createPhoneCall };
+      }
+      if (req.path === `/v2/get-call/${getCallEnded.call_id}`) return { json: getCallEnded };
+      if (req.path === "/v2/get-call/call_ongoing") return { json: getCallOngoing };
+      if (req.path === "/v2/get-call/call_broken") return { status: 500, json: { error_message: "Internal" } };
+      return { status: 404, json: { error_message: "Call not found" } };
+    });
+    vi.stubEnv("RETELL_API_BASE_URL", stub.url);
+    vi.stubEnv("RETELL_API_KEY", "key_test");
+    vi.stubEnv("RETELL_AGENT_ID", createPhoneCall.agent_id);
+    vi.stubEnv("RETELL_FROM_NUMBER", createPhoneCall.from_number);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  it("creates the phone call with the prompt as dynamic variables", async () => {
+    const started = await retellVoiceProvider.startCall(callRequest({ number: "+14155550123", name: "Anna" }));
+
+    expect(started.providerCallId).toBe(createPhoneCall.call_id);
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].headers.authorization).toBe("Bearer key_test");
+    expect(stub.requests[0].body).toEqual({
+      from_number: createPhoneCall.from_number,
+      to_number: "+14155550123",
+      override_agent_id: createPhoneCall.agent_id,
+      metadata: createPhoneCall.metadata,
+      retell_llm_dynamic_variables: {
+        ...createPhoneCall.retell_llm_dynamic_variables,
+        call_prompt: "You are calling on behalf of Demo Store.\n\n[user] Customer data: ...",
+      },
+    });
+  });
+
+  it("looks calls up for reconciliation", async () => {
+    expect(await retellVoiceProvider.fetchCall(getCallEnded.call_id)).toEqual({ kind: "ended", report: ENDED_REPORT });
+    expect(await retellVoiceProvider.fetchCall("call_ongoing")).toEqual({ kind: "live", status: "ongoing" });
+    expect(await retellVoiceProvider.fetchCall("call_unknown")).toEqual({ kind: "missing" });
+    expect(await retellVoiceProvider.fetchCall("call_broken")).toEqual({ kind: "error", error: "HTTP 500" });
+  });
+
+  it("throws when Retell rejects the call", async () => {
+    await expect(retellVoiceProvider.startCall(callRequest({ number: "+10000000000", name: null }))).rejects.toThrow(
+      /Retell create call failed: .*Invalid to_number/
+    );
+  });
+});
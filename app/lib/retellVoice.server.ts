@@ -0,0 +1,196 @@
+// app/lib/retellVoice.server.ts
+import {
+  promptAsText,
+  startCallFetchError,
+  startCallHttpError,
+  startCallTimeoutMs,
+  type StartCallRequest,
+  type VoiceCallLookup,
+  type VoiceCallRef,
+  type VoiceCallReport,
+  type VoiceProvider,
+  type VoiceToolResult,
+  type VoiceWebhookEvent,
+} from "./voiceProvider.shared";
+
+/* =========================
+   Retell AI adapter
+   - POST /v2/create-phone-call on the agent RETELL_AGENT_ID. Retell agents own their LLM config, so the
+     prompt we build is passed as dynamic variables: the agent's prompt must be {{call_prompt}} and its
+     send_checkout_offer and lookup_product custom functions must point at /webhooks/retell (same secret
+     as the webhook); {{tools_enabled}} lists the ones this call may use.
+     The persona's greeting comes in as {{first_message}} (use it as the agent's begin message).
+   - Webhooks: call_started, call_ended (transcript, recording, duration); call_analyzed is not used,
+     we analyze the transcript ourselves like for every provider.
+   - Custom function requests ({ name, call, args }) come in on the same route and get the tool result back.
+   ========================= */
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+function safeStr(v: any, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+/** Retell REST base URL; RETELL_API_BASE_URL points it at a local stand-in in development. */
+export function retellApiBaseUrl() {
+  return String(process.env.RETELL_API_BASE_URL ?? "").trim().replace(/\/+$/, "") || "https://api.retellai.com";
+}
+
+function isConfigured() {
+  return (
+    Boolean(process.env.RETELL_API_KEY?.trim()) &&
+    Boolean(process.env.RETELL_AGENT_ID?.trim()) &&
+    Boolean(process.env.RETELL_FROM_NUMBER?.trim())
+  );
+}
+
+/* =========================
+   Reports
+   ========================= */
+function durationSeconds(call: any) {
+  const ms = Number(call?.duration_ms ?? NaN);
+  if (Number.isFinite(ms) && ms > 0) return Math.floor(ms / 1000);
+
+  const start = Number(call?.start_timestamp ?? NaN);
+  const end = Number(call?.end_timestamp ?? NaN);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return 0;
+  return Math.max(0, Math.floor((end - start) / 1000));
+}
+
+/** Report fields of a Retell call object (call_ended webhook or GET /v2/get-call). */
+export function readRetellReport(call: any): VoiceCallReport {
+  const endedReason = safeStr(call?.disconnection_reason ?? "", 200);
+  const recordingUrl = call?.recording_url ?? null;
+
+  return {
+    endedReason,
+    transcript: safeStr(call?.transcript ?? "", 20000),
+    recordingUrl: recordingUrl ? safeStr(recordingUrl, 2000) : null,
+    connectedSeconds: durationSeconds(call),
+    voicemail: endedReason === "voicemail_reached" || call?.call_analysis?.in_voicemail === true,
+    customerNumber: call?.to_number ? String(call.to_number) : null,
+  };
+}
+
+/* =========================
+   Webhooks
+   ========================= */
+function refFromCall(call: any): VoiceCallRef | null {
+  const meta = call?.metadata ?? {};
+  const ref = {
+    shop: String(meta?.shop ?? "").trim(),
+    callJobId: String(meta?.callJobId ?? "").trim(),
+    checkoutId: String(meta?.checkoutId ?? "").trim() || null,
+  };
+  return ref.shop && ref.callJobId ? ref : null;
+}
+
+function parseWebhook(payload: any): VoiceWebhookEvent | null {
+  const call = payload?.call ?? null;
+  const ref = refFromCall(call);
+  if (!ref) return null;
+
+  // Custom function call: { name, call, args }
+  if (!payload?.event && payload?.name) {
+    const name = String(payload.name).trim();
+    return {
+      ref,
+      event: {
+        type: "tool_calls",
+        // Retell sends no id per invocation; one id per call and function keeps repeats idempotent.
+        toolCalls: [{ id: `${String(call?.call_id ?? "")}:${name}`, name, arguments: payload?.args ?? {} }],
+      },
+    };
+  }
+
+  const event = String(payload?.event ?? "");
+  if (event === "call_started") return { ref, event: { type: "status", status: "in-progress" } };
+  if (event === "call_ended") return { ref, event: { type: "end_of_call", report: readRetellReport(call) } };
+  return null;
+}
+
+function toolCallsResponse(results: VoiceToolResult[]) {
+  // The response body is handed to the agent as the function result.
+  const r = results[0];
+  const body = r?.result ?? JSON.stringify({ ok: false, error: r?.error ?? "No result" });
+  return new Response(body, { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+/* =========================
+   Provider
+   ========================= */
+async function startCall(req: StartCallRequest) {
+  const apiKey = requiredEnv("RETELL_API_KEY");
+  const agentId = requiredEnv("RETELL_AGENT_ID");
+  const fromNumber = requiredEnv("RETELL_FROM_NUMBER");
+
+  // Dynamic variables must be strings.
+  const variables: Record<string, string> = {
+    call_prompt: promptAsText(req.messages),
+    customer_name: req.customer.name ?? "",
+    language: req.language.language,
+    agent_name: req.persona.agentName ?? "",
+    first_message: req.persona.firstMessage ?? "",
+    tools_enabled: req.tools.map((t) => t.name).join(","),
+  };
+
+  const res = await fetch(`${retellApiBaseUrl()}/v2/create-phone-call`, {
+    method: "POST",
+    signal: AbortSignal.timeout(startCallTimeoutMs()),
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      Accept: "application/json",
+    },
+    body: JSON.stringify({
+      from_number: fromNumber,
+      to_number: req.customer.number,
+      override_agent_id: agentId,
+      metadata: req.metadata,
+      retell_llm_dynamic_variables: variables,
+    }),
+  }).catch((e) => {
+    throw startCallFetchError("Retell", e);
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw startCallHttpError("Retell", res.status, json);
+
+  return { providerCallId: String(json?.call_id ?? "") || null, raw: json };
+}
+
+async function fetchCall(providerCallId: string): Promise<VoiceCallLookup> {
+  const apiKey = String(process.env.RETELL_API_KEY ?? "").trim();
+  if (!apiKey) return { kind: "error", error: "Missing env: RETELL_API_KEY" };
+
+  try {
+    const res = await fetch(`${retellApiBaseUrl()}/v2/get-call/${encodeURIComponent(providerCallId)}`, {
+      headers: { Authorization: `Bearer ${apiKey}`, Accept: "application/json" },
+    });
+    if (res.status === 404) return { kind: "missing" };
+    if (!res.ok) return { kind: "error", error: `HTTP ${res.status}` };
+
+    const call = await res.json().catch(() => null);
+    if (!call || typeof call !== "object") return { kind: "error", error: "Invalid JSON" };
+
+    const status = String((call as any)?.call_status ?? "").toLowerCase();
+    if (status === "ended" || status === "error") return { kind: "ended", report: readRetellReport(call) };
+    return { kind: "live", status };
+  } catch (e: any) {
+    return { kind: "error", error: String(e?.message ?? e) };
+  }
+}
+
+export const retellVoiceProvider: VoiceProvider = {
+  id: "retell",
+  label: "Retell AI",
+  isConfigured,
+  startCall,
+  parseWebhook,
+  toolCallsResponse,
+  fetchCall,
+};
@@ -0,0 +1,141 @@
+// app/lib/retryPolicy.shared.ts
+
+/* =========================
+   Outcome-aware retry policy
+   - Keyed on the previous attempt's disposition (analysisJson) / endedReason.
+   - "other" covers everything else (answered calls, provider errors, stale timeouts).
+   ========================= */
+export type RetryOutcomeKey =
+  | "no_answer"
+  | "busy"
+  | "voicemail"
+  | "call_back_later"
+  | "not_interested"
+  | "wrong_number"
+  | "other";
+
+export type RetryMode = "never" | "after" | "escalating";
+
+export type RetryRule = {
+  mode: RetryMode;
+  minutes: number[]; // "after" uses minutes[0]; "escalating" uses minutes[retryIndex] (last one repeats)
+};
+
+export type RetryPolicy = Record<RetryOutcomeKey, RetryRule>;
+
+export const RETRY_OUTCOME_KEYS: RetryOutcomeKey[] = [
+  "no_answer",
+  "busy",
+  "voicemail",
+  "call_back_later",
+  "not_interested",
+  "wrong_number",
+  "other",
+];
+
+export const RETRY_OUTCOME_LABELS: Record<RetryOutcomeKey, string> = {
+  no_answer: "No answer",
+  busy: "Busy",
+  voicemail: "Voicemail",
+  call_back_later: "Asked to call back later",
+  not_interested: "Not interested",
+  wrong_number: "Wrong number",
+  other: "Anything else",
+};
+
+const MAX_DELAY_MINUTES = 14 * 24 * 60;
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function cleanMinutes(list: any): number[] {
+  const arr = Array.isArray(list) ? list : [list];
+  return arr
+    .map((x) => Math.round(Number(x)))
+    .filter((n) => Number.isFinite(n) && n >= 0)
+    .map((n) => Math.min(n, MAX_DELAY_MINUTES))
+    .slice(0, 10);
+}
+
+function pickMode(v: any): RetryMode {
+  const s = String(v ?? "").trim();
+  return s === "never" || s === "escalating" ? s : "after";
+}
+
+/** Defaults keep the old flat retryMinutes behaviour, except for outcomes that should never be retried. */
+export function defaultRetryPolicy(retryMinutes: number): RetryPolicy {
+  const m = Math.max(0, Math.round(Number(retryMinutes ?? 180)) || 0);
+  return {
+    no_answer: { mode: "after", minutes: [m] },
+    busy: { mode: "after", minutes: [m] },
+    voicemail: { mode: "after", minutes: [m] },
+    call_back_later: { mode: "after", minutes: [m] },
+    not_interested: { mode: "never", minutes: [] },
+    wrong_number: { mode: "never", minutes: [] },
+    other: { mode: "after", minutes: [m] },
+  };
+}
+
+export function parseRetryPolicy(json: string | null | undefined, retryMinutes: number): RetryPolicy {
+  const base = defaultRetryPolicy(retryMinutes);
+  const j = safeJsonParse(json);
+  if (!j || typeof j !== "object") return base;
+
+  const out = { ...base };
+  for (const key of RETRY_OUTCOME_KEYS) {
+    const r = j[key];
+    if (!r || typeof r !== "object") continue;
+    const mode = pickMode(r.mode);
+    const minutes = cleanMinutes(r.minutes);
+    out[key] = mode !== "never" && !minutes.length ? base[key] : { mode, minutes: mode === "never" ? [] : minutes };
+  }
+  return out;
+}
+
+export function serializeRetryPolicy(p: RetryPolicy): string {
+  const out: Record<string, RetryRule> = {};
+  for (const key of RETRY_OUTCOME_KEYS) {
+    const r = p[key];
+    const mode = pickMode(r?.mode);
+    out[key] = { mode, minutes: mode === "never" ? [] : cleanMinutes(r?.minutes) };
+  }
+  return JSON.stringify(out);
+}
+
+/** Which retry rule applies to a finished job. Disposition wins over endedReason. */
+export function classifyRetryOutcome(job: {
+  endedReason?: string | null;
+  analysisJson?: string | null;
+}): RetryOutcomeKey {
+  const analysis = safeJsonParse(job.analysisJson);
+  const disposition = String(analysis?.disposition ?? "").trim().toLowerCase();
+  if (disposition === "wrong_number" || disposition === "not_interested" || disposition === "call_back_later") {
+    return disposition;
+  }
+  if (disposition === "do_not_call") return "not_interested";
+
+  const r = String(job.endedReason ?? "").toLowerCase();
+  if (r.includes("voicemail") || r.includes("machine")) return "voicemail";
+  if (r.includes("busy")) return "busy";
+  if (r.includes("did-not-answer") || r.includes("no-answer") || r.includes("no_answer")) return "no_answer";
+  if (analysis?.answered === false) return "no_answer";
+
+  return "other";
+}
+
+/**
+ * Delay before the next attempt, or null when the rule says never.
+ * retryIndex = 0 for the first retry in the cycle, 1 for the second, ...
+ */
+export function retryDelayMinutes(rule: RetryRule, retryIndex: number): number | null {
+  if (rule.mode === "never" || !rule.minutes.length) return null;
+  if (rule.mode === "after") return rule.minutes[0];
+  const i = Math.max(0, Math.min(rule.minutes.length - 1, Math.floor(retryIndex)));
+  return rule.minutes[i];
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { buildRuleContext, cleanRule, evaluateRules, mergeProductTags } from "./rules.shared";
+
+// The same cart as the GraphQL sync stores it (product tags included)...
+const SYNCED_RAW = {
+  id: "gid://shopify/AbandonedCheckout/35816839823612",
+  lineItems: {
+    edges: [
+      { node: { title: "Rain Jacket", quantity: 1, product: { id: "gid://shopify/Product/7001", vendor: "Nordwind", tags: ["Sale", "outerwear"] } } },
+      { node: { title: "Wool Socks", quantity: 2, product: { id: "gid://shopify/Product/7002", vendor: "Nordwind", tags: [] } } },
+    ],
+  },
+};
+
+// ...and as a checkouts/update webhook (REST) replaces it afterwards: no tags.
+const WEBHOOK_RAW = {
+  id: 35816839823612,
+  line_items: [
+    { title: "Rain Jacket", quantity: 1, product_id: 7001, vendor: "Nordwind" },
+    { title: "Wool Socks", quantity: 3, product_id: 7002, vendor: "Nordwind" },
+  ],
+};
+
+const SALE_RULE = cleanRule({ name: "Sale items", when: { productTags: "sale" }, action: { type: "skip" } }, "r_sale");
+
+function context(raw: any, productTagsJson: string | null) {
+  return buildRuleContext({ raw, itemsJson: null, value: 100, currency: "EUR", abandonedAt: null, productTagsJson });
+}
+
+describe("product tag rules", () => {
+  it("match on tags from the synced payload", () => {
+    expect(context(SYNCED_RAW, null).productTags).toEqual(["sale", "outerwear"]);
+    expect(evaluateRules([SALE_RULE], context(SYNCED_RAW, null))?.id).toBe("r_sale");
+  });
+
+  it("keep matching after a webhook replaced the payload without tags", () => {
+    const stored = mergeProductTags(null, SYNCED_RAW);
+
+    expect(context(WEBHOOK_RAW, null).productTags).toEqual([]);
+    expect(context(WEBHOOK_RAW, stored).productTags).toEqual(["sale", "outerwear"]);
+    expect(evaluateRules([SALE_RULE], context(WEBHOOK_RAW, stored))?.id).toBe("r_sale");
+  });
+
+  it("only use stored tags for products still in the cart", () => {
+    const stored = mergeProductTags(null, SYNCED_RAW);
+    const socksOnly = { line_items: [{ title: "Wool Socks", quantity: 1, product_id: 7002 }] };
+
+    expect(evaluateRules([SALE_RULE], context(socksOnly, stored))).toBeNull();
+  });
+});
+
+describe("mergeProductTags", () => {
+  it("keys tags by numeric product id and keeps products from earlier syncs", () => {
+    const first = mergeProductTags(null, SYNCED_RAW);
+    expect(JSON.parse(first ?? "")).toEqual({ "7001": ["sale", "outerwear"], "7002": [] });
+
+    const later = {
+      lineItems: { edges: [{ node: { product: { id: "gid://shopify/Product/7001", tags: ["clearance"] } } }] },
+    };
+    expect(JSON.parse(mergeProductTags(first, later) ?? "")).toEqual({ "7001": ["clearance"], "7002": [] });
+  });
+
+  it("leaves stored tags alone for payloads without tags", () => {
+    const stored = mergeProductTags(null, SYNCED_RAW);
+    expect(mergeProductTags(stored, WEBHOOK_RAW)).toBe(stored);
+    expect(mergeProductTags(null, WEBHOOK_RAW)).toBeNull();
+  });
+});
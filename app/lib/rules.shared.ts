@@ -0,0 +1,335 @@
+// app/lib/rules.shared.ts
+import { cartValueInShopCurrency, customerOrdersCount } from "./priority.shared";
+import { extractCheckoutLocation } from "./timezones.shared";
+
+/* =========================
+   Call rules
+   - Ordered per shop (Settings.rulesJson); the first enabled rule whose conditions all match wins.
+   - Empty conditions match everything, so a rule without conditions is a catch-all.
+   - Evaluated at enqueue (skip / delay) and again right before dialing (everything else).
+   ========================= */
+export type RuleCustomer = "any" | "new" | "returning";
+
+export type RuleConditions = {
+  cartMin: number | null; // shop currency
+  cartMax: number | null;
+  countries: string[]; // ISO2
+  currencies: string[]; // checkout (presentment) currency
+  productTags: string[]; // any line item's product has one of these tags
+  vendors: string[]; // any line item is from one of these vendors
+  itemsMin: number | null;
+  itemsMax: number | null;
+  customer: RuleCustomer;
+  abandonedMinMinutes: number | null; // time since abandonment
+  abandonedMaxMinutes: number | null;
+};
+
+export type RuleActionType = "skip" | "delay" | "playbook" | "cap_discount" | "sms_only";
+
+export type RuleAction = {
+  type: RuleActionType;
+  delayMinutes: number | null; // delay
+  tone: string | null; // playbook
+  goal: string | null;
+  offerRule: string | null;
+  maxDiscountPercent: number | null; // cap_discount
+};
+
+export type CallRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  when: RuleConditions;
+  action: RuleAction;
+};
+
+export type RuleContext = {
+  cartValue: number; // shop currency
+  currency: string | null;
+  country: string | null;
+  productTags: string[];
+  vendors: string[];
+  itemCount: number;
+  returning: boolean;
+  minutesSinceAbandoned: number | null;
+};
+
+export const RULE_SKIP = "RULE_SKIP";
+export const RULE_DELAY = "RULE_DELAY";
+export const RULE_SMS_ONLY = "RULE_SMS_ONLY";
+
+export const MAX_RULES = 50;
+
+export const RULE_ACTIONS: Array<{ value: RuleActionType; label: string }> = [
+  { value: "skip", label: "Don't call" },
+  { value: "delay", label: "Delay the call" },
+  { value: "playbook", label: "Use a different tone / goal / offer rule" },
+  { value: "cap_discount", label: "Cap the discount" },
+  { value: "sms_only", label: "Send SMS only (no call)" },
+];
+
+export const RULE_TONES = ["neutral", "friendly", "premium", "urgent"];
+export const RULE_GOALS = ["complete_checkout", "qualify_and_follow_up", "support_only"];
+export const RULE_OFFER_RULES = ["ask_only", "price_objection", "after_first_objection", "always"];
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function num(v: any, min: number, max: number): number | null {
+  if (v == null || String(v).trim() === "") return null;
+  const n = Number(v);
+  if (!Number.isFinite(n)) return null;
+  return Math.max(min, Math.min(max, n));
+}
+
+/** "gift, Sale ,gift" -> ["gift", "sale"]; arrays pass through the same cleanup. */
+export function parseRuleList(v: any, upper = false): string[] {
+  const parts = Array.isArray(v) ? v : String(v ?? "").split(/[,\n]/);
+  const out = parts
+    .map((s) => String(s ?? "").trim())
+    .filter(Boolean)
+    .map((s) => (upper ? s.toUpperCase() : s.toLowerCase()));
+  return Array.from(new Set(out)).slice(0, 100);
+}
+
+function pickFrom(v: any, allowed: string[]): string | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return allowed.includes(s) ? s : null;
+}
+
+function cleanConditions(w: any): RuleConditions {
+  const customer = String(w?.customer ?? "any");
+  return {
+    cartMin: num(w?.cartMin, 0, 1_000_000),
+    cartMax: num(w?.cartMax, 0, 1_000_000),
+    countries: parseRuleList(w?.countries, true).filter((c) => /^[A-Z]{2}$/.test(c)),
+    currencies: parseRuleList(w?.currencies, true).filter((c) => /^[A-Z]{3}$/.test(c)),
+    productTags: parseRuleList(w?.productTags),
+    vendors: parseRuleList(w?.vendors),
+    itemsMin: num(w?.itemsMin, 0, 1000),
+    itemsMax: num(w?.itemsMax, 0, 1000),
+    customer: customer === "new" || customer === "returning" ? customer : "any",
+    abandonedMinMinutes: num(w?.abandonedMinMinutes, 0, 60 * 24 * 30),
+    abandonedMaxMinutes: num(w?.abandonedMaxMinutes, 0, 60 * 24 * 30),
+  };
+}
+
+function cleanAction(a: any): RuleAction {
+  const type = (RULE_ACTIONS.find((x) => x.value === a?.type)?.value ?? "skip") as RuleActionType;
+  const delay = num(a?.delayMinutes, 1, 60 * 24 * 7);
+  const cap = num(a?.maxDiscountPercent, 0, 50);
+  return {
+    type,
+    delayMinutes: type === "delay" ? Math.round(delay ?? 60) : null,
+    tone: type === "playbook" ? pickFrom(a?.tone, RULE_TONES) : null,
+    goal: type === "playbook" ? pickFrom(a?.goal, RULE_GOALS) : null,
+    offerRule: type === "playbook" ? pickFrom(a?.offerRule, RULE_OFFER_RULES) : null,
+    maxDiscountPercent: type === "cap_discount" ? Math.round(cap ?? 0) : null,
+  };
+}
+
+export function cleanRule(r: any, fallbackId: string): CallRule {
+  const id = String(r?.id ?? "").trim().slice(0, 40) || fallbackId;
+  return {
+    id,
+    name: String(r?.name ?? "").trim().slice(0, 80) || "Untitled rule",
+    enabled: r?.enabled !== false,
+    when: cleanConditions(r?.when),
+    action: cleanAction(r?.action),
+  };
+}
+
+export function parseCallRules(json: string | null | undefined): CallRule[] {
+  const j = safeJsonParse(json);
+  if (!Array.isArray(j)) return [];
+  const seen = new Set<string>();
+  const out: CallRule[] = [];
+  for (const [i, r] of j.slice(0, MAX_RULES).entries()) {
+    const rule = cleanRule(r, `rule_${i + 1}`);
+    if (seen.has(rule.id)) rule.id = `${rule.id}_${i + 1}`;
+    seen.add(rule.id);
+    out.push(rule);
+  }
+  return out;
+}
+
+/** null when there are no rules. */
+export function serializeCallRules(rules: CallRule[]): string | null {
+  return rules.length ? JSON.stringify(rules.slice(0, MAX_RULES)) : null;
+}
+
+export function newRuleId() {
+  return `r_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/* =========================
+   Context
+   ========================= */
+type LineItemInfo = { quantity: number; vendor: string | null; tags: string[] | null; productId: string | null };
+
+/** Product id without the GraphQL prefix: "gid://shopify/Product/123" and 123 both give "123". */
+function productKey(v: any) {
+  return String(v ?? "").trim().split("/").pop() ?? "";
+}
+
+/**
+ * Line items from REST (line_items) or GraphQL (lineItems.edges[].node) checkout payloads.
+ * tags is null when the payload doesn't carry them (REST checkout webhooks).
+ */
+function lineItemsFromRaw(raw: any): LineItemInfo[] {
+  const r = safeJsonParse(raw) ?? {};
+  const rest = Array.isArray(r?.line_items) ? r.line_items : null;
+  const gql = Array.isArray(r?.lineItems?.edges) ? r.lineItems.edges.map((e: any) => e?.node) : null;
+  const lines: any[] = rest ?? gql ?? [];
+
+  return lines.filter(Boolean).map((li: any) => {
+    const tags = li?.product?.tags ?? li?.tags ?? null;
+    return {
+      quantity: Math.max(1, Number(li?.quantity) || 1),
+      vendor: String(li?.vendor ?? li?.product?.vendor ?? "").trim() || null,
+      tags: tags == null ? null : Array.isArray(tags) ? tags.map(String) : String(tags).split(","),
+      productId: productKey(li?.product_id ?? li?.product?.id) || null,
+    };
+  });
+}
+
+function productTagsById(v: any): Record<string, string[]> {
+  const j = safeJsonParse(v);
+  return j && typeof j === "object" && !Array.isArray(j) ? j : {};
+}
+
+/**
+ * Checkout.productTagsJson: tags by product id, from every payload that carried them, merged over `prev`.
+ * Checkout webhooks replace `raw` without tags, so rules read the tags from here.
+ */
+export function mergeProductTags(prev: any, raw: any): string | null {
+  const out = productTagsById(prev);
+  for (const l of lineItemsFromRaw(raw)) {
+    if (l.productId && l.tags) out[l.productId] = parseRuleList(l.tags);
+  }
+  return Object.keys(out).length ? JSON.stringify(out) : null;
+}
+
+function itemCountFromItemsJson(itemsJson: any): number | null {
+  const items = safeJsonParse(itemsJson);
+  if (!Array.isArray(items) || !items.length) return null;
+  return items.reduce((s: number, it: any) => s + Math.max(1, Number(it?.quantity) || 1), 0);
+}
+
+export function buildRuleContext(args: {
+  raw: any;
+  itemsJson: any;
+  value: number | null;
+  currency: string | null;
+  abandonedAt: Date | string | null;
+  productTagsJson?: any; // Checkout.productTagsJson, for line items whose payload has no tags
+  priorOrders?: number; // extra history known to the caller (e.g. converted checkouts by email)
+  now?: Date;
+}): RuleContext {
+  const now = args.now ?? new Date();
+  const lines = lineItemsFromRaw(args.raw);
+  const knownTags = productTagsById(args.productTagsJson);
+  const cart = cartValueInShopCurrency(args.raw, { value: Number(args.value ?? 0), currency: args.currency ?? null });
+  const abandonedMs = args.abandonedAt ? new Date(args.abandonedAt).getTime() : NaN;
+
+  return {
+    cartValue: cart.value,
+    currency: String(args.currency ?? cart.currency ?? "").toUpperCase() || null,
+    country: extractCheckoutLocation(args.raw).iso2,
+    productTags: parseRuleList(lines.flatMap((l) => l.tags ?? (l.productId ? knownTags[l.productId] : null) ?? [])),
+    vendors: parseRuleList(lines.map((l) => l.vendor ?? "")),
+    itemCount: itemCountFromItemsJson(args.itemsJson) ?? lines.reduce((s, l) => s + l.quantity, 0),
+    returning: Math.max(customerOrdersCount(args.raw), Number(args.priorOrders ?? 0)) > 0,
+    minutesSinceAbandoned: Number.isFinite(abandonedMs) ? Math.max(0, (now.getTime() - abandonedMs) / 60000) : null,
+  };
+}
+
+/* =========================
+   Evaluation
+   ========================= */
+function inRange(x: number | null, min: number | null, max: number | null) {
+  if (min == null && max == null) return true;
+  if (x == null) return false;
+  if (min != null && x < min) return false;
+  if (max != null && x > max) return false;
+  return true;
+}
+
+function anyOf(have: string[], want: string[]) {
+  return !want.length || have.some((h) => want.includes(h));
+}
+
+export function ruleMatches(rule: CallRule, ctx: RuleContext) {
+  const w = rule.when;
+  if (!inRange(ctx.cartValue, w.cartMin, w.cartMax)) return false;
+  if (!inRange(ctx.itemCount, w.itemsMin, w.itemsMax)) return false;
+  if (!inRange(ctx.minutesSinceAbandoned, w.abandonedMinMinutes, w.abandonedMaxMinutes)) return false;
+  if (w.countries.length && !(ctx.country && w.countries.includes(ctx.country.toUpperCase()))) return false;
+  if (w.currencies.length && !(ctx.currency && w.currencies.includes(ctx.currency.toUpperCase()))) return false;
+  if (!anyOf(ctx.productTags, w.productTags)) return false;
+  if (!anyOf(ctx.vendors, w.vendors)) return false;
+  if (w.customer === "new" && ctx.returning) return false;
+  if (w.customer === "returning" && !ctx.returning) return false;
+  return true;
+}
+
+/** First enabled matching rule, in order. */
+export function evaluateRules(rules: CallRule[], ctx: RuleContext): CallRule | null {
+  return rules.find((r) => r.enabled && ruleMatches(r, ctx)) ?? null;
+}
+
+export function ruleOutcome(prefix: string, rule: CallRule) {
+  return `${prefix}: ${rule.name}`;
+}
+
+/** Discount cap (percent) from the rule snapshot stored in CallJob.analysisJson when the call started. */
+export function ruleDiscountCap(analysis: any): number | null {
+  const a = safeJsonParse(analysis)?.rule?.action;
+  if (a?.type !== "cap_discount") return null;
+  const n = Number(a.maxDiscountPercent);
+  return Number.isFinite(n) ? Math.max(0, n) : 0;
+}
+
+/* =========================
+   Display
+   ========================= */
+function range(label: string, min: number | null, max: number | null, unit = "") {
+  if (min != null && max != null) return `${label} ${min}–${max}${unit}`;
+  if (min != null) return `${label} ≥ ${min}${unit}`;
+  if (max != null) return `${label} ≤ ${max}${unit}`;
+  return null;
+}
+
+/** "Cart ≥ 200 · Country DE, AT · Returning customer" or "Always". */
+export function describeConditions(w: RuleConditions) {
+  const parts = [
+    range("Cart", w.cartMin, w.cartMax),
+    w.countries.length ? `Country ${w.countries.join(", ")}` : null,
+    w.currencies.length ? `Currency ${w.currencies.join(", ")}` : null,
+    w.productTags.length ? `Tag ${w.productTags.join(", ")}` : null,
+    w.vendors.length ? `Vendor ${w.vendors.join(", ")}` : null,
+    range("Items", w.itemsMin, w.itemsMax),
+    w.customer === "new" ? "New customer" : w.customer === "returning" ? "Returning customer" : null,
+    range("Abandoned", w.abandonedMinMinutes, w.abandonedMaxMinutes, " min ago"),
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "Always";
+}
+
+export function describeAction(a: RuleAction) {
+  if (a.type === "skip") return "Don't call";
+  if (a.type === "delay") return `Delay by ${a.delayMinutes ?? 0} min`;
+  if (a.type === "cap_discount") return `Cap discount at ${a.maxDiscountPercent ?? 0}%`;
+  if (a.type === "sms_only") return "SMS only";
+  const parts = [
+    a.tone ? `tone ${a.tone}` : null,
+    a.goal ? `goal ${a.goal}` : null,
+    a.offerRule ? `offer ${a.offerRule}` : null,
+  ].filter(Boolean);
+  return parts.length ? `Use ${parts.join(", ")}` : "No change";
+}
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+// In-memory stand-in for the tables a call touches; `where` is plain equality, like the pipeline's queries.
+const mocks = vi.hoisted(() => {
+  type Row = Record<string, any>;
+  type Query = { where: Row; data: Row; create: Row; update: Row };
+
+  const tables: Record<string, Row[]> = {};
+  const rows = (name: string) => (tables[name] ??= []);
+
+  const matches = (row: Row, where: Row = {}) =>
+    Object.entries(where).every(([k, v]) => {
+      if (v !== null && typeof v === "object") throw new Error(`unsupported filter on ${k}`);
+      return row[k] === v;
+    });
+
+  const model = (name: string) => ({
+    findFirst: async ({ where }: Query) => rows(name).find((r) => matches(r, where)) ?? null,
+    findUnique: async ({ where }: Query) => rows(name).find((r) => matches(r, where)) ?? null,
+    create: async ({ data }: Query) => {
+      const row = { id: `${name}_${rows(name).length + 1}`, createdAt: new Date(), ...data };
+      rows(name).push(row);
+      return row;
+    },
+    update: async ({ where, data }: Query) => {
+      const row = rows(name).find((r) => matches(r, where));
+      if (!row) throw new Error(`${name} not found`);
+      return Object.assign(row, data);
+    },
+    updateMany: async ({ where, data }: Query) => {
+      const hit = rows(name).filter((r) => matches(r, where));
+      for (const r of hit) Object.assign(r, data);
+      return { count: hit.length };
+    },
+    upsert: async ({ where, create, update }: Query) => {
+      const row = rows(name).find((r) => matches(r, where));
+      if (row) return Object.assign(row, update);
+      rows(name).push({ ...create });
+      return create;
+    },
+  });
+
+  const db: any = {
+    callJob: model("callJob"),
+    callJobEvent: model("callJobEvent"),
+    checkout: model("checkout"),
+    settings: model("settings"),
+    shopBilling: model("shopBilling"),
+    callCharge: model("callCharge"),
+    eventLog: model("eventLog"),
+    $transaction: async (fn: (tx: typeof db) => unknown) => fn(db),
+  };
+
+  return { tables, rows, db, findSessionsByShop: vi.fn(), fetch: vi.fn() };
+});
+
+vi.mock("../db.server", () => ({ default: mocks.db }));
+vi.mock("../shopify.server", () => ({ sessionStorage: { findSessionsByShop: mocks.findSessionsByShop } }));
+
+import { simCallPlayed, simVoiceProvider } from "./simVoice.server";
+import type { StartCallRequest } from "./voiceProvider.shared";
+
+const SHOP = "demo-store.myshopify.com";
+
+function request(number: string): StartCallRequest {
+  const ref = { shop: SHOP, callJobId: "cj_1", checkoutId: "co_1" };
+  return {
+    ref,
+    customer: { number, name: "Anna" },
+    messages: [{ role: "system", content: "You are calling on behalf of Demo Store." }],
+    tools: [{ name: "send_checkout_offer", description: "Text the checkout link", parameters: {} }],
+    language: {
+      language: "en",
+      voice: { provider: "11labs", voiceId: "voice_1" },
+      transcriber: { provider: "deepgram", model: "nova-2", language: "en" },
+    },
+    persona: { agentName: null, firstMessage: null, endCallPhrases: [] },
+    assistantId: null,
+    phoneNumberId: null,
+    metadata: ref,
+  };
+}
+
+// Plays the call the way startCallForJob leaves it: CALLING on the simulator, with the call id recorded.
+async function playCall(number: string) {
+  const job: Record<string, any> = { id: "cj_1", shop: SHOP, checkoutId: "co_1", phone: number, status: "CALLING", provider: "sim" };
+  mocks.rows("callJob").push(job);
+
+  const started = await simVoiceProvider.startCall(request(number));
+  job.providerCallId = started.providerCallId;
+  await simCallPlayed(String(started.providerCallId));
+  return { job, started };
+}
+
+const events = (code: string) => mocks.rows("eventLog").filter((e) => e.code === code);
+
+beforeAll(() => {
+  vi.stubEnv("SIM_VOICE_STEP_MS", "0");
+  // A real SMS transport and Shopify session are configured: the simulator must still use neither.
+  vi.stubEnv("BREVO_API_KEY", "brevo-key");
+  vi.stubEnv("BREVO_SMS_SENDER", "DemoStore");
+  vi.stubGlobal("fetch", mocks.fetch);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  for (const k of Object.keys(mocks.tables)) delete mocks.tables[k];
+  mocks.fetch.mockRejectedValue(new Error("no network in tests"));
+  mocks.findSessionsByShop.mockResolvedValue([{ isOnline: false, accessToken: "shpat_test" }]);
+
+  mocks.rows("shopBilling").push({ shop: SHOP, plan: "PRO" });
+  mocks.rows("settings").push({ shop: SHOP, discountEnabled: true, maxDiscountPercent: 15, followupSmsEnabled: true });
+  mocks.rows("checkout").push({
+    shop: SHOP,
+    checkoutId: "co_1",
+    email: "anna@example.com",
+    value: 120,
+    currency: "EUR",
+    raw: JSON.stringify({ abandonedCheckoutUrl: "https://demo-store.myshopify.com/checkouts/co_1/recover?key=abc" }),
+  });
+});
+
+describe("simulated call", () => {
+  it("plays a discount call through the webhook pipeline without a Shopify code, SMS or charge", async () => {
+    const { job, started } = await playCall("+14155550121");
+
+    expect(started.raw).toMatchObject({ scenario: "discount" });
+    expect(job.status).toBe("COMPLETED");
+    expect(job.transcript).toContain("The code is in the text with your checkout link.");
+    expect(JSON.parse(job.analysisJson)).toMatchObject({ simulated: true, scenario: "discount", disposition: "interested" });
+    expect(job.sentiment).toBe("positive");
+    expect(mocks.rows("callJobEvent").map((e) => `${e.fromStatus}->${e.toStatus} (${e.source})`)).toEqual([
+      "CALLING->COMPLETED (sim_status)",
+    ]);
+
+    // The offer went through the real checks but stayed simulated.
+    expect(events("TOOL_CALL")).toEqual([expect.objectContaining({ level: "info", message: "send_checkout_offer: discount" })]);
+    expect(events("SMS_SENT")).toEqual([expect.objectContaining({ message: "Checkout link (simulated call, not sent)" })]);
+    expect(JSON.parse(events("SMS_SENT")[0].detailsJson)).toMatchObject({ simulated: true, messageId: `sim_${started.providerCallId}_tool_1` });
+    expect(mocks.findSessionsByShop).not.toHaveBeenCalled();
+    expect(mocks.fetch).not.toHaveBeenCalled();
+
+    expect(mocks.rows("callCharge")).toEqual([expect.objectContaining({ callJobId: "cj_1", amountCents: 0, minutesBilled: 0 })]);
+    expect(events("BILLING")).toEqual([expect.objectContaining({ message: "Simulated call, not billed" })]);
+  });
+
+  it("sends the link only, with no offer code, on a recovered call", async () => {
+    const { job } = await playCall("+14155550120");
+
+    expect(job.status).toBe("COMPLETED");
+    expect(JSON.parse(job.analysisJson)).toMatchObject({ simulated: true, scenario: "recovered" });
+    expect(JSON.parse(events("TOOL_CALL")[0].detailsJson)).toMatchObject({ requestedType: "link_only", offerCode: null });
+    expect(mocks.fetch).not.toHaveBeenCalled();
+    expect(mocks.rows("callCharge")[0]).toMatchObject({ amountCents: 0 });
+  });
+
+  it("logs a script that fails as CALL_FAILED", async () => {
+    vi.spyOn(mocks.db.callJob, "updateMany").mockRejectedValueOnce(new Error("database is down"));
+
+    const { job } = await playCall("+14155550122");
+
+    expect(job.status).toBe("CALLING");
+    expect(events("CALL_FAILED")).toEqual([
+      expect.objectContaining({ level: "error", callJobId: "cj_1", message: "Simulated call stopped: database is down" }),
+    ]);
+  });
+});
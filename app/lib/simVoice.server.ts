@@ -0,0 +1,413 @@
+// app/lib/simVoice.server.ts
+import { randomBytes } from "node:crypto";
+import { logEvent } from "./eventLog.server";
+import type {
+  StartCallRequest,
+  VoiceCallLookup,
+  VoiceCallRef,
+  VoiceCallReport,
+  VoiceEvent,
+  VoiceProvider,
+  VoiceToolResult,
+  VoiceWebhookEvent,
+} from "./voiceProvider.shared";
+
+/* =========================
+   Simulator adapter
+   - No network and no credentials: startCall returns a sim_ call id and plays a scripted call
+     through the real webhook pipeline (status -> tool call -> final transcript -> end-of-call report),
+     SIM_VOICE_STEP_MS apart. Tool calls go through the real offer checks and the script follows their result,
+     but jobs with provider "sim" never create a Shopify code, send a text or get billed.
+   - The script is picked from the last digit of the customer's number, so a number always plays the same call.
+   - Calls are kept in memory for fetchCall; after a restart they are "missing", like a call the provider lost.
+   - SIM_VOICE_STEP_MS is read per call, so 0 plays the whole call without waiting (tests); simCallPlayed
+     resolves once it has. A script that fails is logged as CALL_FAILED and the job is left to the stale-call expiry.
+   ========================= */
+type SimScenario = {
+  key: string;
+  endedReason: string;
+  seconds: number;
+  // Offer the agent sends with send_checkout_offer (when the call has that tool).
+  offer: { offerType: "link_only" | "discount" | "free_shipping"; discountPercent?: number } | null;
+  lines: string[]; // before the tool call
+  after: { sent: string[]; notSent: string[] } | null;
+  analysis: Record<string, any> | null;
+};
+
+const SIM_SCENARIOS: SimScenario[] = [
+  {
+    key: "recovered",
+    endedReason: "customer-ended-call",
+    seconds: 74,
+    offer: { offerType: "link_only" },
+    lines: [
+      "AI: Hi, this is the store calling about the order you almost placed. Do you want a hand finishing it?",
+      "User: Oh yes, I got distracted. Can you send me the link?",
+      "AI: I'll send that by text right now.",
+    ],
+    after: {
+      sent: ["AI: Done, the text is on its way.", "User: Got it, thanks. I'll finish it now."],
+      notSent: ["AI: I couldn't send the text just now, but your cart is saved in the email we sent.", "User: Okay, I'll find it."],
+    },
+    analysis: {
+      answered: true,
+      sentiment: "positive",
+      disposition: "interested",
+      tags: ["timing"],
+      shortSummary: "Customer got distracted and asked for the checkout link by text.",
+      reason: "The customer was interrupted during checkout and wants to finish.",
+      nextAction: "No action needed unless the order doesn't come in today.",
+      followUp: "Here is your checkout link again in case you need it.",
+      buyProbability: 0.8,
+      churnProbability: 0.1,
+      confidence: 0.9,
+    },
+  },
+  {
+    key: "discount",
+    endedReason: "customer-ended-call",
+    seconds: 96,
+    offer: { offerType: "discount", discountPercent: 10 },
+    lines: [
+      "AI: Hi, this is the store calling about your checkout. Anything stopping you from completing it?",
+      "User: Honestly it's a bit more than I wanted to spend.",
+      "AI: I understand. I can offer you ten percent off if you complete it today. Want me to text you the code?",
+      "User: Sure, go ahead.",
+      "AI: I'll send that by text right now.",
+    ],
+    after: {
+      sent: ["AI: Sent. The code is in the text with your checkout link.", "User: Great, thank you."],
+      notSent: ["AI: I'm sorry, I couldn't create the code right now. The store will follow up by email.", "User: Okay."],
+    },
+    analysis: {
+      answered: true,
+      sentiment: "positive",
+      disposition: "interested",
+      tags: ["price", "coupon_request"],
+      shortSummary: "Price objection, customer accepted a 10% discount by text.",
+      reason: "The total was above the customer's budget; a discount resolved it.",
+      nextAction: "Check the discount code is redeemed within 24 hours.",
+      followUp: "Your 10% code is waiting for you, it's valid for 24 hours.",
+      buyProbability: 0.7,
+      churnProbability: 0.2,
+      confidence: 0.85,
+    },
+  },
+  {
+    key: "call_back_later",
+    endedReason: "customer-ended-call",
+    seconds: 31,
+    offer: null,
+    lines: [
+      "AI: Hi, this is the store calling about your checkout. Is now a good time?",
+      "User: Not really, I'm at work. Can you call me tomorrow?",
+      "AI: Of course, we'll try again later. Have a good day.",
+    ],
+    after: null,
+    analysis: {
+      answered: true,
+      sentiment: "neutral",
+      disposition: "call_back_later",
+      tags: ["call_back_later", "timing"],
+      shortSummary: "Customer was busy and asked to be called back tomorrow.",
+      reason: "Bad timing, no objection to the purchase itself.",
+      nextAction: "Let the next attempt go ahead tomorrow.",
+      followUp: "Sorry we caught you at a bad time, your cart is saved.",
+      buyProbability: 0.45,
+      churnProbability: 0.3,
+      confidence: 0.7,
+    },
+  },
+  {
+    key: "not_interested",
+    endedReason: "customer-ended-call",
+    seconds: 28,
+    offer: null,
+    lines: [
+      "AI: Hi, this is the store calling about the items in your cart. Can I help you complete the order?",
+      "User: No thanks, I found it somewhere else.",
+      "AI: No problem, thanks for your time.",
+    ],
+    after: null,
+    analysis: {
+      answered: true,
+      sentiment: "neutral",
+      disposition: "not_interested",
+      tags: ["not_interested"],
+      shortSummary: "Customer bought elsewhere.",
+      reason: "The customer found the product at another store.",
+      nextAction: "Stop follow-ups for this checkout.",
+      followUp: "",
+      buyProbability: 0.05,
+      churnProbability: 0.8,
+      confidence: 0.9,
+    },
+  },
+  {
+    key: "voicemail",
+    endedReason: "voicemail",
+    seconds: 22,
+    offer: null,
+    lines: ["AI: Hi, this is the store calling about your recent checkout. We'll try you again later. Bye!"],
+    after: null,
+    analysis: {
+      answered: false,
+      sentiment: "neutral",
+      disposition: "unknown",
+      tags: [],
+      shortSummary: "Reached voicemail.",
+      reason: "The call went to voicemail.",
+      nextAction: "Retry per the attempt policy.",
+      followUp: "",
+      buyProbability: 0.3,
+      churnProbability: 0.4,
+      confidence: 0.6,
+    },
+  },
+  {
+    key: "no_answer",
+    endedReason: "customer-did-not-answer",
+    seconds: 0,
+    offer: null,
+    lines: [],
+    after: null,
+    analysis: null,
+  },
+  {
+    key: "do_not_call",
+    endedReason: "customer-ended-call",
+    seconds: 15,
+    offer: null,
+    lines: [
+      "AI: Hi, this is the store calling about your checkout.",
+      "User: Please don't call me again. Take me off your list.",
+      "AI: Understood, you won't be called again. Sorry to bother you.",
+    ],
+    after: null,
+    analysis: {
+      answered: true,
+      sentiment: "negative",
+      disposition: "do_not_call",
+      tags: ["not_interested"],
+      shortSummary: "Customer asked not to be called again.",
+      reason: "Explicit opt-out request.",
+      nextAction: "Do not contact this customer again.",
+      followUp: "",
+      buyProbability: 0,
+      churnProbability: 0.95,
+      confidence: 0.95,
+    },
+  },
+  {
+    key: "wrong_number",
+    endedReason: "customer-ended-call",
+    seconds: 12,
+    offer: null,
+    lines: ["AI: Hi, is this about your order at our store?", "User: I think you have the wrong number."],
+    after: null,
+    analysis: {
+      answered: true,
+      sentiment: "neutral",
+      disposition: "wrong_number",
+      tags: ["wrong_number"],
+      shortSummary: "Wrong number.",
+      reason: "The person who answered didn't place the order.",
+      nextAction: "Check the phone number on the checkout.",
+      followUp: "",
+      buyProbability: 0,
+      churnProbability: 0.5,
+      confidence: 0.9,
+    },
+  },
+];
+
+// Last digit of the number -> scenario (recovered and discount come up twice).
+const SCENARIO_BY_DIGIT = [0, 1, 2, 3, 4, 5, 0, 1, 6, 7];
+
+export function simScenarioFor(number: string | null | undefined) {
+  const digits = String(number ?? "").replace(/\D/g, "");
+  const last = digits ? Number(digits[digits.length - 1]) : 0;
+  return SIM_SCENARIOS[SCENARIO_BY_DIGIT[last] ?? 0];
+}
+
+function envInt(name: string, fallback: number, min: number, max: number) {
+  const n = Math.floor(Number(process.env[name] ?? fallback));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+function stepMs() {
+  return envInt("SIM_VOICE_STEP_MS", 1500, 0, 60_000);
+}
+
+const MAX_CALLS = 1000;
+
+/* =========================
+   Call store
+   ========================= */
+type SimCall = {
+  id: string;
+  ref: VoiceCallRef;
+  status: "queued" | "in-progress" | "ended";
+  report: VoiceCallReport | null;
+  played: Promise<void>;
+};
+
+const calls = new Map<string, SimCall>();
+
+function remember(call: SimCall) {
+  if (calls.size >= MAX_CALLS) {
+    const oldest = calls.keys().next().value;
+    if (oldest) calls.delete(oldest);
+  }
+  calls.set(call.id, call);
+}
+
+/* =========================
+   Webhooks (the simulator's own wire format)
+   { type, callId, metadata: { shop, callJobId, checkoutId }, status | transcript | toolCalls | report }
+   ========================= */
+function parseWebhook(payload: any): VoiceWebhookEvent | null {
+  const meta = payload?.metadata ?? {};
+  const ref: VoiceCallRef = {
+    shop: String(meta?.shop ?? "").trim(),
+    callJobId: String(meta?.callJobId ?? "").trim(),
+    checkoutId: String(meta?.checkoutId ?? "").trim() || null,
+  };
+  if (!ref.shop || !ref.callJobId) return null;
+
+  const type = String(payload?.type ?? "");
+  let event: VoiceEvent;
+  if (type === "status") event = { type: "status", status: String(payload?.status ?? "") };
+  else if (type === "transcript") event = { type: "transcript", transcript: String(payload?.transcript ?? ""), final: true };
+  else if (type === "tool-calls") event = { type: "tool_calls", toolCalls: Array.isArray(payload?.toolCalls) ? payload.toolCalls : [] };
+  else if (type === "end-of-call") event = { type: "end_of_call", report: payload?.report };
+  else event = { type: "other", name: type };
+  return { ref, event };
+}
+
+function toolCallsResponse(results: VoiceToolResult[]) {
+  return new Response(JSON.stringify({ results }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function deliver(call: SimCall, body: Record<string, any>) {
+  const ev = parseWebhook({ ...body, callId: call.id, metadata: call.ref });
+  if (!ev) return null;
+  // Loaded lazily: the pipeline imports the call provider, which imports this adapter.
+  const { handleVoiceWebhookEvent } = await import("./voiceWebhook.server");
+  const res = await handleVoiceWebhookEvent(simVoiceProvider, ev);
+  return res.json().catch(() => null);
+}
+
+function sleep(ms: number) {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+async function play(call: SimCall, req: StartCallRequest) {
+  const scenario = simScenarioFor(req.customer.number);
+  const transcript: string[] = [...scenario.lines];
+  const step = stepMs();
+
+  await sleep(step);
+  if (scenario.seconds > 0) {
+    call.status = "in-progress";
+    await deliver(call, { type: "status", status: "in-progress" });
+    await sleep(step);
+  }
+
+  const tool = req.tools.find((t) => t.name === "send_checkout_offer");
+  if (scenario.after) {
+    let sent = false;
+    if (tool && scenario.offer) {
+      const out = await deliver(call, {
+        type: "tool-calls",
+        toolCalls: [
+          {
+            id: `${call.id}_tool_1`,
+            name: tool.name,
+            arguments: { ...scenario.offer, sendSms: true },
+          },
+        ],
+      });
+      sent = Boolean(out?.results?.[0]?.result);
+      await sleep(step);
+    }
+    transcript.push(...(sent ? scenario.after.sent : scenario.after.notSent));
+  }
+
+  if (transcript.length) {
+    await deliver(call, { type: "transcript", transcript: transcript.join("\n") });
+    await sleep(step);
+  }
+
+  const report: VoiceCallReport = {
+    endedReason: scenario.endedReason,
+    transcript: transcript.join("\n"),
+    recordingUrl: null,
+    connectedSeconds: scenario.seconds,
+    voicemail: scenario.key === "voicemail",
+    customerNumber: req.customer.number,
+    analysis: scenario.analysis ? { ...scenario.analysis, simulated: true, scenario: scenario.key } : null,
+  };
+  call.status = "ended";
+  call.report = report;
+
+  await deliver(call, { type: "status", status: "ended" });
+  await deliver(call, { type: "end-of-call", report });
+}
+
+/* =========================
+   Provider
+   ========================= */
+async function startCall(req: StartCallRequest) {
+  const call: SimCall = {
+    id: `sim_${randomBytes(8).toString("hex")}`,
+    ref: req.ref,
+    status: "queued",
+    report: null,
+    played: Promise.resolve(),
+  };
+  remember(call);
+
+  // Detached like a real call; failures end up in the event log instead of the start-call response.
+  call.played = play(call, req).catch(async (e: any) => {
+    const err = String(e?.message ?? e);
+    console.log("[SIM_VOICE] play_failed", { callId: call.id, callJobId: req.ref.callJobId, err });
+    await logEvent({
+      shop: req.ref.shop,
+      checkoutId: req.ref.checkoutId,
+      callJobId: req.ref.callJobId,
+      level: "error",
+      code: "CALL_FAILED",
+      message: `Simulated call stopped: ${err}`,
+      details: { providerCallId: call.id },
+    });
+  });
+
+  return { providerCallId: call.id, raw: { id: call.id, scenario: simScenarioFor(req.customer.number).key } };
+}
+
+/** Resolves once the simulated call has played to the end (or failed). */
+export async function simCallPlayed(providerCallId: string) {
+  await calls.get(providerCallId)?.played;
+}
+
+async function fetchCall(providerCallId: string): Promise<VoiceCallLookup> {
+  const call = calls.get(providerCallId);
+  if (!call) return { kind: "missing" };
+  if (call.status !== "ended" || !call.report) return { kind: "live", status: call.status };
+  return { kind: "ended", report: call.report };
+}
+
+export const simVoiceProvider: VoiceProvider = {
+  id: "sim",
+  label: "Simulator",
+  isConfigured: () => true,
+  startCall,
+  parseWebhook,
+  toolCallsResponse,
+  fetchCall,
+};
@@ -0,0 +1,262 @@
+// app/lib/suppression.server.ts
+import db from "../db.server";
+import { normalizePhoneE164 } from "./phone.shared";
+
+/* =========================
+   Do-not-call suppression list
+   - Keyed by shop + normalized value (E.164 phone / lowercased email).
+   - Removal is soft (removedAt) and every add/remove writes a SuppressionAudit row.
+   ========================= */
+export type SuppressionKind = "PHONE" | "EMAIL";
+export type SuppressionSource = "CSV_IMPORT" | "MANUAL" | "DISPOSITION";
+
+export type SuppressionHit = {
+  id: string;
+  kind: SuppressionKind;
+  value: string;
+  source: string;
+  reason: string | null;
+};
+
+// Dispositions from the end-of-call analysis that put the number on the list automatically.
+export const OPT_OUT_DISPOSITIONS = ["do_not_call", "wrong_number"] as const;
+
+export function normalizeSuppressionEmail(raw: any): string | null {
+  const s = String(raw ?? "").trim().toLowerCase();
+  if (!s || s.length > 254) return null;
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s) ? s : null;
+}
+
+export function normalizeSuppressionValue(
+  kind: SuppressionKind,
+  raw: any,
+  defaultCallingCode?: string | null
+): string | null {
+  return kind === "EMAIL" ? normalizeSuppressionEmail(raw) : normalizePhoneE164(raw, defaultCallingCode);
+}
+
+export function suppressionOutcome(hit: SuppressionHit) {
+  return `SUPPRESSED: ${hit.kind} ${hit.source}${hit.reason ? ` (${hit.reason})` : ""}`.slice(0, 2000);
+}
+
+/** Best-effort admin identity for the audit trail. */
+export function suppressionActorFromSession(session: any): string {
+  const u = session?.onlineAccessInfo?.associated_user;
+  const email = String(u?.email ?? session?.email ?? "").trim();
+  if (email) return email;
+  const name = [u?.first_name ?? session?.firstName, u?.last_name ?? session?.lastName].filter(Boolean).join(" ");
+  return name || "admin";
+}
+
+export async function addSuppression(params: {
+  shop: string;
+  kind: SuppressionKind;
+  value: any;
+  source: SuppressionSource;
+  reason?: string | null;
+  checkoutId?: string | null;
+  callJobId?: string | null;
+  actor?: string | null;
+  defaultCallingCode?: string | null;
+}): Promise<{ ok: boolean; created: boolean; value: string | null }> {
+  const value = normalizeSuppressionValue(params.kind, params.value, params.defaultCallingCode);
+  if (!value) return { ok: false, created: false, value: null };
+
+  const reason = params.reason ? String(params.reason).trim().slice(0, 500) || null : null;
+
+  const existing = await db.suppression.findUnique({
+    where: { shop_kind_value: { shop: params.shop, kind: params.kind, value } },
+    select: { id: true, removedAt: true },
+  });
+  if (existing && !existing.removedAt) return { ok: true, created: false, value };
+
+  const data = {
+    source: params.source,
+    reason,
+    checkoutId: params.checkoutId ?? null,
+    callJobId: params.callJobId ?? null,
+    createdBy: params.actor ?? null,
+  };
+
+  await db.suppression.upsert({
+    where: { shop_kind_value: { shop: params.shop, kind: params.kind, value } },
+    create: { shop: params.shop, kind: params.kind, value, ...data },
+    update: { ...data, createdAt: new Date(), removedAt: null },
+  });
+
+  await db.suppressionAudit.create({
+    data: {
+      shop: params.shop,
+      kind: params.kind,
+      value,
+      action: "ADD",
+      source: params.source,
+      reason,
+      actor: params.actor ?? null,
+    },
+  });
+
+  console.log("[SUPPRESSION] added", { shop: params.shop, kind: params.kind, source: params.source });
+  return { ok: true, created: true, value };
+}
+
+export async function removeSuppression(params: {
+  shop: string;
+  id: string;
+  actor?: string | null;
+  reason?: string | null;
+}): Promise<boolean> {
+  const row = await db.suppression.findFirst({
+    where: { id: params.id, shop: params.shop, removedAt: null },
+    select: { id: true, kind: true, value: true, source: true },
+  });
+  if (!row) return false;
+
+  await db.suppression.update({ where: { id: row.id }, data: { removedAt: new Date() } });
+  await db.suppressionAudit.create({
+    data: {
+      shop: params.shop,
+      kind: row.kind,
+      value: row.value,
+      action: "REMOVE",
+      source: row.source,
+      reason: params.reason ? String(params.reason).trim().slice(0, 500) || null : null,
+      actor: params.actor ?? null,
+    },
+  });
+
+  console.log("[SUPPRESSION] removed", { shop: params.shop, kind: row.kind });
+  return true;
+}
+
+/** Active entries matching any of the given phones/emails, keyed "KIND:value". */
+export async function loadActiveSuppressions(params: {
+  shop: string;
+  phones: string[];
+  emails: string[];
+}): Promise<Map<string, SuppressionHit>> {
+  const phones = Array.from(new Set(params.phones.filter(Boolean)));
+  const emails = Array.from(new Set(params.emails.filter(Boolean)));
+  const out = new Map<string, SuppressionHit>();
+  if (!phones.length && !emails.length) return out;
+
+  const rows = await db.suppression.findMany({
+    where: {
+      shop: params.shop,
+      removedAt: null,
+      OR: [
+        ...(phones.length ? [{ kind: "PHONE", value: { in: phones } }] : []),
+        ...(emails.length ? [{ kind: "EMAIL", value: { in: emails } }] : []),
+      ],
+    },
+    select: { id: true, kind: true, value: true, source: true, reason: true },
+  });
+
+  for (const r of rows) out.set(`${r.kind}:${r.value}`, { ...r, kind: r.kind as SuppressionKind });
+  return out;
+}
+
+export async function findActiveSuppression(params: {
+  shop: string;
+  phone?: any;
+  email?: any;
+  defaultCallingCode?: string | null;
+}): Promise<SuppressionHit | null> {
+  const phone = normalizePhoneE164(params.phone, params.defaultCallingCode);
+  const email = normalizeSuppressionEmail(params.email);
+
+  const hits = await loadActiveSuppressions({
+    shop: params.shop,
+    phones: phone ? [phone] : [],
+    emails: email ? [email] : [],
+  });
+
+  return (phone ? hits.get(`PHONE:${phone}`) : null) ?? (email ? hits.get(`EMAIL:${email}`) : null) ?? null;
+}
+
+/* =========================
+   CSV import
+   - One entry per line. Either a single column (phone or email)
+     or a header row with phone / email / reason columns.
+   ========================= */
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if ((ch === "," || ch === ";") && !quoted) {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+export function parseSuppressionCsv(text: string): Array<{ kind: SuppressionKind; value: string; reason: string | null }> {
+  const lines = String(text ?? "")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+  if (!lines.length) return [];
+
+  const head = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const hasHeader = head.some((h) => h === "phone" || h === "email" || h === "value");
+  const phoneCol = hasHeader ? head.indexOf("phone") : -1;
+  const emailCol = hasHeader ? head.indexOf("email") : -1;
+  const valueCol = hasHeader ? head.indexOf("value") : 0;
+  const reasonCol = hasHeader ? head.indexOf("reason") : 1;
+
+  const out: Array<{ kind: SuppressionKind; value: string; reason: string | null }> = [];
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cols = splitCsvLine(line);
+    const reason = reasonCol >= 0 ? cols[reasonCol] || null : null;
+
+    if (phoneCol >= 0 && cols[phoneCol]) out.push({ kind: "PHONE", value: cols[phoneCol], reason });
+    if (emailCol >= 0 && cols[emailCol]) out.push({ kind: "EMAIL", value: cols[emailCol], reason });
+
+    const v = valueCol >= 0 ? cols[valueCol] : "";
+    if (v) out.push({ kind: v.includes("@") ? "EMAIL" : "PHONE", value: v, reason });
+  }
+  return out.slice(0, 10000);
+}
+
+export async function importSuppressionCsv(params: {
+  shop: string;
+  csv: string;
+  actor?: string | null;
+  defaultCallingCode?: string | null;
+}): Promise<{ added: number; existing: number; invalid: number }> {
+  const rows = parseSuppressionCsv(params.csv);
+  let added = 0;
+  let existing = 0;
+  let invalid = 0;
+
+  for (const r of rows) {
+    const res = await addSuppression({
+      shop: params.shop,
+      kind: r.kind,
+      value: r.value,
+      source: "CSV_IMPORT",
+      reason: r.reason,
+      actor: params.actor ?? null,
+      defaultCallingCode: params.defaultCallingCode ?? null,
+    });
+    if (!res.ok) invalid++;
+    else if (res.created) added++;
+    else existing++;
+  }
+
+  console.log("[SUPPRESSION] csv_import", { shop: params.shop, added, existing, invalid });
+  return { added, existing, invalid };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { zonedTimeToUtc } from "./timezones.shared";
+
+const at = (year: number, month: number, day: number, hour: number, minute: number) => ({ year, month, day, hour, minute });
+
+describe("zonedTimeToUtc", () => {
+  it("converts ordinary wall-clock times", () => {
+    expect(zonedTimeToUtc(at(2026, 7, 1, 9, 15), "Europe/Athens").toISOString()).toBe("2026-07-01T06:15:00.000Z");
+    expect(zonedTimeToUtc(at(2026, 1, 15, 9, 0), "America/New_York").toISOString()).toBe("2026-01-15T14:00:00.000Z");
+    expect(zonedTimeToUtc(at(2026, 1, 15, 9, 0), "UTC").toISOString()).toBe("2026-01-15T09:00:00.000Z");
+  });
+
+  it("picks the earlier instant for a time repeated when clocks go back", () => {
+    // Athens 2026-10-25: 04:00 EEST becomes 03:00 EET, so 03:30 happens at 00:30Z and again at 01:30Z.
+    expect(zonedTimeToUtc(at(2026, 10, 25, 3, 30), "Europe/Athens").toISOString()).toBe("2026-10-25T00:30:00.000Z");
+    expect(zonedTimeToUtc(at(2026, 11, 1, 1, 30), "America/New_York").toISOString()).toBe("2026-11-01T05:30:00.000Z");
+  });
+
+  it("moves a time skipped when clocks go forward to just after the gap", () => {
+    // Athens 2026-03-29: 03:00 EET becomes 04:00 EEST; 03:30 doesn't exist and lands on 04:30 EEST.
+    expect(zonedTimeToUtc(at(2026, 3, 29, 3, 30), "Europe/Athens").toISOString()).toBe("2026-03-29T01:30:00.000Z");
+  });
+});
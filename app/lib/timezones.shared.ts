@@ -0,0 +1,336 @@
+// app/lib/timezones.shared.ts
+
+/* =========================
+   Country / province -> IANA timezone
+   ========================= */
+
+// Single-zone countries (or the zone most customers live in).
+const COUNTRY_TIMEZONE: Record<string, string> = {
+  US: "America/New_York",
+  CA: "America/Toronto",
+  GR: "Europe/Athens",
+  GB: "Europe/London",
+  IE: "Europe/Dublin",
+  FR: "Europe/Paris",
+  DE: "Europe/Berlin",
+  IT: "Europe/Rome",
+  ES: "Europe/Madrid",
+  PT: "Europe/Lisbon",
+  NL: "Europe/Amsterdam",
+  BE: "Europe/Brussels",
+  LU: "Europe/Luxembourg",
+  CH: "Europe/Zurich",
+  AT: "Europe/Vienna",
+  SE: "Europe/Stockholm",
+  NO: "Europe/Oslo",
+  DK: "Europe/Copenhagen",
+  FI: "Europe/Helsinki",
+  PL: "Europe/Warsaw",
+  CZ: "Europe/Prague",
+  SK: "Europe/Bratislava",
+  HU: "Europe/Budapest",
+  RO: "Europe/Bucharest",
+  BG: "Europe/Sofia",
+  HR: "Europe/Zagreb",
+  SI: "Europe/Ljubljana",
+  RS: "Europe/Belgrade",
+  BA: "Europe/Sarajevo",
+  ME: "Europe/Podgorica",
+  MK: "Europe/Skopje",
+  AL: "Europe/Tirane",
+  TR: "Europe/Istanbul",
+  CY: "Asia/Nicosia",
+  MT: "Europe/Malta",
+  IS: "Atlantic/Reykjavik",
+  EE: "Europe/Tallinn",
+  LV: "Europe/Riga",
+  LT: "Europe/Vilnius",
+  UA: "Europe/Kyiv",
+  MD: "Europe/Chisinau",
+  IL: "Asia/Jerusalem",
+  AE: "Asia/Dubai",
+  SA: "Asia/Riyadh",
+  QA: "Asia/Qatar",
+  KW: "Asia/Kuwait",
+  BH: "Asia/Bahrain",
+  OM: "Asia/Muscat",
+  JO: "Asia/Amman",
+  LB: "Asia/Beirut",
+  IQ: "Asia/Baghdad",
+  IR: "Asia/Tehran",
+  ZA: "Africa/Johannesburg",
+  EG: "Africa/Cairo",
+  MA: "Africa/Casablanca",
+  TN: "Africa/Tunis",
+  DZ: "Africa/Algiers",
+  NG: "Africa/Lagos",
+  KE: "Africa/Nairobi",
+  GH: "Africa/Accra",
+  AU: "Australia/Sydney",
+  NZ: "Pacific/Auckland",
+  JP: "Asia/Tokyo",
+  KR: "Asia/Seoul",
+  CN: "Asia/Shanghai",
+  IN: "Asia/Kolkata",
+  PK: "Asia/Karachi",
+  BD: "Asia/Dhaka",
+  SG: "Asia/Singapore",
+  MY: "Asia/Kuala_Lumpur",
+  TH: "Asia/Bangkok",
+  VN: "Asia/Ho_Chi_Minh",
+  ID: "Asia/Jakarta",
+  PH: "Asia/Manila",
+  HK: "Asia/Hong_Kong",
+  TW: "Asia/Taipei",
+  MX: "America/Mexico_City",
+  BR: "America/Sao_Paulo",
+  AR: "America/Argentina/Buenos_Aires",
+  CL: "America/Santiago",
+  CO: "America/Bogota",
+  PE: "America/Lima",
+};
+
+// Countries spanning several zones: province/state code -> zone.
+const PROVINCE_TIMEZONE: Record<string, Record<string, string>> = {
+  US: {
+    // Pacific
+    CA: "America/Los_Angeles",
+    WA: "America/Los_Angeles",
+    OR: "America/Los_Angeles",
+    NV: "America/Los_Angeles",
+    // Mountain
+    AZ: "America/Phoenix",
+    CO: "America/Denver",
+    UT: "America/Denver",
+    NM: "America/Denver",
+    WY: "America/Denver",
+    MT: "America/Denver",
+    ID: "America/Boise",
+    // Central
+    TX: "America/Chicago",
+    IL: "America/Chicago",
+    MN: "America/Chicago",
+    WI: "America/Chicago",
+    IA: "America/Chicago",
+    MO: "America/Chicago",
+    AR: "America/Chicago",
+    LA: "America/Chicago",
+    MS: "America/Chicago",
+    AL: "America/Chicago",
+    OK: "America/Chicago",
+    KS: "America/Chicago",
+    NE: "America/Chicago",
+    SD: "America/Chicago",
+    ND: "America/Chicago",
+    TN: "America/Chicago",
+    // Non-contiguous
+    AK: "America/Anchorage",
+    HI: "Pacific/Honolulu",
+    PR: "America/Puerto_Rico",
+  },
+  CA: {
+    BC: "America/Vancouver",
+    AB: "America/Edmonton",
+    SK: "America/Regina",
+    MB: "America/Winnipeg",
+    NS: "America/Halifax",
+    NB: "America/Moncton",
+    PE: "America/Halifax",
+    NL: "America/St_Johns",
+    YT: "America/Whitehorse",
+    NT: "America/Yellowknife",
+    NU: "America/Iqaluit",
+  },
+  AU: {
+    WA: "Australia/Perth",
+    SA: "Australia/Adelaide",
+    NT: "Australia/Darwin",
+    QLD: "Australia/Brisbane",
+    VIC: "Australia/Melbourne",
+    TAS: "Australia/Hobart",
+    ACT: "Australia/Sydney",
+    NSW: "Australia/Sydney",
+  },
+  MX: {
+    BC: "America/Tijuana",
+    BCS: "America/Mazatlan",
+    SIN: "America/Mazatlan",
+    SON: "America/Hermosillo",
+    CHH: "America/Chihuahua",
+    ROO: "America/Cancun",
+  },
+  BR: {
+    AM: "America/Manaus",
+    MT: "America/Cuiaba",
+    MS: "America/Campo_Grande",
+    RO: "America/Porto_Velho",
+    RR: "America/Boa_Vista",
+    AC: "America/Rio_Branco",
+  },
+};
+
+function safeJsonParse(s: any): any | null {
+  try {
+    if (!s) return null;
+    return typeof s === "string" ? JSON.parse(s) : s;
+  } catch {
+    return null;
+  }
+}
+
+function clean(v: any) {
+  return String(v ?? "").trim();
+}
+
+export function isValidTimeZone(tz: string | null | undefined): boolean {
+  const s = clean(tz);
+  if (!s) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: s });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function timezoneForCountry(iso2: string | null | undefined, provinceCode?: string | null): string | null {
+  const c = clean(iso2).toUpperCase();
+  if (!c) return null;
+
+  const p = clean(provinceCode).toUpperCase().replace(/^[A-Z]{2}-/, "");
+  const byProvince = p ? PROVINCE_TIMEZONE[c]?.[p] : undefined;
+  if (byProvince) return byProvince;
+
+  return COUNTRY_TIMEZONE[c] ?? null;
+}
+
+/**
+ * Country + province from a stored Checkout.raw.
+ * Handles both REST webhook payloads (snake_case) and Admin GraphQL nodes (camelCase).
+ * Order: shipping address, billing address, customer default address.
+ */
+export function extractCheckoutLocation(raw: any): { iso2: string | null; province: string | null } {
+  const j = safeJsonParse(raw);
+  if (!j || typeof j !== "object") return { iso2: null, province: null };
+
+  const addresses = [
+    j?.shipping_address,
+    j?.shippingAddress,
+    j?.billing_address,
+    j?.billingAddress,
+    j?.customer?.default_address,
+    j?.customer?.defaultAddress,
+  ];
+
+  for (const a of addresses) {
+    if (!a || typeof a !== "object") continue;
+    const iso2 = clean(a?.countryCodeV2 ?? a?.country_code ?? a?.countryCode).toUpperCase();
+    if (!iso2) continue;
+    const province = clean(a?.provinceCode ?? a?.province_code) || null;
+    return { iso2, province: province ? province.toUpperCase() : null };
+  }
+
+  return { iso2: null, province: null };
+}
+
+/**
+ * Customer timezone for a checkout, inferred from its addresses.
+ * Falls back to the shop timezone, then UTC.
+ */
+export function resolveCustomerTimezone(raw: any, shopTimezone?: string | null): string {
+  const { iso2, province } = extractCheckoutLocation(raw);
+  const inferred = timezoneForCountry(iso2, province);
+  if (inferred && isValidTimeZone(inferred)) return inferred;
+  if (shopTimezone && isValidTimeZone(shopTimezone)) return String(shopTimezone).trim();
+  return "UTC";
+}
+
+/* =========================
+   Wall-clock helpers
+   ========================= */
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+  });
+
+  const out: Record<string, string> = {};
+  for (const p of fmt.formatToParts(date)) out[p.type] = p.value;
+
+  return {
+    year: Number(out.year),
+    month: Number(out.month),
+    day: Number(out.day),
+    hour: Number(out.hour) % 24,
+    minute: Number(out.minute),
+    weekday: WEEKDAYS[out.weekday] ?? 0,
+  };
+}
+
+function offsetMs(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const truncated = date.getTime() - (date.getTime() % 60000);
+  return asUtc - truncated;
+}
+
+/**
+ * UTC instant for a wall-clock time in a zone.
+ * Times inside a DST gap are read with the offset from before the jump (landing just after it);
+ * ambiguous ones pick the earlier instant.
+ */
+export function zonedTimeToUtc(
+  parts: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): Date {
+  const guess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const day = 24 * 60 * 60 * 1000;
+  // The offsets on either side of a transition near this time (equal when there is none).
+  const candidates = [guess - offsetMs(new Date(guess - day), timeZone), guess - offsetMs(new Date(guess + day), timeZone)];
+  const matches = candidates.filter((t) => {
+    const p = zonedParts(new Date(t), timeZone);
+    return p.year === parts.year && p.month === parts.month && p.day === parts.day && p.hour === parts.hour && p.minute === parts.minute;
+  });
+  return new Date(matches.length ? Math.min(...matches) : candidates[0]);
+}
+
+/** Calendar date N days after (y, m, d), independent of timezone. */
+export function addCalendarDays(parts: { year: number; month: number; day: number }, days: number) {
+  const d = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+export function formatInTimeZone(iso: string | Date | null | undefined, timeZone: string | null | undefined) {
+  if (!iso) return "-";
+  const d = iso instanceof Date ? iso : new Date(iso);
+  if (Number.isNaN(d.getTime())) return "-";
+
+  const tz = isValidTimeZone(timeZone) ? String(timeZone) : "UTC";
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: tz,
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  }).format(d);
+}
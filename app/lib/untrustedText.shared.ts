@@ -0,0 +1,54 @@
+// app/lib/untrustedText.shared.ts
+
+/* =========================
+   Untrusted text (prompt injection hardening)
+   - Shoppers write their name, email and (through the cart) item / variant titles; all of it reaches the prompt.
+   - cleanUntrusted: drops control / invisible characters, markup and role markers, replaces instruction-like
+     phrases with [removed] and caps the length. For template variables and spoken names.
+   - quoteUntrusted: the cleaned value as a quoted literal, for data blocks the agent is told not to obey.
+   ========================= */
+export const REMOVED_MARK = "[removed]";
+
+// Phrases that talk to the model instead of describing a customer or a product.
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override|bypass|skip)\b[^.\n]{0,40}?\b(instructions?|rules?|prompts?|above|previous|prior|policy|policies|limits?)\b/gi,
+  /\b(you are now|you must|act as|pretend (to be|you are)|new instructions?|system prompt|developer mode|jailbreak)\b/gi,
+  /\b(system|assistant|developer|tool)\s*:/gi,
+  /\b(offer|give|grant|apply|send|create)\b[^.\n]{0,30}?\b(discounts?|coupons?|codes?|free shipping|refunds?)\b/gi,
+  // Only offers: "100% Cotton Tee" is a product name, "90% off" is a request.
+  /\b\d{1,3}\s*(%|percent)\s*(off|discount)\b/gi,
+];
+
+// Format characters (zero-width, bidi overrides) hide text from the merchant's view; dropped, not spaced,
+// so "Ig<ZWSP>nore" is still caught below. Control characters (newlines, tabs) become spaces.
+const INVISIBLE = /\p{Cf}/gu;
+const CONTROL = /\p{Cc}/gu;
+
+// Characters prompts use for structure: tags, braces, code fences, quotes.
+const STRUCTURAL = /[<>{}[\]`"\\|]/g;
+
+export function cleanUntrusted(v: any, max: number): string {
+  let s = String(v ?? "")
+    .normalize("NFKC")
+    .replace(INVISIBLE, "")
+    .replace(CONTROL, " ")
+    .replace(STRUCTURAL, " ");
+  for (const re of INSTRUCTION_PATTERNS) s = s.replace(re, REMOVED_MARK);
+  s = s
+    .replace(/(\[removed\]\s*)+/g, `${REMOVED_MARK} `)
+    .replace(/\s+/g, " ")
+    .trim();
+  if (s.length <= max) return s;
+  return s.slice(0, Math.max(0, max - 1)).trimEnd() + "…";
+}
+
+/** Cleaned and quoted, or "-" when nothing is left. */
+export function quoteUntrusted(v: any, max: number): string {
+  const s = cleanUntrusted(v, max);
+  return s ? `"${s}"` : "-";
+}
+
+/** True when cleaning removed instruction-like content (for logging, not for blocking the call). */
+export function looksLikeInjection(v: any): boolean {
+  return cleanUntrusted(v, 10_000).includes(REMOVED_MARK);
+}
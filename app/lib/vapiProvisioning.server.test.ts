@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, type StubServer } from "../test/stubServer";
+import { LOOKUP_PRODUCT_TOOL, SEND_CHECKOUT_OFFER_TOOL } from "./callPrompt.shared";
+
+const mocks = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  logEvent: vi.fn(),
+}));
+
+vi.mock("../db.server", () => ({ default: { settings: { findUnique: mocks.findUnique, update: mocks.update } } }));
+vi.mock("./eventLog.server", () => ({ logEvent: mocks.logEvent }));
+
+import { checkVapiDrift, provisionVapiAssistant } from "./vapiProvisioning.server";
+
+const SHOP = "demo-store.myshopify.com";
+
+// Fake Vapi: resources created with POST, read with GET, changed with PATCH.
+const remote = new Map<string, any>();
+let nextId = 1;
+let stub: StubServer;
+
+beforeAll(async () => {
+  stub = await startStubServer((req) => {
+    const [, kind, id] = req.path.split("/");
+    if (req.method === "POST") {
+      const created = { ...req.body, id: `${kind}_${nextId++}` };
+      remote.set(`${kind}/${created.id}`, created);
+      return { status: 201, json: created };
+    }
+    const existing = remote.get(`${kind}/${id}`);
+    if (!existing) return { status: 404, json: { message: "Not Found" } };
+    if (req.method === "PATCH") remote.set(`${kind}/${id}`, { ...existing, ...req.body });
+    return { json: remote.get(`${kind}/${id}`) };
+  });
+  vi.stubEnv("VAPI_API_BASE_URL", stub.url);
+  vi.stubEnv("VAPI_API_KEY", "vapi-key");
+  vi.stubEnv("VAPI_SERVER_URL", "https://app.example/webhooks/vapi");
+  vi.stubEnv("VAPI_WEBHOOK_SECRET", "hook-secret");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await stub.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  remote.clear();
+  stub.requests.length = 0;
+});
+
+async function provisioned() {
+  mocks.findUnique.mockResolvedValue(null);
+  const out = await provisionVapiAssistant(SHOP);
+  if (!out.ok) throw new Error(out.error);
+  mocks.findUnique.mockResolvedValue({ vapiAssistantId: out.assistantId, ...out.toolIds });
+  return out;
+}
+
+describe("provisionVapiAssistant", () => {
+  it("creates every call tool and an assistant that takes the prompt per call", async () => {
+    const out = await provisioned();
+
+    const offerTool = remote.get(`tool/${out.toolIds.vapiToolId}`);
+    const lookupTool = remote.get(`tool/${out.toolIds.vapiLookupToolId}`);
+    expect(offerTool.function.name).toBe(SEND_CHECKOUT_OFFER_TOOL.name);
+    expect(lookupTool.function).toEqual(LOOKUP_PRODUCT_TOOL);
+    expect(lookupTool.server.url).toBe("https://app.example/webhooks/vapi?secret=hook-secret");
+
+    const assistant = remote.get(`assistant/${out.assistantId}`);
+    expect(assistant.model.toolIds).toEqual([out.toolIds.vapiToolId, out.toolIds.vapiLookupToolId]);
+    expect(assistant.model.messages).toEqual([{ role: "system", content: "{{call_prompt}}" }]);
+
+    expect(mocks.update).toHaveBeenCalledWith({
+      where: { shop: SHOP },
+      data: expect.objectContaining({ ...out.toolIds, vapiAssistantId: out.assistantId, vapiProvisionError: null }),
+    });
+  });
+
+  it("adds the lookup tool to a shop provisioned before it existed", async () => {
+    const before = await provisioned();
+    remote.delete(`tool/${before.toolIds.vapiLookupToolId}`);
+    mocks.findUnique.mockResolvedValue({ vapiAssistantId: before.assistantId, vapiToolId: before.toolIds.vapiToolId });
+
+    expect(await checkVapiDrift(SHOP)).toEqual({ status: "not_provisioned" });
+
+    const out = await provisionVapiAssistant(SHOP);
+    expect(out).toMatchObject({ ok: true, assistantId: before.assistantId, toolIds: { vapiToolId: before.toolIds.vapiToolId } });
+    if (!out.ok) return;
+    expect(out.toolIds.vapiLookupToolId).not.toBe(before.toolIds.vapiLookupToolId);
+    expect(remote.get(`assistant/${out.assistantId}`).model.toolIds).toContain(out.toolIds.vapiLookupToolId);
+  });
+});
+
+describe("checkVapiDrift", () => {
+  it("is in sync right after provisioning", async () => {
+    await provisioned();
+    expect(await checkVapiDrift(SHOP)).toEqual({ status: "in_sync" });
+  });
+
+  it("reports changes to either tool and to the assistant prompt", async () => {
+    const out = await provisioned();
+    const lookupKey = `tool/${out.toolIds.vapiLookupToolId}`;
+    remote.set(lookupKey, { ...remote.get(lookupKey), function: { ...LOOKUP_PRODUCT_TOOL, description: "edited" } });
+    const assistantKey = `assistant/${out.assistantId}`;
+    const assistant = remote.get(assistantKey);
+    remote.set(assistantKey, { ...assistant, model: { ...assistant.model, messages: [{ role: "system", content: "Be nice." }] } });
+    remote.delete(`tool/${out.toolIds.vapiToolId}`);
+
+    expect(await checkVapiDrift(SHOP)).toEqual({
+      status: "drift",
+      diffs: ["send_checkout_offer tool missing", "lookup_product.function.description", "assistant.model.messages"],
+    });
+  });
+});
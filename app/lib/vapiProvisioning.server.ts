@@ -0,0 +1,233 @@
+// app/lib/vapiProvisioning.server.ts
+import db from "../db.server";
+import { LOOKUP_PRODUCT_TOOL, SEND_CHECKOUT_OFFER_TOOL } from "./callPrompt.shared";
+import { logEvent } from "./eventLog.server";
+import { shopLabelFromDomain } from "./shopName.server";
+import { VAPI_SERVER_MESSAGES, vapiApiBaseUrl, vapiWebhookUrl } from "./vapiVoice.server";
+import type { VoiceToolDefinition } from "./voiceProvider.shared";
+
+/* =========================
+   Vapi provisioning
+   - One assistant per shop plus every tool a call can use (send_checkout_offer, lookup_product), created or
+     updated through the Vapi API when settings are saved. Ids land in Settings (vapiAssistantId /
+     vapiToolId / vapiLookupToolId / vapiPhoneNumberId). Calls run on this assistant with per-call overrides.
+   - The definition lives here; checkVapiDrift compares it with what Vapi returns and the Settings page
+     offers a repair (= provision again) when they differ.
+   - The phone number is bought in Vapi, not created here: the saved id, else VAPI_PHONE_NUMBER_ID.
+   - Deleted remotely (404 on update) -> created again with a new id.
+   ========================= */
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+function safeStr(v: any, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+type VapiResult = { ok: true; status: number; json: any } | { ok: false; status: number; error: string };
+
+async function vapiRequest(method: "GET" | "POST" | "PATCH", path: string, body?: any): Promise<VapiResult> {
+  const apiKey = requiredEnv("VAPI_API_KEY");
+  const res = await fetch(`${vapiApiBaseUrl()}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      Accept: "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok) return { ok: false, status: res.status, error: safeStr(JSON.stringify(json) || `HTTP ${res.status}`, 500) };
+  return { ok: true, status: res.status, json };
+}
+
+/* =========================
+   Definition
+   ========================= */
+function toolBearerToken() {
+  return String(process.env.VAPI_TOOL_BEARER_TOKEN ?? process.env.VAPI_WEBHOOK_BEARER_TOKEN ?? "").trim();
+}
+
+// Every tool the call prompt can offer, with the Settings column holding its Vapi id.
+const VAPI_TOOLS: Array<{ definition: VoiceToolDefinition; idField: "vapiToolId" | "vapiLookupToolId" }> = [
+  { definition: SEND_CHECKOUT_OFFER_TOOL, idField: "vapiToolId" },
+  { definition: LOOKUP_PRODUCT_TOOL, idField: "vapiLookupToolId" },
+];
+
+type ToolIds = Record<(typeof VAPI_TOOLS)[number]["idField"], string>;
+
+// Secrets (webhook ?secret=, bearer header) are sent on every provision but left out of the drift comparison.
+function desiredTool(definition: VoiceToolDefinition) {
+  const token = toolBearerToken();
+  return {
+    function: {
+      name: definition.name,
+      description: definition.description,
+      parameters: definition.parameters,
+    },
+    server: {
+      url: vapiWebhookUrl(),
+      ...(token ? { headers: { Authorization: `Bearer ${token}` } } : {}),
+    },
+  };
+}
+
+function desiredAssistant(shop: string, toolIds: ToolIds) {
+  return {
+    // Vapi caps assistant names at 40 characters.
+    name: `Recovery ${shopLabelFromDomain(shop)}`.slice(0, 40),
+    model: {
+      provider: "openai",
+      model: "gpt-4o-mini",
+      temperature: 0.2,
+      // Every call passes its prompt (built from Settings) as this variable in assistantOverrides.
+      messages: [{ role: "system", content: "{{call_prompt}}" }],
+      toolIds: VAPI_TOOLS.map((t) => toolIds[t.idField]),
+    },
+    voice: {
+      provider: String(process.env.VAPI_VOICE_PROVIDER ?? "").trim() || "vapi",
+      voiceId: String(process.env.VAPI_VOICE_ID ?? "").trim() || "Elliot",
+    },
+    server: { url: vapiWebhookUrl() },
+    serverMessages: VAPI_SERVER_MESSAGES,
+    metadata: { shop },
+  };
+}
+
+function withoutSecrets(url: any) {
+  const s = String(url ?? "");
+  const q = s.indexOf("?");
+  return q >= 0 ? s.slice(0, q) : s;
+}
+
+/** Paths where `remote` differs from `desired`; only keys present in `desired` are compared. */
+function diffFields(desired: any, remote: any, prefix = ""): string[] {
+  const out: string[] = [];
+  for (const key of Object.keys(desired)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const want = desired[key];
+    const got = remote?.[key];
+    if (want && typeof want === "object" && !Array.isArray(want)) {
+      out.push(...diffFields(want, got, path));
+    } else if (JSON.stringify(want) !== JSON.stringify(got)) {
+      out.push(path);
+    }
+  }
+  return out;
+}
+
+function comparableTool(tool: any) {
+  return { ...tool, server: { url: withoutSecrets(tool?.server?.url) } };
+}
+
+function comparableAssistant(assistant: any) {
+  return { ...assistant, server: { url: withoutSecrets(assistant?.server?.url ?? assistant?.serverUrl) } };
+}
+
+/* =========================
+   Provision
+   ========================= */
+export type VapiProvisionResult =
+  | { ok: true; assistantId: string; toolIds: ToolIds; phoneNumberId: string | null }
+  | { ok: false; error: string };
+
+async function upsert(kind: "tool" | "assistant", id: string | null, body: any, createExtra: any = {}) {
+  if (id) {
+    const updated = await vapiRequest("PATCH", `/${kind}/${encodeURIComponent(id)}`, body);
+    if (updated.ok) return id;
+    if (updated.status !== 404) throw new Error(`Vapi ${kind} update failed: ${updated.error}`);
+  }
+
+  const created = await vapiRequest("POST", `/${kind}`, { ...createExtra, ...body });
+  if (!created.ok) throw new Error(`Vapi ${kind} create failed: ${created.error}`);
+  const newId = String(created.json?.id ?? "").trim();
+  if (!newId) throw new Error(`Vapi ${kind} create returned no id`);
+  return newId;
+}
+
+/** Creates or updates the shop's assistant and tools and stores the ids; errors are saved on Settings, not thrown. */
+export async function provisionVapiAssistant(shop: string): Promise<VapiProvisionResult> {
+  const settings = await db.settings.findUnique({
+    where: { shop },
+    select: { vapiAssistantId: true, vapiPhoneNumberId: true, vapiToolId: true, vapiLookupToolId: true },
+  });
+
+  try {
+    const toolIds = {} as ToolIds;
+    for (const t of VAPI_TOOLS) {
+      toolIds[t.idField] = await upsert("tool", settings?.[t.idField] ?? null, desiredTool(t.definition), { type: "function" });
+    }
+    const assistantId = await upsert("assistant", settings?.vapiAssistantId ?? null, desiredAssistant(shop, toolIds));
+    const phoneNumberId =
+      String(settings?.vapiPhoneNumberId ?? "").trim() || String(process.env.VAPI_PHONE_NUMBER_ID ?? "").trim() || null;
+
+    await db.settings.update({
+      where: { shop },
+      data: {
+        ...toolIds,
+        vapiAssistantId: assistantId,
+        vapiPhoneNumberId: phoneNumberId,
+        vapiProvisionedAt: new Date(),
+        vapiProvisionError: null,
+      },
+    });
+    console.log("[VAPI_PROVISION] ok", { shop, assistantId, toolIds });
+    return { ok: true, assistantId, toolIds, phoneNumberId };
+  } catch (e: any) {
+    const error = safeStr(e?.message ?? e, 1000);
+    console.log("[VAPI_PROVISION] failed", { shop, err: error });
+    await db.settings.update({ where: { shop }, data: { vapiProvisionError: error } });
+    await logEvent({ shop, level: "error", code: "VAPI_PROVISION_FAILED", message: error.slice(0, 300), dedupeMinutes: 60 });
+    return { ok: false, error };
+  }
+}
+
+/* =========================
+   Drift
+   ========================= */
+export type VapiDriftReport =
+  | { status: "not_provisioned" }
+  | { status: "in_sync" }
+  | { status: "drift"; diffs: string[] } // e.g. "assistant.voice.voiceId", "lookup_product tool missing"
+  | { status: "error"; error: string };
+
+export async function checkVapiDrift(shop: string): Promise<VapiDriftReport> {
+  const settings = await db.settings.findUnique({
+    where: { shop },
+    select: { vapiAssistantId: true, vapiToolId: true, vapiLookupToolId: true },
+  });
+  const assistantId = String(settings?.vapiAssistantId ?? "").trim();
+  const toolIds = {} as ToolIds;
+  for (const t of VAPI_TOOLS) toolIds[t.idField] = String(settings?.[t.idField] ?? "").trim();
+  // Shops provisioned before a tool existed count as not provisioned: saving (or "Create assistant") adds it.
+  if (!assistantId || VAPI_TOOLS.some((t) => !toolIds[t.idField])) return { status: "not_provisioned" };
+
+  try {
+    const diffs: string[] = [];
+
+    for (const t of VAPI_TOOLS) {
+      const name = t.definition.name;
+      const tool = await vapiRequest("GET", `/tool/${encodeURIComponent(toolIds[t.idField])}`);
+      if (!tool.ok && tool.status !== 404) return { status: "error", error: tool.error };
+      if (!tool.ok) diffs.push(`${name} tool missing`);
+      else diffs.push(...diffFields(comparableTool(desiredTool(t.definition)), comparableTool(tool.json)).map((p) => `${name}.${p}`));
+    }
+
+    const assistant = await vapiRequest("GET", `/assistant/${encodeURIComponent(assistantId)}`);
+    if (!assistant.ok && assistant.status !== 404) return { status: "error", error: assistant.error };
+    if (!assistant.ok) diffs.push("assistant missing");
+    else {
+      const desired = comparableAssistant(desiredAssistant(shop, toolIds));
+      diffs.push(...diffFields(desired, comparableAssistant(assistant.json)).map((p) => `assistant.${p}`));
+    }
+
+    return diffs.length ? { status: "drift", diffs } : { status: "in_sync" };
+  } catch (e: any) {
+    return { status: "error", error: safeStr(e?.message ?? e, 500) };
+  }
+}
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, type StubServer } from "../test/stubServer";
+import { vapiVoiceProvider } from "./vapiVoice.server";
+import type { StartCallRequest } from "./voiceProvider.shared";
+
+const REF = { shop: "demo-store.myshopify.com", callJobId: "cj_1", checkoutId: "co_1" };
+
+const REQUEST: StartCallRequest = {
+  ref: REF,
+  customer: { number: "+14155550123", name: "Anna" },
+  messages: [
+    { role: "system", content: "You are calling on behalf of Demo Store." },
+    { role: "user", content: "Customer data: ..." },
+  ],
+  tools: [{ name: "lookup_product", description: "", parameters: {} }],
+  language: {
+    language: "de",
+    voice: { provider: "azure", voiceId: "de-DE-KatjaNeural", speed: 1.1 },
+    transcriber: { provider: "deepgram", model: "nova-2", language: "de" },
+  },
+  persona: { agentName: "Mia", firstMessage: "Hallo Anna, hier ist Mia.", endCallPhrases: ["Tschüss"] },
+  assistantId: "asst_shop",
+  phoneNumberId: "pn_shop",
+  metadata: { ...REF, promptMode: "template" },
+};
+
+let stub: StubServer;
+
+beforeAll(async () => {
+  stub = await startStubServer(() => ({ status: 201, json: { id: "call_123", status: "queued" } }));
+  vi.stubEnv("VAPI_API_BASE_URL", stub.url);
+  vi.stubEnv("VAPI_API_KEY", "vapi-key");
+  vi.stubEnv("VAPI_SERVER_URL", "https://app.example/webhooks/vapi");
+  vi.stubEnv("VAPI_WEBHOOK_SECRET", "");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await stub.close();
+});
+
+beforeEach(() => {
+  stub.requests.length = 0;
+});
+
+describe("startCall", () => {
+  it("calls the shop's assistant with per-call overrides", async () => {
+    const started = await vapiVoiceProvider.startCall(REQUEST);
+
+    expect(started.providerCallId).toBe("call_123");
+    const req = stub.requests[0];
+    expect(req.path).toBe("/call/phone");
+    expect(req.body).not.toHaveProperty("assistant");
+    expect(req.body).toEqual({
+      phoneNumberId: "pn_shop",
+      assistantId: "asst_shop",
+      customer: { number: "+14155550123", name: "Anna" },
+      assistantOverrides: {
+        variableValues: {
+          call_prompt: "You are calling on behalf of Demo Store.\n\n[user] Customer data: ...",
+          customer_name: "Anna",
+          language: "de",
+          agent_name: "Mia",
+          tools_enabled: "lookup_product",
+        },
+        voice: { provider: "azure", voiceId: "de-DE-KatjaNeural", speed: 1.1 },
+        transcriber: { provider: "deepgram", model: "nova-2", language: "de" },
+        firstMessage: "Hallo Anna, hier ist Mia.",
+        endCallPhrases: ["Tschüss"],
+        server: { url: "https://app.example/webhooks/vapi" },
+        serverMessages: ["status-update", "end-of-call-report", 'transcript[transcriptType="final"]', "tool-calls"],
+        metadata: REQUEST.metadata,
+      },
+      metadata: REQUEST.metadata,
+    });
+  });
+
+  it("falls back to the env assistant and number and leaves out an empty persona", async () => {
+    vi.stubEnv("VAPI_ASSISTANT_ID", "asst_env");
+    vi.stubEnv("VAPI_PHONE_NUMBER_ID", "pn_env");
+
+    await vapiVoiceProvider.startCall({
+      ...REQUEST,
+      assistantId: null,
+      phoneNumberId: null,
+      persona: { agentName: null, firstMessage: null, endCallPhrases: [] },
+    });
+
+    const body = stub.requests[0].body;
+    expect(body).toMatchObject({ assistantId: "asst_env", phoneNumberId: "pn_env" });
+    expect(body.assistantOverrides).not.toHaveProperty("firstMessage");
+    expect(body.assistantOverrides).not.toHaveProperty("endCallPhrases");
+    expect(body.assistantOverrides.variableValues.agent_name).toBe("");
+  });
+});
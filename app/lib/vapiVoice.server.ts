@@ -0,0 +1,321 @@
+// app/lib/vapiVoice.server.ts
+import { isVapiConfiguredFromEnv } from "./callInsights.server";
+import {
+  promptAsText,
+  startCallFetchError,
+  startCallHttpError,
+  startCallTimeoutMs,
+  type StartCallRequest,
+  type VoiceCallLookup,
+  type VoiceCallReport,
+  type VoiceCallRef,
+  type VoiceEvent,
+  type VoiceProvider,
+  type VoiceToolCall,
+  type VoiceToolResult,
+  type VoiceWebhookEvent,
+} from "./voiceProvider.shared";
+
+/* =========================
+   Vapi adapter
+   - POST /call/phone on the shop's assistant (see vapiProvisioning.server.ts) with per-call assistantOverrides:
+     the prompt goes in as {{call_prompt}}, plus the call's voice, transcriber and persona; metadata carries
+     shop / callJobId. The assistant holds every call tool; {{tools_enabled}} lists the ones this call may use.
+   - Webhooks: status-update, transcript, end-of-call-report, tool-calls.
+   ========================= */
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+function safeStr(v: any, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+/** Vapi REST base URL; VAPI_API_BASE_URL points it at a local stub in development. */
+export function vapiApiBaseUrl() {
+  return String(process.env.VAPI_API_BASE_URL ?? "").trim().replace(/\/+$/, "") || "https://api.vapi.ai";
+}
+
+/** Our Vapi webhook (VAPI_SERVER_URL), with VAPI_WEBHOOK_SECRET as ?secret= when set. */
+export function vapiWebhookUrl() {
+  const webhookSecret = String(process.env.VAPI_WEBHOOK_SECRET ?? "").trim();
+  const webhookBaseUrl = requiredEnv("VAPI_SERVER_URL").replace(/\/$/, "");
+  return webhookSecret
+    ? `${webhookBaseUrl}${webhookBaseUrl.includes("?") ? "&" : "?"}secret=${encodeURIComponent(webhookSecret)}`
+    : webhookBaseUrl;
+}
+
+export const VAPI_SERVER_MESSAGES = ["status-update", "end-of-call-report", 'transcript[transcriptType="final"]', "tool-calls"];
+
+/* =========================
+   Reports
+   ========================= */
+function secondsBetweenIso(start?: any, end?: any) {
+  if (!start || !end) return 0;
+  const s = new Date(String(start)).getTime();
+  const e = new Date(String(end)).getTime();
+  if (!Number.isFinite(s) || !Number.isFinite(e)) return 0;
+  return Math.max(0, Math.floor((e - s) / 1000));
+}
+
+function extractConnectedSeconds(msg: any, call: any, artifact: any) {
+  const durationSeconds = Number(
+    msg?.durationSeconds ??
+      msg?.duration_seconds ??
+      call?.durationSeconds ??
+      call?.duration_seconds ??
+      NaN
+  );
+
+  if (Number.isFinite(durationSeconds) && durationSeconds > 0) {
+    return Math.floor(durationSeconds);
+  }
+
+  const startedAt =
+    msg?.startedAt ??
+    msg?.startAt ??
+    call?.startedAt ??
+    call?.startAt ??
+    artifact?.startedAt ??
+    artifact?.startAt ??
+    null;
+
+  const endedAt =
+    msg?.endedAt ??
+    msg?.endAt ??
+    call?.endedAt ??
+    call?.endAt ??
+    artifact?.endedAt ??
+    artifact?.endAt ??
+    null;
+
+  return secondsBetweenIso(startedAt, endedAt);
+}
+
+function detectVoicemail(endedReason: string, msg: any, call: any, artifact: any) {
+  const r = String(endedReason ?? "").toLowerCase();
+  if (r.includes("voicemail") || r.includes("machine")) return true;
+  if (typeof msg?.analysis?.voicemail === "boolean") return msg.analysis.voicemail;
+  if (typeof call?.voicemail === "boolean") return call.voicemail;
+  if (typeof artifact?.voicemail === "boolean") return artifact.voicemail;
+  return false;
+}
+
+/** Fields of an end-of-call-report message; `msg` may also be a call object from GET /call/{id}. */
+export function readVapiReport(msg: any, call: any): VoiceCallReport {
+  const endedReason = safeStr(msg?.endedReason ?? call?.endedReason ?? "", 200);
+  const artifact = msg?.artifact ?? call?.artifact ?? {};
+  const transcript = safeStr(artifact?.transcript ?? msg?.transcript ?? "", 20000);
+
+  const recordingUrl =
+    artifact?.recording?.url ??
+    artifact?.recording?.downloadUrl ??
+    artifact?.recording?.recordingUrl ??
+    artifact?.recordingUrl ??
+    msg?.recordingUrl ??
+    null;
+
+  return {
+    endedReason,
+    transcript,
+    recordingUrl: recordingUrl ? safeStr(recordingUrl, 2000) : null,
+    connectedSeconds: extractConnectedSeconds(msg, call, artifact),
+    voicemail: detectVoicemail(endedReason, msg, call, artifact),
+    customerNumber: call?.customer?.number ? String(call.customer.number) : null,
+  };
+}
+
+/* =========================
+   Webhooks
+   ========================= */
+function pickMessage(payload: any) {
+  // Vapi docs show { message: { type, ... } }, but keep compatibility with flatter payloads
+  return payload?.message ?? payload ?? {};
+}
+
+/** Tool calls of a tool-calls message (toolCallList, toolCalls or toolWithToolCallList). */
+export function readVapiToolCalls(payload: any): { messageType: string; ref: VoiceCallRef; toolCalls: VoiceToolCall[] } {
+  const msg = pickMessage(payload);
+  const messageType = String(msg?.type ?? msg?.messageType ?? msg?.event ?? "").trim();
+
+  const toolCalls: VoiceToolCall[] = [];
+
+  for (const tc of Array.isArray(msg?.toolCallList) ? msg.toolCallList : []) {
+    toolCalls.push({
+      id: String(tc?.id ?? "").trim(),
+      name: String(tc?.name ?? "").trim(),
+      arguments: tc?.arguments ?? tc?.parameters ?? {},
+    });
+  }
+
+  for (const tc of Array.isArray(msg?.toolCalls) ? msg.toolCalls : []) {
+    const fn = tc?.function ?? {};
+    toolCalls.push({
+      id: String(tc?.id ?? "").trim(),
+      name: String(tc?.name ?? fn?.name ?? "").trim(),
+      arguments: tc?.arguments ?? fn?.arguments ?? tc?.parameters ?? {},
+    });
+  }
+
+  for (const x of Array.isArray(msg?.toolWithToolCallList) ? msg.toolWithToolCallList : []) {
+    const tc = x?.toolCall ?? {};
+    const fn = tc?.function ?? {};
+    toolCalls.push({
+      id: String(tc?.id ?? "").trim(),
+      name: String(x?.name ?? tc?.name ?? fn?.name ?? "").trim(),
+      arguments: tc?.arguments ?? fn?.arguments ?? tc?.parameters ?? {},
+    });
+  }
+
+  const call = msg?.call ?? payload?.call ?? null;
+  const meta =
+    call?.assistant?.metadata ||
+    call?.assistant?.assistant?.metadata ||
+    call?.metadata ||
+    payload?.assistant?.metadata ||
+    null;
+
+  return {
+    messageType,
+    ref: {
+      shop: String(meta?.shop ?? payload?.shop ?? "").trim(),
+      callJobId: String(meta?.callJobId ?? payload?.callJobId ?? "").trim(),
+      checkoutId: String(meta?.checkoutId ?? "").trim() || null,
+    },
+    toolCalls,
+  };
+}
+
+function parseWebhook(payload: any): VoiceWebhookEvent | null {
+  const msg = pickMessage(payload);
+
+  const messageType = String(msg?.type ?? msg?.messageType ?? msg?.event ?? "");
+  const call = msg?.call ?? payload?.call ?? null;
+
+  const metadata = (call?.metadata ?? msg?.metadata ?? payload?.metadata ?? payload?.assistant?.metadata ?? {}) as any;
+  const ref: VoiceCallRef = {
+    shop: String(metadata?.shop ?? "").trim(),
+    callJobId: String(metadata?.callJobId ?? "").trim(),
+    checkoutId: String(metadata?.checkoutId ?? "").trim() || null,
+  };
+  if (!ref.shop || !ref.callJobId) return null;
+
+  let event: VoiceEvent;
+  if (messageType === "tool-calls") {
+    event = { type: "tool_calls", toolCalls: readVapiToolCalls(payload).toolCalls };
+  } else if (messageType === "status-update") {
+    event = { type: "status", status: String(msg?.status ?? "").toLowerCase() };
+  } else if (messageType.startsWith("transcript")) {
+    const transcriptType = String(msg?.transcriptType ?? "");
+    event = {
+      type: "transcript",
+      transcript: safeStr(msg?.transcript ?? "", 20000),
+      final: transcriptType === "final" || messageType.includes('transcriptType="final"'),
+    };
+  } else if (messageType === "end-of-call-report") {
+    event = { type: "end_of_call", report: readVapiReport(msg, call) };
+  } else {
+    event = { type: "other", name: messageType };
+  }
+  return { ref, event };
+}
+
+/* =========================
+   Provider
+   ========================= */
+async function startCall(req: StartCallRequest) {
+  const VAPI_API_KEY = requiredEnv("VAPI_API_KEY");
+
+  const assistantId = req.assistantId || process.env.VAPI_ASSISTANT_ID || requiredEnv("VAPI_ASSISTANT_ID");
+  const phoneNumberId = req.phoneNumberId || process.env.VAPI_PHONE_NUMBER_ID || requiredEnv("VAPI_PHONE_NUMBER_ID");
+
+  const res = await fetch(`${vapiApiBaseUrl()}/call/phone`, {
+    method: "POST",
+    signal: AbortSignal.timeout(startCallTimeoutMs()),
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${VAPI_API_KEY}`,
+      Accept: "application/json",
+    },
+    body: JSON.stringify({
+      phoneNumberId,
+      assistantId,
+
+      customer: {
+        number: req.customer.number,
+        name: req.customer.name ?? undefined,
+      },
+
+      assistantOverrides: {
+        variableValues: {
+          call_prompt: promptAsText(req.messages),
+          customer_name: req.customer.name ?? "",
+          language: req.language.language,
+          agent_name: req.persona.agentName ?? "",
+          tools_enabled: req.tools.map((t) => t.name).join(","),
+        },
+        voice: req.language.voice,
+        transcriber: req.language.transcriber,
+        ...(req.persona.firstMessage ? { firstMessage: req.persona.firstMessage } : {}),
+        ...(req.persona.endCallPhrases.length ? { endCallPhrases: req.persona.endCallPhrases } : {}),
+
+        server: { url: vapiWebhookUrl() },
+        serverMessages: VAPI_SERVER_MESSAGES,
+
+        metadata: req.metadata,
+      },
+
+      metadata: req.metadata,
+    }),
+  }).catch((e) => {
+    throw startCallFetchError("Vapi", e);
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw startCallHttpError("Vapi", res.status, json);
+
+  return { providerCallId: String(json?.id ?? json?.call?.id ?? "") || null, raw: json };
+}
+
+function toolCallsResponse(results: VoiceToolResult[]) {
+  // Vapi expects {"results":[{name, toolCallId, result|error}]}
+  return new Response(JSON.stringify({ results }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function fetchCall(providerCallId: string): Promise<VoiceCallLookup> {
+  const apiKey = String(process.env.VAPI_API_KEY ?? "").trim();
+  if (!apiKey) return { kind: "error", error: "Missing env: VAPI_API_KEY" };
+
+  try {
+    const res = await fetch(`${vapiApiBaseUrl()}/call/${encodeURIComponent(providerCallId)}`, {
+      headers: { Authorization: `Bearer ${apiKey}`, Accept: "application/json" },
+    });
+    if (res.status === 404) return { kind: "missing" };
+    if (!res.ok) return { kind: "error", error: `HTTP ${res.status}` };
+
+    const call = await res.json().catch(() => null);
+    if (!call || typeof call !== "object") return { kind: "error", error: "Invalid JSON" };
+
+    const status = String((call as any)?.status ?? "").toLowerCase();
+    if (status !== "ended") return { kind: "live", status };
+    return { kind: "ended", report: readVapiReport(call, call) };
+  } catch (e: any) {
+    return { kind: "error", error: String(e?.message ?? e) };
+  }
+}
+
+export const vapiVoiceProvider: VoiceProvider = {
+  id: "vapi",
+  label: "Vapi",
+  isConfigured: isVapiConfiguredFromEnv,
+  startCall,
+  parseWebhook,
+  toolCallsResponse,
+  fetchCall,
+};
@@ -0,0 +1,100 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, type StubServer } from "../test/stubServer";
+import { renderVoicePreview } from "./voicePreview.server";
+
+// Stand-in audio: not a real mp3, only checked to come back base64-encoded.
+const AUDIO = Buffer.from("ID3-stub-audio");
+
+let stub: StubServer;
+
+beforeAll(async () => {
+  stub = await startStubServer((req) => {
+    if (req.path.includes("voice_broken")) return { status: 422, json: { detail: "voice not found" } };
+    return { body: AUDIO, headers: { "Content-Type": "audio/mpeg" } };
+  });
+});
+
+afterAll(async () => {
+  await stub.close();
+});
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  vi.stubEnv("AZURE_TTS_BASE_URL", stub.url);
+  vi.stubEnv("ELEVENLABS_API_BASE_URL", stub.url);
+  vi.stubEnv("OPENAI_API_BASE_URL", stub.url);
+  vi.stubEnv("AZURE_SPEECH_KEY", "azure-key");
+  vi.stubEnv("AZURE_SPEECH_REGION", "westeurope");
+  vi.stubEnv("ELEVENLABS_API_KEY", "eleven-key");
+  vi.stubEnv("OPENAI_API_KEY", "openai-key");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("renderVoicePreview", () => {
+  it("renders Azure voices from SSML with the voice's locale and rate", async () => {
+    const out = await renderVoicePreview({ provider: "azure", voiceId: "de-DE-KatjaNeural", speed: 1.1, text: "Hallo <Anna> & Co" });
+
+    expect(out).toEqual({ ok: true, contentType: "audio/mpeg", audioBase64: AUDIO.toString("base64") });
+    const req = stub.requests[0];
+    expect(req.method).toBe("POST");
+    expect(req.path).toBe("/cognitiveservices/v1");
+    expect(req.headers["ocp-apim-subscription-key"]).toBe("azure-key");
+    expect(req.body).toBe(
+      '<speak version="1.0" xml:lang="de-DE"><voice name="de-DE-KatjaNeural"><prosody rate="+10%">Hallo &lt;Anna&gt; &amp; Co</prosody></voice></speak>'
+    );
+  });
+
+  it("renders ElevenLabs voices with the speed clamped to their range", async () => {
+    const out = await renderVoicePreview({ provider: "11labs", voiceId: "voice_abc", speed: 1.5, text: "Hi there" });
+
+    expect(out.ok).toBe(true);
+    const req = stub.requests[0];
+    expect(req.path).toBe("/v1/text-to-speech/voice_abc");
+    expect(req.headers["xi-api-key"]).toBe("eleven-key");
+    expect(req.body).toEqual({ text: "Hi there", model_id: "eleven_multilingual_v2", voice_settings: { speed: 1.2 } });
+  });
+
+  it("renders OpenAI voices", async () => {
+    const out = await renderVoicePreview({ provider: "openai", voiceId: "alloy", speed: 0.9, text: "  Hi there  " });
+
+    expect(out.ok).toBe(true);
+    const req = stub.requests[0];
+    expect(req.path).toBe("/v1/audio/speech");
+    expect(req.headers.authorization).toBe("Bearer openai-key");
+    expect(req.body).toEqual({ model: "tts-1", voice: "alloy", input: "Hi there", speed: 0.9, response_format: "mp3" });
+  });
+
+  it("caps the sample text", async () => {
+    await renderVoicePreview({ provider: "openai", voiceId: "alloy", speed: 1, text: "a".repeat(1000) });
+    expect(stub.requests[0].body.input).toHaveLength(400);
+  });
+
+  it("returns the vendor's error", async () => {
+    const out = await renderVoicePreview({ provider: "11labs", voiceId: "voice_broken", speed: 1, text: "Hi" });
+    expect(out).toEqual({ ok: false, error: 'HTTP 422: {"detail":"voice not found"}' });
+  });
+
+  it("explains what is missing without calling anyone", async () => {
+    vi.stubEnv("AZURE_SPEECH_KEY", "");
+    expect(await renderVoicePreview({ provider: "azure", voiceId: "en-US-AvaNeural", speed: 1, text: "Hi" })).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("AZURE_SPEECH_KEY"),
+    });
+    expect(await renderVoicePreview({ provider: "vapi", voiceId: "Elliot", speed: 1, text: "Hi" })).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("No preview for vapi voices"),
+    });
+    expect(await renderVoicePreview({ provider: "openai", voiceId: "alloy", speed: 1, text: "   " })).toEqual({
+      ok: false,
+      error: "Nothing to say.",
+    });
+    expect(await renderVoicePreview({ provider: "openai", voiceId: "", speed: 1, text: "Hi" })).toEqual({
+      ok: false,
+      error: "Missing voice ID.",
+    });
+    expect(stub.requests).toHaveLength(0);
+  });
+});
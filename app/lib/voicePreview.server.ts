@@ -0,0 +1,106 @@
+// app/lib/voicePreview.server.ts
+
+/* =========================
+   Voice preview (Settings -> Persona)
+   - Renders a short sample with the voice vendor's own TTS API, since Vapi has no synthesis endpoint.
+   - Azure (AZURE_SPEECH_KEY / AZURE_SPEECH_REGION), ElevenLabs (ELEVENLABS_API_KEY), OpenAI (OPENAI_API_KEY).
+   - *_BASE_URL envs point each vendor at a local stand-in in development.
+   ========================= */
+export type VoicePreviewResult = { ok: true; contentType: string; audioBase64: string } | { ok: false; error: string };
+
+const MAX_PREVIEW_CHARS = 400;
+
+function safeStr(v: any, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+function baseUrl(envName: string, fallback: string) {
+  return String(process.env[envName] ?? "").trim().replace(/\/+$/, "") || fallback;
+}
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+async function audioResult(res: Response): Promise<VoicePreviewResult> {
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    return { ok: false, error: `HTTP ${res.status}${body ? `: ${safeStr(body, 300)}` : ""}` };
+  }
+  const buf = Buffer.from(await res.arrayBuffer());
+  return { ok: true, contentType: res.headers.get("content-type") || "audio/mpeg", audioBase64: buf.toString("base64") };
+}
+
+async function azurePreview(voiceId: string, speed: number, text: string) {
+  const key = String(process.env.AZURE_SPEECH_KEY ?? "").trim();
+  const region = String(process.env.AZURE_SPEECH_REGION ?? "").trim();
+  if (!key || !region) return { ok: false as const, error: "Azure preview needs AZURE_SPEECH_KEY and AZURE_SPEECH_REGION." };
+
+  // "de-DE-KatjaNeural" -> xml:lang de-DE
+  const lang = /^([a-z]{2}-[A-Z]{2})-/.exec(voiceId)?.[1] ?? "en-US";
+  const rate = `${Math.round((speed - 1) * 100)}%`;
+  const ssml =
+    `<speak version="1.0" xml:lang="${lang}"><voice name="${escapeXml(voiceId)}">` +
+    `<prosody rate="${speed >= 1 ? "+" : ""}${rate}">${escapeXml(text)}</prosody></voice></speak>`;
+
+  const res = await fetch(`${baseUrl("AZURE_TTS_BASE_URL", `https://${region}.tts.speech.microsoft.com`)}/cognitiveservices/v1`, {
+    method: "POST",
+    headers: {
+      "Ocp-Apim-Subscription-Key": key,
+      "Content-Type": "application/ssml+xml",
+      "X-Microsoft-OutputFormat": "audio-24khz-48kbitrate-mono-mp3",
+    },
+    body: ssml,
+  });
+  return audioResult(res);
+}
+
+async function elevenLabsPreview(voiceId: string, speed: number, text: string) {
+  const key = String(process.env.ELEVENLABS_API_KEY ?? "").trim();
+  if (!key) return { ok: false as const, error: "ElevenLabs preview needs ELEVENLABS_API_KEY." };
+
+  const res = await fetch(`${baseUrl("ELEVENLABS_API_BASE_URL", "https://api.elevenlabs.io")}/v1/text-to-speech/${encodeURIComponent(voiceId)}`, {
+    method: "POST",
+    headers: { "xi-api-key": key, "Content-Type": "application/json", Accept: "audio/mpeg" },
+    body: JSON.stringify({
+      text,
+      model_id: "eleven_multilingual_v2",
+      // ElevenLabs accepts 0.7..1.2
+      voice_settings: { speed: Math.max(0.7, Math.min(1.2, speed)) },
+    }),
+  });
+  return audioResult(res);
+}
+
+async function openAiPreview(voiceId: string, speed: number, text: string) {
+  const key = String(process.env.OPENAI_API_KEY ?? "").trim();
+  if (!key) return { ok: false as const, error: "OpenAI preview needs OPENAI_API_KEY." };
+
+  const res = await fetch(`${baseUrl("OPENAI_API_BASE_URL", "https://api.openai.com")}/v1/audio/speech`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "tts-1", voice: voiceId, input: text, speed, response_format: "mp3" }),
+  });
+  return audioResult(res);
+}
+
+export async function renderVoicePreview(args: {
+  provider: string;
+  voiceId: string;
+  speed: number;
+  text: string;
+}): Promise<VoicePreviewResult> {
+  const text = safeStr(args.text.trim(), MAX_PREVIEW_CHARS);
+  if (!text) return { ok: false, error: "Nothing to say." };
+  if (!args.voiceId) return { ok: false, error: "Missing voice ID." };
+
+  try {
+    if (args.provider === "azure") return await azurePreview(args.voiceId, args.speed, text);
+    if (args.provider === "11labs") return await elevenLabsPreview(args.voiceId, args.speed, text);
+    if (args.provider === "openai") return await openAiPreview(args.voiceId, args.speed, text);
+    return { ok: false, error: `No preview for ${args.provider} voices; place a test call instead.` };
+  } catch (e: any) {
+    return { ok: false, error: safeStr(e?.message ?? e, 300) };
+  }
+}
@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, type StubServer } from "../test/stubServer";
+import { retellVoiceProvider } from "./retellVoice.server";
+import { vapiVoiceProvider } from "./vapiVoice.server";
+import { startCallWithFailover } from "./voiceProvider.server";
+import { startCallFailure, type StartCallRequest, type VoiceProvider } from "./voiceProvider.shared";
+
+const REF = { shop: "demo-store.myshopify.com", callJobId: "cj_1", checkoutId: "co_1" };
+
+const REQUEST: StartCallRequest = {
+  ref: REF,
+  customer: { number: "+14155550123", name: "Anna" },
+  messages: [{ role: "system", content: "You are calling on behalf of Demo Store." }],
+  tools: [],
+  language: {
+    language: "en",
+    voice: { provider: "11labs", voiceId: "voice_1" },
+    transcriber: { provider: "deepgram", model: "nova-2", language: "en" },
+  },
+  persona: { agentName: null, firstMessage: null, endCallPhrases: [] },
+  assistantId: "asst_shop",
+  phoneNumberId: "pn_shop",
+  metadata: REF,
+};
+
+// What the Vapi stand-in answers to POST /call/phone.
+let vapiReply: "created" | "rejected" | "server_error" | "slow" = "created";
+
+let stub: StubServer;
+
+beforeAll(async () => {
+  stub = await startStubServer(async (req) => {
+    if (req.path === "/v2/create-phone-call") return { status: 201, json: { call_id: "retell_call_1" } };
+    if (vapiReply === "rejected") return { status: 400, json: { message: ["customer.number must be a valid phone number"] } };
+    if (vapiReply === "server_error") return { status: 503, json: { message: "Service Unavailable" } };
+    if (vapiReply === "slow") await new Promise((r) => setTimeout(r, 300));
+    return { status: 201, json: { id: "vapi_call_1" } };
+  });
+  vi.stubEnv("VAPI_API_BASE_URL", stub.url);
+  vi.stubEnv("VAPI_API_KEY", "vapi-key");
+  vi.stubEnv("VAPI_SERVER_URL", "https://app.example/webhooks/vapi");
+  vi.stubEnv("RETELL_API_BASE_URL", stub.url);
+  vi.stubEnv("RETELL_API_KEY", "retell-key");
+  vi.stubEnv("RETELL_AGENT_ID", "agent_1");
+  vi.stubEnv("RETELL_FROM_NUMBER", "+14155550100");
+  vi.stubEnv("START_CALL_TIMEOUT_MS", "100");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await stub.close();
+});
+
+beforeEach(() => {
+  vapiReply = "created";
+  stub.requests.length = 0;
+  vi.stubEnv("VAPI_API_BASE_URL", stub.url);
+});
+
+const retellDialed = () => stub.requests.filter((r) => r.path === "/v2/create-phone-call").length;
+
+describe("startCallWithFailover", () => {
+  it("starts on the first provider when it takes the call", async () => {
+    const out = await startCallWithFailover([vapiVoiceProvider, retellVoiceProvider], REQUEST);
+
+    expect(out).toMatchObject({ kind: "started", provider: { id: "vapi" }, started: { providerCallId: "vapi_call_1" } });
+    expect(retellDialed()).toBe(0);
+  });
+
+  it("fails over when the provider rejects the request (4xx)", async () => {
+    vapiReply = "rejected";
+    const onFailover = vi.fn(async () => {});
+
+    const out = await startCallWithFailover([vapiVoiceProvider, retellVoiceProvider], REQUEST, onFailover);
+
+    expect(out).toMatchObject({ kind: "started", provider: { id: "retell" }, started: { providerCallId: "retell_call_1" } });
+    expect(out.errors).toEqual([expect.stringMatching(/^VAPI_ERROR: Vapi create call failed: HTTP 400/)]);
+    expect(onFailover).toHaveBeenCalledWith(vapiVoiceProvider, retellVoiceProvider, expect.stringContaining("HTTP 400"));
+  });
+
+  it("fails over when the connection is refused before anything was sent", async () => {
+    const closed = await startStubServer(() => ({}));
+    await closed.close();
+    vi.stubEnv("VAPI_API_BASE_URL", closed.url);
+
+    const out = await startCallWithFailover([vapiVoiceProvider, retellVoiceProvider], REQUEST);
+
+    expect(out).toMatchObject({ kind: "started", provider: { id: "retell" } });
+    expect(retellDialed()).toBe(1);
+  });
+
+  it("doesn't fail over after a 5xx: the call may exist", async () => {
+    vapiReply = "server_error";
+    const onFailover = vi.fn(async () => {});
+
+    const out = await startCallWithFailover([vapiVoiceProvider, retellVoiceProvider], REQUEST, onFailover);
+
+    expect(out).toMatchObject({ kind: "unknown", provider: { id: "vapi" } });
+    expect(out.errors).toEqual([expect.stringMatching(/^VAPI_START_UNKNOWN: .*HTTP 503/)]);
+    expect(onFailover).not.toHaveBeenCalled();
+    expect(retellDialed()).toBe(0);
+  });
+
+  it("doesn't fail over after a timeout: the call may exist", async () => {
+    vapiReply = "slow";
+
+    const out = await startCallWithFailover([vapiVoiceProvider, retellVoiceProvider], REQUEST);
+
+    expect(out).toMatchObject({ kind: "unknown", provider: { id: "vapi" } });
+    expect(out.kind === "unknown" && String(out.error.message)).toMatch(/no response within 100ms/);
+    expect(retellDialed()).toBe(0);
+  });
+
+  it("returns the last rejection when every provider rejects", async () => {
+    const rejecting = (id: "vapi" | "retell"): VoiceProvider => ({
+      ...(id === "vapi" ? vapiVoiceProvider : retellVoiceProvider),
+      startCall: async () => {
+        throw new Error(`${id} says no`);
+      },
+    });
+
+    const out = await startCallWithFailover([rejecting("vapi"), rejecting("retell")], REQUEST);
+
+    expect(out).toMatchObject({ kind: "rejected", provider: { id: "retell" } });
+    expect(out.kind === "rejected" && out.error.message).toBe("retell says no");
+    expect(out.errors).toEqual(["VAPI_ERROR: vapi says no", "RETELL_ERROR: retell says no"]);
+  });
+});
+
+describe("startCallFailure", () => {
+  it("treats errors raised before any request as rejections", async () => {
+    vi.stubEnv("RETELL_API_KEY", "");
+    const e = await retellVoiceProvider.startCall(REQUEST).catch((err) => err);
+    vi.stubEnv("RETELL_API_KEY", "retell-key");
+
+    expect(e.message).toBe("Missing env: RETELL_API_KEY");
+    expect(startCallFailure(e)).toBe("rejected");
+  });
+});
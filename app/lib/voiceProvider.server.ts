@@ -0,0 +1,81 @@
+// app/lib/voiceProvider.server.ts
+import { retellVoiceProvider } from "./retellVoice.server";
+import { simVoiceProvider } from "./simVoice.server";
+import { vapiVoiceProvider } from "./vapiVoice.server";
+import {
+  DIALING_VOICE_PROVIDERS,
+  pickVoiceProviderId,
+  providerOutcome,
+  startCallFailure,
+  type StartCallRequest,
+  type StartCallResult,
+  type VoiceProvider,
+  type VoiceProviderId,
+} from "./voiceProvider.shared";
+
+const PROVIDERS: Record<VoiceProviderId, VoiceProvider> = {
+  vapi: vapiVoiceProvider,
+  retell: retellVoiceProvider,
+  sim: simVoiceProvider,
+};
+
+/** Provider for new calls: VOICE_PROVIDER (vapi | retell | sim), default vapi. */
+export function defaultVoiceProviderId(): VoiceProviderId {
+  return pickVoiceProviderId(process.env.VOICE_PROVIDER) ?? "vapi";
+}
+
+/** Adapter by id (e.g. CallJob.provider); unknown or empty ids get the default provider. */
+export function getVoiceProvider(id?: string | null): VoiceProvider {
+  return PROVIDERS[pickVoiceProviderId(id) ?? defaultVoiceProviderId()];
+}
+
+/**
+ * Providers to try for a shop's call, in order: the shop's choice (Settings.voiceProvider, else the default),
+ * then - with failover on - every other configured dialing provider.
+ */
+export function voiceProvidersForShop(settings: { voiceProvider?: string | null; voiceFailover?: boolean | null } | null) {
+  const primary = getVoiceProvider(settings?.voiceProvider);
+  if (!settings?.voiceFailover || !DIALING_VOICE_PROVIDERS.includes(primary.id)) return [primary];
+
+  const backups = DIALING_VOICE_PROVIDERS.filter((id) => id !== primary.id)
+    .map((id) => PROVIDERS[id])
+    .filter((p) => p.isConfigured());
+  return [primary, ...backups];
+}
+
+export type FailoverStart =
+  | { kind: "started"; provider: VoiceProvider; started: StartCallResult; errors: string[] }
+  // Every provider rejected the call; `error` is the last rejection.
+  | { kind: "rejected"; provider: VoiceProvider; error: any; errors: string[] }
+  // `provider` may be dialing: nobody else is tried.
+  | { kind: "unknown"; provider: VoiceProvider; error: any; errors: string[] };
+
+/**
+ * Start the call on the first provider that takes it. Only a definite rejection moves on to the next one;
+ * after a timeout or 5xx the customer may already be ringing, so a second provider would call them twice.
+ */
+export async function startCallWithFailover(
+  providers: VoiceProvider[],
+  request: StartCallRequest,
+  onFailover?: (from: VoiceProvider, to: VoiceProvider, error: string) => Promise<void>
+): Promise<FailoverStart> {
+  const errors: string[] = [];
+  let error: any = null;
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i];
+    try {
+      return { kind: "started", provider, started: await provider.startCall(request), errors };
+    } catch (e: any) {
+      error = e;
+      const err = String(e?.message ?? e);
+      const failure = startCallFailure(e);
+      errors.push(providerOutcome(provider.id, failure === "unknown" ? `START_UNKNOWN: ${err}` : `ERROR: ${err}`));
+      console.log("[CALL_START] provider_failed", { shop: request.ref.shop, callJobId: request.ref.callJobId, provider: provider.id, failure, err });
+
+      if (failure === "unknown") return { kind: "unknown", provider, error: e, errors };
+      const next = providers[i + 1];
+      if (next && onFailover) await onFailover(provider, next, err);
+    }
+  }
+  return { kind: "rejected", provider: providers[providers.length - 1], error, errors };
+}
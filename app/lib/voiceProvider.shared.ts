@@ -0,0 +1,165 @@
+// app/lib/voiceProvider.shared.ts
+
+/* =========================
+   Voice providers
+   - A provider places the outbound call, turns its webhooks into VoiceEvents, answers tool calls
+     and can be asked how a call ended (reconciliation).
+   - Everything after that (status transitions, end-of-call analysis, billing, tools) is provider-agnostic.
+   ========================= */
+export type VoiceProviderId = "vapi" | "retell" | "sim";
+
+export const VOICE_PROVIDERS: Array<{ id: VoiceProviderId; label: string; dials: boolean }> = [
+  { id: "vapi", label: "Vapi", dials: true },
+  { id: "retell", label: "Retell AI", dials: true },
+  { id: "sim", label: "Simulator", dials: false },
+];
+
+// Providers a shop can pick in Settings (and fail over between).
+export const DIALING_VOICE_PROVIDERS = VOICE_PROVIDERS.filter((p) => p.dials).map((p) => p.id);
+
+export function pickVoiceProviderId(v: any): VoiceProviderId | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return VOICE_PROVIDERS.some((p) => p.id === s) ? (s as VoiceProviderId) : null;
+}
+
+export function voiceProviderLabel(id: string | null | undefined) {
+  return VOICE_PROVIDERS.find((p) => p.id === id)?.label ?? String(id ?? "");
+}
+
+/** Outcome text prefixed with the provider, e.g. VAPI_CALL_CREATED / SIM_CALL_CREATED. */
+export function providerOutcome(id: string, suffix: string) {
+  return `${id.toUpperCase()}_${suffix}`;
+}
+
+/* =========================
+   Calls
+   ========================= */
+export type VoiceCallRef = { shop: string; callJobId: string; checkoutId: string | null };
+
+export type VoiceToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema
+};
+
+export type StartCallRequest = {
+  ref: VoiceCallRef;
+  customer: { number: string; name: string | null };
+  messages: Array<{ role: "system" | "user"; content: string }>;
+  tools: VoiceToolDefinition[];
+  // Call language with its voice / transcriber (Vapi ids; other providers use what applies).
+  language: {
+    language: string;
+    voice: { provider: string; voiceId: string; speed?: number };
+    transcriber: { provider: string; model: string; language: string };
+  };
+  // Merchant persona (Settings); the name and store intro are already part of the prompt.
+  persona: { agentName: string | null; firstMessage: string | null; endCallPhrases: string[] };
+  // Per-shop overrides of the provider's assistant / outbound number (null = provider default).
+  assistantId: string | null;
+  phoneNumberId: string | null;
+  metadata: Record<string, any>;
+};
+
+export type StartCallResult = { providerCallId: string | null; raw: any };
+
+/* =========================
+   Start-call failures
+   - rejected: the provider refused the request (4xx) or it never got there (connection refused, DNS).
+     No call can be ringing, so the next provider may dial.
+   - unknown: timeout, connection reset or 5xx once the request went out. The call may exist; only
+     its webhooks or the stale-call expiry settle the job.
+   ========================= */
+export type StartCallFailure = "rejected" | "unknown";
+
+// Connection errors raised before any byte of the request was sent.
+const UNSENT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"]);
+
+/** How long a create-call request may take (START_CALL_TIMEOUT_MS, default 15s). */
+export function startCallTimeoutMs() {
+  const n = Math.floor(Number(process.env.START_CALL_TIMEOUT_MS ?? 15000));
+  return Number.isFinite(n) && n > 0 ? n : 15000;
+}
+
+export function startCallError(message: string, failure: StartCallFailure) {
+  const err = new Error(message);
+  (err as any).startCallFailure = failure;
+  return err;
+}
+
+/** Error for a create-call request that threw (timeout, network). */
+export function startCallFetchError(label: string, e: any) {
+  const code = String(e?.cause?.code ?? e?.code ?? "");
+  const reason =
+    e?.name === "TimeoutError" ? `no response within ${startCallTimeoutMs()}ms` : String(e?.cause?.message ?? e?.message ?? e);
+  return startCallError(`${label} create call failed: ${reason}`, UNSENT_ERROR_CODES.has(code) ? "rejected" : "unknown");
+}
+
+/** Error for a non-2xx create-call response: a 4xx is a rejection, anything else is unknown. */
+export function startCallHttpError(label: string, status: number, body: any) {
+  return startCallError(
+    `${label} create call failed: HTTP ${status} ${JSON.stringify(body)}`,
+    status >= 400 && status < 500 ? "rejected" : "unknown"
+  );
+}
+
+/** Errors thrown before any request (e.g. missing env) are rejections too. */
+export function startCallFailure(e: any): StartCallFailure {
+  return e?.startCallFailure === "unknown" ? "unknown" : "rejected";
+}
+
+/**
+ * The call's messages as one prompt, for providers whose agent / assistant holds the template and takes
+ * the prompt as the {{call_prompt}} variable (Retell, provisioned Vapi assistants).
+ */
+export function promptAsText(messages: StartCallRequest["messages"]) {
+  return messages.map((m) => (m.role === "system" ? m.content : `[${m.role}] ${m.content}`)).join("\n\n");
+}
+
+/** What the provider reports once a call is over (end-of-call webhook or call lookup). */
+export type VoiceCallReport = {
+  endedReason: string;
+  transcript: string;
+  recordingUrl: string | null;
+  connectedSeconds: number;
+  voicemail: boolean;
+  customerNumber: string | null;
+  // Provider-supplied analysis in our own shape; when missing the transcript is analyzed by us.
+  analysis?: Record<string, any> | null;
+};
+
+/* =========================
+   Webhook events
+   ========================= */
+export type VoiceToolCall = { id: string; name: string; arguments: any };
+
+export type VoiceToolResult = { name: string; toolCallId: string; result?: string; error?: string };
+
+export type VoiceEvent =
+  | { type: "status"; status: string }
+  | { type: "transcript"; transcript: string; final: boolean }
+  | { type: "end_of_call"; report: VoiceCallReport }
+  | { type: "tool_calls"; toolCalls: VoiceToolCall[] }
+  | { type: "other"; name: string };
+
+export type VoiceWebhookEvent = { ref: VoiceCallRef; event: VoiceEvent };
+
+export type VoiceCallLookup =
+  | { kind: "ended"; report: VoiceCallReport }
+  | { kind: "live"; status: string }
+  | { kind: "missing" }
+  | { kind: "error"; error: string };
+
+/* =========================
+   Provider
+   ========================= */
+export type VoiceProvider = {
+  id: VoiceProviderId;
+  label: string;
+  isConfigured(): boolean;
+  startCall(req: StartCallRequest): Promise<StartCallResult>;
+  // null when there is nothing to update (no shop / callJobId, or an event we don't use).
+  parseWebhook(payload: any): VoiceWebhookEvent | null;
+  toolCallsResponse(results: VoiceToolResult[]): Response;
+  fetchCall(providerCallId: string): Promise<VoiceCallLookup>;
+};
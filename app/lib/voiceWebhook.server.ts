@@ -0,0 +1,87 @@
+// app/lib/voiceWebhook.server.ts
+import db from "../db.server";
+import { runCallTools } from "../callProvider.server";
+import { transitionCallJob } from "./callJobState.server";
+import { processEndOfCall } from "./endOfCall.server";
+import { providerOutcome, type VoiceProvider, type VoiceWebhookEvent } from "./voiceProvider.shared";
+
+/* =========================
+   Voice webhook pipeline
+   - Every provider's webhook ends up here once its adapter has parsed the payload.
+   - Outcomes are prefixed with the provider id (VAPI_STATUS, SIM_STATUS, …); transitions are
+     recorded with the `<provider>_status` / `<provider>_report` sources.
+   ========================= */
+function safeStr(v: any, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+function ok() {
+  return new Response("OK", { status: 200 });
+}
+
+export async function handleVoiceWebhookEvent(provider: VoiceProvider, ev: VoiceWebhookEvent): Promise<Response> {
+  const { shop, callJobId } = ev.ref;
+  const event = ev.event;
+
+  if (event.type === "tool_calls") {
+    const results = await runCallTools({ shop, callJobId, toolCalls: event.toolCalls });
+    return provider.toolCallsResponse(results);
+  }
+
+  if (event.type === "status") {
+    const status = event.status;
+    const newStatus =
+      status === "in-progress" || status === "connected"
+        ? "CALLING"
+        : status === "ended"
+          ? "COMPLETED"
+          : null;
+
+    const outcome = safeStr(providerOutcome(provider.id, `STATUS: ${status}`), 2000);
+    if (newStatus) {
+      // Late or out-of-order updates (e.g. "in-progress" after the report) are rejected by the state machine.
+      await transitionCallJob({
+        id: callJobId,
+        where: { shop },
+        to: newStatus,
+        source: `${provider.id}_status`,
+        data: { outcome },
+        payload: { status },
+      });
+    } else {
+      await db.callJob.updateMany({ where: { id: callJobId, shop, status: "CALLING" }, data: { outcome } });
+    }
+    return ok();
+  }
+
+  if (event.type === "transcript") {
+    if (event.final && event.transcript) {
+      await db.callJob.updateMany({
+        where: { id: callJobId, shop },
+        data: {
+          transcript: event.transcript,
+          outcome: safeStr(providerOutcome(provider.id, "TRANSCRIPT_FINAL_RECEIVED"), 2000),
+        },
+      });
+    }
+    return ok();
+  }
+
+  if (event.type === "end_of_call") {
+    await processEndOfCall(
+      { ...ev.ref, ...event.report },
+      { source: `${provider.id}_report`, outcome: providerOutcome(provider.id, "END_OF_CALL_REPORT") }
+    );
+    return ok();
+  }
+
+  // default: store event type for debugging
+  await db.callJob.updateMany({
+    where: { id: callJobId, shop },
+    data: {
+      outcome: safeStr(providerOutcome(provider.id, `EVENT: ${event.name || "unknown"}`), 2000),
+    },
+  });
+  return ok();
+}
@@ -1,60 +1,42 @@
 import type { ActionFunctionArgs } from "react-router";
-import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { runCallWorkerTick } from "../lib/callWorker.server";
+import { getVoiceProvider, voiceProvidersForShop } from "../lib/voiceProvider.server";
+
+function json(body: any, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
 /**
  * POST /api/call-jobs/run
- * Body: { shop?: string, limit?: number }
+ * Headers: x-internal-secret: INTERNAL_API_SECRET
+ * Body: { shop: string, limit?: number }
  *
- * v1: no dialer yet. Marks jobs as COMPLETED with a placeholder outcome.
- * Next step: replace simulateCall() with real provider call (Twilio/Vapi/Bland).
+ * Runs one worker tick against the simulator for a shop whose voice provider is the simulator
+ * (Settings.voiceProvider or VOICE_PROVIDER = sim). Due jobs are "called" with scripted conversations
+ * that go through the real webhook pipeline: jobs are completed and analyzed for real, while offer codes,
+ * texts and billing are skipped for simulated calls (see runCallTools / applyBillingForCall).
  */
 export async function action({ request }: ActionFunctionArgs) {
+  const expected = (process.env.INTERNAL_API_SECRET ?? "").trim();
+  const got = (request.headers.get("x-internal-secret") ?? "").trim();
+  if (!expected) return json({ ok: false, error: "Missing INTERNAL_API_SECRET" }, 500);
+  if (got !== expected) return json({ ok: false, error: "Unauthorized" }, 401);
+
   const body = (await request.json().catch(() => ({}))) as any;
-  const shop = body?.shop ? String(body.shop) : null;
+  const shop = String(body?.shop ?? "").trim();
+  if (!shop) return json({ ok: false, error: "Missing shop" }, 400);
   const limit = Math.min(Math.max(Number(body?.limit ?? 10), 1), 50);
 
-  const now = new Date();
-
-  const jobs = await db.callJob.findMany({
-    where: {
-      ...(shop ? { shop } : {}),
-      status: "QUEUED",
-      scheduledFor: { lte: now },
-    },
-    orderBy: { scheduledFor: "asc" },
-    take: limit,
-  });
-
-  let processed = 0;
-
-  for (const job of jobs) {
-    // lock the job
-    const locked = await db.callJob.updateMany({
-      where: { id: job.id, status: "QUEUED" },
-      data: {
-        status: "CALLING",
-        attempts: { increment: 1 },
-      },
-    });
-
-    if (locked.count === 0) continue;
-
-    // v1 simulate
-    const outcome = `SIMULATED_CALL_OK phone=${job.phone}`;
-
-    await db.callJob.update({
-      where: { id: job.id },
-      data: {
-        status: "COMPLETED",
-        outcome,
-      },
-    });
-
-    processed += 1;
+  const primary = voiceProvidersForShop(await ensureSettings(shop))[0];
+  if (primary.id !== "sim") {
+    return json({ ok: false, error: `Shop uses ${primary.label}; only simulator shops can be run here.` }, 409);
   }
 
-  return new Response(JSON.stringify({ ok: true, processed }), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
-  });
+  const res = await runCallWorkerTick({ shop, limit, provider: getVoiceProvider("sim") });
+
+  return json({ ok: true, processed: res.processed, worker: res });
 }
@@ -2,6 +2,19 @@
 import type { ActionFunctionArgs } from "react-router";
 import db from "../db.server";
 import { ensureSettings, markAbandonedByDelay, enqueueCallJobs } from "../callRecovery.server";
+import { callScheduleFromSettings } from "../lib/callWindow.shared";
+import { parseRetryPolicy } from "../lib/retryPolicy.shared";
+import { parseAttemptLadder } from "../lib/attemptLadder.shared";
+import { parseConsentCountries, parseConsentPolicy } from "../lib/consent.shared";
+import { parseContactCaps } from "../lib/contactCaps.shared";
+import { parsePriorityWeights } from "../lib/priority.shared";
+import { parseMinRecoveryScore } from "../lib/recoveryModel.shared";
+import { ensureFreshRecoveryModel } from "../lib/recoveryModel.server";
+import { parseCallRules } from "../lib/rules.shared";
+import { runCallWorkerTick } from "../lib/callWorker.server";
+import { reconcileStaleCalls } from "../lib/callReconcile.server";
+import { parseEventRetentionDays } from "../lib/eventLog.shared";
+import { purgeEventLogs } from "../lib/eventLog.server";
 
 function json(body: any, status = 200) {
   return new Response(JSON.stringify(body), {
@@ -58,8 +71,17 @@ export async function action({ request }: ActionFunctionArgs) {
       minOrderValue: Number(settings.minOrderValue ?? 0),
       callWindowStart: String((settings as any).callWindowStart ?? "09:00"),
       callWindowEnd: String((settings as any).callWindowEnd ?? "19:00"),
+      shopTimezone: settings.shopTimezone ?? null,
     });
 
+    // Retrains at most once a day; a failed training keeps the previous model.
+    const recoveryModel = await ensureFreshRecoveryModel({ shop, shopTimezone: settings.shopTimezone ?? null }).catch(
+      (e: any) => {
+        console.log("[CRON] recovery_model_failed", { shop, err: String(e?.message ?? e) });
+        return null;
+      }
+    );
+
     const markedRes = await markAbandonedByDelay(shop, delayMinutes);
     const marked = Number((markedRes as any)?.count ?? 0);
     markedTotal += marked;
@@ -70,6 +92,17 @@ export async function action({ request }: ActionFunctionArgs) {
       minOrderValue: Number(settings.minOrderValue ?? 0),
       callWindowStart: String((settings as any).callWindowStart ?? "09:00"),
       callWindowEnd: String((settings as any).callWindowEnd ?? "19:00"),
+      callSchedule: callScheduleFromSettings(settings as any),
+      retryPolicy: parseRetryPolicy(settings.retryPolicyJson, retryMinutes),
+      attemptLadder: parseAttemptLadder(settings.attemptLadderJson),
+      shopTimezone: settings.shopTimezone ?? null,
+      consentPolicy: parseConsentPolicy(settings.consentPolicy),
+      consentCountries: parseConsentCountries(settings.consentCountries),
+      contactCaps: parseContactCaps(settings.contactCapsJson),
+      priorityWeights: parsePriorityWeights(settings.priorityWeightsJson),
+      recoveryModel,
+      minRecoveryScore: parseMinRecoveryScore(settings.minRecoveryScore),
+      rules: parseCallRules(settings.rulesJson),
       delayMinutes,
       maxAttempts,
       retryMinutes,
@@ -78,7 +111,14 @@ export async function action({ request }: ActionFunctionArgs) {
     const enqueued = Number((enq as any)?.enqueued ?? 0);
     enqueuedTotal += enqueued;
 
-    console.log("[CRON] result", { shop, marked, enqueued });
+    const purgedEvents = await purgeEventLogs(shop, parseEventRetentionDays(settings.eventLogRetentionDays)).catch(
+      (e: any) => {
+        console.log("[CRON] event_purge_failed", { shop, err: String(e?.message ?? e) });
+        return 0;
+      }
+    );
+
+    console.log("[CRON] result", { shop, marked, enqueued, purgedEvents });
 
     perShop.push({
       shop,
@@ -96,30 +136,20 @@ export async function action({ request }: ActionFunctionArgs) {
     where: { status: "QUEUED", scheduledFor: { lte: nowAfter } },
   });
 
-  let runCallsStatus: number | null = null;
-  let runCallsBody: any = null;
-
-  const appUrl = String(process.env.APP_URL || "").replace(/\/$/, "");
-  if (!appUrl) {
-    runCallsBody = { error: "Missing APP_URL env" };
-  } else {
-    const res = await fetch(`${appUrl}/api/run-calls`, {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        "x-run-calls-secret": process.env.RUN_CALLS_SECRET || "",
-      },
-      body: JSON.stringify({ source: "cron", at: new Date().toISOString() }),
-    });
-
-    runCallsStatus = res.status;
+  // Process due jobs right here instead of calling back into /api/run-calls over HTTP.
+  let worker: any = null;
+  try {
+    worker = await runCallWorkerTick();
+  } catch (e: any) {
+    worker = { error: String(e?.message ?? e) };
+  }
 
-    const text = await res.text().catch(() => "");
-    try {
-      runCallsBody = text ? JSON.parse(text) : null;
-    } catch {
-      runCallsBody = { raw: text };
-    }
+  // CALLING jobs whose end-of-call webhook never arrived: ask the provider how they ended.
+  let reconcile: any = null;
+  try {
+    reconcile = await reconcileStaleCalls();
+  } catch (e: any) {
+    reconcile = { error: String(e?.message ?? e) };
   }
 
   const body = {
@@ -130,8 +160,8 @@ export async function action({ request }: ActionFunctionArgs) {
     enqueuedTotal,
     queuedDueBefore,
     queuedDueAfter,
-    runCallsStatus,
-    runCallsBody,
+    worker,
+    reconcile,
     serverNow: new Date().toISOString(),
   };
 
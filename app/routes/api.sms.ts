@@ -1,6 +1,9 @@
 import type { ActionFunctionArgs } from "react-router";
+import db from "../db.server";
+import { recordSmsSent, smsSendBlock } from "../callProvider.server";
 import { sendDiscountSms } from "../lib/brevoSms.server";
 import { assertSmsFeature } from "../lib/planFeatures.server";
+import { logEvent } from "../lib/eventLog.server";
 
 function requiredEnv(name: string) {
   const v = process.env[name];
@@ -34,20 +37,44 @@ export async function action({ request }: ActionFunctionArgs) {
   const to = String(body.to ?? "").trim();
   const code = String(body.code ?? "").trim();
   const checkoutUrl = String(body.checkoutUrl ?? "").trim();
+  const callJobId = String(body.callJobId ?? "").trim() || null;
+  const checkoutIdParam = String(body.checkoutId ?? "").trim() || null;
 
   if (!shop || !to || !checkoutUrl) {
     return json({ success: false, error: "missing_required_fields" }, 400);
   }
 
+  // Consent and the SMS cap are per checkout: enforced whenever the text can be tied to one.
+  const job = callJobId ? await db.callJob.findFirst({ where: { id: callJobId, shop } }) : null;
+  const checkoutId = checkoutIdParam ?? job?.checkoutId ?? null;
+  const checkout = checkoutId ? await db.checkout.findFirst({ where: { shop, checkoutId } }) : null;
+
   try {
     const { plan } = await assertSmsFeature(shop);
 
+    const blocked = checkout ? await smsSendBlock({ shop, checkout, phone: to }) : null;
+    if (blocked) {
+      await logEvent({
+        shop,
+        checkoutId,
+        callJobId,
+        level: "warn",
+        code: "SMS_FAILED",
+        message: `${blocked}. No SMS was sent.`,
+        details: { error: "sms_blocked", reason: blocked },
+      });
+      return json({ success: false, error: "sms_blocked", reason: blocked, plan }, 409);
+    }
+
     const { messageId } = await sendDiscountSms({
       to,
       code,
       checkoutUrl,
     });
 
+    if (job) await recordSmsSent({ callJobId: job.id, messageId });
+    await logEvent({ shop, checkoutId, callJobId, code: "SMS_SENT", message: "Sent via /api/sms", details: { messageId, code: code || null } });
+
     return json({
       success: true,
       messageId,
@@ -55,6 +82,15 @@ export async function action({ request }: ActionFunctionArgs) {
     });
   } catch (e: any) {
     const status = Number(e?.status) || 500;
+    await logEvent({
+      shop,
+      checkoutId,
+      callJobId,
+      level: "warn",
+      code: "SMS_FAILED",
+      message: String(e?.message || "SMS send failed"),
+      details: { error: e?.code || "sms_send_failed" },
+    });
     return json(
       {
         success: false,
@@ -9,8 +9,17 @@ import {
   ensureSettings,
   markAbandonedByDelay,
   syncAbandonedCheckoutsFromShopify,
+  syncShopTimezoneFromShopify,
 } from "../callRecovery.server";
-import { createVapiCallForJob } from "../callProvider.server";
+import { startCallForJob } from "../callProvider.server";
+import { runCallWorkerTick } from "../lib/callWorker.server";
+import { getVoiceProvider, voiceProvidersForShop } from "../lib/voiceProvider.server";
+import { callJobHistory, transitionCallJob } from "../lib/callJobState.server";
+import { callJobSourceLabel } from "../lib/callJobState.shared";
+import { suppressionActorFromSession } from "../lib/suppression.server";
+import { templateVersionLabels } from "../lib/promptTemplates.server";
+import { isThrottledOutcome } from "../lib/callConcurrency.shared";
+import { PRIORITY_FACTORS, formatPriorityBreakdown, parsePriorityBreakdown, type PriorityPart } from "../lib/priority.shared";
 
 function safeStr(v: any) {
   return v == null ? "" : String(v);
@@ -56,10 +65,17 @@ function Pill(props: { children: any; tone?: "neutral" | "green" | "blue" | "amb
   );
 }
 
-function StatusPill({ status }: { status: string }) {
+function StatusPill({ status, throttled }: { status: string; throttled?: string | null }) {
   const s = safeStr(status).toUpperCase();
   const tone =
     s === "COMPLETED" ? "green" : s === "CALLING" ? "blue" : s === "QUEUED" ? "amber" : s === "FAILED" ? "red" : "neutral";
+  if (s === "QUEUED" && throttled) {
+    return (
+      <Pill tone="amber" title={throttled}>
+        QUEUED · THROTTLED
+      </Pill>
+    );
+  }
   return <Pill tone={tone as any}>{s}</Pill>;
 }
 
@@ -71,6 +87,12 @@ type CallRow = {
   createdAt: string;
   attempts: number;
   providerCallId: string | null;
+  throttled: string | null; // THROTTLED reason while held back by concurrency limits
+  priorityScore: number;
+  priorityParts: PriorityPart[];
+  ruleName: string | null; // call rule that matched this job
+  templateLabel: string | null; // call-script template version used, e.g. "Luxury concierge v3"
+  history: Array<{ from: string | null; to: string; source: string; detail: string | null; at: string }>;
   callOutcome: string | null;
   aiStatus: string | null;
   summary: string | null;
@@ -81,6 +103,19 @@ type CallRow = {
   sentSystemPrompt: string | null;
 };
 
+function historyDetail(payloadJson: string | null): string | null {
+  if (!payloadJson) return null;
+  try {
+    const obj = JSON.parse(payloadJson) ?? {};
+    const parts = Object.entries(obj)
+      .filter(([, v]) => v != null && v !== "")
+      .map(([k, v]) => `${k}: ${typeof v === "object" ? JSON.stringify(v) : String(v)}`);
+    return parts.length ? parts.join(" · ").slice(0, 240) : null;
+  } catch {
+    return null;
+  }
+}
+
 function normalizeOutcome(v: any): string | null {
   if (v == null) return null;
   if (typeof v === "string") {
@@ -131,6 +166,7 @@ type LoaderData = {
   shop: string;
   providerConfigured: boolean;
   stats: { queued: number; calling: number; completed7d: number };
+  sync: { ok: boolean; synced: number; done: boolean; error: string | null };
   rows: CallRow[];
 };
 
@@ -140,7 +176,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const settings = await ensureSettings(shop);
 
-  await syncAbandonedCheckoutsFromShopify({ admin, shop, limit: 50 });
+  await syncShopTimezoneFromShopify({ admin, shop });
+  // One page, no throttle waits: the page load never blocks on the sync; the rest resumes next load.
+  const syncRes = await syncAbandonedCheckoutsFromShopify({ admin, shop, limit: 50, maxPages: 1, maxWaitMs: 0 });
   await markAbandonedByDelay(shop, settings.delayMinutes);
 
   const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
@@ -153,14 +191,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       where: { shop },
       orderBy: { createdAt: "desc" },
       take: 80,
-      select: { id: true, checkoutId: true, status: true, scheduledFor: true, createdAt: true, attempts: true, providerCallId: true, recordingUrl: true },
+      select: { id: true, checkoutId: true, status: true, scheduledFor: true, createdAt: true, attempts: true, providerCallId: true, recordingUrl: true, outcome: true, priorityScore: true, priorityJson: true, ruleName: true, templateVersionId: true },
     }),
   ]);
 
-  const providerConfigured =
-    Boolean(process.env.VAPI_API_KEY?.trim()) &&
-    Boolean(process.env.VAPI_PHONE_NUMBER_ID?.trim()) &&
-    Boolean(process.env.VAPI_SERVER_URL?.trim());
+  const providerConfigured = voiceProvidersForShop(settings)[0].isConfigured();
 
   const callIds = jobs.map((j) => String(j.providerCallId ?? "")).filter(Boolean);
   const jobIds = jobs.map((j) => String(j.id ?? "")).filter(Boolean);
@@ -168,6 +203,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const { fetchSupabaseSummaries, pickRecordingUrl } = await import("../lib/callInsights.server");
   const sbMap = await fetchSupabaseSummaries({ shop, callIds, callJobIds: jobIds, checkoutIds });
+  const templateLabels = await templateVersionLabels(jobs.map((j) => String(j.templateVersionId ?? "")));
+  const histories = await callJobHistory(jobIds);
 
   const rows: CallRow[] = jobs.map((j) => {
     const callId = j.providerCallId ? String(j.providerCallId) : "";
@@ -191,6 +228,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       createdAt: new Date(j.createdAt).toISOString(),
       attempts: Number(j.attempts ?? 0),
       providerCallId: j.providerCallId ? String(j.providerCallId) : null,
+      throttled: String(j.status) === "QUEUED" && isThrottledOutcome(j.outcome) ? String(j.outcome) : null,
+      priorityScore: Number(j.priorityScore ?? 0),
+      priorityParts: parsePriorityBreakdown(j.priorityJson)?.parts ?? [],
+      ruleName: j.ruleName ? String(j.ruleName) : null,
+      templateLabel: j.templateVersionId ? templateLabels.get(j.templateVersionId) ?? null : null,
+      history: (histories.get(jobId) ?? []).map((h) => ({
+        from: h.from,
+        to: h.to,
+        source: callJobSourceLabel(h.source),
+        detail: historyDetail(h.payload),
+        at: h.at,
+      })),
       callOutcome: sb?.call_outcome ? String(sb.call_outcome) : null,
       aiStatus: sb?.ai_status ? String(sb.ai_status) : null,
       summary: safeStr((sb as any)?.summary_clean || (sb as any)?.summary).trim() || null,
@@ -202,7 +251,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     };
   });
 
-  return { shop, providerConfigured, stats: { queued, calling, completed7d }, rows } satisfies LoaderData;
+  const sync = {
+    ok: syncRes.ok,
+    synced: syncRes.synced,
+    done: syncRes.done,
+    error: syncRes.errors.length ? syncRes.errors.slice(0, 3).join(" | ") : null,
+  };
+
+  return { shop, providerConfigured, stats: { queued, calling, completed7d }, sync, rows } satisfies LoaderData;
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -214,60 +270,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const redirectBack = () => new Response(null, { status: 303, headers: { Location: "/app/calls" } });
 
-  const providerOk =
-    Boolean(process.env.VAPI_API_KEY?.trim()) &&
-    Boolean(process.env.VAPI_PHONE_NUMBER_ID?.trim()) &&
-    Boolean(process.env.VAPI_SERVER_URL?.trim());
+  // Without credentials for the shop's provider, dashboard calls play through the simulator (same worker, webhooks and tools).
+  const simulate = !voiceProvidersForShop(await ensureSettings(shop))[0].isConfigured();
+  const provider = simulate ? getVoiceProvider("sim") : undefined;
 
   if (intent === "run_jobs") {
-    const settings = await ensureSettings(shop);
-
-    const now = new Date();
-    const jobs = await db.callJob.findMany({
-      where: { shop, status: "QUEUED", scheduledFor: { lte: now } },
-      orderBy: { scheduledFor: "asc" },
-      take: 10,
-    });
-
-    for (const job of jobs) {
-      const locked = await db.callJob.updateMany({
-        where: { id: job.id, shop, status: "QUEUED" },
-        data: { status: "CALLING", attempts: { increment: 1 }, provider: providerOk ? "vapi" : "sim", outcome: null },
-      });
-      if (locked.count === 0) continue;
-
-      if (!providerOk) {
-        await db.callJob.update({
-          where: { id: job.id },
-          data: { status: "COMPLETED", outcome: `SIMULATED_CALL_OK phone=${(job as any).phone}` },
-        });
-        continue;
-      }
-
-      try {
-        await createVapiCallForJob({ shop, callJobId: job.id });
-        await db.callJob.update({ where: { id: job.id }, data: { status: "CALLING", outcome: "CALL_STARTED" } });
-      } catch (e: any) {
-        const maxAttempts = settings.maxAttempts ?? 2;
-        const fresh = await db.callJob.findUnique({ where: { id: job.id }, select: { attempts: true } });
-        const attemptsAfter = Number(fresh?.attempts ?? 0);
-
-        if (attemptsAfter >= maxAttempts) {
-          await db.callJob.update({
-            where: { id: job.id },
-            data: { status: "FAILED", outcome: `ERROR: ${String(e?.message ?? e)}` },
-          });
-        } else {
-          const retryMinutes = settings.retryMinutes ?? 180;
-          const next = new Date(Date.now() + retryMinutes * 60 * 1000);
-          await db.callJob.update({
-            where: { id: job.id },
-            data: { status: "QUEUED", scheduledFor: next, outcome: `RETRY_SCHEDULED in ${retryMinutes}m` },
-          });
-        }
-      }
-    }
-
+    // Calls go through the worker so concurrency limits and leases apply.
+    await runCallWorkerTick({ shop, limit: 10, provider });
     return redirectBack();
   }
 
@@ -275,25 +284,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const callJobId = String(fd.get("callJobId") ?? "").trim();
     if (!callJobId) return redirectBack();
 
-    if (!providerOk) {
-      await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: { outcome: "Missing call provider configuration" },
-      });
-      return redirectBack();
-    }
-
-    const locked = await db.callJob.updateMany({
-      where: { id: callJobId, shop, status: "QUEUED" },
-      data: { status: "CALLING", attempts: { increment: 1 }, provider: "vapi", outcome: null },
+    const locked = await transitionCallJob({
+      id: callJobId,
+      to: "CALLING",
+      source: "manual",
+      where: { shop, status: "QUEUED" },
+      data: { attempts: { increment: 1 }, outcome: null },
+      payload: { actor: suppressionActorFromSession(session) },
     });
-    if (locked.count === 0) return redirectBack();
+    if (!locked.ok) return redirectBack();
 
     try {
-      await createVapiCallForJob({ shop, callJobId });
+      const res = await startCallForJob({ shop, callJobId, providerId: provider?.id ?? null });
+      if (res.suppressed || res.ruleAction || res.startUnknown) return redirectBack();
       await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: { status: "CALLING", outcome: "CALL_STARTED" },
+        where: { id: callJobId, shop, status: "CALLING" },
+        data: { outcome: "CALL_STARTED" },
       });
     } catch (e: any) {
       const settings = await ensureSettings(shop);
@@ -303,16 +309,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const attemptsAfter = Number(fresh?.attempts ?? 0);
 
       if (attemptsAfter >= maxAttempts) {
-        await db.callJob.updateMany({
-          where: { id: callJobId, shop },
-          data: { status: "FAILED", outcome: `ERROR: ${String(e?.message ?? e)}` },
+        await transitionCallJob({
+          id: callJobId,
+          to: "FAILED",
+          source: "manual",
+          where: { shop },
+          data: { outcome: `ERROR: ${String(e?.message ?? e)}` },
+          payload: { error: String(e?.message ?? e), attempts: attemptsAfter },
         });
       } else {
         const retryMinutes = settings.retryMinutes ?? 180;
         const next = new Date(Date.now() + retryMinutes * 60 * 1000);
-        await db.callJob.updateMany({
-          where: { id: callJobId, shop },
-          data: { status: "QUEUED", scheduledFor: next, outcome: `RETRY_SCHEDULED in ${retryMinutes}m` },
+        await transitionCallJob({
+          id: callJobId,
+          to: "QUEUED",
+          source: "manual",
+          where: { shop },
+          data: { scheduledFor: next, outcome: `RETRY_SCHEDULED in ${retryMinutes}m` },
+          payload: { error: String(e?.message ?? e), attempts: attemptsAfter },
         });
       }
     }
@@ -324,7 +338,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function Calls() {
-  const { shop, providerConfigured, stats, rows } = useLoaderData<typeof loader>();
+  const { shop, providerConfigured, stats, sync, rows } = useLoaderData<typeof loader>();
   const revalidator = useRevalidator();
 
   React.useEffect(() => {
@@ -374,6 +388,15 @@ export default function Calls() {
             {stats.calling > 0 ? <Pill tone="blue">{stats.calling} calling</Pill> : null}
             {stats.queued > 0 ? <Pill tone="amber">{stats.queued} queued</Pill> : null}
             <Pill title="Completed in 7d">{stats.completed7d} completed/7d</Pill>
+            {!sync.ok ? (
+              <Pill tone="red" title={sync.error ?? undefined}>
+                Checkout sync failed
+              </Pill>
+            ) : sync.synced > 0 || !sync.done ? (
+              <Pill tone={sync.done ? "green" : "amber"} title="Shopify abandoned checkouts">
+                {sync.done ? `${sync.synced} checkouts synced` : "Checkout sync in progress"}
+              </Pill>
+            ) : null}
           </div>
         </div>
 
@@ -433,11 +456,12 @@ export default function Calls() {
           }}
         >
           <div style={{ maxHeight: 650, overflow: "auto" }}>
-            <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 1040 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 1120 }}>
               <thead>
                 <tr>
                   <th style={headerCell}>Checkout</th>
                   <th style={headerCell}>Status</th>
+                  <th style={headerCell}>Priority</th>
                   <th style={headerCell}>Outcome</th>
                   <th style={headerCell}>OpenAI</th>
                   <th style={headerCell}>AI</th>
@@ -457,7 +481,17 @@ export default function Calls() {
                     >
                       <td style={{ ...cell, color: "rgba(30,58,138,0.95)" }}>{r.checkoutId}</td>
                       <td style={cell}>
-                        <StatusPill status={r.status} />
+                        <StatusPill status={r.status} throttled={r.throttled} />
+                      </td>
+                      <td style={cell}>
+                        <Pill
+                          tone={r.priorityScore >= 60 ? "green" : r.priorityScore >= 30 ? "blue" : "neutral"}
+                          title={formatPriorityBreakdown(
+                            r.priorityParts.length ? { score: r.priorityScore, parts: r.priorityParts } : null
+                          )}
+                        >
+                          {r.priorityParts.length ? Math.round(r.priorityScore) : "—"}
+                        </Pill>
                       </td>
                       <td style={cell}>
                         <Pill tone={outcomeTone(r.callOutcome)}>
@@ -556,8 +590,59 @@ export default function Calls() {
                   <Pill tone={outcomeTone(selected.openaiOutcome)} title="OpenAI outcome">
                     {selected.openaiOutcome ? String(selected.openaiOutcome).toUpperCase() : "OPENAI —"}
                   </Pill>
+                  {selected.ruleName ? (
+                    <Pill tone="blue" title="Call rule that matched this job">
+                      Rule · {selected.ruleName}
+                    </Pill>
+                  ) : null}
+                  {selected.templateLabel ? (
+                    <Pill title="Call-script template version used">Template · {selected.templateLabel}</Pill>
+                  ) : null}
                 </div>
 
+                {selected.priorityParts.length ? (
+                  <div style={{ display: "grid", gap: 6 }}>
+                    <div style={{ fontSize: 12, fontWeight: 1000, color: "rgba(17,24,39,0.55)" }}>
+                      Priority {Math.round(selected.priorityScore)} / 100
+                    </div>
+                    <div style={{ display: "grid", gap: 4 }}>
+                      {selected.priorityParts.map((p) => (
+                        <div
+                          key={p.key}
+                          style={{ display: "flex", justifyContent: "space-between", gap: 8, fontSize: 12, fontWeight: 900 }}
+                        >
+                          <span style={{ color: "rgba(17,24,39,0.70)" }}>
+                            {PRIORITY_FACTORS.find((f) => f.key === p.key)?.label ?? p.key} · {p.input}
+                          </span>
+                          <span style={{ color: p.weight ? "rgba(17,24,39,0.85)" : "rgba(17,24,39,0.35)" }}>
+                            {p.weight ? `+${p.points}` : "off"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {selected.history.length ? (
+                  <div style={{ display: "grid", gap: 6 }}>
+                    <div style={{ fontSize: 12, fontWeight: 1000, color: "rgba(17,24,39,0.55)" }}>Status history</div>
+                    <div style={{ display: "grid", gap: 6 }}>
+                      {selected.history.map((h, i) => (
+                        <div key={`${h.at}-${i}`} style={{ display: "grid", gap: 2, fontSize: 12, fontWeight: 900 }}>
+                          <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+                            <span style={{ color: "rgba(17,24,39,0.55)" }}>{formatWhen(h.at)}</span>
+                            {h.from ? <StatusPill status={h.from} /> : null}
+                            {h.from ? <span style={{ color: "rgba(17,24,39,0.45)" }}>→</span> : null}
+                            <StatusPill status={h.to} />
+                            <span style={{ color: "rgba(17,24,39,0.70)" }}>{h.source}</span>
+                          </div>
+                          {h.detail ? <div style={{ color: "rgba(17,24,39,0.55)", wordBreak: "break-word" }}>{h.detail}</div> : null}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
                 <div style={{ display: "grid", gap: 6 }}>
                   <div style={{ fontSize: 12, fontWeight: 1000, color: "rgba(17,24,39,0.55)" }}>Summary</div>
                   <div
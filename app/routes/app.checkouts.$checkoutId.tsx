@@ -1,6 +1,6 @@
 import * as React from "react";
-import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { useLoaderData, useNavigate, useRouteError } from "react-router";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useNavigate, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
@@ -13,6 +13,17 @@ import {
   type SupabaseCallSummary,
 } from "../lib/callInsights.shared";
 import { fetchSupabaseSummaries } from "../lib/callInsights.server";
+import { extractCheckoutLocation, formatInTimeZone, resolveCustomerTimezone } from "../lib/timezones.shared";
+import { callingCodeForCountry, normalizePhoneE164 } from "../lib/phone.shared";
+import {
+  addSuppression,
+  loadActiveSuppressions,
+  normalizeSuppressionEmail,
+  suppressionActorFromSession,
+} from "../lib/suppression.server";
+import { transitionCallJobs } from "../lib/callJobState.server";
+import { previewCallPrompt } from "../callProvider.server";
+import { CallPromptPreview } from "../components/CallPromptPreview";
 import { Modal } from "@shopify/app-bridge-react";
 
 type LoaderData = {
@@ -31,6 +42,16 @@ type LoaderData = {
     itemsJson: string | null;
   };
 
+  customerTimezone: string;
+  shopTimezone: string;
+
+  suppression: {
+    phone: string | null; // normalized E.164, null if not normalizable
+    email: string | null;
+    phoneSuppressed: boolean;
+    emailSuppressed: boolean;
+  };
+
   recoveredOrder: null | {
     orderId: string;
     total: number | null;
@@ -44,6 +65,7 @@ type LoaderData = {
     status: string;
     createdAt: string;
     scheduledFor: string | null;
+    timezone: string | null;
     attempts: number;
     providerCallId: string | null;
     recordingUrl: string | null;
@@ -65,6 +87,14 @@ function withSearch(path: string): string {
   return `${path}${s}`;
 }
 
+function checkoutContactKeys(checkout: { phone: string | null; email: string | null; raw: string | null }) {
+  const iso2 = extractCheckoutLocation(checkout.raw).iso2;
+  return {
+    phone: normalizePhoneE164(checkout.phone, callingCodeForCountry(iso2)),
+    email: normalizeSuppressionEmail(checkout.email),
+  };
+}
+
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
@@ -72,7 +102,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const checkoutId = String(params.checkoutId ?? "").trim();
   if (!checkoutId) throw new Response("Missing checkoutId", { status: 400 });
 
-  const [checkout, jobs, recoveredOrder] = await Promise.all([
+  const [checkout, jobs, recoveredOrder, settings] = await Promise.all([
     db.checkout.findFirst({
       where: { shop, checkoutId },
       select: {
@@ -86,6 +116,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         value: true,
         currency: true,
         itemsJson: true,
+        raw: true,
       },
     }),
     db.callJob.findMany({
@@ -97,6 +128,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         checkoutId: true,
         status: true,
         scheduledFor: true,
+        timezone: true,
         attempts: true,
         createdAt: true,
         providerCallId: true,
@@ -120,6 +152,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         createdAt: true,
       },
     }),
+    db.settings.findUnique({ where: { shop }, select: { shopTimezone: true } }),
   ]);
 
   if (!checkout) throw new Response("Checkout not found", { status: 404 });
@@ -143,6 +176,16 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     (checkoutId ? (sbMap.get(`co:${checkoutId}`) as any) : null) ||
     null;
 
+  const shopTimezone = settings?.shopTimezone || "UTC";
+  const customerTimezone = j?.timezone ? String(j.timezone) : resolveCustomerTimezone(checkout.raw, shopTimezone);
+
+  const contact = checkoutContactKeys(checkout);
+  const suppressed = await loadActiveSuppressions({
+    shop,
+    phones: contact.phone ? [contact.phone] : [],
+    emails: contact.email ? [contact.email] : [],
+  });
+
   const recordingUrl = (pickRecordingUrl(sb) ?? (j?.recordingUrl ? String(j.recordingUrl) : null)) ?? null;
 
   return {
@@ -159,6 +202,14 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       currency: String(recoveredOrder?.currency ?? checkout.currency ?? "USD"),
       itemsJson: checkout.itemsJson ?? null,
     },
+    customerTimezone,
+    shopTimezone,
+    suppression: {
+      phone: contact.phone,
+      email: contact.email,
+      phoneSuppressed: Boolean(contact.phone && suppressed.has(`PHONE:${contact.phone}`)),
+      emailSuppressed: Boolean(contact.email && suppressed.has(`EMAIL:${contact.email}`)),
+    },
     recoveredOrder: recoveredOrder
       ? {
           orderId: String(recoveredOrder.orderId),
@@ -174,6 +225,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
           status: String(j.status),
           createdAt: new Date(j.createdAt).toISOString(),
           scheduledFor: j.scheduledFor ? new Date(j.scheduledFor).toISOString() : null,
+          timezone: j.timezone ? String(j.timezone) : null,
           attempts: Number(j.attempts ?? 0),
           providerCallId: j.providerCallId ? String(j.providerCallId) : null,
           recordingUrl: j.recordingUrl ? String(j.recordingUrl) : null,
@@ -184,6 +236,52 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   } satisfies LoaderData;
 };
 
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const checkoutId = String(params.checkoutId ?? "").trim();
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  // Dry run: what a call for this checkout would be sent right now.
+  if (intent === "prompt_preview") {
+    return { ok: true, preview: await previewCallPrompt({ shop, checkoutId }) };
+  }
+
+  if (intent !== "suppress_phone" && intent !== "suppress_email") return { ok: false };
+
+  const checkout = await db.checkout.findFirst({
+    where: { shop, checkoutId },
+    select: { phone: true, email: true, raw: true },
+  });
+  if (!checkout) throw new Response("Checkout not found", { status: 404 });
+
+  const contact = checkoutContactKeys(checkout);
+  const kind = intent === "suppress_email" ? "EMAIL" : "PHONE";
+  const res = await addSuppression({
+    shop,
+    kind,
+    value: kind === "EMAIL" ? contact.email : contact.phone,
+    source: "MANUAL",
+    reason: String(fd.get("reason") ?? "") || "Added from checkout",
+    checkoutId,
+    actor: suppressionActorFromSession(session),
+  });
+
+  // Nothing queued for this checkout should still dial.
+  if (res.ok) {
+    await transitionCallJobs({
+      where: { shop, checkoutId, status: "QUEUED" },
+      to: "CANCELED",
+      source: "suppression",
+      data: { outcome: `SUPPRESSED: ${kind} MANUAL` },
+    });
+  }
+
+  return { ok: res.ok };
+};
+
 function SectionTitle({ children }: { children: any }) {
   return <div style={{ fontWeight: 950, fontSize: 13, margin: "8px 0 6px" }}>{children}</div>;
 }
@@ -212,6 +310,9 @@ function MonoBox({ children }: { children: any }) {
 export default function CheckoutDetailModal() {
   const data = useLoaderData<typeof loader>();
   const nav = useNavigate();
+  const suppressFetcher = useFetcher<typeof action>();
+  const promptFetcher = useFetcher<typeof action>();
+  const promptPreview = promptFetcher.data && "preview" in promptFetcher.data ? promptFetcher.data.preview : null;
 
   const close = () => nav(withSearch("/app/checkouts"));
 
@@ -246,6 +347,101 @@ export default function CheckoutDetailModal() {
             {sb?.ai_status ? ` · AI: ${String(sb.ai_status).toUpperCase()}` : ""}
             {data.recoveredOrder?.orderId ? ` · Order: ${data.recoveredOrder.orderId}` : ""}
           </div>
+          {data.latestJob?.scheduledFor ? (
+            <div style={{ opacity: 0.8, fontWeight: 800, fontSize: 12 }}>
+              Call scheduled ({safeStr(data.latestJob.status)}): {formatInTimeZone(data.latestJob.scheduledFor, data.customerTimezone)}{" "}
+              customer time ({data.customerTimezone}) · {formatInTimeZone(data.latestJob.scheduledFor, data.shopTimezone)} shop
+              time ({data.shopTimezone})
+            </div>
+          ) : null}
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 12, fontWeight: 800 }}>
+            <span style={{ opacity: 0.8 }}>Do-not-call:</span>
+            {data.suppression.phone ? (
+              data.suppression.phoneSuppressed ? (
+                <span>phone listed</span>
+              ) : (
+                <suppressFetcher.Form method="post">
+                  <input type="hidden" name="intent" value="suppress_phone" />
+                  <button
+                    type="submit"
+                    disabled={suppressFetcher.state !== "idle"}
+                    style={{
+                      padding: "6px 10px",
+                      borderRadius: 10,
+                      border: "1px solid rgba(0,0,0,0.18)",
+                      background: "white",
+                      cursor: "pointer",
+                      fontWeight: 950,
+                      fontSize: 12,
+                    }}
+                  >
+                    Never call {data.suppression.phone}
+                  </button>
+                </suppressFetcher.Form>
+              )
+            ) : (
+              <span style={{ opacity: 0.6 }}>no valid phone</span>
+            )}
+            {data.suppression.email ? (
+              data.suppression.emailSuppressed ? (
+                <span>email listed</span>
+              ) : (
+                <suppressFetcher.Form method="post">
+                  <input type="hidden" name="intent" value="suppress_email" />
+                  <button
+                    type="submit"
+                    disabled={suppressFetcher.state !== "idle"}
+                    style={{
+                      padding: "6px 10px",
+                      borderRadius: 10,
+                      border: "1px solid rgba(0,0,0,0.18)",
+                      background: "white",
+                      cursor: "pointer",
+                      fontWeight: 950,
+                      fontSize: 12,
+                    }}
+                  >
+                    Never contact {data.suppression.email}
+                  </button>
+                </suppressFetcher.Form>
+              )
+            ) : null}
+          </div>
+
+          <div>
+            <button
+              type="button"
+              onClick={() => nav(`/app/logs?checkoutId=${encodeURIComponent(data.checkoutId)}`)}
+              style={{
+                padding: "6px 10px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.18)",
+                background: "white",
+                cursor: "pointer",
+                fontWeight: 950,
+                fontSize: 12,
+              }}
+            >
+              Event log
+            </button>{" "}
+            <button
+              type="button"
+              disabled={promptFetcher.state !== "idle"}
+              onClick={() => promptFetcher.submit({ intent: "prompt_preview" }, { method: "post" })}
+              style={{
+                padding: "6px 10px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.18)",
+                background: "white",
+                cursor: "pointer",
+                fontWeight: 950,
+                fontSize: 12,
+              }}
+            >
+              {promptFetcher.state !== "idle" ? "Building prompt…" : "Preview call prompt"}
+            </button>
+          </div>
 
           {data.recordingUrl ? (
             <div>
@@ -269,6 +465,13 @@ export default function CheckoutDetailModal() {
           ) : null}
         </div>
 
+        {promptPreview ? (
+          <div style={{ minWidth: 0 }}>
+            <SectionTitle>Call prompt preview (dry run, nothing is sent)</SectionTitle>
+            <CallPromptPreview preview={promptPreview} />
+          </div>
+        ) : null}
+
         <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
           <div style={{ minWidth: 0 }}>
             <SectionTitle>AI summary</SectionTitle>
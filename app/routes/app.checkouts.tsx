@@ -14,6 +14,7 @@ import {
   safeStr,
   type SupabaseCallSummary,
 } from "../lib/callInsights.shared";
+import { consentLabel } from "../lib/consent.shared";
 
 declare global {
   namespace JSX {
@@ -142,6 +143,24 @@ function toneForOutcome(outcome: string | null): BadgeTone {
   return "info";
 }
 
+function toneForConsent(marketing: boolean | null, sms: boolean | null): BadgeTone {
+  if (marketing === true || sms === true) return "success";
+  if (marketing === false || sms === false) return "warning";
+  return "neutral";
+}
+
+function consentBadge(marketing: boolean | null, sms: boolean | null): string {
+  if (marketing === true && sms === true) return "CONSENT EMAIL+SMS";
+  if (sms === true) return "CONSENT SMS";
+  if (marketing === true) return "CONSENT EMAIL";
+  if (marketing === false || sms === false) return "NO CONSENT";
+  return "CONSENT —";
+}
+
+function consentTitle(r: { marketingConsent: boolean | null; smsConsent: boolean | null }): string {
+  return `Email marketing: ${consentLabel(r.marketingConsent)} · SMS marketing: ${consentLabel(r.smsConsent)}`;
+}
+
 function outcomeLabel(outcome: string | null): string {
   const n = normalizeOutcome(outcome);
   switch (n) {
@@ -194,6 +213,8 @@ type Row = {
   email: string | null;
   value: number;
   currency: string;
+  marketingConsent: boolean | null;
+  smsConsent: boolean | null;
 
   itemsJson: any;
   cartPreview: string | null;
@@ -387,6 +408,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         value: true,
         currency: true,
         itemsJson: true,
+        marketingConsent: true,
+        smsConsent: true,
       },
     }),
     db.callJob.findMany({
@@ -677,6 +700,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       email: c.email ?? null,
       value: Number(c.value ?? 0),
       currency: String(order?.currency ?? c.currency ?? "USD"),
+      marketingConsent: c.marketingConsent ?? null,
+      smsConsent: c.smsConsent ?? null,
 
       itemsJson: c.itemsJson ?? null,
       cartPreview,
@@ -1211,6 +1236,9 @@ export default function Checkouts() {
                                   <s-badge tone={callTone}>{r.callStatus ? safeStr(r.callStatus).toUpperCase() : "NO CALL"}</s-badge>
                                   <s-badge tone={outcomeTone}>{outcomeLabel(r.callOutcome)}</s-badge>
                                   <s-badge tone={typeof r.buyProbabilityPct === "number" ? "info" : "neutral"}>{buyBadge}</s-badge>
+                                  <s-badge tone={toneForConsent(r.marketingConsent, r.smsConsent)} title={consentTitle(r)}>
+                                    {consentBadge(r.marketingConsent, r.smsConsent)}
+                                  </s-badge>
                                 </s-stack>
                               </s-table-cell>
 
@@ -1,12 +1,16 @@
 // app/routes/app.dashboard.tsx
 import * as React from "react";
-import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
 import { useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 
 import db from "../db.server";
 import { ensureSettings } from "../callRecovery.server";
+import { callScheduleFromSettings, summarizeCallSchedule } from "../lib/callWindow.shared";
+import { FREQUENCY_CAPPED, formatContactCap, parseContactCaps } from "../lib/contactCaps.shared";
+import { parseMinRecoveryScore, recoveryModelWeights } from "../lib/recoveryModel.shared";
+import { getRecoveryModelState, retrainRecoveryModel } from "../lib/recoveryModel.server";
 import { DashboardView, type DashboardViewProps } from "../components/dashboard/DashboardView";
 
 type RangeKey = "all" | "7d" | "24h";
@@ -250,6 +254,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       currency: true,
       callWindowStart: true,
       callWindowEnd: true,
+      callScheduleJson: true,
+      contactCapsJson: true,
+      shopTimezone: true,
+      minRecoveryScore: true,
       tone: true,
       goal: true,
       max_call_seconds: true,
@@ -265,6 +273,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       followup_sms_enabled: true,
       vapiAssistantId: true,
       vapiPhoneNumberId: true,
+      vapiProvisionError: true,
       userPrompt: true,
       merchantPrompt: true,
     },
@@ -394,11 +403,29 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       callFailedWhere.updatedAt = { gte: start, lt: end };
     }
 
-    const [callsCompleted, callsQueued, callsCalling, callsFailed] = await Promise.all([
+    // Contacts we deliberately didn't make: do-not-call, consent and frequency caps.
+    const suppressedWhere: any = {
+      shop,
+      status: "CANCELED",
+      OR: [
+        { outcome: { startsWith: "SUPPRESSED" } },
+        { outcome: { startsWith: FREQUENCY_CAPPED } },
+        { outcome: { startsWith: "NO_CALL_CONSENT" } },
+      ],
+    };
+    const smsCappedWhere: any = { shop, analysisJson: { contains: `"reason":"${FREQUENCY_CAPPED}"` } };
+    if (start) {
+      suppressedWhere.updatedAt = { gte: start, lt: end };
+      smsCappedWhere.updatedAt = { gte: start, lt: end };
+    }
+
+    const [callsCompleted, callsQueued, callsCalling, callsFailed, callsSuppressed, smsCapped] = await Promise.all([
       db.callJob.count({ where: callCompletedWhere }),
       db.callJob.count({ where: callQueuedWhere }),
       db.callJob.count({ where: callCallingWhere }),
       db.callJob.count({ where: callFailedWhere }),
+      db.callJob.count({ where: suppressedWhere }),
+      db.callJob.count({ where: smsCappedWhere }),
     ]);
 
     const winRate = pct(recoveredCount, recoveredCount + abandonedEligibleCount);
@@ -413,6 +440,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       callsQueued,
       callsCalling,
       callsFailed,
+      suppressedVolume: callsSuppressed + smsCapped,
     };
   }
 
@@ -886,6 +914,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (kind === "followups") return value > 0 ? "warning" : "success";
     if (kind === "discounts") return value > 0 ? "warning" : "info";
     if (kind === "completed") return value > 0 ? "info" : "new";
+    if (kind === "suppressed") return value > 0 ? "warning" : "new";
     return "info";
   }
 
@@ -961,6 +990,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       deltaText: null, // avoid misleading delta vs dedupe
       href: appendParam(`/app/checkouts${baseSearch}`, "tab", "discounts"),
     },
+    {
+      key: "suppressed_volume",
+      label: "Suppressed contacts",
+      valueText: String(currentMetrics.suppressedVolume),
+      tone: metricTone("suppressed", currentMetrics.suppressedVolume),
+      deltaText:
+        prevMetrics && range !== "all"
+          ? deltaTextNumber(currentMetrics.suppressedVolume, prevMetrics.suppressedVolume)
+          : null,
+      href: `/app/calls${baseSearch}`,
+    },
   ];
 
   const hero =
@@ -1010,16 +1050,33 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const enabled = Boolean(settings?.enabled);
   const criticalMissing = enabled && !vapiReady;
 
+  const schedule = settings
+    ? summarizeCallSchedule(
+        callScheduleFromSettings({
+          callScheduleJson: settings.callScheduleJson ?? null,
+          callWindowStart: String(settings.callWindowStart ?? "09:00"),
+          callWindowEnd: String(settings.callWindowEnd ?? "19:00"),
+        })
+      )
+    : null;
+
+  const contactCaps = parseContactCaps(settings?.contactCapsJson ?? null);
+
   const settingsRows: DashboardViewProps["settings"]["rows"] = [
     { label: "Automation", value: enabled ? "Enabled" : "Disabled", tone: enabled ? "success" : "warning" },
     {
       label: "Call window",
-      value: `${String(settings?.callWindowStart ?? "—")}–${String(settings?.callWindowEnd ?? "—")}`,
+      value: schedule ? `${schedule.start}–${schedule.end} · ${schedule.activeDays}/7 days` : "—",
       tone: "info",
     },
     { label: "Delay", value: `${Number(settings?.delayMinutes ?? 0)} min`, tone: "info" },
     { label: "Retry", value: `${Number(settings?.retryMinutes ?? 0)} min`, tone: "info" },
     { label: "Max attempts", value: String(Number(settings?.maxAttempts ?? 0)), tone: "info" },
+    {
+      label: "Contact caps",
+      value: `${formatContactCap("call", contactCaps.call)} · ${formatContactCap("sms", contactCaps.sms)}`,
+      tone: contactCaps.call || contactCaps.sms ? "info" : "new",
+    },
     { label: "Min order value", value: fmtMoney(minOrderValue, currency), tone: "info" },
     {
       label: "Discounts",
@@ -1040,11 +1097,48 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     { label: "Goal", value: String(settings?.goal ?? "—"), tone: "info" },
     { label: "Offer rule", value: String(settings?.offer_rule ?? "—"), tone: "info" },
     { label: "Min cart for discount", value: fmtMoney(Number(settings?.min_cart_value_for_discount ?? 0), currency), tone: "info" },
-    { label: "Vapi assistant", value: settings?.vapiAssistantId ? "Set" : "Missing", tone: settings?.vapiAssistantId ? "success" : "critical" },
+    {
+      label: "Vapi assistant",
+      value: settings?.vapiAssistantId ? "Set" : settings?.vapiProvisionError ? "Setup failed" : "Created when Settings are saved",
+      tone: settings?.vapiAssistantId ? "success" : settings?.vapiProvisionError ? "critical" : "warning",
+    },
     { label: "Vapi phone number", value: settings?.vapiPhoneNumberId ? "Set" : "Missing", tone: settings?.vapiPhoneNumberId ? "success" : "critical" },
     { label: "Prompt", value: settings?.merchantPrompt || settings?.userPrompt ? "Configured" : "Missing", tone: settings?.merchantPrompt || settings?.userPrompt ? "success" : "warning" },
   ];
 
+  const recoveryState = await getRecoveryModelState(shop);
+  const recoveryThreshold = parseMinRecoveryScore(settings?.minRecoveryScore);
+  const [scoredOpen, belowThreshold] = await Promise.all([
+    db.checkout.count({ where: { shop, status: "ABANDONED", recoveryScore: { not: null } } }),
+    recoveryThreshold != null
+      ? db.checkout.count({ where: { shop, status: "ABANDONED", recoveryScore: { lt: recoveryThreshold } } })
+      : Promise.resolve(0),
+  ]);
+  const rm = recoveryState.model;
+
+  const recoveryModel: DashboardViewProps["recoveryModel"] = {
+    status: rm ? "ready" : "untrained",
+    message: rm
+      ? `Trained ${minutesAgo(rm.trainedAt).toLowerCase()} on ${rm.n} checkouts (${rm.positives} recovered, base rate ${pct(
+          rm.positives,
+          rm.n
+        )}%)${rm.metrics.auc != null ? ` · holdout AUC ${rm.metrics.auc.toFixed(2)}` : ""}`
+      : recoveryState.lastError ?? "Not trained yet. It trains daily once there is enough history.",
+    lastError: rm ? recoveryState.lastError : null,
+    thresholdText: recoveryThreshold != null ? `${Math.round(recoveryThreshold * 100)}%` : "Off",
+    scoredOpen,
+    belowThreshold,
+    weights: rm
+      ? recoveryModelWeights(rm)
+          .slice(0, 8)
+          .map((w) => ({
+            label: w.label,
+            weightText: `${w.weight >= 0 ? "+" : ""}${w.weight.toFixed(2)}`,
+            tone: Math.abs(w.weight) < 0.05 ? "new" : w.weight > 0 ? "success" : "critical",
+          }))
+      : [],
+  };
+
   const rangeLinks = {
     all: setParam(baseSearch || "?", "range", "all") || "?range=all",
     d7: setParam(baseSearch || "?", "range", "7d") || "?range=7d",
@@ -1068,6 +1162,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       total: blockersTotal,
       rows: blockers,
     },
+    recoveryModel,
     settings: {
       criticalMissing,
       vapiReady,
@@ -1080,6 +1175,21 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   return { view };
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  if (intent === "retrain_recovery_model") {
+    const settings = await ensureSettings(shop);
+    await retrainRecoveryModel({ shop, shopTimezone: settings.shopTimezone ?? null });
+  }
+
+  return null;
+};
+
 export default function DashboardRoute() {
   const data = useLoaderData<typeof loader>();
   return <DashboardView {...data.view} />;
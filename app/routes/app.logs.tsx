@@ -1,19 +1,484 @@
 // app/routes/app.logs.tsx
-import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
-import { useRouteError } from "react-router";
-import { authenticate } from "../shopify.server";
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useRouteError, useSearchParams } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { purgeEventLogs } from "../lib/eventLog.server";
+import {
+  EVENT_CODES,
+  EVENT_LEVELS,
+  EVENT_RETENTION_OPTIONS,
+  eventCodeLabel,
+  parseEventRetentionDays,
+  pickEventLevel,
+} from "../lib/eventLog.shared";
+
+import {
+  Page,
+  Layout,
+  Card,
+  FormLayout,
+  TextField,
+  Select,
+  InlineStack,
+  BlockStack,
+  Banner,
+  Text,
+  Button,
+  DataTable,
+  Badge,
+} from "@shopify/polaris";
+
+/* =========================
+   Types
+   ========================= */
+type EventRow = {
+  id: string;
+  level: string;
+  code: string;
+  message: string | null;
+  details: string | null;
+  checkoutId: string | null;
+  callJobId: string | null;
+  createdAt: string;
+};
+
+type CheckoutDrill = {
+  checkoutId: string;
+  found: boolean;
+  status: string | null;
+  customerName: string | null;
+  hasPhone: boolean;
+  value: number | null;
+  currency: string | null;
+  abandonedAt: string | null;
+  jobs: Array<{
+    id: string;
+    status: string;
+    attempts: number;
+    scheduledFor: string;
+    outcome: string | null;
+    ruleName: string | null;
+  }>;
+};
+
+type LoaderData = {
+  filters: { level: string; code: string; q: string; before: string };
+  retentionDays: number;
+  events: EventRow[];
+  nextBefore: string | null;
+  checkout: CheckoutDrill | null;
+};
 
+type ActionData = { ok: boolean; message: string };
+
+const PAGE_SIZE = 100;
+const DRILL_LIMIT = 500;
+
+function fmtDate(v: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (!Number.isFinite(d.getTime())) return "-";
+  return d.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function levelTone(level: string) {
+  if (level === "error") return "critical" as const;
+  if (level === "warn") return "warning" as const;
+  if (level === "info") return "info" as const;
+  return undefined;
+}
+
+function detailsText(json: string | null) {
+  if (!json) return "";
+  try {
+    const obj = JSON.parse(json);
+    return Object.entries(obj ?? {})
+      .filter(([, v]) => v != null && v !== "")
+      .map(([k, v]) => `${k}: ${typeof v === "object" ? JSON.stringify(v) : String(v)}`)
+      .join(" · ")
+      .slice(0, 300);
+  } catch {
+    return json.slice(0, 300);
+  }
+}
+
+function toRow(e: any): EventRow {
+  return {
+    id: e.id,
+    level: e.level,
+    code: e.code,
+    message: e.message ?? null,
+    details: e.detailsJson ?? null,
+    checkoutId: e.checkoutId ?? null,
+    callJobId: e.callJobId ?? null,
+    createdAt: e.createdAt.toISOString(),
+  };
+}
+
+/* =========================
+   Loader / Action
+   ========================= */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return {};
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const settings = await ensureSettings(shop);
+
+  const url = new URL(request.url);
+  const level = pickEventLevel(url.searchParams.get("level"));
+  const codeParam = String(url.searchParams.get("code") ?? "").trim();
+  const code = EVENT_CODES.some((c) => c.code === codeParam) ? codeParam : "";
+  const q = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+  const checkoutId = String(url.searchParams.get("checkoutId") ?? "").trim().slice(0, 200);
+  const beforeParam = new Date(String(url.searchParams.get("before") ?? ""));
+  const before = Number.isFinite(beforeParam.getTime()) ? beforeParam : null;
+
+  const filters = { level: level ?? "", code, q, before: before?.toISOString() ?? "" };
+  const retentionDays = parseEventRetentionDays(settings.eventLogRetentionDays);
+
+  // Per-checkout drill-down: the checkout, its jobs, and every event tied to either, oldest first.
+  if (checkoutId) {
+    const [checkout, jobs] = await Promise.all([
+      db.checkout.findUnique({ where: { shop_checkoutId: { shop, checkoutId } } }),
+      db.callJob.findMany({
+        where: { shop, checkoutId },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, status: true, attempts: true, scheduledFor: true, outcome: true, ruleName: true },
+      }),
+    ]);
+    const events = await db.eventLog.findMany({
+      where: {
+        shop,
+        OR: [{ checkoutId }, ...(jobs.length ? [{ callJobId: { in: jobs.map((j) => j.id) } }] : [])],
+        ...(level ? { level } : {}),
+        ...(code ? { code } : {}),
+      },
+      orderBy: { createdAt: "asc" },
+      take: DRILL_LIMIT,
+    });
+
+    return {
+      filters,
+      retentionDays,
+      events: events.map(toRow),
+      nextBefore: null,
+      checkout: {
+        checkoutId,
+        found: Boolean(checkout),
+        status: checkout ? String(checkout.status) : null,
+        customerName: checkout?.customerName ?? null,
+        hasPhone: Boolean(checkout?.phone),
+        value: checkout ? Number(checkout.value ?? 0) : null,
+        currency: checkout?.currency ?? null,
+        abandonedAt: checkout?.abandonedAt?.toISOString() ?? null,
+        jobs: jobs.map((j) => ({
+          id: j.id,
+          status: String(j.status),
+          attempts: j.attempts,
+          scheduledFor: j.scheduledFor.toISOString(),
+          outcome: j.outcome ?? null,
+          ruleName: j.ruleName ?? null,
+        })),
+      },
+    } satisfies LoaderData;
+  }
+
+  const events = await db.eventLog.findMany({
+    where: {
+      shop,
+      ...(level ? { level } : {}),
+      ...(code ? { code } : {}),
+      ...(before ? { createdAt: { lt: before } } : {}),
+      ...(q
+        ? {
+            OR: [
+              { message: { contains: q, mode: "insensitive" as const } },
+              { checkoutId: { contains: q } },
+              { callJobId: q },
+            ],
+          }
+        : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: PAGE_SIZE + 1,
+  });
+
+  const page = events.slice(0, PAGE_SIZE);
+  return {
+    filters,
+    retentionDays,
+    events: page.map(toRow),
+    nextBefore: events.length > PAGE_SIZE ? page[page.length - 1].createdAt.toISOString() : null,
+    checkout: null,
+  } satisfies LoaderData;
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  if (intent === "retention") {
+    const days = parseEventRetentionDays(fd.get("retentionDays"));
+    await ensureSettings(shop);
+    await db.settings.update({ where: { shop }, data: { eventLogRetentionDays: days } });
+    const removed = await purgeEventLogs(shop, days);
+    return {
+      ok: true,
+      message: `Keeping events for ${days} days.${removed ? ` Removed ${removed} older ${removed === 1 ? "event" : "events"}.` : ""}`,
+    } satisfies ActionData;
+  }
+
+  return { ok: false, message: "Unknown action." } satisfies ActionData;
+};
+
+/* =========================
+   UI (Polaris)
+   ========================= */
 export default function LogsRoute() {
-  return <div style={{ padding: 16, fontWeight: 900, fontSize: 18 }}>Logs</div>;
+  const { filters, retentionDays, events, nextBefore, checkout } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [level, setLevel] = React.useState(filters.level);
+  const [code, setCode] = React.useState(filters.code);
+  const [search, setSearch] = React.useState(filters.q);
+  const [checkoutSearch, setCheckoutSearch] = React.useState("");
+  const [retention, setRetention] = React.useState(String(retentionDays));
+
+  const busy = fetcher.state !== "idle";
+  const result = fetcher.data as ActionData | undefined;
+
+  const setParams = (patch: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [k, v] of Object.entries(patch)) {
+      if (v) next.set(k, v);
+      else next.delete(k);
+    }
+    setSearchParams(next);
+  };
+
+  const applyFilters = () => setParams({ level, code, q: search.trim(), before: null });
+  const openCheckout = (id: string) => setParams({ checkoutId: id, before: null });
+
+  const eventRows = events.map((e) => [
+    fmtDate(e.createdAt),
+    <Badge key={`${e.id}-lvl`} tone={levelTone(e.level)}>
+      {e.level}
+    </Badge>,
+    eventCodeLabel(e.code),
+    e.message ?? "-",
+    detailsText(e.details) || "-",
+    checkout || !e.checkoutId ? (
+      e.callJobId ? `job ${e.callJobId.slice(-8)}` : "-"
+    ) : (
+      <Button key={`${e.id}-co`} variant="plain" onClick={() => openCheckout(e.checkoutId!)}>
+        {e.checkoutId.length > 16 ? `…${e.checkoutId.slice(-12)}` : e.checkoutId}
+      </Button>
+    ),
+  ]);
+
+  const jobRows = (checkout?.jobs ?? []).map((j) => [
+    fmtDate(j.scheduledFor),
+    j.status,
+    String(j.attempts),
+    j.ruleName ?? "-",
+    j.outcome ?? "-",
+  ]);
+
+  // "Why wasn't this customer called?" -> the most recent reason the enqueue or worker gave.
+  const lastReason = checkout
+    ? [...events].reverse().find((e) => ["ENQUEUE_SKIPPED", "CALL_CANCELED", "CALL_FAILED", "SMS_FAILED"].includes(e.code))
+    : null;
+
+  return (
+    <Page
+      title={checkout ? `Checkout ${checkout.checkoutId}` : "Logs"}
+      subtitle={checkout ? "Everything recorded for this checkout" : `Events are kept for ${retentionDays} days`}
+      backAction={checkout ? { content: "Logs", onAction: () => setParams({ checkoutId: null }) } : undefined}
+    >
+      <Layout>
+        <Layout.Section>
+          {result ? <Banner tone={result.ok ? "success" : "critical"} title={result.message} /> : null}
+        </Layout.Section>
+
+        {checkout ? (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                {checkout.found ? (
+                  <InlineStack gap="200" blockAlign="center">
+                    <Badge>{checkout.status ?? "-"}</Badge>
+                    <Text as="span">{checkout.customerName || "Unknown customer"}</Text>
+                    <Text as="span" tone="subdued">
+                      {checkout.value != null ? `${checkout.value.toFixed(2)} ${checkout.currency ?? ""}` : "-"} ·{" "}
+                      {checkout.hasPhone ? "phone on file" : "no phone"}
+                      {checkout.abandonedAt ? ` · abandoned ${fmtDate(checkout.abandonedAt)}` : ""}
+                    </Text>
+                  </InlineStack>
+                ) : (
+                  <Text as="p" tone="subdued">
+                    This checkout is not stored (yet). Events below may still mention it.
+                  </Text>
+                )}
+                {lastReason ? (
+                  <Banner tone={lastReason.level === "error" ? "critical" : "warning"} title="Latest reason">
+                    <p>
+                      {eventCodeLabel(lastReason.code)}: {lastReason.message ?? "-"} ({fmtDate(lastReason.createdAt)})
+                    </p>
+                  </Banner>
+                ) : null}
+                {jobRows.length ? (
+                  <DataTable
+                    columnContentTypes={["text", "text", "numeric", "text", "text"]}
+                    headings={["Scheduled", "Status", "Attempts", "Rule", "Outcome"]}
+                    rows={jobRows}
+                  />
+                ) : (
+                  <Text as="p" tone="subdued">
+                    No call jobs for this checkout.
+                  </Text>
+                )}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ) : null}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <FormLayout>
+                <FormLayout.Group>
+                  <Select
+                    label="Level"
+                    options={[{ label: "All levels", value: "" }, ...EVENT_LEVELS.map((l) => ({ label: l, value: l }))]}
+                    value={level}
+                    onChange={setLevel}
+                  />
+                  <Select
+                    label="Event"
+                    options={[{ label: "All events", value: "" }, ...EVENT_CODES.map((c) => ({ label: c.label, value: c.code }))]}
+                    value={code}
+                    onChange={setCode}
+                  />
+                  {checkout ? null : (
+                    <TextField
+                      label="Search"
+                      value={search}
+                      onChange={setSearch}
+                      autoComplete="off"
+                      placeholder="Reason, checkout or job ID"
+                    />
+                  )}
+                </FormLayout.Group>
+                <InlineStack gap="200">
+                  <Button onClick={applyFilters}>Apply filters</Button>
+                  {filters.level || filters.code || filters.q ? (
+                    <Button
+                      variant="plain"
+                      onClick={() => {
+                        setLevel("");
+                        setCode("");
+                        setSearch("");
+                        setParams({ level: null, code: null, q: null, before: null });
+                      }}
+                    >
+                      Clear
+                    </Button>
+                  ) : null}
+                </InlineStack>
+              </FormLayout>
+
+              {eventRows.length ? (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text", "text", "text"]}
+                  headings={["When", "Level", "Event", "Message", "Details", checkout ? "Job" : "Checkout"]}
+                  rows={eventRows as any}
+                />
+              ) : (
+                <Text as="p" tone="subdued">
+                  {filters.level || filters.code || filters.q ? "No matching events." : "No events recorded yet."}
+                </Text>
+              )}
+
+              {nextBefore || filters.before ? (
+                <InlineStack gap="200">
+                  {filters.before ? <Button onClick={() => setParams({ before: null })}>Newest</Button> : null}
+                  {nextBefore ? <Button onClick={() => setParams({ before: nextBefore })}>Load older</Button> : null}
+                </InlineStack>
+              ) : null}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {checkout ? null : (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Look up a checkout
+                </Text>
+                <Text as="p" tone="subdued">
+                  Shows the call jobs and every event recorded for it, to answer why a customer was or was not
+                  called.
+                </Text>
+                <TextField
+                  label="Checkout ID"
+                  labelHidden
+                  value={checkoutSearch}
+                  onChange={setCheckoutSearch}
+                  autoComplete="off"
+                  placeholder="Checkout ID or token"
+                  connectedRight={
+                    <Button disabled={!checkoutSearch.trim()} onClick={() => openCheckout(checkoutSearch.trim())}>
+                      Open
+                    </Button>
+                  }
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Retention
+              </Text>
+              <fetcher.Form method="post">
+                <input type="hidden" name="intent" value="retention" />
+                <InlineStack gap="200" blockAlign="end">
+                  <Select
+                    label="Keep events for"
+                    name="retentionDays"
+                    options={EVENT_RETENTION_OPTIONS.map((d) => ({ label: `${d} days`, value: String(d) }))}
+                    value={retention}
+                    onChange={setRetention}
+                  />
+                  <Button submit loading={busy} disabled={Number(retention) === retentionDays}>
+                    Save
+                  </Button>
+                </InlineStack>
+              </fetcher.Form>
+              <Text as="p" tone="subdued">
+                Older events are deleted automatically. Shortening the period removes older events right away.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
 }
 
 export function ErrorBoundary() {
   return boundary.error(useRouteError());
 }
-export const headers: HeadersFunction = (args) => boundary.headers(args);
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
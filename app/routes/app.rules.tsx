@@ -1,19 +1,544 @@
 // app/routes/app.rules.tsx
-import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
-import { useRouteError } from "react-router";
-import { authenticate } from "../shopify.server";
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import {
+  MAX_RULES,
+  RULE_ACTIONS,
+  RULE_GOALS,
+  RULE_OFFER_RULES,
+  RULE_TONES,
+  cleanRule,
+  describeAction,
+  describeConditions,
+  newRuleId,
+  parseCallRules,
+  serializeCallRules,
+  type CallRule,
+  type RuleActionType,
+  type RuleCustomer,
+} from "../lib/rules.shared";
+
+import {
+  Page,
+  Layout,
+  Card,
+  FormLayout,
+  TextField,
+  Select,
+  Checkbox,
+  InlineStack,
+  BlockStack,
+  Banner,
+  Text,
+  Button,
+  DataTable,
+  Badge,
+} from "@shopify/polaris";
+
+/* =========================
+   Types
+   ========================= */
+type LoaderData = {
+  shop: string;
+  currency: string;
+  rules: CallRule[];
+  matched: Record<string, number>; // ruleId -> jobs in the last 30 days
+};
+
+type ActionData = { ok: boolean; message: string };
+
+type Draft = {
+  id: string | null;
+  name: string;
+  enabled: boolean;
+  cartMin: string;
+  cartMax: string;
+  countries: string;
+  currencies: string;
+  productTags: string;
+  vendors: string;
+  itemsMin: string;
+  itemsMax: string;
+  customer: RuleCustomer;
+  abandonedMinMinutes: string;
+  abandonedMaxMinutes: string;
+  actionType: RuleActionType;
+  delayMinutes: string;
+  tone: string;
+  goal: string;
+  offerRule: string;
+  maxDiscountPercent: string;
+};
+
+const MATCH_WINDOW_DAYS = 30;
+
+function str(n: number | null) {
+  return n == null ? "" : String(n);
+}
+
+function emptyDraft(): Draft {
+  return {
+    id: null,
+    name: "",
+    enabled: true,
+    cartMin: "",
+    cartMax: "",
+    countries: "",
+    currencies: "",
+    productTags: "",
+    vendors: "",
+    itemsMin: "",
+    itemsMax: "",
+    customer: "any",
+    abandonedMinMinutes: "",
+    abandonedMaxMinutes: "",
+    actionType: "skip",
+    delayMinutes: "60",
+    tone: "",
+    goal: "",
+    offerRule: "",
+    maxDiscountPercent: "5",
+  };
+}
 
+function draftFromRule(r: CallRule): Draft {
+  return {
+    id: r.id,
+    name: r.name,
+    enabled: r.enabled,
+    cartMin: str(r.when.cartMin),
+    cartMax: str(r.when.cartMax),
+    countries: r.when.countries.join(", "),
+    currencies: r.when.currencies.join(", "),
+    productTags: r.when.productTags.join(", "),
+    vendors: r.when.vendors.join(", "),
+    itemsMin: str(r.when.itemsMin),
+    itemsMax: str(r.when.itemsMax),
+    customer: r.when.customer,
+    abandonedMinMinutes: str(r.when.abandonedMinMinutes),
+    abandonedMaxMinutes: str(r.when.abandonedMaxMinutes),
+    actionType: r.action.type,
+    delayMinutes: str(r.action.delayMinutes) || "60",
+    tone: r.action.tone ?? "",
+    goal: r.action.goal ?? "",
+    offerRule: r.action.offerRule ?? "",
+    maxDiscountPercent: str(r.action.maxDiscountPercent) || "5",
+  };
+}
+
+/** Same shape as a stored rule; cleanRule on the server does the validation. */
+function ruleFromDraft(d: Draft) {
+  return {
+    id: d.id,
+    name: d.name,
+    enabled: d.enabled,
+    when: {
+      cartMin: d.cartMin,
+      cartMax: d.cartMax,
+      countries: d.countries,
+      currencies: d.currencies,
+      productTags: d.productTags,
+      vendors: d.vendors,
+      itemsMin: d.itemsMin,
+      itemsMax: d.itemsMax,
+      customer: d.customer,
+      abandonedMinMinutes: d.abandonedMinMinutes,
+      abandonedMaxMinutes: d.abandonedMaxMinutes,
+    },
+    action: {
+      type: d.actionType,
+      delayMinutes: d.delayMinutes,
+      tone: d.tone,
+      goal: d.goal,
+      offerRule: d.offerRule,
+      maxDiscountPercent: d.maxDiscountPercent,
+    },
+  };
+}
+
+function label(v: string) {
+  return v.replace(/_/g, " ").replace(/^./, (c) => c.toUpperCase());
+}
+
+/* =========================
+   Loader / Action
+   ========================= */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return {};
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const settings = await ensureSettings(shop);
+  const rules = parseCallRules(settings.rulesJson);
+
+  const since = new Date(Date.now() - MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const grouped = rules.length
+    ? await db.callJob.groupBy({
+        by: ["ruleId"],
+        where: { shop, ruleId: { in: rules.map((r) => r.id) }, createdAt: { gte: since } },
+        _count: { _all: true },
+      })
+    : [];
+
+  const matched: Record<string, number> = {};
+  for (const g of grouped) if (g.ruleId) matched[g.ruleId] = g._count._all;
+
+  return { shop, currency: String(settings.currency ?? "USD"), rules, matched } satisfies LoaderData;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+  const id = String(fd.get("id") ?? "");
+
+  const settings = await ensureSettings(shop);
+  const rules = parseCallRules(settings.rulesJson);
+
+  const save = async (next: CallRule[]) => {
+    await db.settings.update({ where: { shop }, data: { rulesJson: serializeCallRules(next) } });
+  };
+
+  if (intent === "save") {
+    let input: any = null;
+    try {
+      input = JSON.parse(String(fd.get("rule") ?? ""));
+    } catch {
+      return { ok: false, message: "Invalid rule." } satisfies ActionData;
+    }
+
+    const idx = rules.findIndex((r) => r.id === String(input?.id ?? ""));
+    if (idx < 0 && rules.length >= MAX_RULES) {
+      return { ok: false, message: `At most ${MAX_RULES} rules.` } satisfies ActionData;
+    }
+
+    const rule = cleanRule({ ...input, id: idx >= 0 ? rules[idx].id : newRuleId() }, newRuleId());
+    const next = idx >= 0 ? rules.map((r, i) => (i === idx ? rule : r)) : [...rules, rule];
+    await save(next);
+    return { ok: true, message: idx >= 0 ? `Updated "${rule.name}".` : `Added "${rule.name}".` } satisfies ActionData;
+  }
+
+  const idx = rules.findIndex((r) => r.id === id);
+  if (idx < 0) return { ok: false, message: "Rule not found." } satisfies ActionData;
+
+  if (intent === "delete") {
+    await save(rules.filter((r) => r.id !== id));
+    return { ok: true, message: `Deleted "${rules[idx].name}".` } satisfies ActionData;
+  }
+
+  if (intent === "toggle") {
+    const next = rules.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r));
+    await save(next);
+    return { ok: true, message: `${rules[idx].enabled ? "Paused" : "Enabled"} "${rules[idx].name}".` } satisfies ActionData;
+  }
+
+  if (intent === "move") {
+    const to = idx + (String(fd.get("dir")) === "up" ? -1 : 1);
+    if (to < 0 || to >= rules.length) return { ok: true, message: "Already in place." } satisfies ActionData;
+    const next = [...rules];
+    [next[idx], next[to]] = [next[to], next[idx]];
+    await save(next);
+    return { ok: true, message: "Order saved." } satisfies ActionData;
+  }
+
+  return { ok: false, message: "Unknown action." } satisfies ActionData;
 };
 
-export default function RulesRoute() {
-  return <div style={{ padding: 16, fontWeight: 900, fontSize: 18 }}>Rules</div>;
+/* =========================
+   UI (Polaris)
+   ========================= */
+export default function Rules() {
+  const { currency, rules, matched } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+
+  const [draft, setDraft] = React.useState<Draft>(emptyDraft);
+  const set = <K extends keyof Draft>(k: K) => (v: Draft[K]) => setDraft((d) => ({ ...d, [k]: v }));
+
+  const busy = fetcher.state !== "idle";
+  const result = fetcher.data as ActionData | undefined;
+
+  // Back to a blank form once a save went through (moves/toggles keep the draft).
+  const savingRef = React.useRef(false);
+  React.useEffect(() => {
+    if (fetcher.state !== "idle" || !savingRef.current) return;
+    savingRef.current = false;
+    if (result?.ok) setDraft(emptyDraft());
+  }, [fetcher.state, result]);
+
+  const post = (data: Record<string, string>) => fetcher.submit(data, { method: "post" });
+
+  const submitDraft = () => {
+    savingRef.current = true;
+    post({ intent: "save", rule: JSON.stringify(ruleFromDraft(draft)) });
+  };
+
+  const remove = (r: CallRule) => {
+    if (typeof window !== "undefined" && !window.confirm(`Delete rule "${r.name}"?`)) return;
+    post({ intent: "delete", id: r.id });
+  };
+
+  const tableRows = rules.map((r, i) => [
+    String(i + 1),
+    <BlockStack key={`${r.id}-name`} gap="100">
+      <Text as="span" fontWeight="semibold">
+        {r.name}
+      </Text>
+      {r.enabled ? null : <Badge>Paused</Badge>}
+    </BlockStack>,
+    describeConditions(r.when),
+    describeAction(r.action),
+    String(matched[r.id] ?? 0),
+    <InlineStack key={`${r.id}-actions`} gap="100" wrap={false}>
+      <Button size="slim" disabled={busy || i === 0} onClick={() => post({ intent: "move", id: r.id, dir: "up" })}>
+        ↑
+      </Button>
+      <Button
+        size="slim"
+        disabled={busy || i === rules.length - 1}
+        onClick={() => post({ intent: "move", id: r.id, dir: "down" })}
+      >
+        ↓
+      </Button>
+      <Button size="slim" disabled={busy} onClick={() => setDraft(draftFromRule(r))}>
+        Edit
+      </Button>
+      <Button size="slim" disabled={busy} onClick={() => post({ intent: "toggle", id: r.id })}>
+        {r.enabled ? "Pause" : "Enable"}
+      </Button>
+      <Button size="slim" tone="critical" disabled={busy} onClick={() => remove(r)}>
+        Delete
+      </Button>
+    </InlineStack>,
+  ]);
+
+  const keepOption = { label: "Keep shop setting", value: "" };
+  const customerOptions = [
+    { label: "Any customer", value: "any" },
+    { label: "New customers", value: "new" },
+    { label: "Returning customers", value: "returning" },
+  ];
+
+  return (
+    <Page title="Call rules" subtitle="Checked top to bottom before each checkout is queued and again before dialing.">
+      <Layout>
+        <Layout.Section>
+          {result ? <Banner tone={result.ok ? "success" : "critical"} title={result.message} /> : null}
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Rules
+              </Text>
+              <Text as="p" tone="subdued">
+                The first enabled rule whose conditions all match decides. Checkouts no rule matches use the normal
+                settings.
+              </Text>
+              {tableRows.length ? (
+                <DataTable
+                  columnContentTypes={["numeric", "text", "text", "text", "numeric", "text"]}
+                  headings={["#", "Name", "When", "Then", `Jobs (${MATCH_WINDOW_DAYS}d)`, ""]}
+                  rows={tableRows as any}
+                />
+              ) : (
+                <Text as="p" tone="subdued">
+                  No rules yet.
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">
+                  {draft.id ? `Edit "${draft.name || "rule"}"` : "Add rule"}
+                </Text>
+                {draft.id ? <Button onClick={() => setDraft(emptyDraft())}>Cancel edit</Button> : null}
+              </InlineStack>
+
+              <FormLayout>
+                <FormLayout.Group>
+                  <TextField label="Name" value={draft.name} onChange={set("name")} autoComplete="off" />
+                  <Checkbox label="Enabled" checked={draft.enabled} onChange={set("enabled")} />
+                </FormLayout.Group>
+
+                <Text as="h3" variant="headingSm">
+                  When (leave empty to ignore)
+                </Text>
+                <FormLayout.Group>
+                  <TextField
+                    label={`Cart value from (${currency})`}
+                    type="number"
+                    value={draft.cartMin}
+                    onChange={set("cartMin")}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label={`Cart value up to (${currency})`}
+                    type="number"
+                    value={draft.cartMax}
+                    onChange={set("cartMax")}
+                    autoComplete="off"
+                  />
+                </FormLayout.Group>
+                <FormLayout.Group>
+                  <TextField
+                    label="Countries"
+                    value={draft.countries}
+                    onChange={set("countries")}
+                    autoComplete="off"
+                    placeholder="DE, AT, CH"
+                    helpText="ISO country codes, comma-separated."
+                  />
+                  <TextField
+                    label="Checkout currencies"
+                    value={draft.currencies}
+                    onChange={set("currencies")}
+                    autoComplete="off"
+                    placeholder="EUR, CHF"
+                  />
+                </FormLayout.Group>
+                <FormLayout.Group>
+                  <TextField
+                    label="Product tags"
+                    value={draft.productTags}
+                    onChange={set("productTags")}
+                    autoComplete="off"
+                    helpText="Matches when any product in the cart has one of these tags."
+                  />
+                  <TextField
+                    label="Vendors"
+                    value={draft.vendors}
+                    onChange={set("vendors")}
+                    autoComplete="off"
+                    helpText="Matches when any product in the cart is from one of these vendors."
+                  />
+                </FormLayout.Group>
+                <FormLayout.Group>
+                  <TextField
+                    label="Items from"
+                    type="number"
+                    value={draft.itemsMin}
+                    onChange={set("itemsMin")}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Items up to"
+                    type="number"
+                    value={draft.itemsMax}
+                    onChange={set("itemsMax")}
+                    autoComplete="off"
+                  />
+                  <Select
+                    label="Customer"
+                    options={customerOptions}
+                    value={draft.customer}
+                    onChange={(v) => set("customer")(v as RuleCustomer)}
+                  />
+                </FormLayout.Group>
+                <FormLayout.Group>
+                  <TextField
+                    label="Abandoned at least (minutes ago)"
+                    type="number"
+                    value={draft.abandonedMinMinutes}
+                    onChange={set("abandonedMinMinutes")}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Abandoned at most (minutes ago)"
+                    type="number"
+                    value={draft.abandonedMaxMinutes}
+                    onChange={set("abandonedMaxMinutes")}
+                    autoComplete="off"
+                  />
+                </FormLayout.Group>
+
+                <Text as="h3" variant="headingSm">
+                  Then
+                </Text>
+                <FormLayout.Group>
+                  <Select
+                    label="Action"
+                    options={RULE_ACTIONS.map((a) => ({ label: a.label, value: a.value }))}
+                    value={draft.actionType}
+                    onChange={(v) => set("actionType")(v as RuleActionType)}
+                  />
+                  {draft.actionType === "delay" ? (
+                    <TextField
+                      label="Delay (minutes)"
+                      type="number"
+                      value={draft.delayMinutes}
+                      onChange={set("delayMinutes")}
+                      autoComplete="off"
+                      helpText="Added to the normal delay; the call window still applies."
+                    />
+                  ) : null}
+                  {draft.actionType === "cap_discount" ? (
+                    <TextField
+                      label="Max discount (%)"
+                      type="number"
+                      value={draft.maxDiscountPercent}
+                      onChange={set("maxDiscountPercent")}
+                      autoComplete="off"
+                      helpText="0 turns discounts off for these checkouts."
+                    />
+                  ) : null}
+                </FormLayout.Group>
+                {draft.actionType === "playbook" ? (
+                  <FormLayout.Group>
+                    <Select
+                      label="Tone"
+                      options={[keepOption, ...RULE_TONES.map((v) => ({ label: label(v), value: v }))]}
+                      value={draft.tone}
+                      onChange={set("tone")}
+                    />
+                    <Select
+                      label="Goal"
+                      options={[keepOption, ...RULE_GOALS.map((v) => ({ label: label(v), value: v }))]}
+                      value={draft.goal}
+                      onChange={set("goal")}
+                    />
+                    <Select
+                      label="Offer rule"
+                      options={[keepOption, ...RULE_OFFER_RULES.map((v) => ({ label: label(v), value: v }))]}
+                      value={draft.offerRule}
+                      onChange={set("offerRule")}
+                    />
+                  </FormLayout.Group>
+                ) : null}
+                {draft.actionType === "sms_only" ? (
+                  <Text as="p" tone="subdued">
+                    Sends the checkout link by SMS instead of calling. Needs an SMS plan, a sender and SMS consent
+                    where required; otherwise the job is canceled.
+                  </Text>
+                ) : null}
+
+                <InlineStack>
+                  <Button variant="primary" loading={busy} disabled={!draft.name.trim()} onClick={submitDraft}>
+                    {draft.id ? "Save rule" : "Add rule"}
+                  </Button>
+                </InlineStack>
+              </FormLayout>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
 }
 
 export function ErrorBoundary() {
   return boundary.error(useRouteError());
 }
-export const headers: HeadersFunction = (args) => boundary.headers(args);
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -5,8 +5,69 @@ import { useLoaderData, useRouteError, useFetcher } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { ensureSettings } from "../callRecovery.server";
+import { ensureSettings, syncShopTimezoneFromShopify } from "../callRecovery.server";
+import { formatInTimeZone, isValidTimeZone, zonedParts, zonedTimeToUtc } from "../lib/timezones.shared";
+import {
+  WEEKDAY_LABELS,
+  callScheduleFromSettings,
+  formatDayRanges,
+  parseDayRanges,
+  serializeCallSchedule,
+  summarizeCallSchedule,
+} from "../lib/callWindow.shared";
+import { HOLIDAY_CALENDAR_OPTIONS } from "../lib/holidays.shared";
+import { parseAttemptLadder, previewAttemptLadder, serializeAttemptLadder } from "../lib/attemptLadder.shared";
+import {
+  RETRY_OUTCOME_KEYS,
+  RETRY_OUTCOME_LABELS,
+  parseRetryPolicy,
+  serializeRetryPolicy,
+  type RetryMode,
+  type RetryOutcomeKey,
+  type RetryPolicy,
+} from "../lib/retryPolicy.shared";
+import {
+  CONSENT_POLICY_OPTIONS,
+  parseConsentCountries,
+  parseConsentPolicy,
+  type ConsentPolicy,
+} from "../lib/consent.shared";
+import { parseContactCaps, serializeContactCaps, type ContactCap } from "../lib/contactCaps.shared";
+import { formatConcurrencyLimit, parseConcurrencyLimit } from "../lib/callConcurrency.shared";
+import {
+  PRIORITY_FACTORS,
+  parsePriorityWeights,
+  serializePriorityWeights,
+  type PriorityFactor,
+} from "../lib/priority.shared";
+import { globalConcurrencyLimits } from "../lib/callWorker.server";
+import { parseMinRecoveryScore } from "../lib/recoveryModel.shared";
+import { defaultVoiceProviderId, getVoiceProvider, voiceProvidersForShop } from "../lib/voiceProvider.server";
+import {
+  CALL_LANGUAGES,
+  DEFAULT_CALL_LANGUAGE,
+  callLanguageVoice,
+  parseCallLanguages,
+  pickCallLanguage,
+  serializeCallLanguages,
+  type CallLanguage,
+} from "../lib/callLanguage.shared";
+import {
+  VOICE_VENDORS,
+  parseEndCallPhrases,
+  parsePersona,
+  renderFirstMessage,
+  serializePersona,
+  type AgentPersona,
+} from "../lib/persona.shared";
+import { renderVoicePreview, type VoicePreviewResult } from "../lib/voicePreview.server";
+import { shopLabelFromDomain } from "../lib/shopName.server";
+import { checkVapiDrift, provisionVapiAssistant, type VapiDriftReport } from "../lib/vapiProvisioning.server";
+import { DIALING_VOICE_PROVIDERS, pickVoiceProviderId, voiceProviderLabel } from "../lib/voiceProvider.shared";
 import { getShopPlan, hasSmsFeature } from "../lib/planFeatures.server";
+import { previewCallPrompt } from "../callProvider.server";
+import type { CallPromptPreview as CallPromptPreviewResult } from "../lib/callPrompt.shared";
+import { CallPromptPreview } from "../components/CallPromptPreview";
 
 import {
   Page,
@@ -55,11 +116,25 @@ type ExtrasRow = {
   brevoSmsSender: string | null;
 };
 
+type LadderRow = { kind: "delay" | "at"; minutes: string; dayOffset: string; time: string };
+
 type LoaderData = {
   shop: string;
   billingPlan: string;
   smsFeatureAllowed: boolean;
   saved: boolean;
+  globalLimits: { global: number | null; callerId: number | null }; // env, read-only here
+  voiceProviders: { id: string; label: string; configured: boolean }[];
+  defaultVoiceProvider: string; // VOICE_PROVIDER env
+  vapi: {
+    inUse: boolean; // Vapi configured and one of the shop's providers
+    assistantId: string | null;
+    phoneNumberId: string | null;
+    provisionedAt: string | null;
+    error: string | null;
+    drift: VapiDriftReport | null;
+  };
+  previewCheckouts: { checkoutId: string; label: string }[]; // latest checkouts, for the prompt preview
   settings: {
     enabled: boolean;
     delayMinutes: number;
@@ -69,6 +144,24 @@ type LoaderData = {
     currency: string;
     callWindowStart: string;
     callWindowEnd: string;
+    shopTimezone: string;
+    scheduleWeekly: string[]; // index 0 = Sunday, "09:00-12:00, 14:00-19:00"
+    scheduleBlackoutDates: string; // one YYYY-MM-DD per line
+    scheduleHolidayCountries: string[];
+    retryPolicy: Record<RetryOutcomeKey, { mode: RetryMode; minutes: string }>;
+    attemptLadder: LadderRow[];
+    sampleAbandonedAt: string; // YYYY-MM-DDTHH:MM in shop timezone
+    consentPolicy: ConsentPolicy;
+    consentCountries: string; // ISO2, comma separated
+    contactCaps: Record<"call" | "sms", { max: string; hours: string }>; // empty max = no cap
+    maxConcurrentCalls: string; // empty = no per-shop limit
+    voiceProvider: string; // empty = VOICE_PROVIDER env
+    voiceFailover: boolean;
+    callLanguages: CallLanguage[];
+    fallbackLanguage: CallLanguage;
+    persona: Omit<AgentPersona, "speed" | "endCallPhrases"> & { speed: string; endCallPhrases: string }; // one phrase per line
+    priorityWeights: Record<PriorityFactor, string>; // 0..10
+    minRecoveryScore: string; // percent, empty = off
 
     tone: Tone;
     goal: Goal;
@@ -113,6 +206,34 @@ function toFloatOrNull(v: FormDataEntryValue | null): number | null {
   const n = Number.parseFloat(s);
   return Number.isFinite(n) ? n : null;
 }
+function parseDateList(v: FormDataEntryValue | null): string[] {
+  return String(v ?? "")
+    .split(/[\s,;]+/)
+    .map((x) => x.trim())
+    .filter((x) => /^\d{4}-\d{2}-\d{2}$/.test(x) && !Number.isNaN(new Date(`${x}T00:00:00Z`).getTime()));
+}
+function ladderRowsToSteps(rows: LadderRow[]) {
+  return rows.map((r) =>
+    r.kind === "at"
+      ? { kind: "at", dayOffset: Number(r.dayOffset || 0), time: r.time.trim() }
+      : { kind: "delay", minutes: Number(r.minutes) }
+  );
+}
+function sampleToUtc(sample: string, tz: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(String(sample ?? ""));
+  if (!m) return null;
+  const [, y, mo, d, h, mi] = m.map(Number);
+  return zonedTimeToUtc({ year: y, month: mo, day: d, hour: h, minute: mi }, isValidTimeZone(tz) ? tz : "UTC");
+}
+function capFromForm(max: FormDataEntryValue | null, hours: FormDataEntryValue | null): ContactCap | null {
+  const m = String(max ?? "").trim();
+  if (!m) return null;
+  return { max: Number(m), hours: Number(String(hours ?? "").trim() || 24) };
+}
+function capsToForm(caps: Record<"call" | "sms", ContactCap | null>) {
+  const one = (c: ContactCap | null) => ({ max: c ? String(c.max) : "", hours: c ? String(c.hours) : "" });
+  return { call: one(caps.call), sms: one(caps.sms) };
+}
 function toBool(v: FormDataEntryValue | null) {
   const s = String(v ?? "");
   return s === "on" || s === "true" || s === "1";
@@ -175,6 +296,26 @@ function normalizeBrevoSenderInput(v: any): string | null {
   return alpha ? alpha : null;
 }
 
+function personaFromForm(fd: FormData): AgentPersona {
+  return parsePersona(
+    JSON.stringify({
+      agentName: fd.get("personaAgentName"),
+      voiceProvider: fd.get("personaVoiceProvider"),
+      voiceId: fd.get("personaVoiceId"),
+      speed: fd.get("personaSpeed"),
+      firstMessage: fd.get("personaFirstMessage"),
+      firstMessageLanguage: fd.get("personaFirstMessageLanguage"),
+      endCallPhrases: parseEndCallPhrases(fd.get("personaEndCallPhrases")),
+      storeIntro: fd.get("personaStoreIntro"),
+    })
+  );
+}
+
+// Vapi needs an assistant only when it can actually place this shop's calls.
+function vapiInUse(settings: { voiceProvider?: string | null; voiceFailover?: boolean | null }) {
+  return voiceProvidersForShop(settings).some((p) => p.id === "vapi" && p.isConfigured());
+}
+
 /**
  * merge Shopify embedded params with target params so redirect stays embedded
  */
@@ -319,19 +460,28 @@ async function writeSettingsExtras(
    Loader / Action
    ========================= */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const shop = session.shop;
 
   const billingPlan = await getShopPlan(shop);
   const smsFeatureAllowed = hasSmsFeature(billingPlan);
 
   const base = await ensureSettings(shop);
+  const shopTimezone = await syncShopTimezoneFromShopify({ admin, shop });
   const b: any = base as any;
   const extras = await readSettingsExtras(shop);
 
   const url = new URL(request.url);
   const saved = url.searchParams.get("saved") === "1";
 
+  const usesVapi = vapiInUse(b);
+  const vapiDrift = usesVapi ? await checkVapiDrift(shop) : null;
+
+  const schedule = callScheduleFromSettings(b);
+  const retryPolicy = parseRetryPolicy(b.retryPolicyJson, Number(base.retryMinutes ?? 180));
+  const attemptLadder = parseAttemptLadder(b.attemptLadderJson);
+  const today = zonedParts(new Date(), isValidTimeZone(shopTimezone) ? String(shopTimezone) : "UTC");
+
   const defaultOfferTemplate = "Checkout: {{checkout_link}} Code: {{offer_code}}";
   const defaultNoOfferTemplate = "Checkout: {{checkout_link}}";
 
@@ -344,6 +494,35 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     currency: String(base.currency ?? "USD"),
     callWindowStart: String(b.callWindowStart ?? "09:00"),
     callWindowEnd: String(b.callWindowEnd ?? "19:00"),
+    shopTimezone: String(shopTimezone ?? ""),
+    scheduleWeekly: schedule.weekly.map(formatDayRanges),
+    scheduleBlackoutDates: schedule.blackoutDates.join("\n"),
+    scheduleHolidayCountries: schedule.holidayCountries,
+    retryPolicy: Object.fromEntries(
+      Object.entries(retryPolicy).map(([k, r]) => [k, { mode: r.mode, minutes: r.minutes.join(", ") }])
+    ) as LoaderData["settings"]["retryPolicy"],
+    attemptLadder: attemptLadder.map((st) =>
+      st.kind === "at"
+        ? { kind: "at", minutes: "", dayOffset: String(st.dayOffset), time: st.time }
+        : { kind: "delay", minutes: String(st.minutes), dayOffset: "0", time: "" }
+    ),
+    sampleAbandonedAt: `${today.year}-${String(today.month).padStart(2, "0")}-${String(today.day).padStart(2, "0")}T14:00`,
+    consentPolicy: parseConsentPolicy(b.consentPolicy),
+    consentCountries: parseConsentCountries(b.consentCountries).join(", "),
+    contactCaps: capsToForm(parseContactCaps(b.contactCapsJson)),
+    maxConcurrentCalls: b.maxConcurrentCalls == null ? "" : String(b.maxConcurrentCalls),
+    voiceProvider: pickVoiceProviderId(b.voiceProvider) ?? "",
+    voiceFailover: Boolean(b.voiceFailover),
+    callLanguages: parseCallLanguages(b.callLanguages),
+    fallbackLanguage: pickCallLanguage(b.fallbackLanguage) ?? DEFAULT_CALL_LANGUAGE,
+    persona: (() => {
+      const p = parsePersona(b.personaJson);
+      return { ...p, speed: String(p.speed), endCallPhrases: p.endCallPhrases.join("\n") };
+    })(),
+    priorityWeights: Object.fromEntries(
+      Object.entries(parsePriorityWeights(b.priorityWeightsJson)).map(([k, w]) => [k, String(w)])
+    ) as Record<PriorityFactor, string>,
+    minRecoveryScore: b.minRecoveryScore == null ? "" : String(b.minRecoveryScore),
 
     tone: pickTone(extras?.tone ?? "neutral"),
     goal: pickGoal(extras?.goal ?? "complete_checkout"),
@@ -375,11 +554,37 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     brevoSmsSender: smsFeatureAllowed ? String(extras?.brevoSmsSender ?? "").trim() : "",
   };
 
+  const previewCheckouts = await db.checkout.findMany({
+    where: { shop },
+    orderBy: { updatedAt: "desc" },
+    take: 25,
+    select: { checkoutId: true, customerName: true, phone: true, value: true, currency: true, status: true },
+  });
+
   return {
     shop,
     billingPlan,
     smsFeatureAllowed,
     saved,
+    globalLimits: globalConcurrencyLimits(),
+    voiceProviders: DIALING_VOICE_PROVIDERS.map((id) => ({
+      id,
+      label: voiceProviderLabel(id),
+      configured: getVoiceProvider(id).isConfigured(),
+    })),
+    defaultVoiceProvider: voiceProviderLabel(defaultVoiceProviderId()),
+    vapi: {
+      inUse: usesVapi,
+      assistantId: b.vapiAssistantId ?? null,
+      phoneNumberId: b.vapiPhoneNumberId ?? null,
+      provisionedAt: b.vapiProvisionedAt ? new Date(b.vapiProvisionedAt).toISOString() : null,
+      error: b.vapiProvisionError ?? null,
+      drift: vapiDrift,
+    },
+    previewCheckouts: previewCheckouts.map((c) => ({
+      checkoutId: c.checkoutId,
+      label: `${c.customerName || c.phone || c.checkoutId} · ${c.value} ${c.currency} · ${c.status}`,
+    })),
     settings,
   } satisfies LoaderData;
 };
@@ -397,14 +602,101 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const fd = await request.formData();
 
+  if (String(fd.get("intent") ?? "") === "vapi_repair") {
+    await provisionVapiAssistant(shop);
+    return new Response(null, { status: 303, headers: { Location: withSearchMerged("/app/settings", request) } });
+  }
+
+  // Sample of the persona as currently entered (not saved); no voice ID = the fallback language's voice.
+  if (String(fd.get("intent") ?? "") === "voice_preview") {
+    const persona = personaFromForm(fd);
+    const storeName = shopLabelFromDomain(shop);
+    const fallback = callLanguageVoice(pickCallLanguage(b.fallbackLanguage) ?? DEFAULT_CALL_LANGUAGE).voice;
+    const preview: VoicePreviewResult = await renderVoicePreview({
+      provider: persona.voiceId ? persona.voiceProvider : fallback.provider,
+      voiceId: persona.voiceId || fallback.voiceId,
+      speed: persona.speed,
+      text:
+        renderFirstMessage(persona, { storeName, firstName: "Alex" }) ??
+        `Hi Alex, this is ${persona.agentName || "the assistant"} from ${storeName}. You left a few items in your cart, can I help you finish your order?`,
+    });
+    return { preview };
+  }
+
+  // Dry run with the saved settings: the prompt, messages and tools a call for this checkout would get.
+  if (String(fd.get("intent") ?? "") === "prompt_preview") {
+    const promptPreview: CallPromptPreviewResult = await previewCallPrompt({
+      shop,
+      checkoutId: String(fd.get("checkoutId") ?? "").trim(),
+    });
+    return { promptPreview };
+  }
+
   const enabled = String(fd.get("enabled") ?? "") === "on";
   const delayMinutes = toInt(fd.get("delayMinutes"), Number(base.delayMinutes ?? 30));
   const maxAttempts = toInt(fd.get("maxAttempts"), Number(base.maxAttempts ?? 2));
   const retryMinutes = toInt(fd.get("retryMinutes"), Number(base.retryMinutes ?? 180));
   const minOrderValue = toFloat(fd.get("minOrderValue"), Number(base.minOrderValue ?? 0));
   const currency = pickCurrency(fd.get("currency") ?? base.currency ?? "USD");
-  const callWindowStart = safeHHMM(fd.get("callWindowStart"), String(b.callWindowStart ?? "09:00"));
-  const callWindowEnd = safeHHMM(fd.get("callWindowEnd"), String(b.callWindowEnd ?? "19:00"));
+  const callSchedule = {
+    weekly: WEEKDAY_LABELS.map((_, i) => parseDayRanges(String(fd.get(`window_${i}`) ?? ""))),
+    blackoutDates: parseDateList(fd.get("blackoutDates")),
+    holidayCountries: String(fd.get("holidayCountries") ?? "")
+      .split(",")
+      .map((x) => x.trim().toUpperCase())
+      .filter((x) => HOLIDAY_CALENDAR_OPTIONS.some((o) => o.code === x)),
+  };
+  // Legacy single window = earliest start / latest end across the week (dashboard + fallback).
+  const summary = summarizeCallSchedule(callSchedule);
+  const callWindowStart = safeHHMM(summary.start, String(b.callWindowStart ?? "09:00"));
+  const callWindowEnd = safeHHMM(summary.end, String(b.callWindowEnd ?? "19:00"));
+  // Empty/invalid minutes fall back to retryMinutes (parseRetryPolicy does the cleanup).
+  const retryPolicy: RetryPolicy = parseRetryPolicy(
+    JSON.stringify(
+      Object.fromEntries(
+        RETRY_OUTCOME_KEYS.map((k) => [
+          k,
+          {
+            mode: String(fd.get(`retry_mode_${k}`) ?? "after"),
+            minutes: String(fd.get(`retry_minutes_${k}`) ?? "")
+              .split(/[\s,;]+/)
+              .filter(Boolean)
+              .map(Number),
+          },
+        ])
+      )
+    ),
+    retryMinutes
+  );
+  let attemptLadderJson: string | null = null;
+  try {
+    attemptLadderJson = serializeAttemptLadder(JSON.parse(String(fd.get("attemptLadder") ?? "[]")));
+  } catch {
+    attemptLadderJson = b.attemptLadderJson ?? null;
+  }
+  const shopTimezoneRaw = String(fd.get("shopTimezone") ?? "").trim();
+  const shopTimezone = isValidTimeZone(shopTimezoneRaw) ? shopTimezoneRaw : (base.shopTimezone ?? null);
+  const consentPolicy = parseConsentPolicy(fd.get("consentPolicy") ?? b.consentPolicy);
+  const contactCapsJson = serializeContactCaps({
+    call: capFromForm(fd.get("capCallMax"), fd.get("capCallHours")),
+    sms: capFromForm(fd.get("capSmsMax"), fd.get("capSmsHours")),
+  });
+  const maxConcurrentCalls = parseConcurrencyLimit(fd.get("maxConcurrentCalls"));
+  const voiceProviderId = pickVoiceProviderId(fd.get("voiceProvider"));
+  const voiceProvider = voiceProviderId && DIALING_VOICE_PROVIDERS.includes(voiceProviderId) ? voiceProviderId : null;
+  const voiceFailover = toBool(fd.get("voiceFailover"));
+  const callLanguages = serializeCallLanguages(parseCallLanguages(fd.get("callLanguages")));
+  const fallbackLanguage = pickCallLanguage(fd.get("fallbackLanguage")) ?? DEFAULT_CALL_LANGUAGE;
+  const personaJson = serializePersona(personaFromForm(fd));
+  const minRecoveryScorePct = parseMinRecoveryScore(fd.get("minRecoveryScore"));
+  const minRecoveryScore = minRecoveryScorePct == null ? null : Math.round(minRecoveryScorePct * 100);
+  const priorityWeightsJson = serializePriorityWeights(
+    Object.fromEntries(PRIORITY_FACTORS.map((f) => [f.key, fd.get(`priorityWeight_${f.key}`)]))
+  );
+  // Disabled field is not submitted; keep the saved list when the policy doesn't use it.
+  const consentCountries = fd.has("consentCountries")
+    ? parseConsentCountries(fd.get("consentCountries")).join(",") || null
+    : (b.consentCountries ?? null);
 
   const tone = pickTone(fd.get("tone") ?? extras?.tone ?? "neutral");
   const goal = pickGoal(fd.get("goal") ?? extras?.goal ?? "complete_checkout");
@@ -461,10 +753,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       currency,
       callWindowStart,
       callWindowEnd,
+      callScheduleJson: serializeCallSchedule(callSchedule),
+      retryPolicyJson: serializeRetryPolicy(retryPolicy),
+      attemptLadderJson,
+      shopTimezone,
+      consentPolicy,
+      consentCountries,
+      contactCapsJson,
+      maxConcurrentCalls,
+      voiceProvider,
+      voiceFailover,
+      callLanguages,
+      fallbackLanguage,
+      personaJson,
+      priorityWeightsJson,
+      minRecoveryScore,
       promptMode,
       userPrompt,
-      vapiAssistantId: null,
-      vapiPhoneNumberId: null,
     } as any,
   });
 
@@ -487,6 +792,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     brevoSmsSender: finalBrevoSmsSender,
   });
 
+  // Keep the Vapi assistant in line with the saved settings; a failure is shown on the page, the save stands.
+  if (vapiInUse({ voiceProvider, voiceFailover })) await provisionVapiAssistant(shop);
+
   return new Response(null, {
     status: 303,
     headers: { Location: withSearchMerged("/app/settings?saved=1", request) },
@@ -497,17 +805,91 @@ export const action = async ({ request }: ActionFunctionArgs) => {
    UI (Polaris)
    ========================= */
 export default function Settings() {
-  const { shop, billingPlan, smsFeatureAllowed, saved, settings } = useLoaderData<typeof loader>();
+  const {
+    shop,
+    billingPlan,
+    smsFeatureAllowed,
+    saved,
+    globalLimits,
+    voiceProviders,
+    defaultVoiceProvider,
+    vapi,
+    previewCheckouts,
+    settings,
+  } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
+  const repairFetcher = useFetcher<typeof action>();
+  const isRepairing = repairFetcher.state !== "idle";
 
   const [enabled, setEnabled] = React.useState(settings.enabled);
   const [delayMinutes, setDelayMinutes] = React.useState(String(settings.delayMinutes));
   const [maxAttempts, setMaxAttempts] = React.useState(String(settings.maxAttempts));
   const [retryMinutes, setRetryMinutes] = React.useState(String(settings.retryMinutes));
+  const [maxConcurrentCalls, setMaxConcurrentCalls] = React.useState(settings.maxConcurrentCalls);
+  const [voiceProvider, setVoiceProvider] = React.useState(settings.voiceProvider);
+  const [voiceFailover, setVoiceFailover] = React.useState(settings.voiceFailover);
+  const [callLanguages, setCallLanguages] = React.useState<CallLanguage[]>(settings.callLanguages);
+  const [fallbackLanguage, setFallbackLanguage] = React.useState<CallLanguage>(settings.fallbackLanguage);
+  const [persona, setPersona] = React.useState(settings.persona);
+  const updatePersona = (patch: Partial<typeof persona>) => setPersona((prev) => ({ ...prev, ...patch }));
+  const previewFetcher = useFetcher<typeof action>();
+  const preview = (previewFetcher.data as { preview?: VoicePreviewResult } | undefined)?.preview ?? null;
+  const requestVoicePreview = () =>
+    previewFetcher.submit(
+      {
+        intent: "voice_preview",
+        personaAgentName: persona.agentName,
+        personaVoiceProvider: persona.voiceProvider,
+        personaVoiceId: persona.voiceId,
+        personaSpeed: persona.speed,
+        personaFirstMessage: persona.firstMessage,
+        personaFirstMessageLanguage: persona.firstMessageLanguage,
+        personaEndCallPhrases: persona.endCallPhrases,
+        personaStoreIntro: persona.storeIntro,
+      },
+      { method: "post" }
+    );
+  const promptFetcher = useFetcher<typeof action>();
+  const promptPreview =
+    (promptFetcher.data as { promptPreview?: CallPromptPreviewResult } | undefined)?.promptPreview ?? null;
+  const [previewCheckoutId, setPreviewCheckoutId] = React.useState(previewCheckouts[0]?.checkoutId ?? "");
+  const [priorityWeights, setPriorityWeights] = React.useState(settings.priorityWeights);
+  const [minRecoveryScore, setMinRecoveryScore] = React.useState(settings.minRecoveryScore);
   const [minOrderValue, setMinOrderValue] = React.useState(String(settings.minOrderValue));
   const [currency, setCurrency] = React.useState(pickCurrency(settings.currency));
-  const [callWindowStart, setCallWindowStart] = React.useState(settings.callWindowStart);
-  const [callWindowEnd, setCallWindowEnd] = React.useState(settings.callWindowEnd);
+  const [shopTimezone, setShopTimezone] = React.useState(settings.shopTimezone);
+  const [scheduleWeekly, setScheduleWeekly] = React.useState<string[]>(settings.scheduleWeekly);
+  const [blackoutDates, setBlackoutDates] = React.useState(settings.scheduleBlackoutDates);
+  const [holidayCountries, setHolidayCountries] = React.useState<string[]>(settings.scheduleHolidayCountries);
+  const [retryPolicy, setRetryPolicy] = React.useState(settings.retryPolicy);
+  const [consentPolicy, setConsentPolicy] = React.useState<ConsentPolicy>(settings.consentPolicy);
+  const [consentCountries, setConsentCountries] = React.useState(settings.consentCountries);
+  const [contactCaps, setContactCaps] = React.useState(settings.contactCaps);
+  const updateCap = (channel: "call" | "sms", patch: Partial<{ max: string; hours: string }>) =>
+    setContactCaps((prev) => ({ ...prev, [channel]: { ...prev[channel], ...patch } }));
+  const [ladderRows, setLadderRows] = React.useState<LadderRow[]>(settings.attemptLadder);
+  const [sampleAbandonedAt, setSampleAbandonedAt] = React.useState(settings.sampleAbandonedAt);
+
+  const updateLadderRow = (i: number, patch: Partial<LadderRow>) =>
+    setLadderRows((prev) => prev.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  const ladderPreview = React.useMemo(() => {
+    const tz = isValidTimeZone(shopTimezone) ? shopTimezone : "UTC";
+    const abandonedAt = sampleToUtc(sampleAbandonedAt, tz);
+    const steps = parseAttemptLadder(serializeAttemptLadder(ladderRowsToSteps(ladderRows)));
+    if (!abandonedAt || !steps.length) return [];
+    return previewAttemptLadder({
+      steps,
+      abandonedAt,
+      maxAttempts: Number(maxAttempts) || 1,
+      schedule: {
+        weekly: scheduleWeekly.map(parseDayRanges),
+        blackoutDates: blackoutDates.split(/[\s,;]+/).filter(Boolean),
+        holidayCountries: [],
+      },
+      timeZone: tz,
+    }).map((r) => ({ ...r, tz }));
+  }, [ladderRows, sampleAbandonedAt, shopTimezone, maxAttempts, scheduleWeekly, blackoutDates]);
 
   const [goal, setGoal] = React.useState<Goal>(settings.goal);
   const [tone, setTone] = React.useState<Tone>(settings.tone);
@@ -559,6 +941,15 @@ export default function Settings() {
     { label: "After first objection", value: "after_first_objection" },
     { label: "Offer proactively", value: "always" },
   ];
+  const retryModeOptions = [
+    { label: "Never retry", value: "never" },
+    { label: "Retry after", value: "after" },
+    { label: "Escalating delays", value: "escalating" },
+  ];
+  const ladderKindOptions = [
+    { label: "Wait (minutes)", value: "delay" },
+    { label: "Time of day", value: "at" },
+  ];
   const promptModeOptions = [
     { label: "Use default prompt + my prompt", value: "append" },
     { label: "Use only my prompt (advanced)", value: "replace" },
@@ -640,26 +1031,574 @@ export default function Settings() {
                       <Select label="Currency" name="currency" options={currencyOptions} value={currency} onChange={setCurrency} />
                     </FormLayout.Group>
 
+                    <TextField
+                      label="Simultaneous calls"
+                      type="number"
+                      name="maxConcurrentCalls"
+                      value={maxConcurrentCalls}
+                      onChange={setMaxConcurrentCalls}
+                      autoComplete="off"
+                      placeholder="No limit"
+                      helpText={`Calls over the limit wait in the queue as THROTTLED. App-wide: ${formatConcurrencyLimit(
+                        globalLimits.global
+                      )} · per caller number: ${formatConcurrencyLimit(globalLimits.callerId)}.`}
+                    />
+
+                    <TextField
+                      label="Minimum recovery score (%)"
+                      type="number"
+                      min={0}
+                      max={100}
+                      name="minRecoveryScore"
+                      value={minRecoveryScore}
+                      onChange={setMinRecoveryScore}
+                      autoComplete="off"
+                      placeholder="Off"
+                      helpText="Skip checkouts the recovery model rates below this. Needs a trained model (see Dashboard); leave empty to call everyone."
+                    />
+
+                  </FormLayout>
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Voice provider
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    The service that places the calls. Calls already in progress finish on the provider that started them.
+                  </Text>
+
+                  <FormLayout>
+                    <Select
+                      label="Provider"
+                      name="voiceProvider"
+                      options={[
+                        { label: `App default (${defaultVoiceProvider})`, value: "" },
+                        ...voiceProviders.map((p) => ({
+                          label: p.configured ? p.label : `${p.label} (not configured)`,
+                          value: p.id,
+                        })),
+                      ]}
+                      value={voiceProvider}
+                      onChange={setVoiceProvider}
+                    />
+                    <Checkbox
+                      label="Fail over to another provider"
+                      checked={voiceFailover}
+                      onChange={setVoiceFailover}
+                      helpText="If starting a call fails, retry it right away on the next configured provider."
+                    />
+                    <input type="hidden" name="voiceFailover" value={voiceFailover ? "on" : ""} />
+                  </FormLayout>
+
+                  {vapi.inUse ? (
+                    <>
+                      <Divider />
+                      <Text as="h3" variant="headingSm">
+                        Vapi assistant
+                      </Text>
+                      {vapi.error ? (
+                        <Banner tone="critical" title="Setting up the Vapi assistant failed">
+                          <p>{vapi.error}</p>
+                        </Banner>
+                      ) : null}
+                      {vapi.drift?.status === "drift" ? (
+                        <Banner tone="warning" title="The Vapi assistant was changed outside the app">
+                          <p>Differs from the app&apos;s definition: {vapi.drift.diffs.join(", ")}</p>
+                        </Banner>
+                      ) : null}
+                      {vapi.drift?.status === "error" ? (
+                        <Text as="p" tone="subdued">
+                          Could not check the assistant: {vapi.drift.error}
+                        </Text>
+                      ) : null}
+                      <Text as="p" tone="subdued">
+                        {vapi.assistantId
+                          ? `Assistant ${vapi.assistantId} · phone number ${vapi.phoneNumberId ?? "missing"}${
+                              vapi.provisionedAt ? ` · updated ${new Date(vapi.provisionedAt).toLocaleString()}` : ""
+                            }${vapi.drift?.status === "in_sync" ? " · in sync" : ""}`
+                          : "Created automatically when you save."}
+                      </Text>
+                      {vapi.drift?.status === "drift" || vapi.drift?.status === "not_provisioned" || vapi.error ? (
+                        <InlineStack>
+                          <Button
+                            loading={isRepairing}
+                            onClick={() => repairFetcher.submit({ intent: "vapi_repair" }, { method: "post" })}
+                          >
+                            {vapi.assistantId ? "Repair assistant" : "Create assistant"}
+                          </Button>
+                        </InlineStack>
+                      ) : null}
+                    </>
+                  ) : null}
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Call languages
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    The agent speaks the customer&apos;s language, taken from the checkout locale or else the shipping
+                    country. Customers in other languages are called in the fallback language.
+                  </Text>
+
+                  <InlineStack gap="300" wrap>
+                    {CALL_LANGUAGES.map((l) => (
+                      <Checkbox
+                        key={l.code}
+                        label={l.label}
+                        checked={callLanguages.includes(l.code) || l.code === fallbackLanguage}
+                        disabled={l.code === fallbackLanguage}
+                        onChange={(checked) =>
+                          setCallLanguages((prev) =>
+                            checked ? [...prev.filter((x) => x !== l.code), l.code] : prev.filter((x) => x !== l.code)
+                          )
+                        }
+                      />
+                    ))}
+                  </InlineStack>
+                  <input
+                    type="hidden"
+                    name="callLanguages"
+                    value={[...callLanguages.filter((c) => c !== fallbackLanguage), fallbackLanguage].join(",")}
+                  />
+
+                  <Select
+                    label="Fallback language"
+                    name="fallbackLanguage"
+                    options={CALL_LANGUAGES.map((l) => ({ label: l.label, value: l.code }))}
+                    value={fallbackLanguage}
+                    onChange={(v) => setFallbackLanguage(v as CallLanguage)}
+                  />
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Agent persona
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    {"How the agent introduces itself and sounds. Leave a field empty to keep the default."}
+                  </Text>
+
+                  <FormLayout>
+                    <FormLayout.Group>
+                      <TextField
+                        label="Agent name"
+                        name="personaAgentName"
+                        value={persona.agentName}
+                        onChange={(v) => updatePersona({ agentName: v })}
+                        autoComplete="off"
+                        placeholder="e.g. Sofia"
+                      />
+                      <TextField
+                        label="Store introduction"
+                        name="personaStoreIntro"
+                        value={persona.storeIntro}
+                        onChange={(v) => updatePersona({ storeIntro: v })}
+                        autoComplete="off"
+                        placeholder="e.g. the online shop for handmade ceramics"
+                      />
+                    </FormLayout.Group>
+
+                    <FormLayout.Group>
+                      <TextField
+                        label="First message"
+                        name="personaFirstMessage"
+                        value={persona.firstMessage}
+                        onChange={(v) => updatePersona({ firstMessage: v })}
+                        autoComplete="off"
+                        multiline={2}
+                        placeholder="Hi {first_name}, this is {agent_name} from {store_name}."
+                        helpText="Said word for word when the call starts. Variables: {first_name}, {agent_name}, {store_name}."
+                      />
+                      <Select
+                        label="First message language"
+                        name="personaFirstMessageLanguage"
+                        options={CALL_LANGUAGES.map((l) => ({ label: l.label, value: l.code }))}
+                        value={persona.firstMessageLanguage}
+                        onChange={(v) => updatePersona({ firstMessageLanguage: v })}
+                        helpText="Calls in other languages open with the agent's own greeting."
+                      />
+                    </FormLayout.Group>
+
+                    <TextField
+                      label="End-call phrases"
+                      name="personaEndCallPhrases"
+                      value={persona.endCallPhrases}
+                      onChange={(v) => updatePersona({ endCallPhrases: v })}
+                      autoComplete="off"
+                      multiline={3}
+                      helpText="One per line. The call hangs up after the agent says one of them."
+                    />
+
+                    <FormLayout.Group>
+                      <Select
+                        label="Voice provider"
+                        name="personaVoiceProvider"
+                        options={VOICE_VENDORS}
+                        value={persona.voiceProvider}
+                        onChange={(v) => updatePersona({ voiceProvider: v })}
+                      />
+                      <TextField
+                        label="Voice ID"
+                        name="personaVoiceId"
+                        value={persona.voiceId}
+                        onChange={(v) => updatePersona({ voiceId: v })}
+                        autoComplete="off"
+                        placeholder="Call language default"
+                        helpText="Used for every language; pick a multilingual voice if you call in several."
+                      />
+                      <TextField
+                        label="Speed"
+                        type="number"
+                        min={0.5}
+                        max={2}
+                        step={0.05}
+                        name="personaSpeed"
+                        value={persona.speed}
+                        onChange={(v) => updatePersona({ speed: v })}
+                        autoComplete="off"
+                        helpText="1 = normal"
+                      />
+                    </FormLayout.Group>
+                  </FormLayout>
+
+                  <InlineStack gap="300" blockAlign="center">
+                    <Button onClick={requestVoicePreview} loading={previewFetcher.state !== "idle"}>
+                      Preview voice
+                    </Button>
+                    {preview?.ok ? (
+                      <audio controls autoPlay src={`data:${preview.contentType};base64,${preview.audioBase64}`}>
+                        <track kind="captions" />
+                      </audio>
+                    ) : null}
+                  </InlineStack>
+                  {preview && !preview.ok ? (
+                    <Banner tone="warning" title="Preview not available">
+                      <p>{preview.error}</p>
+                    </Banner>
+                  ) : null}
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Call schedule
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    {
+                      'Calls are only placed inside these windows, in the customer\'s local time. Use ranges like "09:00-12:00, 14:00-19:00". Leave a day empty to never call on it.'
+                    }
+                  </Text>
+
+                  <FormLayout>
+                    {[1, 2, 3, 4, 5, 6, 0].map((i) => (
+                      <TextField
+                        key={i}
+                        label={WEEKDAY_LABELS[i]}
+                        name={`window_${i}`}
+                        value={scheduleWeekly[i] ?? ""}
+                        onChange={(v) => setScheduleWeekly((prev) => prev.map((x, j) => (j === i ? v : x)))}
+                        autoComplete="off"
+                        placeholder="No calls"
+                      />
+                    ))}
+
+                    <TextField
+                      label="Blackout dates"
+                      name="blackoutDates"
+                      value={blackoutDates}
+                      onChange={setBlackoutDates}
+                      multiline={3}
+                      autoComplete="off"
+                      placeholder="2026-12-24"
+                      helpText="One date per line (YYYY-MM-DD). No calls on these days."
+                    />
+
+                    <BlockStack gap="100">
+                      <Text as="p" variant="bodyMd">
+                        Skip public holidays (applied to customers in that country)
+                      </Text>
+                      <InlineStack gap="300" wrap>
+                        {HOLIDAY_CALENDAR_OPTIONS.map((o) => (
+                          <Checkbox
+                            key={o.code}
+                            label={o.label}
+                            checked={holidayCountries.includes(o.code)}
+                            onChange={(checked) =>
+                              setHolidayCountries((prev) =>
+                                checked ? [...prev.filter((x) => x !== o.code), o.code] : prev.filter((x) => x !== o.code)
+                              )
+                            }
+                          />
+                        ))}
+                      </InlineStack>
+                      <input type="hidden" name="holidayCountries" value={holidayCountries.join(",")} />
+                    </BlockStack>
+
+                    <TextField
+                      label="Shop timezone (IANA)"
+                      name="shopTimezone"
+                      value={shopTimezone}
+                      onChange={setShopTimezone}
+                      autoComplete="off"
+                      placeholder="Europe/Athens"
+                      helpText="The call schedule is applied in the customer's local time, inferred from the checkout address. This timezone is used when it can't be inferred."
+                    />
+                  </FormLayout>
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Marketing consent
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    Consent comes from the checkout (email / SMS marketing opt-in). Calls need either one; offer SMS
+                    needs SMS consent. Checkouts with unknown consent count as not consented when consent is required.
+                  </Text>
+
+                  <FormLayout>
+                    <Select
+                      label="Consent policy"
+                      name="consentPolicy"
+                      options={CONSENT_POLICY_OPTIONS}
+                      value={consentPolicy}
+                      onChange={(v) => setConsentPolicy(v as ConsentPolicy)}
+                    />
+                    <TextField
+                      label="Countries"
+                      name="consentCountries"
+                      value={consentCountries}
+                      onChange={setConsentCountries}
+                      disabled={consentPolicy !== "require_in_countries"}
+                      autoComplete="off"
+                      placeholder="DE, FR, GB"
+                      helpText="ISO country codes, comma separated. Checkouts without a known country are treated as listed."
+                    />
+                  </FormLayout>
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Contact frequency caps
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    Limits per phone number and per email across all of a customer&apos;s checkouts. Leave the maximum empty
+                    for no cap. Skipped calls show as FREQUENCY_CAPPED.
+                  </Text>
+
+                  <FormLayout>
                     <FormLayout.Group>
                       <TextField
-                        label="Call window start (HH:MM)"
-                        name="callWindowStart"
-                        value={callWindowStart}
-                        onChange={setCallWindowStart}
+                        label="Max calls"
+                        type="number"
+                        name="capCallMax"
+                        value={contactCaps.call.max}
+                        onChange={(v) => updateCap("call", { max: v })}
                         autoComplete="off"
+                        placeholder="2"
                       />
                       <TextField
-                        label="Call window end (HH:MM)"
-                        name="callWindowEnd"
-                        value={callWindowEnd}
-                        onChange={setCallWindowEnd}
+                        label="Per (hours)"
+                        type="number"
+                        name="capCallHours"
+                        value={contactCaps.call.hours}
+                        onChange={(v) => updateCap("call", { hours: v })}
+                        autoComplete="off"
+                        placeholder="168"
+                        helpText="168 = 7 days"
+                      />
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      <TextField
+                        label="Max SMS"
+                        type="number"
+                        name="capSmsMax"
+                        value={contactCaps.sms.max}
+                        onChange={(v) => updateCap("sms", { max: v })}
                         autoComplete="off"
+                        placeholder="1"
                       />
+                      <TextField
+                        label="Per (hours)"
+                        type="number"
+                        name="capSmsHours"
+                        value={contactCaps.sms.hours}
+                        onChange={(v) => updateCap("sms", { hours: v })}
+                        autoComplete="off"
+                        placeholder="24"
+                      />
+                    </FormLayout.Group>
+                  </FormLayout>
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Dial priority
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    When several calls are due, the highest score goes first. Each weight is 0–10; 0 ignores that
+                    signal. Scores are set when a call is queued.
+                  </Text>
+
+                  <FormLayout>
+                    <FormLayout.Group>
+                      {PRIORITY_FACTORS.map((f) => (
+                        <TextField
+                          key={f.key}
+                          label={f.label}
+                          type="number"
+                          min={0}
+                          max={10}
+                          name={`priorityWeight_${f.key}`}
+                          value={priorityWeights[f.key]}
+                          onChange={(v) => setPriorityWeights((prev) => ({ ...prev, [f.key]: v }))}
+                          autoComplete="off"
+                          helpText={f.help}
+                        />
+                      ))}
                     </FormLayout.Group>
                   </FormLayout>
                 </BlockStack>
               </Card>
 
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Retry policy
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    What to do after each call result. Minutes for escalating delays are comma separated (e.g. 30, 240,
+                    1440); the last value repeats. Max attempts still applies.
+                  </Text>
+
+                  <FormLayout>
+                    {RETRY_OUTCOME_KEYS.map((k) => (
+                      <FormLayout.Group key={k}>
+                        <Select
+                          label={RETRY_OUTCOME_LABELS[k]}
+                          name={`retry_mode_${k}`}
+                          options={retryModeOptions}
+                          value={retryPolicy[k].mode}
+                          onChange={(v) => setRetryPolicy((prev) => ({ ...prev, [k]: { ...prev[k], mode: v as RetryMode } }))}
+                        />
+                        <TextField
+                          label="Minutes"
+                          name={`retry_minutes_${k}`}
+                          value={retryPolicy[k].minutes}
+                          onChange={(v) => setRetryPolicy((prev) => ({ ...prev, [k]: { ...prev[k], minutes: v } }))}
+                          disabled={retryPolicy[k].mode === "never"}
+                          autoComplete="off"
+                        />
+                      </FormLayout.Group>
+                    ))}
+                  </FormLayout>
+                </BlockStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Attempt ladder
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    Optional. Step 1 is timed from abandonment, later steps from the previous call. When set, it replaces
+                    Delay minutes and the retry delays above; outcomes set to Never retry still stop calling.
+                  </Text>
+
+                  <FormLayout>
+                    {ladderRows.map((r, i) => (
+                      <FormLayout.Group key={i} condensed>
+                        <Select
+                          label={`Attempt ${i + 1}`}
+                          options={ladderKindOptions}
+                          value={r.kind}
+                          onChange={(v) => updateLadderRow(i, { kind: v as LadderRow["kind"] })}
+                        />
+                        {r.kind === "delay" ? (
+                          <TextField
+                            label="Minutes"
+                            type="number"
+                            value={r.minutes}
+                            onChange={(v) => updateLadderRow(i, { minutes: v })}
+                            autoComplete="off"
+                          />
+                        ) : (
+                          <TextField
+                            label="Days later"
+                            type="number"
+                            value={r.dayOffset}
+                            onChange={(v) => updateLadderRow(i, { dayOffset: v })}
+                            autoComplete="off"
+                          />
+                        )}
+                        {r.kind === "at" ? (
+                          <TextField
+                            label="At (HH:MM)"
+                            value={r.time}
+                            onChange={(v) => updateLadderRow(i, { time: v })}
+                            autoComplete="off"
+                            placeholder="11:00"
+                          />
+                        ) : null}
+                        <div style={{ paddingTop: 24 }}>
+                          <Button onClick={() => setLadderRows((prev) => prev.filter((_, j) => j !== i))}>Remove</Button>
+                        </div>
+                      </FormLayout.Group>
+                    ))}
+
+                    <InlineStack gap="200">
+                      <Button
+                        onClick={() =>
+                          setLadderRows((prev) => [...prev, { kind: "delay", minutes: "30", dayOffset: "0", time: "" }])
+                        }
+                        disabled={ladderRows.length >= 10}
+                      >
+                        Add step
+                      </Button>
+                    </InlineStack>
+                    <input type="hidden" name="attemptLadder" value={JSON.stringify(ladderRowsToSteps(ladderRows))} />
+
+                    {ladderRows.length ? (
+                      <BlockStack gap="200">
+                        <Divider />
+                        <TextField
+                          label="Preview: sample abandonment (shop time)"
+                          type="datetime-local"
+                          value={sampleAbandonedAt}
+                          onChange={setSampleAbandonedAt}
+                          autoComplete="off"
+                        />
+                        {ladderPreview.map((p) => (
+                          <Text as="p" key={p.attempt}>
+                            {`Attempt ${p.attempt} (${p.step}): ${
+                              p.scheduledFor ? formatInTimeZone(p.scheduledFor, p.tz) : "no allowed slot"
+                            }${
+                              p.scheduledFor && p.scheduledFor.getTime() !== p.target.getTime()
+                                ? ` · moved by call schedule from ${formatInTimeZone(p.target, p.tz)}`
+                                : ""
+                            }`}
+                          </Text>
+                        ))}
+                      </BlockStack>
+                    ) : null}
+                  </FormLayout>
+                </BlockStack>
+              </Card>
+
               <Card>
                 <BlockStack gap="300">
                   <Text as="h2" variant="headingMd">
@@ -897,12 +1836,54 @@ export default function Settings() {
                       onChange={setUserPrompt}
                       multiline={10}
                       autoComplete="off"
-                      helpText="Rules, disclaimers, language, objection handling, store-specific constraints."
+                      helpText="Rules, disclaimers, language, objection handling, store-specific constraints. An active template from Templates is used instead."
                     />
                   </FormLayout>
                 </BlockStack>
               </Card>
 
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Prompt preview
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    Shows exactly what a call for the chosen checkout would be sent with the saved settings: each prompt
+                    section with the settings and rules behind it, the offer context and the tools. Nothing is called or
+                    sent.
+                  </Text>
+
+                  {previewCheckouts.length ? (
+                    <InlineStack gap="300" blockAlign="end">
+                      <Select
+                        label="Checkout"
+                        options={previewCheckouts.map((c) => ({ label: c.label, value: c.checkoutId }))}
+                        value={previewCheckoutId}
+                        onChange={setPreviewCheckoutId}
+                      />
+                      <Button
+                        loading={promptFetcher.state !== "idle"}
+                        disabled={!previewCheckoutId}
+                        onClick={() =>
+                          promptFetcher.submit(
+                            { intent: "prompt_preview", checkoutId: previewCheckoutId },
+                            { method: "post" }
+                          )
+                        }
+                      >
+                        Preview prompt
+                      </Button>
+                    </InlineStack>
+                  ) : (
+                    <Text as="p" tone="subdued">
+                      No checkouts yet.
+                    </Text>
+                  )}
+
+                  {promptPreview ? <CallPromptPreview preview={promptPreview} /> : null}
+                </BlockStack>
+              </Card>
+
               <div style={{ display: "none" }}>
                 <Button submit>Save</Button>
               </div>
@@ -0,0 +1,382 @@
+// app/routes/app.suppressions.tsx
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useRouteError, useSearchParams } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import {
+  addSuppression,
+  importSuppressionCsv,
+  removeSuppression,
+  suppressionActorFromSession,
+  type SuppressionKind,
+} from "../lib/suppression.server";
+
+import {
+  Page,
+  Layout,
+  Card,
+  FormLayout,
+  TextField,
+  Select,
+  InlineStack,
+  BlockStack,
+  Banner,
+  Text,
+  Button,
+  DataTable,
+  Badge,
+} from "@shopify/polaris";
+
+/* =========================
+   Types
+   ========================= */
+type Row = {
+  id: string;
+  kind: string;
+  value: string;
+  source: string;
+  reason: string | null;
+  checkoutId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+};
+
+type AuditRow = {
+  id: string;
+  kind: string;
+  value: string;
+  action: string;
+  source: string | null;
+  reason: string | null;
+  actor: string | null;
+  createdAt: string;
+};
+
+type LoaderData = {
+  shop: string;
+  q: string;
+  total: number;
+  rows: Row[];
+  audit: AuditRow[];
+};
+
+type ActionData = { ok: boolean; message: string };
+
+function fmtDate(v: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (!Number.isFinite(d.getTime())) return "-";
+  return d.toISOString().slice(0, 16).replace("T", " ");
+}
+
+function sourceTone(source: string) {
+  if (source === "DISPOSITION") return "attention" as const;
+  if (source === "CSV_IMPORT") return "info" as const;
+  return undefined;
+}
+
+/* =========================
+   Loader / Action
+   ========================= */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const url = new URL(request.url);
+  const q = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+  const match = q ? { value: { contains: q.toLowerCase() } } : {};
+
+  const [total, rows, audit] = await Promise.all([
+    db.suppression.count({ where: { shop, removedAt: null } }),
+    db.suppression.findMany({
+      where: { shop, removedAt: null, ...match },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    }),
+    db.suppressionAudit.findMany({
+      where: { shop, ...match },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    }),
+  ]);
+
+  return {
+    shop,
+    q,
+    total,
+    rows: rows.map((r) => ({
+      id: r.id,
+      kind: r.kind,
+      value: r.value,
+      source: r.source,
+      reason: r.reason ?? null,
+      checkoutId: r.checkoutId ?? null,
+      createdBy: r.createdBy ?? null,
+      createdAt: r.createdAt.toISOString(),
+    })),
+    audit: audit.map((a) => ({
+      id: a.id,
+      kind: a.kind,
+      value: a.value,
+      action: a.action,
+      source: a.source ?? null,
+      reason: a.reason ?? null,
+      actor: a.actor ?? null,
+      createdAt: a.createdAt.toISOString(),
+    })),
+  } satisfies LoaderData;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const actor = suppressionActorFromSession(session);
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+  const callingCode = String(fd.get("callingCode") ?? "").replace(/\D/g, "") || null;
+
+  if (intent === "add") {
+    const kind: SuppressionKind = String(fd.get("kind")) === "EMAIL" ? "EMAIL" : "PHONE";
+    const res = await addSuppression({
+      shop,
+      kind,
+      value: fd.get("value"),
+      source: "MANUAL",
+      reason: String(fd.get("reason") ?? ""),
+      actor,
+      defaultCallingCode: callingCode,
+    });
+    if (!res.ok) return { ok: false, message: `Invalid ${kind === "EMAIL" ? "email" : "phone number"}.` } satisfies ActionData;
+    return { ok: true, message: res.created ? `Added ${res.value}.` : `${res.value} is already on the list.` } satisfies ActionData;
+  }
+
+  if (intent === "import_csv") {
+    const file = fd.get("csvFile");
+    const fromFile = file && typeof file === "object" && "text" in file ? await (file as File).text() : "";
+    const csv = fromFile || String(fd.get("csv") ?? "");
+    if (!csv.trim()) return { ok: false, message: "Nothing to import." } satisfies ActionData;
+
+    const res = await importSuppressionCsv({ shop, csv, actor, defaultCallingCode: callingCode });
+    return {
+      ok: true,
+      message: `Imported ${res.added} new, ${res.existing} already listed, ${res.invalid} invalid.`,
+    } satisfies ActionData;
+  }
+
+  if (intent === "remove") {
+    const ok = await removeSuppression({
+      shop,
+      id: String(fd.get("id") ?? ""),
+      actor,
+      reason: String(fd.get("reason") ?? ""),
+    });
+    return { ok, message: ok ? "Removed." : "Entry not found." } satisfies ActionData;
+  }
+
+  return { ok: false, message: "Unknown action." } satisfies ActionData;
+};
+
+/* =========================
+   UI (Polaris)
+   ========================= */
+export default function Suppressions() {
+  const { q, total, rows, audit } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [search, setSearch] = React.useState(q);
+  const [kind, setKind] = React.useState<SuppressionKind>("PHONE");
+  const [value, setValue] = React.useState("");
+  const [reason, setReason] = React.useState("");
+  const [callingCode, setCallingCode] = React.useState("");
+  const [csv, setCsv] = React.useState("");
+
+  const busy = fetcher.state !== "idle";
+  const result = fetcher.data as ActionData | undefined;
+
+  const applySearch = () => {
+    const next = new URLSearchParams(searchParams);
+    if (search.trim()) next.set("q", search.trim());
+    else next.delete("q");
+    setSearchParams(next);
+  };
+
+  const remove = (id: string, label: string) => {
+    if (typeof window === "undefined") return;
+    const why = window.prompt(`Remove ${label} from the do-not-call list? Reason (kept in the audit log):`, "");
+    if (why == null) return;
+    fetcher.submit({ intent: "remove", id, reason: why }, { method: "post" });
+  };
+
+  const tableRows = rows.map((r) => [
+    r.value,
+    r.kind,
+    <Badge key={`${r.id}-src`} tone={sourceTone(r.source)}>
+      {r.source}
+    </Badge>,
+    r.reason ?? "-",
+    r.createdBy ?? "-",
+    fmtDate(r.createdAt),
+    <Button key={`${r.id}-rm`} size="slim" tone="critical" disabled={busy} onClick={() => remove(r.id, r.value)}>
+      Remove
+    </Button>,
+  ]);
+
+  const auditRows = audit.map((a) => [
+    fmtDate(a.createdAt),
+    a.action,
+    `${a.kind} ${a.value}`,
+    a.source ?? "-",
+    a.reason ?? "-",
+    a.actor ?? "-",
+  ]);
+
+  return (
+    <Page title="Do-not-call list" subtitle={`${total} active ${total === 1 ? "entry" : "entries"}`}>
+      <Layout>
+        <Layout.Section>
+          {result ? <Banner tone={result.ok ? "success" : "critical"} title={result.message} /> : null}
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Add entry
+              </Text>
+              <fetcher.Form method="post">
+                <input type="hidden" name="intent" value="add" />
+                <FormLayout>
+                  <FormLayout.Group>
+                    <Select
+                      label="Type"
+                      name="kind"
+                      options={[
+                        { label: "Phone", value: "PHONE" },
+                        { label: "Email", value: "EMAIL" },
+                      ]}
+                      value={kind}
+                      onChange={(v) => setKind(v as SuppressionKind)}
+                    />
+                    <TextField
+                      label={kind === "EMAIL" ? "Email" : "Phone"}
+                      name="value"
+                      value={value}
+                      onChange={setValue}
+                      autoComplete="off"
+                      placeholder={kind === "EMAIL" ? "customer@example.com" : "+306912345678"}
+                      helpText={kind === "PHONE" ? "Include the country code." : undefined}
+                    />
+                    <TextField label="Reason" name="reason" value={reason} onChange={setReason} autoComplete="off" />
+                  </FormLayout.Group>
+                  <InlineStack>
+                    <Button submit loading={busy} disabled={!value.trim()}>
+                      Add
+                    </Button>
+                  </InlineStack>
+                </FormLayout>
+              </fetcher.Form>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Import CSV
+              </Text>
+              <Text as="p" tone="subdued">
+                One phone or email per line, optionally followed by a reason. A header row with phone, email and reason
+                columns also works.
+              </Text>
+              <fetcher.Form method="post" encType="multipart/form-data">
+                <input type="hidden" name="intent" value="import_csv" />
+                <FormLayout>
+                  <input type="file" name="csvFile" accept=".csv,text/csv,text/plain" />
+                  <TextField label="…or paste" name="csv" value={csv} onChange={setCsv} multiline={4} autoComplete="off" />
+                  <TextField
+                    label="Default country calling code"
+                    name="callingCode"
+                    value={callingCode}
+                    onChange={setCallingCode}
+                    autoComplete="off"
+                    placeholder="30"
+                    helpText="Used for numbers without a + prefix. Numbers that can't be normalized to E.164 are skipped."
+                  />
+                  <InlineStack>
+                    <Button submit loading={busy}>
+                      Import
+                    </Button>
+                  </InlineStack>
+                </FormLayout>
+              </fetcher.Form>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="end" gap="300">
+                <div style={{ flex: 1 }}>
+                  <TextField
+                    label="Search"
+                    labelHidden
+                    value={search}
+                    onChange={setSearch}
+                    autoComplete="off"
+                    placeholder="Search phone or email"
+                    connectedRight={<Button onClick={applySearch}>Search</Button>}
+                  />
+                </div>
+              </InlineStack>
+
+              {rows.length ? (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text", "text", "text", "text"]}
+                  headings={["Value", "Type", "Source", "Reason", "Added by", "Added", ""]}
+                  rows={tableRows as any}
+                />
+              ) : (
+                <Text as="p" tone="subdued">
+                  {q ? "No matching entries." : "The list is empty."}
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                History
+              </Text>
+              {auditRows.length ? (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text", "text", "text"]}
+                  headings={["When", "Action", "Entry", "Source", "Reason", "By"]}
+                  rows={auditRows}
+                />
+              ) : (
+                <Text as="p" tone="subdued">
+                  No changes yet.
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -0,0 +1,250 @@
+// app/routes/app.sync.tsx
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useRouteError } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import {
+  getCheckoutSyncState,
+  startCheckoutBackfill,
+  syncAbandonedCheckoutsFromShopify,
+  type CheckoutSyncResult,
+} from "../callRecovery.server";
+
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  InlineStack,
+  Banner,
+  Text,
+  Button,
+  ProgressBar,
+  Badge,
+} from "@shopify/polaris";
+
+/* =========================
+   Types
+   ========================= */
+type LoaderData = {
+  checkoutsStored: number;
+  state: {
+    highWaterMark: string | null;
+    runMode: string | null;
+    runStartedAt: string | null;
+    runSynced: number;
+    runFailed: number;
+    runTotal: number | null;
+    lastRunAt: string | null;
+    lastSynced: number;
+    lastError: string | null;
+    backfillDoneAt: string | null;
+  };
+};
+
+type ActionData = { ok: boolean; message: string; result: CheckoutSyncResult | null };
+
+function fmtDate(v: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (!Number.isFinite(d.getTime())) return "-";
+  return d.toISOString().slice(0, 16).replace("T", " ");
+}
+
+function iso(d: Date | null | undefined) {
+  return d ? d.toISOString() : null;
+}
+
+/* =========================
+   Loader / Action
+   ========================= */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const [state, checkoutsStored] = await Promise.all([
+    getCheckoutSyncState(shop),
+    db.checkout.count({ where: { shop } }),
+  ]);
+
+  return {
+    checkoutsStored,
+    state: {
+      highWaterMark: iso(state.highWaterMark),
+      runMode: state.runMode ?? null,
+      runStartedAt: iso(state.runStartedAt),
+      runSynced: state.runSynced,
+      runFailed: state.runFailed,
+      runTotal: state.runTotal ?? null,
+      lastRunAt: iso(state.lastRunAt),
+      lastSynced: state.lastSynced,
+      lastError: state.lastError ?? null,
+      backfillDoneAt: iso(state.backfillDoneAt),
+    },
+  } satisfies LoaderData;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  if (intent === "start_backfill") {
+    const state = await startCheckoutBackfill({ admin, shop });
+    return {
+      ok: true,
+      message: state.runTotal != null ? `Backfill started (${state.runTotal} checkouts).` : "Backfill started.",
+      result: null,
+    } satisfies ActionData;
+  }
+
+  if (intent === "sync_now" || intent === "backfill_step") {
+    const result = await syncAbandonedCheckoutsFromShopify({ admin, shop, limit: 50, maxPages: 5, maxWaitMs: 10000 });
+    const message = result.ok
+      ? `Synced ${result.synced} checkout${result.synced === 1 ? "" : "s"}${result.done ? "." : ", more pages left."}`
+      : `Sync stopped: ${result.errors[0] ?? "unknown error"}`;
+    return { ok: result.ok, message, result } satisfies ActionData;
+  }
+
+  return { ok: false, message: "Unknown action.", result: null } satisfies ActionData;
+};
+
+/* =========================
+   UI (Polaris)
+   ========================= */
+export default function CheckoutSync() {
+  const { checkoutsStored, state } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [paused, setPaused] = React.useState(false);
+
+  const busy = fetcher.state !== "idle";
+  const result = fetcher.data as ActionData | undefined;
+  const backfilling = state.runMode === "backfill";
+
+  // Drive the backfill from the browser: one batch of pages per request until the run is done.
+  React.useEffect(() => {
+    if (!backfilling || paused || busy) return;
+    if (result && !result.ok) return;
+    fetcher.submit({ intent: "backfill_step" }, { method: "post" });
+  }, [backfilling, paused, busy, result, fetcher]);
+
+  const total = state.runTotal ?? 0;
+  const progress = backfilling && total > 0 ? Math.min(100, Math.round((state.runSynced / total) * 100)) : 0;
+
+  return (
+    <Page title="Checkout sync" subtitle={`${checkoutsStored} checkouts stored`}>
+      <Layout>
+        <Layout.Section>
+          {result ? <Banner tone={result.ok ? "success" : "critical"} title={result.message} /> : null}
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">
+                  Abandoned checkouts from Shopify
+                </Text>
+                {state.runMode ? (
+                  <Badge tone="attention">{backfilling ? "Backfill running" : "Sync in progress"}</Badge>
+                ) : state.highWaterMark ? (
+                  <Badge tone="success">Up to date</Badge>
+                ) : (
+                  <Badge>Never synced</Badge>
+                )}
+              </InlineStack>
+
+              <Text as="p" tone="subdued">
+                Webhooks keep checkouts current. The sync catches anything they missed, picking up from the last
+                synced update time. A full backfill imports older carts for reporting; carts abandoned more than
+                14 days ago are never called.
+              </Text>
+
+              <BlockStack gap="100">
+                <Text as="p">Synced through: {fmtDate(state.highWaterMark)}</Text>
+                <Text as="p">
+                  Last run: {fmtDate(state.lastRunAt)} · {state.lastSynced} synced
+                </Text>
+                {state.backfillDoneAt ? <Text as="p">Full backfill finished: {fmtDate(state.backfillDoneAt)}</Text> : null}
+              </BlockStack>
+
+              {state.lastError ? (
+                <Banner tone="warning" title="Last sync reported errors">
+                  <Text as="p">{state.lastError}</Text>
+                </Banner>
+              ) : null}
+
+              <InlineStack gap="200">
+                <Button
+                  loading={busy && !backfilling}
+                  disabled={busy || backfilling}
+                  onClick={() => fetcher.submit({ intent: "sync_now" }, { method: "post" })}
+                >
+                  Sync now
+                </Button>
+                <Button
+                  variant="primary"
+                  disabled={busy || backfilling}
+                  onClick={() => {
+                    setPaused(false);
+                    fetcher.submit({ intent: "start_backfill" }, { method: "post" });
+                  }}
+                >
+                  {state.backfillDoneAt ? "Run full backfill again" : "Run full backfill"}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {backfilling ? (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Backfill progress
+                </Text>
+                <ProgressBar progress={progress} tone="primary" />
+                <Text as="p" tone="subdued">
+                  {total > 0
+                    ? `${state.runSynced} of ${total} checkouts (${progress}%)`
+                    : `${state.runSynced} checkouts so far`}
+                  {state.runFailed ? ` · ${state.runFailed} failed` : ""} · started {fmtDate(state.runStartedAt)}
+                </Text>
+                <Text as="p" tone="subdued">
+                  Keep this page open to continue. Closing it pauses the backfill; it resumes from the same place
+                  next time.
+                </Text>
+                <InlineStack gap="200">
+                  {paused || (result && !result.ok) ? (
+                    <Button
+                      onClick={() => {
+                        setPaused(false);
+                        fetcher.submit({ intent: "backfill_step" }, { method: "post" });
+                      }}
+                      disabled={busy}
+                    >
+                      Resume
+                    </Button>
+                  ) : (
+                    <Button onClick={() => setPaused(true)}>Pause</Button>
+                  )}
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ) : null}
+      </Layout>
+    </Page>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
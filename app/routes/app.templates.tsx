@@ -1,19 +1,435 @@
 // app/routes/app.templates.tsx
-import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
-import { useRouteError } from "react-router";
-import { authenticate } from "../shopify.server";
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import { ensureSettings } from "../callRecovery.server";
+import { suppressionActorFromSession } from "../lib/suppression.server";
+import {
+  archivePromptTemplate,
+  createPromptTemplate,
+  listPromptTemplates,
+  restorePromptTemplateVersion,
+  savePromptTemplateVersion,
+  setActivePromptTemplate,
+} from "../lib/promptTemplates.server";
+import {
+  MAX_TEMPLATE_LENGTH,
+  PROMPT_VARIABLES,
+  STARTER_TEMPLATES,
+  exampleVariables,
+  renderPromptTemplate,
+  unknownTemplateVariables,
+} from "../lib/promptTemplates.shared";
+
+import {
+  Page,
+  Layout,
+  Card,
+  FormLayout,
+  TextField,
+  InlineStack,
+  BlockStack,
+  Banner,
+  Text,
+  Button,
+  DataTable,
+  Badge,
+  Box,
+} from "@shopify/polaris";
+
+/* =========================
+   Types
+   ========================= */
+type VersionRow = {
+  id: string;
+  version: number;
+  body: string;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+};
+
+type TemplateRow = {
+  id: string;
+  name: string;
+  starterKey: string | null;
+  updatedAt: string;
+  versions: VersionRow[]; // newest first
+};
+
+type LoaderData = {
+  shop: string;
+  activeTemplateId: string | null;
+  templates: TemplateRow[];
+};
+
+type ActionData = { ok: boolean; message: string; templateId?: string };
+
+function fmtDate(v: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (!Number.isFinite(d.getTime())) return "-";
+  return d.toISOString().slice(0, 16).replace("T", " ");
+}
 
+/* =========================
+   Loader / Action
+   ========================= */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return {};
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  await ensureSettings(shop);
+  const { activeTemplateId, templates } = await listPromptTemplates(shop);
+
+  return {
+    shop,
+    activeTemplateId,
+    templates: templates.map((t) => ({
+      id: t.id,
+      name: t.name,
+      starterKey: t.starterKey ?? null,
+      updatedAt: t.updatedAt.toISOString(),
+      versions: t.versions.map((v) => ({
+        id: v.id,
+        version: v.version,
+        body: v.body,
+        note: v.note ?? null,
+        createdBy: v.createdBy ?? null,
+        createdAt: v.createdAt.toISOString(),
+      })),
+    })),
+  } satisfies LoaderData;
 };
 
-export default function TemplatesRoute() {
-  return <div style={{ padding: 16, fontWeight: 900, fontSize: 18 }}>Templates</div>;
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const actor = suppressionActorFromSession(session);
+
+  await ensureSettings(shop);
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+  const templateId = String(fd.get("templateId") ?? "");
+
+  if (intent === "create") {
+    const res = await createPromptTemplate({
+      shop,
+      name: fd.get("name"),
+      body: fd.get("body"),
+      starterKey: String(fd.get("starterKey") ?? "") || null,
+      actor,
+    });
+    if (!res.ok) return { ok: false, message: res.error } satisfies ActionData;
+    return { ok: true, message: `Added "${res.template.name}".`, templateId: res.template.id } satisfies ActionData;
+  }
+
+  if (intent === "save") {
+    const res = await savePromptTemplateVersion({
+      shop,
+      templateId,
+      name: fd.get("name"),
+      body: fd.get("body"),
+      note: fd.get("note"),
+      actor,
+    });
+    if (!res.ok) return { ok: false, message: res.error } satisfies ActionData;
+    return {
+      ok: true,
+      message: res.created ? `Saved version ${res.version}.` : "No changes to the text; name saved.",
+      templateId,
+    } satisfies ActionData;
+  }
+
+  if (intent === "restore") {
+    const res = await restorePromptTemplateVersion({ shop, templateId, versionId: String(fd.get("versionId") ?? ""), actor });
+    if (!res.ok) return { ok: false, message: res.error } satisfies ActionData;
+    return {
+      ok: true,
+      message: res.created ? `Restored as version ${res.version}.` : "That version is already the latest.",
+      templateId,
+    } satisfies ActionData;
+  }
+
+  if (intent === "activate") {
+    const ok = await setActivePromptTemplate(shop, templateId);
+    return { ok, message: ok ? "Template is now active." : "Template not found.", templateId } satisfies ActionData;
+  }
+
+  if (intent === "deactivate") {
+    await setActivePromptTemplate(shop, null);
+    return { ok: true, message: "No active template; calls use the prompt from Settings." } satisfies ActionData;
+  }
+
+  if (intent === "archive") {
+    const ok = await archivePromptTemplate(shop, templateId);
+    return { ok, message: ok ? "Template archived." : "Template not found." } satisfies ActionData;
+  }
+
+  return { ok: false, message: "Unknown action." } satisfies ActionData;
+};
+
+/* =========================
+   UI (Polaris)
+   ========================= */
+export default function Templates() {
+  const { activeTemplateId, templates } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+
+  const [selectedId, setSelectedId] = React.useState<string | null>(templates[0]?.id ?? null);
+  const selected = templates.find((t) => t.id === selectedId) ?? null;
+  const latest = selected?.versions[0] ?? null;
+
+  const [name, setName] = React.useState(selected?.name ?? "");
+  const [body, setBody] = React.useState(latest?.body ?? "");
+  const [note, setNote] = React.useState("");
+
+  const busy = fetcher.state !== "idle";
+  const result = fetcher.data as ActionData | undefined;
+
+  // Load the editor whenever another template (or a new latest version) is selected.
+  React.useEffect(() => {
+    setName(selected?.name ?? "");
+    setBody(latest?.body ?? "");
+    setNote("");
+  }, [selected?.id, selected?.name, latest?.id, latest?.body]);
+
+  // Jump to a template that was just created.
+  React.useEffect(() => {
+    if (result?.ok && result.templateId) setSelectedId(result.templateId);
+  }, [result]);
+
+  const post = (data: Record<string, string>) => fetcher.submit(data, { method: "post" });
+
+  const preview = renderPromptTemplate(body, exampleVariables());
+  const unknown = unknownTemplateVariables(body);
+  const dirty = Boolean(selected) && (body.trim() !== (latest?.body ?? "") || name.trim() !== selected?.name);
+
+  const libraryRows = templates.map((t) => [
+    <InlineStack key={`${t.id}-name`} gap="200" blockAlign="center">
+      <Button variant="plain" onClick={() => setSelectedId(t.id)}>
+        {t.name}
+      </Button>
+      {t.id === activeTemplateId ? <Badge tone="success">Active</Badge> : null}
+      {t.id === selectedId ? <Badge>Editing</Badge> : null}
+    </InlineStack>,
+    `v${t.versions[0]?.version ?? 0}`,
+    fmtDate(t.updatedAt),
+    <InlineStack key={`${t.id}-actions`} gap="100" wrap={false}>
+      {t.id === activeTemplateId ? (
+        <Button size="slim" disabled={busy} onClick={() => post({ intent: "deactivate" })}>
+          Deactivate
+        </Button>
+      ) : (
+        <Button size="slim" disabled={busy} onClick={() => post({ intent: "activate", templateId: t.id })}>
+          Set active
+        </Button>
+      )}
+      <Button
+        size="slim"
+        tone="critical"
+        disabled={busy}
+        onClick={() => {
+          if (typeof window !== "undefined" && !window.confirm(`Archive "${t.name}"?`)) return;
+          post({ intent: "archive", templateId: t.id });
+        }}
+      >
+        Archive
+      </Button>
+    </InlineStack>,
+  ]);
+
+  const historyRows = (selected?.versions ?? []).map((v, i) => [
+    `v${v.version}`,
+    fmtDate(v.createdAt),
+    v.createdBy ?? "-",
+    v.note ?? "-",
+    i === 0 ? (
+      <Badge key={`${v.id}-latest`}>Latest</Badge>
+    ) : (
+      <InlineStack key={`${v.id}-actions`} gap="100" wrap={false}>
+        <Button size="slim" disabled={busy} onClick={() => setBody(v.body)}>
+          Load
+        </Button>
+        <Button
+          size="slim"
+          disabled={busy}
+          onClick={() => post({ intent: "restore", templateId: selected!.id, versionId: v.id })}
+        >
+          Restore
+        </Button>
+      </InlineStack>
+    ),
+  ]);
+
+  const active = templates.find((t) => t.id === activeTemplateId) ?? null;
+
+  return (
+    <Page
+      title="Call-script templates"
+      subtitle={
+        active
+          ? `Active: ${active.name} v${active.versions[0]?.version ?? 0}`
+          : "No active template — calls use the prompt from Settings."
+      }
+    >
+      <Layout>
+        <Layout.Section>
+          {result ? <Banner tone={result.ok ? "success" : "critical"} title={result.message} /> : null}
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Library
+              </Text>
+              <Text as="p" tone="subdued">
+                The active template replaces the custom prompt from Settings and follows its prompt mode. Each call
+                records the template version it used.
+              </Text>
+              {libraryRows.length ? (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text"]}
+                  headings={["Template", "Version", "Updated", ""]}
+                  rows={libraryRows as any}
+                />
+              ) : (
+                <Text as="p" tone="subdued">
+                  No templates yet. Start from one of the starters below.
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {selected ? (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Edit template
+                </Text>
+                <FormLayout>
+                  <TextField label="Name" value={name} onChange={setName} autoComplete="off" />
+                  <TextField
+                    label="Script"
+                    value={body}
+                    onChange={setBody}
+                    multiline={12}
+                    autoComplete="off"
+                    maxLength={MAX_TEMPLATE_LENGTH}
+                    showCharacterCount
+                    helpText={`Variables: ${PROMPT_VARIABLES.map((v) => `{{${v.key}}}`).join(", ")}`}
+                  />
+                  {unknown.length ? (
+                    <Banner tone="warning" title="Unknown variables">
+                      {unknown.map((k) => `{{${k}}}`).join(", ")} will be left empty.
+                    </Banner>
+                  ) : null}
+                  <TextField
+                    label="Change note"
+                    value={note}
+                    onChange={setNote}
+                    autoComplete="off"
+                    placeholder="What changed in this version?"
+                  />
+                  <InlineStack gap="200">
+                    <Button
+                      variant="primary"
+                      loading={busy}
+                      disabled={!dirty || !body.trim()}
+                      onClick={() => post({ intent: "save", templateId: selected.id, name, body, note })}
+                    >
+                      Save as new version
+                    </Button>
+                    <Button disabled={!dirty} onClick={() => setBody(latest?.body ?? "")}>
+                      Discard changes
+                    </Button>
+                  </InlineStack>
+                </FormLayout>
+
+                <Text as="h3" variant="headingSm">
+                  Preview (example customer)
+                </Text>
+                <Box padding="300" background="bg-surface-secondary" borderRadius="200">
+                  <Text as="p">
+                    <span style={{ whiteSpace: "pre-wrap" }}>{preview || "-"}</span>
+                  </Text>
+                </Box>
+
+                <Text as="h3" variant="headingSm">
+                  Version history
+                </Text>
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text", "text"]}
+                  headings={["Version", "Saved", "By", "Note", ""]}
+                  rows={historyRows as any}
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ) : null}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Starters
+              </Text>
+              {STARTER_TEMPLATES.map((s) => (
+                <InlineStack key={s.key} align="space-between" blockAlign="center" gap="300">
+                  <BlockStack gap="050">
+                    <Text as="span" fontWeight="semibold">
+                      {s.name}
+                    </Text>
+                    <Text as="span" tone="subdued">
+                      {s.description}
+                    </Text>
+                  </BlockStack>
+                  <Button disabled={busy} onClick={() => post({ intent: "create", starterKey: s.key })}>
+                    Add to library
+                  </Button>
+                </InlineStack>
+              ))}
+              <InlineStack>
+                <Button
+                  disabled={busy}
+                  onClick={() =>
+                    post({ intent: "create", name: "Blank template", body: "You are calling on behalf of {{shop_name}}." })
+                  }
+                >
+                  New blank template
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                Variables
+              </Text>
+              <DataTable
+                columnContentTypes={["text", "text", "text"]}
+                headings={["Variable", "Meaning", "Example"]}
+                rows={PROMPT_VARIABLES.map((v) => [`{{${v.key}}}`, v.help, v.example])}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
 }
 
 export function ErrorBoundary() {
   return boundary.error(useRouteError());
 }
-export const headers: HeadersFunction = (args) => boundary.headers(args);
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
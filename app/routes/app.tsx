@@ -100,7 +100,12 @@ export default function App() {
           Dashboard
         </a>
         <a href={href("/app/checkouts")}>Checkouts</a>
+        <a href={href("/app/sync")}>Checkout sync</a>
         <a href={href("/app/settings")}>Settings</a>
+        <a href={href("/app/rules")}>Rules</a>
+        <a href={href("/app/templates")}>Templates</a>
+        <a href={href("/app/suppressions")}>Do-not-call list</a>
+        <a href={href("/app/logs")}>Logs</a>
         <a href={href("/app/billing")}>Billing</a>
 
         {showAdminInbox ? <a href={href("/app/admin/support")}>Support Inbox</a> : null}
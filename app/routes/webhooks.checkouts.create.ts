@@ -2,6 +2,8 @@ import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { ensureSettings } from "../callRecovery.server";
+import { extractCheckoutConsent } from "../lib/consent.shared";
+import { logEvent } from "../lib/eventLog.server";
 
 function safeJsonParse(s: string) {
   try {
@@ -160,6 +162,7 @@ export async function action({ request }: ActionFunctionArgs) {
   const phone = normalizePhoneForStorage(c?.phone);
 
   const customerName = buildCustomerName(c);
+  const { marketingConsent, smsConsent } = extractCheckoutConsent(c);
   const itemsJson = buildItemsJson(c);
   const { value: parsedValue, currency: parsedCurrency } = extractValueCurrency(c);
 
@@ -207,6 +210,8 @@ export async function action({ request }: ActionFunctionArgs) {
         abandonedAt: nextAbandonedAt,
         customerName,
         itemsJson,
+        marketingConsent,
+        smsConsent,
         raw: JSON.stringify(root ?? null),
       },
       update: {
@@ -219,17 +224,33 @@ export async function action({ request }: ActionFunctionArgs) {
         abandonedAt: nextAbandonedAt,
         customerName,
         itemsJson,
+        marketingConsent: marketingConsent ?? undefined,
+        smsConsent: smsConsent ?? undefined,
         raw: JSON.stringify(root ?? null),
       },
     });
 
     console.log("[CHECKOUTS_CREATE] upsert OK", { shop, checkoutId });
+    await logEvent({
+      shop,
+      checkoutId,
+      code: "CHECKOUT_WEBHOOK",
+      message: `checkouts/create: ${nextStatus}`,
+      details: { hasPhone: Boolean(phone), value, currency, marketingConsent, smsConsent },
+    });
   } catch (e: any) {
     console.error("[CHECKOUTS_CREATE] upsert FAILED", {
       shop,
       checkoutId,
       err: String(e?.message ?? e),
     });
+    await logEvent({
+      shop,
+      checkoutId,
+      level: "error",
+      code: "CHECKOUT_WEBHOOK",
+      message: `checkouts/create failed: ${String(e?.message ?? e)}`,
+    });
   }
 
   return new Response("OK", { status: 200 });
@@ -2,6 +2,8 @@ import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { ensureSettings } from "../callRecovery.server";
+import { extractCheckoutConsent } from "../lib/consent.shared";
+import { logEvent } from "../lib/eventLog.server";
 
 function safeJsonParse(s: string) {
   try {
@@ -160,6 +162,7 @@ export async function action({ request }: ActionFunctionArgs) {
   const completedAt = c?.completed_at ?? c?.completedAt ?? null;
 
   const customerName = buildCustomerName(c);
+  const { marketingConsent, smsConsent } = extractCheckoutConsent(c);
   const itemsJson = buildItemsJson(c);
   const { value: parsedValue, currency: parsedCurrency } = extractValueCurrency(c);
 
@@ -212,6 +215,8 @@ export async function action({ request }: ActionFunctionArgs) {
         abandonedAt: nextAbandonedAt,
         customerName,
         itemsJson,
+        marketingConsent,
+        smsConsent,
         raw: JSON.stringify(root ?? null),
       },
       update: {
@@ -224,17 +229,35 @@ export async function action({ request }: ActionFunctionArgs) {
         abandonedAt: nextAbandonedAt,
         customerName,
         itemsJson,
+        marketingConsent: marketingConsent ?? undefined,
+        smsConsent: smsConsent ?? undefined,
         raw: JSON.stringify(root ?? null),
       },
     });
 
     console.log("[CHECKOUTS_UPDATE] upsert OK", { shop, checkoutId });
+    // Customers edit carts in bursts; one entry per status change every few minutes is enough.
+    await logEvent({
+      shop,
+      checkoutId,
+      code: "CHECKOUT_WEBHOOK",
+      message: `checkouts/update: ${prevStatus || "NEW"} -> ${nextStatus}`,
+      details: { hasPhone: Boolean(phone), value, currency, marketingConsent, smsConsent },
+      dedupeMinutes: 5,
+    });
   } catch (e: any) {
     console.error("[CHECKOUTS_UPDATE] upsert FAILED", {
       shop,
       checkoutId,
       err: String(e?.message ?? e),
     });
+    await logEvent({
+      shop,
+      checkoutId,
+      level: "error",
+      code: "CHECKOUT_WEBHOOK",
+      message: `checkouts/update failed: ${String(e?.message ?? e)}`,
+    });
   }
 
   return new Response("OK", { status: 200 });
@@ -1,6 +1,8 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { logEvent } from "../lib/eventLog.server";
+import { transitionCallJobs } from "../lib/callJobState.server";
 
 function toFloat(v: any) {
   const n = Number.parseFloat(String(v ?? ""));
@@ -84,7 +86,7 @@ export async function action({ request }: ActionFunctionArgs) {
     where: {
       shop,
       checkoutId: matchedCheckoutId,
-      provider: "vapi",
+      provider: { not: null },
     },
     orderBy: { createdAt: "desc" },
     select: { id: true },
@@ -101,16 +103,16 @@ export async function action({ request }: ActionFunctionArgs) {
     });
   }
 
-  await db.callJob.updateMany({
+  const canceled = await transitionCallJobs({
     where: {
       shop,
       checkoutId: matchedCheckoutId,
       status: { in: ["QUEUED", "CALLING"] },
     },
-    data: {
-      status: "CANCELED",
-      outcome: "ORDER_PLACED",
-    },
+    to: "CANCELED",
+    source: "order_webhook",
+    data: { outcome: "ORDER_PLACED" },
+    payload: { orderId },
   });
 
   // Display-only checkout sync.
@@ -123,5 +125,14 @@ export async function action({ request }: ActionFunctionArgs) {
     },
   });
 
+  await logEvent({
+    shop,
+    checkoutId: matchedCheckoutId,
+    callJobId: lastJob?.id ?? null,
+    code: "ORDER_WEBHOOK",
+    message: `Order ${String(o?.name ?? orderId)} placed; checkout converted`,
+    details: { orderId, total, currency, attributed: Boolean(lastJob), canceledJobs: canceled },
+  });
+
   return new Response("OK", { status: 200 });
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+// app/routes/webhooks.retell.ts
+import type { ActionFunctionArgs } from "react-router";
+import { retellVoiceProvider } from "../lib/retellVoice.server";
+import { handleVoiceWebhookEvent } from "../lib/voiceWebhook.server";
+
+/**
+ * POST /webhooks/retell?secret=...
+ * Call events (call_started, call_ended) and send_checkout_offer custom function requests.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const url = new URL(request.url);
+  const secret = url.searchParams.get("secret") ?? "";
+  if (!process.env.RETELL_WEBHOOK_SECRET || secret !== process.env.RETELL_WEBHOOK_SECRET) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const payload = await request.json().catch(() => null);
+  if (!payload) return new Response("Bad Request", { status: 400 });
+
+  const ev = retellVoiceProvider.parseWebhook(payload);
+  if (!ev) {
+    return new Response("OK", { status: 200 });
+  }
+
+  return handleVoiceWebhookEvent(retellVoiceProvider, ev);
+}
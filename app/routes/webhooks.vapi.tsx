@@ -1,8 +1,8 @@
 // app/routes/webhooks.vapi.ts
 import type { ActionFunctionArgs } from "react-router";
-import db from "../db.server";
-import { applyBillingForCall } from "../lib/billing.server";
 import { handleVapiToolsWebhook } from "../callProvider.server";
+import { vapiVoiceProvider } from "../lib/vapiVoice.server";
+import { handleVoiceWebhookEvent } from "../lib/voiceWebhook.server";
 
 function requiredEnv(name: string) {
   const v = process.env[name];
@@ -20,15 +20,6 @@ function safeStr(v: any, max = 4000) {
   return s.length > max ? s.slice(0, max) : s;
 }
 
-function csvFromTags(tags: any): string | null {
-  if (!Array.isArray(tags)) return null;
-  const clean = tags
-    .map((t) => String(t ?? "").trim())
-    .filter(Boolean)
-    .slice(0, 30);
-  return clean.length ? clean.join(",") : null;
-}
-
 // --- NEW: robust JSON extraction without breaking anything else ---
 function stripCodeFences(s: string) {
   const t = safeStr(s, 20000).trim();
@@ -63,79 +54,6 @@ function tryParseJsonObject(text: string): any | null {
   return null;
 }
 
-function clamp01(n: any) {
-  const x = typeof n === "number" ? n : Number(n);
-  if (!Number.isFinite(x)) return 0;
-  if (x < 0) return 0;
-  if (x > 1) return 1;
-  return x;
-}
-
-function normalizeDisposition(v: any) {
-  const s = String(v ?? "").trim().toLowerCase();
-  if (
-    s === "interested" ||
-    s === "needs_support" ||
-    s === "call_back_later" ||
-    s === "not_interested" ||
-    s === "wrong_number" ||
-    s === "unknown"
-  )
-    return s;
-  return "unknown";
-}
-
-function secondsBetweenIso(start?: any, end?: any) {
-  if (!start || !end) return 0;
-  const s = new Date(String(start)).getTime();
-  const e = new Date(String(end)).getTime();
-  if (!Number.isFinite(s) || !Number.isFinite(e)) return 0;
-  return Math.max(0, Math.floor((e - s) / 1000));
-}
-
-function extractConnectedSeconds(msg: any, call: any, artifact: any) {
-  const durationSeconds = Number(
-    msg?.durationSeconds ??
-      msg?.duration_seconds ??
-      call?.durationSeconds ??
-      call?.duration_seconds ??
-      NaN
-  );
-
-  if (Number.isFinite(durationSeconds) && durationSeconds > 0) {
-    return Math.floor(durationSeconds);
-  }
-
-  const startedAt =
-    msg?.startedAt ??
-    msg?.startAt ??
-    call?.startedAt ??
-    call?.startAt ??
-    artifact?.startedAt ??
-    artifact?.startAt ??
-    null;
-
-  const endedAt =
-    msg?.endedAt ??
-    msg?.endAt ??
-    call?.endedAt ??
-    call?.endAt ??
-    artifact?.endedAt ??
-    artifact?.endAt ??
-    null;
-
-  return secondsBetweenIso(startedAt, endedAt);
-}
-
-function detectVoicemail(endedReason: string, msg: any, call: any, artifact: any) {
-  const r = String(endedReason ?? "").toLowerCase();
-  if (r.includes("voicemail") || r.includes("machine")) return true;
-  if (typeof msg?.analysis?.voicemail === "boolean") return msg.analysis.voicemail;
-  if (typeof call?.voicemail === "boolean") return call.voicemail;
-  if (typeof artifact?.voicemail === "boolean") return artifact.voicemail;
-  return false;
-}
-
 /* =========================================================
    NEW: deterministic Vapi tool-calls -> Twilio SMS (server-side)
    - Ignore any LLM "to". Always use message.call.customer.number.
@@ -322,107 +240,6 @@ function normalizeToolCalls(msg: any) {
   return list;
 }
 
-async function analyzeCallWithOpenAI(args: {
-  transcript: string;
-  endedReason?: string | null;
-  shop: string;
-  checkoutId: string;
-}) {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
-  // UPGRADE: still JSON, same flow, just richer keys
-  const input = `
-You are analyzing a phone call between a merchant AI agent and a customer who abandoned checkout.
-
-Return STRICT JSON with exactly these keys:
-{
-  "answered": boolean,
-  "sentiment": "positive" | "neutral" | "negative",
-  "disposition": "interested" | "needs_support" | "call_back_later" | "not_interested" | "wrong_number" | "unknown",
-  "tags": string[],
-  "shortSummary": string,
-  "reason": string,
-  "nextAction": string,
-  "followUp": string,
-  "buyProbability": number,
-  "churnProbability": number,
-  "confidence": number
-}
-
-Rules:
-- answered: true only if there is real engagement (not voicemail/no-answer/busy).
-- tags must be short lowercase tokens (e.g. "price", "shipping", "payment", "timing", "trust", "not_interested", "wrong_number", "needs_support", "coupon_request", "call_back_later").
-- shortSummary: one sentence, plain English.
-- reason: 1-2 sentences, factual.
-- nextAction: ONE concrete step the merchant should do next.
-- followUp: text the merchant can send (SMS/email) in a friendly tone.
-- buyProbability, churnProbability, confidence: 0..1.
-
-Context:
-- shop: ${args.shop}
-- checkoutId: ${args.checkoutId}
-- endedReason: ${args.endedReason ?? "-"}
-Transcript:
-${args.transcript}
-`.trim();
-
-  // OpenAI Responses API (unchanged)
-  const r = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      input,
-      temperature: 0.15,
-      max_output_tokens: 550,
-    }),
-  });
-
-  if (!r.ok) return null;
-
-  const json = await r.json().catch(() => null);
-  if (!json) return null;
-
-  const text =
-    json?.output_text ??
-    json?.output?.[0]?.content?.[0]?.text ??
-    json?.output?.[0]?.content?.[0]?.value ??
-    "";
-
-  const raw = safeStr(text, 8000).trim();
-  if (!raw) return null;
-
-  // Robust parse
-  const parsed = tryParseJsonObject(raw);
-  if (!parsed) return { raw };
-
-  // Normalize + clamp without changing callers
-  const cleaned: any = {
-    answered: Boolean((parsed as any).answered),
-    sentiment: String((parsed as any).sentiment ?? "neutral").toLowerCase(),
-    disposition: normalizeDisposition((parsed as any).disposition),
-    tags: Array.isArray((parsed as any).tags) ? (parsed as any).tags : [],
-    shortSummary: safeStr((parsed as any).shortSummary ?? "", 400),
-    reason: safeStr((parsed as any).reason ?? "", 2000),
-    nextAction: safeStr((parsed as any).nextAction ?? "", 500),
-    followUp: safeStr((parsed as any).followUp ?? "", 1200),
-    buyProbability: clamp01((parsed as any).buyProbability),
-    churnProbability: clamp01((parsed as any).churnProbability),
-    confidence: clamp01((parsed as any).confidence),
-  };
-
-  // fallback sentiment to allowed set
-  if (cleaned.sentiment !== "positive" && cleaned.sentiment !== "neutral" && cleaned.sentiment !== "negative") {
-    cleaned.sentiment = "neutral";
-  }
-
-  return cleaned;
-}
-
 export async function action({ request }: ActionFunctionArgs) {
   const requestForTools = request.clone();
   const url = new URL(request.url);
@@ -434,164 +251,17 @@ export async function action({ request }: ActionFunctionArgs) {
   const payload = await request.json().catch(() => null);
   if (!payload) return new Response("Bad Request", { status: 400 });
 
-  const msg = pickMessage(payload);
-
-  const messageType = String(msg?.type ?? msg?.messageType ?? msg?.event ?? "");
-  const call = msg?.call ?? payload?.call ?? null;
-
-  const metadata = (call?.metadata ?? msg?.metadata ?? payload?.metadata ?? payload?.assistant?.metadata ?? {}) as any;
-  const shop = String(metadata?.shop ?? "").trim();
-  const callJobId = String(metadata?.callJobId ?? "").trim();
-  const checkoutIdMeta = String(metadata?.checkoutId ?? "").trim();
-
-  if (!shop || !callJobId) {
+  const ev = vapiVoiceProvider.parseWebhook(payload);
+  if (!ev) {
     return new Response("OK", { status: 200 });
   }
 
   /* =========================
-     tool-calls handler (shared)
+     tool-calls handler (shared with /api/vapi-tools, incl. its bearer check)
      ========================= */
-  if (messageType === "tool-calls") {
+  if (ev.event.type === "tool_calls") {
     return handleVapiToolsWebhook(requestForTools);
   }
 
-  // status updates (optional)
-  if (messageType === "status-update") {
-    const status = String(msg?.status ?? "").toLowerCase();
-    const newStatus =
-      status === "in-progress" || status === "connected"
-        ? "CALLING"
-        : status === "ended"
-          ? "COMPLETED"
-          : null;
-
-    await db.callJob.updateMany({
-      where: { id: callJobId, shop },
-      data: {
-        status: (newStatus as any) ?? undefined,
-        outcome: safeStr(`VAPI_STATUS: ${status}`, 2000),
-      },
-    });
-
-    return new Response("OK", { status: 200 });
-  }
-
-  // final transcript events
-  if (messageType.startsWith("transcript")) {
-    const transcriptType = String(msg?.transcriptType ?? "");
-    const transcript = safeStr(msg?.transcript ?? "", 20000);
-
-    const isFinal = transcriptType === "final" || messageType.includes('transcriptType="final"');
-
-    if (isFinal && transcript) {
-      await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: {
-          transcript,
-          outcome: safeStr("VAPI_TRANSCRIPT_FINAL_RECEIVED", 2000),
-        },
-      });
-    }
-
-    return new Response("OK", { status: 200 });
-  }
-
-  // end-of-call-report (main value)
-  if (messageType === "end-of-call-report") {
-    const endedReason = safeStr(msg?.endedReason ?? "", 200);
-    const artifact = msg?.artifact ?? {};
-    const transcript = safeStr(artifact?.transcript ?? "", 20000);
-
-    const recordingUrl =
-      artifact?.recording?.url ?? artifact?.recording?.downloadUrl ?? artifact?.recording?.recordingUrl ?? null;
-
-    await db.callJob.updateMany({
-      where: { id: callJobId, shop },
-      data: {
-        status: "COMPLETED",
-        endedReason: endedReason || null,
-        transcript: transcript || null,
-        recordingUrl: recordingUrl ? safeStr(recordingUrl, 2000) : null,
-        outcome: safeStr("VAPI_END_OF_CALL_REPORT", 2000),
-      },
-    });
-
-    const analysis = transcript
-      ? await analyzeCallWithOpenAI({
-          transcript,
-          endedReason: endedReason || null,
-          shop,
-          checkoutId: checkoutIdMeta || "",
-        })
-      : null;
-
-    let answeredForBilling = false;
-
-    if (analysis) {
-      const sentiment = safeStr((analysis as any)?.sentiment ?? "", 30) || null;
-      const tagsCsv = csvFromTags((analysis as any)?.tags) ?? null;
-
-      // keep your old fields, plus richer JSON inside analysisJson
-      const reason = safeStr((analysis as any)?.reason ?? (analysis as any)?.raw ?? "", 2000) || null;
-      const nextAction = safeStr((analysis as any)?.nextAction ?? "", 500) || null;
-      const followUp = safeStr((analysis as any)?.followUp ?? "", 1200) || null;
-
-      const shortSummary = safeStr((analysis as any)?.shortSummary ?? "", 400);
-      const answered = (analysis as any)?.answered;
-      const disposition = safeStr((analysis as any)?.disposition ?? "unknown", 30);
-      const buyProbability = (analysis as any)?.buyProbability;
-
-      answeredForBilling = answered === true;
-
-      await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: {
-          sentiment,
-          tagsCsv,
-          reason,
-          nextAction,
-          followUp,
-          analysisJson: safeStr(JSON.stringify(analysis), 8000),
-          outcome: safeStr(
-            `${sentiment ?? "unknown"} | ${tagsCsv ?? "-"} | ${shortSummary || reason || "no-reason"} | ${
-              answered === true ? "answered" : answered === false ? "no_answer" : "unknown"
-            } | ${disposition} | buy=${Math.round(clamp01(buyProbability) * 100)}%`,
-            2000
-          ),
-        },
-      });
-    }
-
-    // BILLING (rounded minutes happens inside applyBillingForCall)
-    try {
-      const connectedSeconds = extractConnectedSeconds(msg, call, artifact);
-      const voicemail = detectVoicemail(endedReason, msg, call, artifact);
-
-      await applyBillingForCall({
-        shop,
-        callJobId,
-        connectedSeconds,
-        answered: answeredForBilling,
-        voicemail,
-      });
-    } catch (e: any) {
-      // swallow: never fail webhook
-      await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: { outcome: safeStr(`BILLING_ERROR: ${e?.message ?? String(e)}`, 2000) },
-      });
-    }
-
-    return new Response("OK", { status: 200 });
-  }
-
-  // default: store event type for debugging
-  await db.callJob.updateMany({
-    where: { id: callJobId, shop },
-    data: {
-      outcome: safeStr(`VAPI_EVENT: ${messageType || "unknown"}`, 2000),
-    },
-  });
-
-  return new Response("OK", { status: 200 });
-}
\ No newline at end of file
+  return handleVoiceWebhookEvent(vapiVoiceProvider, ev);
+}
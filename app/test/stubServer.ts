@@ -0,0 +1,70 @@
+// app/test/stubServer.ts
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/* =========================
+   Provider API stub (tests only)
+   - A local HTTP server standing in for Vapi / Retell / TTS APIs; point the adapter's *_BASE_URL env at `url`.
+   - Every request is recorded (method, path with query, headers, parsed JSON body) for assertions.
+   ========================= */
+export type StubRequest = {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+};
+
+export type StubReply = {
+  status?: number;
+  json?: any;
+  body?: string | Buffer;
+  headers?: Record<string, string>;
+};
+
+export type StubServer = {
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+};
+
+export async function startStubServer(handler: (req: StubRequest) => StubReply | Promise<StubReply>): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString("utf8");
+
+    let body: any = text || null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // not JSON: keep the text
+    }
+
+    const stubReq: StubRequest = { method: String(req.method ?? "GET"), path: String(req.url ?? "/"), headers: req.headers, body };
+    requests.push(stubReq);
+
+    try {
+      const reply = await handler(stubReq);
+      const payload = reply.json !== undefined ? JSON.stringify(reply.json) : (reply.body ?? "");
+      res.writeHead(reply.status ?? 200, {
+        ...(reply.json !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(reply.headers ?? {}),
+      });
+      res.end(payload);
+    } catch (e: any) {
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end(String(e?.message ?? e));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
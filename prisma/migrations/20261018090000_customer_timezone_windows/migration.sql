@@ -0,0 +1,7 @@
+-- Shop IANA timezone (fallback when the customer's zone can't be inferred)
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "shopTimezone" TEXT;
+
+-- Timezone the call window was evaluated in when the job was scheduled
+ALTER TABLE "CallJob"
+  ADD COLUMN IF NOT EXISTS "timezone" TEXT;
@@ -0,0 +1,3 @@
+-- Weekly call windows + blackout dates + holiday calendars (JSON). NULL = callWindowStart/End every day.
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "callScheduleJson" TEXT;
@@ -0,0 +1,3 @@
+-- Per-outcome retry rules (JSON). NULL = retryMinutes for everything except not_interested / wrong_number.
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "retryPolicyJson" TEXT;
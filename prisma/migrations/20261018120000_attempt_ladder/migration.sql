@@ -0,0 +1,3 @@
+-- Ordered per-attempt timing steps (JSON). NULL = delayMinutes + retry policy delays.
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "attemptLadderJson" TEXT;
@@ -0,0 +1,37 @@
+-- Do-not-call / do-not-contact list per shop
+CREATE TABLE IF NOT EXISTS "Suppression" (
+  "id" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "kind" TEXT NOT NULL,
+  "value" TEXT NOT NULL,
+  "source" TEXT NOT NULL,
+  "reason" TEXT,
+  "checkoutId" TEXT,
+  "callJobId" TEXT,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "removedAt" TIMESTAMP(3),
+
+  CONSTRAINT "Suppression_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Suppression_shop_kind_value_key" ON "Suppression"("shop", "kind", "value");
+CREATE INDEX IF NOT EXISTS "Suppression_shop_removedAt_createdAt_idx" ON "Suppression"("shop", "removedAt", "createdAt");
+
+-- Add/remove history (removals are soft, so the list keeps who/why)
+CREATE TABLE IF NOT EXISTS "SuppressionAudit" (
+  "id" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "kind" TEXT NOT NULL,
+  "value" TEXT NOT NULL,
+  "action" TEXT NOT NULL,
+  "source" TEXT,
+  "reason" TEXT,
+  "actor" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "SuppressionAudit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "SuppressionAudit_shop_createdAt_idx" ON "SuppressionAudit"("shop", "createdAt");
+CREATE INDEX IF NOT EXISTS "SuppressionAudit_shop_kind_value_idx" ON "SuppressionAudit"("shop", "kind", "value");
@@ -0,0 +1,9 @@
+-- Consent captured from checkout webhooks / abandonedCheckouts sync. NULL = unknown.
+ALTER TABLE "Checkout"
+  ADD COLUMN IF NOT EXISTS "marketingConsent" BOOLEAN,
+  ADD COLUMN IF NOT EXISTS "smsConsent" BOOLEAN;
+
+-- Per-shop consent policy: ignore | require | require_in_countries (consentCountries = CSV of ISO2).
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "consentPolicy" TEXT NOT NULL DEFAULT 'ignore',
+  ADD COLUMN IF NOT EXISTS "consentCountries" TEXT;
@@ -0,0 +1,3 @@
+-- Cross-checkout contact caps per phone/email (JSON: { call: {max,hours}|null, sms: {max,hours}|null }). NULL = no caps.
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "contactCapsJson" TEXT;
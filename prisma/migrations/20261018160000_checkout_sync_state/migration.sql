@@ -0,0 +1,22 @@
+-- Per-shop cursor / high-water mark for the abandonedCheckouts sync
+CREATE TABLE IF NOT EXISTS "CheckoutSyncState" (
+  "id" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "highWaterMark" TIMESTAMP(3),
+  "runMode" TEXT,
+  "runSince" TIMESTAMP(3),
+  "runCursor" TEXT,
+  "runStartedAt" TIMESTAMP(3),
+  "runSynced" INTEGER NOT NULL DEFAULT 0,
+  "runFailed" INTEGER NOT NULL DEFAULT 0,
+  "runTotal" INTEGER,
+  "lastRunAt" TIMESTAMP(3),
+  "lastSynced" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "backfillDoneAt" TIMESTAMP(3),
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "CheckoutSyncState_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CheckoutSyncState_shop_key" ON "CheckoutSyncState"("shop");
@@ -0,0 +1,7 @@
+-- Worker leases: a QUEUED job is claimed by one worker until leaseExpiresAt (extended by heartbeats).
+ALTER TABLE "CallJob"
+  ADD COLUMN IF NOT EXISTS "leaseOwner" TEXT,
+  ADD COLUMN IF NOT EXISTS "leaseExpiresAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "heartbeatAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "CallJob_status_scheduledFor_idx" ON "CallJob"("status", "scheduledFor");
@@ -0,0 +1,8 @@
+-- Concurrency limits: per-shop cap on simultaneous calls, and the caller ID each active call uses.
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "maxConcurrentCalls" INTEGER;
+
+ALTER TABLE "CallJob"
+  ADD COLUMN IF NOT EXISTS "callerId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "CallJob_status_callerId_idx" ON "CallJob"("status", "callerId");
@@ -0,0 +1,7 @@
+-- Dial-queue priority: score + breakdown computed at enqueue, merchant-tunable weights.
+ALTER TABLE "CallJob"
+  ADD COLUMN IF NOT EXISTS "priorityScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "priorityJson" TEXT;
+
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "priorityWeightsJson" TEXT;
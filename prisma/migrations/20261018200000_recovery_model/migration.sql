@@ -0,0 +1,19 @@
+-- Recovery-likelihood model: trained weights per shop, latest score per checkout, merchant threshold.
+CREATE TABLE IF NOT EXISTS "RecoveryModelState" (
+  "id" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "modelJson" TEXT,
+  "trainedAt" TIMESTAMP(3),
+  "lastAttemptAt" TIMESTAMP(3),
+  "lastError" TEXT,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "RecoveryModelState_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RecoveryModelState_shop_key" ON "RecoveryModelState"("shop");
+
+ALTER TABLE "Checkout"
+  ADD COLUMN IF NOT EXISTS "recoveryScore" DOUBLE PRECISION;
+
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "minRecoveryScore" INTEGER;
@@ -0,0 +1,7 @@
+-- Merchant call rules: ordered conditions + action, and which rule each job matched.
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "rulesJson" TEXT;
+
+ALTER TABLE "CallJob"
+  ADD COLUMN IF NOT EXISTS "ruleId" TEXT,
+  ADD COLUMN IF NOT EXISTS "ruleName" TEXT;
@@ -0,0 +1,43 @@
+-- Call-script template library: named templates with version history, one active per shop.
+CREATE TABLE IF NOT EXISTS "PromptTemplate" (
+  "id" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "starterKey" TEXT,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  "archivedAt" TIMESTAMP(3),
+  CONSTRAINT "PromptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PromptTemplate_shop_archivedAt_idx" ON "PromptTemplate"("shop", "archivedAt");
+
+CREATE TABLE IF NOT EXISTS "PromptTemplateVersion" (
+  "id" TEXT NOT NULL,
+  "templateId" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "body" TEXT NOT NULL,
+  "note" TEXT,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "PromptTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PromptTemplateVersion_templateId_version_key"
+  ON "PromptTemplateVersion"("templateId", "version");
+
+DO $$
+BEGIN
+  ALTER TABLE "PromptTemplateVersion"
+    ADD CONSTRAINT "PromptTemplateVersion_templateId_fkey"
+    FOREIGN KEY ("templateId") REFERENCES "PromptTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "activePromptTemplateId" TEXT;
+
+ALTER TABLE "CallJob"
+  ADD COLUMN IF NOT EXISTS "templateVersionId" TEXT;
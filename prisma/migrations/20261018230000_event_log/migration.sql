@@ -0,0 +1,20 @@
+-- Persisted, merchant-visible event log with per-shop retention.
+CREATE TABLE IF NOT EXISTS "EventLog" (
+  "id" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "checkoutId" TEXT,
+  "callJobId" TEXT,
+  "level" TEXT NOT NULL DEFAULT 'info',
+  "code" TEXT NOT NULL,
+  "message" TEXT,
+  "detailsJson" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "EventLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "EventLog_shop_createdAt_idx" ON "EventLog"("shop", "createdAt");
+CREATE INDEX IF NOT EXISTS "EventLog_shop_checkoutId_createdAt_idx" ON "EventLog"("shop", "checkoutId", "createdAt");
+CREATE INDEX IF NOT EXISTS "EventLog_shop_code_createdAt_idx" ON "EventLog"("shop", "code", "createdAt");
+
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "eventLogRetentionDays" INTEGER NOT NULL DEFAULT 30;
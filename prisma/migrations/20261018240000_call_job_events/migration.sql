@@ -0,0 +1,23 @@
+-- CallJob status history: one row per accepted status transition (and per job creation).
+CREATE TABLE IF NOT EXISTS "CallJobEvent" (
+  "id" TEXT NOT NULL,
+  "callJobId" TEXT NOT NULL,
+  "shop" TEXT NOT NULL,
+  "fromStatus" "CallJobStatus",
+  "toStatus" "CallJobStatus" NOT NULL,
+  "source" TEXT NOT NULL,
+  "payloadJson" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "CallJobEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CallJobEvent_callJobId_createdAt_idx" ON "CallJobEvent"("callJobId", "createdAt");
+
+DO $$
+BEGIN
+  ALTER TABLE "CallJobEvent"
+    ADD CONSTRAINT "CallJobEvent_callJobId_fkey"
+    FOREIGN KEY ("callJobId") REFERENCES "CallJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
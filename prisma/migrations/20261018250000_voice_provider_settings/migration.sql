@@ -0,0 +1,4 @@
+-- Per-shop voice provider and start-call failover
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "voiceProvider" TEXT,
+  ADD COLUMN IF NOT EXISTS "voiceFailover" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- Vapi assistant / tool provisioning state
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "vapiToolId" TEXT,
+  ADD COLUMN IF NOT EXISTS "vapiProvisionedAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "vapiProvisionError" TEXT;
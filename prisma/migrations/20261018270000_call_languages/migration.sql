@@ -0,0 +1,4 @@
+-- Per-customer call language: enabled languages and fallback
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "callLanguages" TEXT,
+  ADD COLUMN IF NOT EXISTS "fallbackLanguage" TEXT NOT NULL DEFAULT 'en';
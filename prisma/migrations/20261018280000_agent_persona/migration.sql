@@ -0,0 +1,3 @@
+-- Merchant-configurable agent persona
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "personaJson" TEXT;
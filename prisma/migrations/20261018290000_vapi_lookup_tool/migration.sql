@@ -0,0 +1,3 @@
+-- Vapi lookup_product tool created by provisioning
+ALTER TABLE "Settings"
+  ADD COLUMN IF NOT EXISTS "vapiLookupToolId" TEXT;
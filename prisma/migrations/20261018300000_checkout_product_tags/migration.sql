@@ -0,0 +1,3 @@
+-- Product tags by product id, kept across checkout webhooks (which carry no tags)
+ALTER TABLE "Checkout"
+  ADD COLUMN IF NOT EXISTS "productTagsJson" TEXT;
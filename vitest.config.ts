@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Separate from vite.config.ts: unit tests don't need the React Router / Shopify dev server setup.
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});